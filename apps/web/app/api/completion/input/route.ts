@@ -0,0 +1,83 @@
+import { auth } from '@clerk/nextjs/server';
+import { getChatModeConfig } from '@repo/shared/config';
+import { geolocation } from '@vercel/functions';
+import { NextRequest } from 'next/server';
+import { getSuspendedRunForUser } from '../persistence';
+import { createCompletionStream, resumeStream } from '../stream-handlers';
+import { inputRequestSchema, SSE_HEADERS } from '../types';
+import { getIp } from '../utils';
+
+// Continues a workflow that is suspended on user input. Credits are charged for the
+// run's mode when the resumed run finishes, same as a regular completion.
+export async function POST(request: NextRequest) {
+    if (request.method === 'OPTIONS') {
+        return new Response(null, { headers: SSE_HEADERS });
+    }
+
+    try {
+        const session = await auth();
+        const userId = session?.userId ?? undefined;
+
+        const parsed = await request.json().catch(() => ({}));
+        const validatedBody = inputRequestSchema.safeParse(parsed);
+
+        if (!validatedBody.success) {
+            return new Response(
+                JSON.stringify({
+                    error: 'Invalid request body',
+                    details: validatedBody.error.format(),
+                }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const { data } = validatedBody;
+        const ip = getIp(request);
+
+        if (!ip) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        // Only its owner may resume a run, which goes on in the mode it was started in
+        const run = await getSuspendedRunForUser(data.threadId, { userId, ip });
+        if (!run) {
+            return new Response(JSON.stringify({ error: 'No suspended workflow found' }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        if (!!getChatModeConfig(run.mode)?.isAuthRequired && !userId) {
+            return new Response(JSON.stringify({ error: 'Authentication required' }), {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        const abortController = new AbortController();
+
+        request.signal.addEventListener('abort', () => {
+            abortController.abort();
+        });
+
+        const stream = createCompletionStream({
+            data: { ...data, mode: run.mode },
+            userId,
+            ip,
+            abortController,
+            gl: geolocation(request),
+            execute: resumeStream,
+        });
+
+        return new Response(stream, { headers: SSE_HEADERS });
+    } catch (error) {
+        console.error('Error in POST handler:', error);
+        return new Response(
+            JSON.stringify({ error: 'Internal server error', details: String(error) }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
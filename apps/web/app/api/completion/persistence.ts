@@ -0,0 +1,77 @@
+import { WorkflowContextSchema, WorkflowEventSchema } from '@repo/ai/workflow';
+import { PersistenceLayer } from '@repo/orchestrator';
+import { KvStorageAdapter } from '@repo/orchestrator/storage';
+import { ChatModeId } from '@repo/shared/config';
+import { kv } from '@vercel/kv';
+import { isRunOwner } from './utils';
+
+const SUSPENDED_RUN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Runs are saved after each task, so a suspended or interrupted run is kept until it's continued or expires
+export const workflowPersistence = new PersistenceLayer<WorkflowEventSchema, WorkflowContextSchema>(
+    new KvStorageAdapter({ client: kv, namespace: 'workflows' }),
+    { ttlMs: SUSPENDED_RUN_TTL_MS }
+);
+
+// Who started a run and in which mode, the mode a resume is authorized and charged for
+export type SuspendedRunOwner = {
+    userId?: string;
+    ip?: string;
+    mode: ChatModeId;
+};
+
+const runOwners = new KvStorageAdapter({ client: kv, namespace: 'workflow-owners' });
+
+export const saveSuspendedRun = async (
+    threadId: string,
+    workflow: any,
+    owner: SuspendedRunOwner
+) => {
+    await Promise.all([
+        workflowPersistence.saveWorkflow(threadId, workflow),
+        runOwners.save(threadId, owner, { ttlMs: SUSPENDED_RUN_TTL_MS }),
+    ]);
+};
+
+// Recorded before the run starts, its snapshot is saved by the engine as tasks complete
+export const saveRunOwner = async (threadId: string, owner: SuspendedRunOwner) => {
+    await runOwners.save(threadId, owner, { ttlMs: SUSPENDED_RUN_TTL_MS });
+};
+
+export const deleteSuspendedRun = async (threadId: string) => {
+    await Promise.all([workflowPersistence.deleteWorkflow(threadId), runOwners.delete(threadId)]);
+};
+
+// Runs of signed-in users resume only for them, anonymous runs only from the same IP
+export const getSuspendedRunForUser = async (
+    threadId: string,
+    user: { userId?: string; ip?: string }
+): Promise<SuspendedRunOwner | null> => {
+    const owner: SuspendedRunOwner | null = await runOwners.load(threadId);
+    return owner && isRunOwner(owner, user) ? owner : null;
+};
+
+// A cut-off run of the same thread item, question and mode, e.g. after a timeout, is continued
+export const loadInterruptedRun = async (
+    {
+        threadId,
+        threadItemId,
+        prompt,
+        mode,
+    }: { threadId: string; threadItemId: string; prompt: string; mode: ChatModeId },
+    user: { userId?: string; ip?: string },
+    builderFactory: () => any
+) => {
+    const owner = await getSuspendedRunForUser(threadId, user);
+    if (owner?.mode !== mode) return null;
+
+    // Snapshots that fail to load, e.g. from a newer deployment, are started over
+    const workflow = await workflowPersistence
+        .loadWorkflow(threadId, builderFactory)
+        .catch(() => null);
+    const context = workflow?.getContext();
+    if (context?.get('threadItemId') !== threadItemId || context?.get('question') !== prompt) {
+        return null;
+    }
+    return !workflow.isSuspended() && workflow.isResumable() ? workflow : null;
+};
@@ -0,0 +1,92 @@
+import { RunHandler, WorkflowRunQueue } from '@repo/orchestrator';
+import { RedisQueueAdapter } from '@repo/orchestrator/queue';
+import { KvStorageAdapter } from '@repo/orchestrator/storage';
+import { getChatModeCreditCost } from '@repo/shared/config';
+import { Geo } from '@vercel/functions';
+import { kv } from '@vercel/kv';
+import { deductCredits } from './credit-service';
+import { executeStream } from './stream-handlers';
+import { CompletionRequestType } from './types';
+
+export type QueuedCompletion = {
+    data: CompletionRequestType;
+    userId?: string;
+    ip?: string;
+    gl?: Geo;
+    // Returned only to the submitter, proves access to an anonymous run
+    runToken: string;
+};
+
+// A run is accepted by one instance and executed and read by others, so queued runs need
+// the queue shared through Redis. Without it completions are only streamed
+export const isWorkflowQueueEnabled = process.env.WORKFLOW_QUEUE === 'redis';
+
+// Executed after the submitting request in `waitUntil`, and by /api/runs/worker for runs
+// that were cut off or left over
+export const workflowRuns = new WorkflowRunQueue<QueuedCompletion, Record<string, any>>({
+    adapter: new RedisQueueAdapter({ client: kv, namespace: 'workflow-runs' }),
+    storage: new KvStorageAdapter({ client: kv, namespace: 'workflow-runs' }),
+});
+
+/**
+ * Runs a queued completion with the same handler as the streaming route. The SSE frames
+ * it writes are published as they are, so subscribers receive the same stream.
+ */
+export const executeQueuedCompletion: RunHandler<QueuedCompletion> = async ({
+    run,
+    publish,
+    signal,
+}) => {
+    const { data, userId, ip, gl } = run.payload;
+    const abortController = new AbortController();
+    signal.addEventListener('abort', () => abortController.abort(), { once: true });
+
+    const decoder = new TextDecoder();
+    // Published one after the other, so the log keeps the order of the frames
+    let published = Promise.resolve();
+    const controller = {
+        enqueue: (chunk: Uint8Array) => {
+            const frame = decoder.decode(chunk);
+            if (frame) {
+                published = published.then(() => publish(frame));
+            }
+        },
+    };
+
+    try {
+        const { suspended, state } = await executeStream({
+            controller,
+            encoder: new TextEncoder(),
+            data,
+            abortController,
+            userId,
+            ip,
+            gl,
+            onFinish: async () => {
+                await deductCredits({ userId, ip }, getChatModeCreditCost(data.mode));
+            },
+        });
+        return { status: suspended ? 'suspended' : 'completed', result: state };
+    } finally {
+        await published;
+    }
+};
+
+// Sent by the client with every request for a run, as returned with its id on submit
+export const RUN_TOKEN_HEADER = 'X-Run-Token';
+
+// Runs of signed-in users are only visible to them, anonymous runs to whoever holds their token
+export const getRunForUser = async (
+    runId: string,
+    { userId, runToken }: { userId?: string; runToken?: string | null }
+) => {
+    if (!isWorkflowQueueEnabled) return null;
+    const run = await workflowRuns.getRun(runId);
+    if (!run) return null;
+
+    const { payload } = run;
+    const hasAccess = payload.userId
+        ? payload.userId === userId
+        : !!runToken && payload.runToken === runToken;
+    return hasAccess ? run : null;
+};
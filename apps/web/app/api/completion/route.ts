@@ -1,17 +1,16 @@
 import { auth } from '@clerk/nextjs/server';
-import { CHAT_MODE_CREDIT_COSTS, ChatModeConfig } from '@repo/shared/config';
-import { Geo, geolocation } from '@vercel/functions';
+import { getChatModeConfig, getChatModeCreditCost } from '@repo/shared/config';
+import { geolocation, waitUntil } from '@vercel/functions';
 import { NextRequest } from 'next/server';
-import {
-    DAILY_CREDITS_AUTH,
-    DAILY_CREDITS_IP,
-    deductCredits,
-    getRemainingCredits,
-} from './credit-service';
-import { executeStream, sendMessage } from './stream-handlers';
+import { DAILY_CREDITS_AUTH, DAILY_CREDITS_IP, getRemainingCredits } from './credit-service';
+import { executeQueuedCompletion, isWorkflowQueueEnabled, workflowRuns } from './queue';
+import { createCompletionStream, executeStream } from './stream-handlers';
 import { completionRequestSchema, SSE_HEADERS } from './types';
 import { getIp } from './utils';
 
+// Queued runs are executed after the response, and take as long as a streamed one
+export const maxDuration = 800;
+
 export async function POST(request: NextRequest) {
     if (request.method === 'OPTIONS') {
         return new Response(null, { headers: SSE_HEADERS });
@@ -35,7 +34,15 @@ export async function POST(request: NextRequest) {
         }
 
         const { data } = validatedBody;
-        const creditCost = CHAT_MODE_CREDIT_COSTS[data.mode];
+        const chatModeConfig = getChatModeConfig(data.mode);
+        if (!chatModeConfig) {
+            return new Response(JSON.stringify({ error: `Unknown model "${data.mode}"` }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        const creditCost = getChatModeCreditCost(data.mode);
         const ip = getIp(request);
 
         if (!ip) {
@@ -54,7 +61,7 @@ export async function POST(request: NextRequest) {
 
         console.log('remainingCredits', remainingCredits, creditCost, process.env.NODE_ENV);
 
-        if (!!ChatModeConfig[data.mode]?.isAuthRequired && !userId) {
+        if (!!chatModeConfig.isAuthRequired && !userId) {
             return new Response(JSON.stringify({ error: 'Authentication required' }), {
                 status: 401,
                 headers: { 'Content-Type': 'application/json' },
@@ -68,8 +75,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const enhancedHeaders = {
-            ...SSE_HEADERS,
+        const creditHeaders = {
             'X-Credits-Available': remainingCredits.toString(),
             'X-Credits-Cost': creditCost.toString(),
             'X-Credits-Daily-Allowance': userId
@@ -77,6 +83,41 @@ export async function POST(request: NextRequest) {
                 : DAILY_CREDITS_IP.toString(),
         };
 
+        // The run outlives this request, progress is read from /api/runs/[runId]/events
+        if (data.execution === 'queue') {
+            if (!isWorkflowQueueEnabled) {
+                return new Response(
+                    JSON.stringify({ error: 'Queued runs are not enabled on this server' }),
+                    { status: 400, headers: { 'Content-Type': 'application/json' } }
+                );
+            }
+
+            const runToken = globalThis.crypto.randomUUID();
+            const run = await workflowRuns.submit({
+                data,
+                userId,
+                ip,
+                gl: geolocation(request),
+                runToken,
+            });
+            // Takes the oldest queued run, which is this one unless others are waiting
+            waitUntil(
+                workflowRuns.processNext(executeQueuedCompletion).catch(error => {
+                    console.error('Error processing queued run:', error);
+                })
+            );
+
+            return new Response(JSON.stringify({ runId: run.id, runToken, status: run.status }), {
+                status: 202,
+                headers: { 'Content-Type': 'application/json', ...creditHeaders },
+            });
+        }
+
+        const enhancedHeaders = {
+            ...SSE_HEADERS,
+            ...creditHeaders,
+        };
+
         const encoder = new TextEncoder();
         const abortController = new AbortController();
 
@@ -94,6 +135,7 @@ export async function POST(request: NextRequest) {
             ip,
             abortController,
             gl,
+            execute: executeStream,
         });
 
         return new Response(stream, { headers: enhancedHeaders });
@@ -105,86 +147,3 @@ export async function POST(request: NextRequest) {
         );
     }
 }
-
-function createCompletionStream({
-    data,
-    userId,
-    ip,
-    abortController,
-    gl,
-}: {
-    data: any;
-    userId?: string;
-    ip?: string;
-    abortController: AbortController;
-    gl: Geo;
-}) {
-    const encoder = new TextEncoder();
-
-    return new ReadableStream({
-        async start(controller) {
-            let heartbeatInterval: NodeJS.Timeout | null = null;
-
-            heartbeatInterval = setInterval(() => {
-                controller.enqueue(encoder.encode(': heartbeat\n\n'));
-            }, 15000);
-
-            try {
-                await executeStream({
-                    controller,
-                    encoder,
-                    data,
-                    abortController,
-                    gl,
-                    userId: userId ?? undefined,
-                    onFinish: async () => {
-                        // if (process.env.NODE_ENV === 'development') {
-                        //     return;
-                        // }
-                        const creditCost =
-                            CHAT_MODE_CREDIT_COSTS[
-                                data.mode as keyof typeof CHAT_MODE_CREDIT_COSTS
-                            ];
-                        await deductCredits(
-                            {
-                                userId: userId ?? undefined,
-                                ip: ip ?? undefined,
-                            },
-                            creditCost
-                        );
-                    },
-                });
-            } catch (error) {
-                if (abortController.signal.aborted) {
-                    console.log('abortController.signal.aborted');
-                    sendMessage(controller, encoder, {
-                        type: 'done',
-                        status: 'aborted',
-                        threadId: data.threadId,
-                        threadItemId: data.threadItemId,
-                        parentThreadItemId: data.parentThreadItemId,
-                    });
-                } else {
-                    console.log('sending error message');
-                    sendMessage(controller, encoder, {
-                        type: 'done',
-                        status: 'error',
-                        error: error instanceof Error ? error.message : String(error),
-                        threadId: data.threadId,
-                        threadItemId: data.threadItemId,
-                        parentThreadItemId: data.parentThreadItemId,
-                    });
-                }
-            } finally {
-                if (heartbeatInterval) {
-                    clearInterval(heartbeatInterval);
-                }
-                controller.close();
-            }
-        },
-        cancel() {
-            console.log('cancelling stream');
-            abortController.abort();
-        },
-    });
-}
@@ -1,13 +1,21 @@
 import { runWorkflow } from '@repo/ai/workflow';
-import { CHAT_MODE_CREDIT_COSTS } from '@repo/shared/config';
+import { ChatModeId, getChatModeCreditCost } from '@repo/shared/config';
 import { logger } from '@repo/shared/logger';
 import { EVENT_TYPES, posthog } from '@repo/shared/posthog';
 import { Geo } from '@vercel/functions';
-import { CompletionRequestType, StreamController } from './types';
+import { deductCredits } from './credit-service';
+import {
+    deleteSuspendedRun,
+    loadInterruptedRun,
+    saveRunOwner,
+    saveSuspendedRun,
+    workflowPersistence,
+} from './persistence';
+import { CompletionRequestType, InputRequestType, StreamController } from './types';
 import { sanitizePayloadForJSON } from './utils';
 
 export function sendMessage(
-    controller: StreamController,
+    controller: Pick<StreamController, 'enqueue'>,
     encoder: TextEncoder,
     payload: Record<string, any>
 ) {
@@ -17,7 +25,9 @@ export function sendMessage(
         }
 
         const sanitizedPayload = sanitizePayloadForJSON(payload);
-        const message = `event: ${payload.type}\ndata: ${JSON.stringify(sanitizedPayload)}\n\n`;
+        // Workflow events carry their sequence number as the SSE id
+        const id = typeof payload.seq === 'number' ? `id: ${payload.seq}\n` : '';
+        const message = `${id}event: ${payload.type}\ndata: ${JSON.stringify(sanitizedPayload)}\n\n`;
 
         controller.enqueue(encoder.encode(message));
         controller.enqueue(new Uint8Array(0));
@@ -45,6 +55,50 @@ export function normalizeMarkdownContent(content: string): string {
     return normalizedContent;
 }
 
+function forwardWorkflowEvents({
+    workflow,
+    controller,
+    encoder,
+    data,
+}: {
+    workflow: ReturnType<typeof runWorkflow>;
+    controller: Pick<StreamController, 'enqueue'>;
+    encoder: TextEncoder;
+    data: CompletionRequestType | InputRequestType;
+}) {
+    workflow.onAll((event, payload, { seq, timestamp }) => {
+        sendMessage(controller, encoder, {
+            type: event,
+            seq,
+            timestamp,
+            threadId: data.threadId,
+            threadItemId: data.threadItemId,
+            parentThreadItemId: data.parentThreadItemId,
+            query: data.prompt,
+            mode: data.mode,
+            webSearch: data.webSearch || false,
+            showSuggestions: data.showSuggestions || false,
+            [event]: payload,
+        });
+    });
+}
+
+// Checkpoints feed the time-travel dev page at /dev/checkpoints, they aren't taken otherwise
+const checkpoints = { enabled: process.env.NODE_ENV === 'development' };
+
+function saveCheckpointsInDevelopment(workflow: ReturnType<typeof runWorkflow>) {
+    if (process.env.NODE_ENV !== 'development') return;
+
+    workflow.onCheckpoint(checkpoint => {
+        workflowPersistence.saveCheckpoint(checkpoint).catch(error => {
+            logger.error('Error saving workflow checkpoint', error, {
+                threadId: checkpoint.workflowId,
+                taskName: checkpoint.taskName,
+            });
+        });
+    });
+}
+
 export async function executeStream({
     controller,
     encoder,
@@ -52,60 +106,67 @@ export async function executeStream({
     abortController,
     gl,
     userId,
+    ip,
     onFinish,
 }: {
-    controller: StreamController;
+    // Only written to, queued runs pass a writer that publishes the frames
+    controller: Pick<StreamController, 'enqueue'>;
     encoder: TextEncoder;
     data: CompletionRequestType;
     abortController: AbortController;
     userId?: string;
+    ip?: string;
     gl?: Geo;
     onFinish?: () => Promise<void>;
-}): Promise<{ success: boolean } | Response> {
+}): Promise<{ success: boolean; suspended: boolean; state?: Record<string, any> }> {
     try {
-        const creditCost = CHAT_MODE_CREDIT_COSTS[data.mode];
+        const creditCost = getChatModeCreditCost(data.mode);
 
         const { signal } = abortController;
 
-        const workflow = runWorkflow({
-            mode: data.mode,
-            question: data.prompt,
-            threadId: data.threadId,
-            threadItemId: data.threadItemId,
-            messages: data.messages,
-            customInstructions: data.customInstructions,
-            webSearch: data.webSearch || false,
-            config: {
-                maxIterations: data.maxIterations || 3,
-                signal,
-            },
-            gl,
-            mcpConfig: data.mcpConfig || {},
-            showSuggestions: data.showSuggestions || false,
-            onFinish: onFinish,
-        });
-
-        workflow.onAll((event, payload) => {
-            sendMessage(controller, encoder, {
-                type: event,
+        const buildWorkflow = () =>
+            runWorkflow({
+                mode: data.mode,
+                question: data.prompt,
                 threadId: data.threadId,
                 threadItemId: data.threadItemId,
-                parentThreadItemId: data.parentThreadItemId,
-                query: data.prompt,
-                mode: data.mode,
+                messages: data.messages,
+                summary: data.summary,
+                customInstructions: data.customInstructions,
                 webSearch: data.webSearch || false,
+                config: {
+                    signal,
+                    checkpoints,
+                },
+                gl,
+                mcpConfig: data.mcpConfig || {},
                 showSuggestions: data.showSuggestions || false,
-                [event]: payload,
+                persistence: workflowPersistence,
+                approvePlan: data.approvePlan || false,
+                onFinish: onFinish,
             });
-        });
+
+        const interrupted = await loadInterruptedRun(data, { userId, ip }, buildWorkflow);
+        const workflow: ReturnType<typeof runWorkflow> = interrupted ?? buildWorkflow();
+        if (!interrupted) {
+            await saveRunOwner(data.threadId, { userId, ip, mode: data.mode });
+        }
+
+        forwardWorkflowEvents({ workflow, controller, encoder, data });
+        saveCheckpointsInDevelopment(workflow);
 
         if (process.env.NODE_ENV === 'development') {
             logger.debug('Starting workflow', { threadId: data.threadId });
         }
 
-        await workflow.start('router', {
-            question: data.prompt,
-        });
+        if (interrupted) {
+            logger.info('Resuming interrupted workflow', { threadId: data.threadId });
+            await workflow.resume();
+        } else {
+            await workflow.start('router', {
+                question: data.prompt,
+            });
+        }
 
         if (process.env.NODE_ENV === 'development') {
             logger.debug('Workflow completed', { threadId: data.threadId });
@@ -125,22 +186,31 @@ export async function executeStream({
                     threadItemId: data.threadItemId,
                     parentThreadItemId: data.parentThreadItemId,
                     summary: workflow.getTimingSummary(),
+                    usage: workflow.getUsageSummary(),
                 },
             });
 
         console.log('[WORKFLOW SUMMARY]', workflow.getTimingSummary());
 
         posthog.flush();
+        await workflow.flushTraces();
+
+        const suspended = workflow.isSuspended();
+        if (suspended) {
+            await saveSuspendedRun(data.threadId, workflow, { userId, ip, mode: data.mode });
+        } else {
+            await deleteSuspendedRun(data.threadId);
+        }
 
         sendMessage(controller, encoder, {
             type: 'done',
-            status: 'complete',
+            status: suspended ? 'suspended' : 'complete',
             threadId: data.threadId,
             threadItemId: data.threadItemId,
             parentThreadItemId: data.parentThreadItemId,
         });
 
-        return { success: true };
+        return { success: true, suspended, state: workflow.getEvents()?.getAllState() };
     } catch (error) {
         if (abortController.signal.aborted) {
             // Aborts are normal user actions, not errors
@@ -176,3 +246,228 @@ export async function executeStream({
         throw error;
     }
 }
+
+export async function resumeStream({
+    controller,
+    encoder,
+    data,
+    abortController,
+    gl,
+    userId,
+    ip,
+    onFinish,
+}: {
+    controller: StreamController;
+    encoder: TextEncoder;
+    // With the mode of the suspended run, not the one the client sent
+    data: InputRequestType;
+    abortController: AbortController;
+    userId?: string;
+    ip?: string;
+    gl?: Geo;
+    onFinish?: () => Promise<void>;
+}): Promise<{ success: boolean } | Response> {
+    try {
+        const { signal } = abortController;
+
+        const workflow: ReturnType<typeof runWorkflow> | null =
+            await workflowPersistence.loadWorkflow(data.threadId, () =>
+                runWorkflow({
+                    mode: data.mode,
+                    question: data.prompt,
+                    threadId: data.threadId,
+                    threadItemId: data.threadItemId,
+                    messages: [],
+                    customInstructions: data.customInstructions,
+                    webSearch: data.webSearch || false,
+                    config: {
+                        signal,
+                        checkpoints,
+                    },
+                    gl,
+                    mcpConfig: data.mcpConfig || {},
+                    showSuggestions: data.showSuggestions || false,
+                    persistence: workflowPersistence,
+                    onFinish: onFinish,
+                })
+            );
+
+        // A newer message in the thread replaces the suspended run
+        if (!workflow || workflow.getContext()?.get('threadItemId') !== data.threadItemId) {
+            throw new Error('No suspended workflow found for this thread item');
+        }
+
+        forwardWorkflowEvents({ workflow, controller, encoder, data });
+        saveCheckpointsInDevelopment(workflow);
+
+        if (process.env.NODE_ENV === 'development') {
+            logger.debug('Resuming workflow', { threadId: data.threadId, key: data.key });
+        }
+
+        await workflow.provideInput(data.key, data.value);
+
+        const suspended = workflow.isSuspended();
+        if (suspended) {
+            await saveSuspendedRun(data.threadId, workflow, { userId, ip, mode: data.mode });
+        } else {
+            await deleteSuspendedRun(data.threadId);
+        }
+
+        userId &&
+            posthog.capture({
+                event: EVENT_TYPES.WORKFLOW_SUMMARY,
+                userId,
+                properties: {
+                    userId,
+                    query: data.prompt,
+                    mode: data.mode,
+                    webSearch: data.webSearch || false,
+                    showSuggestions: data.showSuggestions || false,
+                    threadId: data.threadId,
+                    threadItemId: data.threadItemId,
+                    parentThreadItemId: data.parentThreadItemId,
+                    summary: workflow.getTimingSummary(),
+                    usage: workflow.getUsageSummary(),
+                },
+            });
+
+        posthog.flush();
+        await workflow.flushTraces();
+
+        sendMessage(controller, encoder, {
+            type: 'done',
+            status: suspended ? 'suspended' : 'complete',
+            threadId: data.threadId,
+            threadItemId: data.threadItemId,
+            parentThreadItemId: data.parentThreadItemId,
+        });
+
+        return { success: true };
+    } catch (error) {
+        if (abortController.signal.aborted) {
+            sendMessage(controller, encoder, {
+                type: 'done',
+                status: 'aborted',
+                threadId: data.threadId,
+                threadItemId: data.threadItemId,
+                parentThreadItemId: data.parentThreadItemId,
+            });
+        } else {
+            logger.error('Workflow resume error', error, {
+                userId,
+                threadId: data.threadId,
+                mode: data.mode,
+            });
+
+            sendMessage(controller, encoder, {
+                type: 'done',
+                status: 'error',
+                error: error instanceof Error ? error.message : String(error),
+                threadId: data.threadId,
+                threadItemId: data.threadItemId,
+                parentThreadItemId: data.parentThreadItemId,
+            });
+        }
+
+        throw error;
+    }
+}
+
+export function createCompletionStream<
+    T extends {
+        mode: ChatModeId;
+        threadId: string;
+        threadItemId: string;
+        parentThreadItemId: string;
+    },
+>({
+    data,
+    userId,
+    ip,
+    abortController,
+    gl,
+    execute,
+}: {
+    data: T;
+    userId?: string;
+    ip?: string;
+    abortController: AbortController;
+    gl: Geo;
+    execute: (args: {
+        controller: StreamController;
+        encoder: TextEncoder;
+        data: T;
+        abortController: AbortController;
+        userId?: string;
+        ip?: string;
+        gl?: Geo;
+        onFinish?: () => Promise<void>;
+    }) => Promise<{ success: boolean } | Response>;
+}) {
+    const encoder = new TextEncoder();
+
+    return new ReadableStream({
+        async start(controller) {
+            let heartbeatInterval: NodeJS.Timeout | null = null;
+
+            heartbeatInterval = setInterval(() => {
+                controller.enqueue(encoder.encode(': heartbeat\n\n'));
+            }, 15000);
+
+            try {
+                await execute({
+                    controller,
+                    encoder,
+                    data,
+                    abortController,
+                    gl,
+                    userId: userId ?? undefined,
+                    ip: ip ?? undefined,
+                    onFinish: async () => {
+                        // if (process.env.NODE_ENV === 'development') {
+                        //     return;
+                        // }
+                        const creditCost = getChatModeCreditCost(data.mode);
+                        await deductCredits(
+                            {
+                                userId: userId ?? undefined,
+                                ip: ip ?? undefined,
+                            },
+                            creditCost
+                        );
+                    },
+                });
+            } catch (error) {
+                if (abortController.signal.aborted) {
+                    console.log('abortController.signal.aborted');
+                    sendMessage(controller, encoder, {
+                        type: 'done',
+                        status: 'aborted',
+                        threadId: data.threadId,
+                        threadItemId: data.threadItemId,
+                        parentThreadItemId: data.parentThreadItemId,
+                    });
+                } else {
+                    console.log('sending error message');
+                    sendMessage(controller, encoder, {
+                        type: 'done',
+                        status: 'error',
+                        error: error instanceof Error ? error.message : String(error),
+                        threadId: data.threadId,
+                        threadItemId: data.threadItemId,
+                        parentThreadItemId: data.parentThreadItemId,
+                    });
+                }
+            } finally {
+                if (heartbeatInterval) {
+                    clearInterval(heartbeatInterval);
+                }
+                controller.close();
+            }
+        },
+        cancel() {
+            console.log('cancelling stream');
+            abortController.abort();
+        },
+    });
+}
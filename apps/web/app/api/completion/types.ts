@@ -1,22 +1,57 @@
-import { ChatMode } from '@repo/shared/config';
+import { ChatMode, CustomChatMode, isCustomChatMode } from '@repo/shared/config';
 import { z } from 'zod';
 
+// A built-in chat mode or `<provider id>/<model id>` of a registered provider
+const chatModeSchema = z.union([
+    z.nativeEnum(ChatMode),
+    z.custom<CustomChatMode>(mode => typeof mode === 'string' && isCustomChatMode(mode)),
+]);
+
+// Summaries are written to at most 300 words, the client sends them back with each request
+const MAX_SUMMARY_LENGTH = 6000;
+
 export const completionRequestSchema = z.object({
     threadId: z.string(),
     threadItemId: z.string(),
     parentThreadItemId: z.string(),
     prompt: z.string(),
     messages: z.any(),
-    mode: z.nativeEnum(ChatMode),
-    maxIterations: z.number().optional(),
+    // The thread's rolling summary of turns left out of `messages`
+    summary: z
+        .object({
+            text: z.string().max(MAX_SUMMARY_LENGTH),
+            threadItemIds: z.array(z.string()),
+        })
+        .optional(),
+    mode: chatModeSchema,
     mcpConfig: z.record(z.string(), z.string()).optional(),
     webSearch: z.boolean().optional(),
     showSuggestions: z.boolean().optional(),
     customInstructions: z.string().optional(),
+    approvePlan: z.boolean().optional(),
+    // 'queue' runs the workflow in a worker and answers with a run id to subscribe to
+    execution: z.enum(['stream', 'queue']).optional(),
 });
 
 export type CompletionRequestType = z.infer<typeof completionRequestSchema>;
 
+// Answers a run that is suspended on `awaitInput`
+export const inputRequestSchema = z.object({
+    threadId: z.string(),
+    threadItemId: z.string(),
+    parentThreadItemId: z.string(),
+    prompt: z.string(),
+    mode: chatModeSchema,
+    key: z.string(),
+    value: z.any(),
+    mcpConfig: z.record(z.string(), z.string()).optional(),
+    webSearch: z.boolean().optional(),
+    showSuggestions: z.boolean().optional(),
+    customInstructions: z.string().optional(),
+});
+
+export type InputRequestType = z.infer<typeof inputRequestSchema>;
+
 export type AgentEventResponse = {
     threadId: string;
     threadItemId: string;
@@ -0,0 +1,27 @@
+/// <reference types="bun-types" />
+import { describe, expect, test } from 'bun:test';
+import { isRunOwner } from './utils';
+
+describe('isRunOwner', () => {
+    test('gives a signed-in run only to the same user, whatever the IP', () => {
+        const owner = { userId: 'user-1', ip: '10.0.0.1' };
+
+        expect(isRunOwner(owner, { userId: 'user-1', ip: '10.0.0.2' })).toBe(true);
+        expect(isRunOwner(owner, { userId: 'user-2', ip: '10.0.0.1' })).toBe(false);
+        expect(isRunOwner(owner, { ip: '10.0.0.1' })).toBe(false);
+    });
+
+    test('gives an anonymous run only to the same IP', () => {
+        const owner = { ip: '10.0.0.1' };
+
+        expect(isRunOwner(owner, { ip: '10.0.0.1' })).toBe(true);
+        expect(isRunOwner(owner, { userId: 'user-1', ip: '10.0.0.1' })).toBe(true);
+        expect(isRunOwner(owner, { ip: '10.0.0.2' })).toBe(false);
+        expect(isRunOwner(owner, {})).toBe(false);
+    });
+
+    test('gives a run without a recorded owner to no one', () => {
+        expect(isRunOwner({}, { ip: '10.0.0.1' })).toBe(false);
+        expect(isRunOwner({}, {})).toBe(false);
+    });
+});
@@ -45,3 +45,11 @@ export function getIp(req: Request | NextApiRequest): string | null {
 
     return null;
 }
+
+// Runs of signed-in users belong only to them, anonymous runs only to the same IP
+export function isRunOwner(
+    owner: { userId?: string; ip?: string },
+    { userId, ip }: { userId?: string; ip?: string }
+): boolean {
+    return owner.userId ? owner.userId === userId : !!ip && owner.ip === ip;
+}
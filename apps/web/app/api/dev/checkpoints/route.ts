@@ -0,0 +1,95 @@
+import { runWorkflow } from '@repo/ai/workflow';
+import { deserializeState, diffState, WorkflowCheckpoint } from '@repo/orchestrator';
+import { NextRequest, NextResponse } from 'next/server';
+import { workflowPersistence } from '../../completion/persistence';
+
+const notFound = () => NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+const summarizeCheckpoint = (checkpoint: WorkflowCheckpoint) => ({
+    id: checkpoint.id,
+    workflowId: checkpoint.workflowId,
+    taskName: checkpoint.taskName,
+    next: checkpoint.next,
+    createdAt: checkpoint.createdAt,
+    threadItemId: checkpoint.snapshot.contextState?.threadItemId,
+});
+
+// Lists the checkpoints of a run, or diffs two of them with `from` and `to`
+export async function GET(request: NextRequest) {
+    if (process.env.NODE_ENV !== 'development') return notFound();
+
+    const { searchParams } = request.nextUrl;
+    const threadId = searchParams.get('threadId');
+    if (!threadId) {
+        return NextResponse.json({ error: 'threadId is required' }, { status: 400 });
+    }
+
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if (!from || !to) {
+        const checkpoints = await workflowPersistence.listCheckpoints(threadId);
+        return NextResponse.json({ checkpoints: checkpoints.map(summarizeCheckpoint) });
+    }
+
+    const [before, after] = await Promise.all([
+        workflowPersistence.loadCheckpoint(threadId, from),
+        workflowPersistence.loadCheckpoint(threadId, to),
+    ]);
+    if (!before || !after) {
+        return NextResponse.json({ error: 'Checkpoint not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+        context: diffState(before.snapshot.contextState, after.snapshot.contextState),
+        events: diffState(before.snapshot.eventState, after.snapshot.eventState),
+    });
+}
+
+// Runs a new workflow forked from a checkpoint, with its context overridden
+export async function POST(request: NextRequest) {
+    if (process.env.NODE_ENV !== 'development') return notFound();
+
+    const { threadId, checkpointId, task, data, context } = await request.json();
+    const checkpoint = await workflowPersistence.loadCheckpoint(threadId, checkpointId);
+    if (!checkpoint) {
+        return NextResponse.json({ error: 'Checkpoint not found' }, { status: 404 });
+    }
+
+    // The rest of the context, e.g. the thread ids, comes from the checkpoint
+    const contextState = deserializeState(checkpoint.snapshot.contextState);
+    const forkId = `${threadId}-fork-${Date.now().toString(36)}`;
+    const workflow = runWorkflow({
+        mode: contextState.mode,
+        question: contextState.question,
+        threadId: forkId,
+        threadItemId: contextState.threadItemId,
+        messages: contextState.messages || [],
+        mcpConfig: contextState.mcpConfig || {},
+        webSearch: contextState.webSearch,
+        showSuggestions: contextState.showSuggestions,
+        customInstructions: contextState.customInstructions,
+        gl: contextState.gl,
+        config: { checkpoints: { enabled: true } },
+    });
+    // Saved under the fork id, so a fork can be inspected and forked again
+    workflow.onCheckpoint(forked => {
+        workflowPersistence.saveCheckpoint(forked).catch(error => {
+            console.error('Error saving workflow checkpoint', error);
+        });
+    });
+
+    try {
+        await workflow.forkFrom(checkpoint, { task: task || undefined, data, context });
+    } catch (error) {
+        return NextResponse.json(
+            { forkId, error: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+
+    return NextResponse.json({
+        forkId,
+        answer: workflow.getEvents()?.getState('answer'),
+        checkpoints: workflow.getCheckpoints().map(summarizeCheckpoint),
+    });
+}
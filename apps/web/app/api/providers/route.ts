@@ -0,0 +1,10 @@
+import { getRegisteredProviders } from '@repo/ai/providers';
+import { toPublicProviderConfig } from '@repo/shared/config';
+import { NextResponse } from 'next/server';
+
+// Providers configured with AI_PROVIDERS, their base URLs, keys and headers stay on the server
+export async function GET() {
+    return NextResponse.json({
+        providers: getRegisteredProviders().map(toPublicProviderConfig),
+    });
+}
@@ -0,0 +1,65 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRunForUser, RUN_TOKEN_HEADER, workflowRuns } from '../../../completion/queue';
+import { SSE_HEADERS } from '../../../completion/types';
+
+// The sequence number a frame carries as its SSE id, `done` frames have none
+const getFrameSeq = (frame: string) => {
+    const match = frame.match(/^id: (\d+)$/m);
+    return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * The run's events in the same SSE format as /api/completion, replayed from the start.
+ * A client that reconnects sends the id of the last event it received as `Last-Event-ID`
+ * and gets the frames after it. Disconnecting only ends this subscription, the run keeps going.
+ */
+export async function GET(request: NextRequest, { params }: { params: { runId: string } }) {
+    const session = await auth();
+    const run = await getRunForUser(params.runId, {
+        userId: session?.userId ?? undefined,
+        runToken: request.headers.get(RUN_TOKEN_HEADER),
+    });
+
+    if (!run) {
+        return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const lastEventId = Number(request.headers.get('Last-Event-ID')) || 0;
+    const encoder = new TextEncoder();
+    // The log is read from the start, frames up to the last event seen are skipped
+    let resumed = lastEventId === 0;
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const heartbeatInterval = setInterval(() => {
+                controller.enqueue(encoder.encode(': heartbeat\n\n'));
+            }, 15000);
+
+            try {
+                await workflowRuns.subscribe(
+                    run.id,
+                    entry => {
+                        if (!resumed) {
+                            const seq = getFrameSeq(entry.data);
+                            if (seq === undefined || seq < lastEventId) return;
+                            resumed = true;
+                            if (seq === lastEventId) return;
+                        }
+                        controller.enqueue(encoder.encode(entry.data));
+                    },
+                    { signal: request.signal }
+                );
+            } catch (error) {
+                console.error('Error streaming run events:', error);
+            } finally {
+                clearInterval(heartbeatInterval);
+                controller.close();
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: { ...SSE_HEADERS, 'Access-Control-Allow-Methods': 'GET' },
+    });
+}
@@ -0,0 +1,42 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRunForUser, RUN_TOKEN_HEADER, workflowRuns } from '../../completion/queue';
+
+type RunRouteParams = { params: { runId: string } };
+
+// Status and, once finished, the final event state of a queued run
+export async function GET(request: NextRequest, { params }: RunRouteParams) {
+    const session = await auth();
+    const run = await getRunForUser(params.runId, {
+        userId: session?.userId ?? undefined,
+        runToken: request.headers.get(RUN_TOKEN_HEADER),
+    });
+
+    if (!run) {
+        return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const { payload, ...status } = run;
+    return NextResponse.json({
+        ...status,
+        threadId: payload.data.threadId,
+        threadItemId: payload.data.threadItemId,
+        mode: payload.data.mode,
+    });
+}
+
+// Stops the run, unlike closing its event stream
+export async function DELETE(request: NextRequest, { params }: RunRouteParams) {
+    const session = await auth();
+    const run = await getRunForUser(params.runId, {
+        userId: session?.userId ?? undefined,
+        runToken: request.headers.get(RUN_TOKEN_HEADER),
+    });
+
+    if (!run) {
+        return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const aborted = await workflowRuns.abort(run.id);
+    return NextResponse.json({ aborted });
+}
@@ -0,0 +1,38 @@
+import { DEFAULT_WORKFLOW_TIMEOUT_MS } from '@repo/ai/workflow';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    executeQueuedCompletion,
+    isWorkflowQueueEnabled,
+    workflowRuns,
+} from '../../completion/queue';
+
+export const maxDuration = 800;
+
+// A run is only taken while it can still finish before the function is stopped, runs cut
+// off anyway are taken again once their lease runs out
+const DRAIN_DEADLINE_MS = maxDuration * 1000 - DEFAULT_WORKFLOW_TIMEOUT_MS - 30 * 1000;
+
+/**
+ * Works through queued runs, called with CRON_SECRET as its bearer token by a cron job that
+ * deployments add when they turn the queue on (see .env.example). Picks up runs that were cut
+ * off or left over by the submitting request. Stops taking runs after DRAIN_DEADLINE_MS.
+ */
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isWorkflowQueueEnabled) {
+        return NextResponse.json({ processed: 0, queued: 0 });
+    }
+
+    const startedAt = Date.now();
+    let processed = 0;
+    while (Date.now() - startedAt < DRAIN_DEADLINE_MS) {
+        const hasRun = await workflowRuns.processNext(executeQueuedCompletion);
+        if (!hasRun) break;
+        processed++;
+    }
+
+    return NextResponse.json({ processed, queued: await workflowRuns.getQueueSize() });
+}
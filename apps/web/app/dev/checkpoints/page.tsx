@@ -0,0 +1,219 @@
+'use client';
+import { Button, Input, Textarea } from '@repo/ui';
+import { useState } from 'react';
+
+type CheckpointSummary = {
+    id: string;
+    workflowId: string;
+    taskName: string;
+    next: string[];
+    createdAt: number;
+    threadItemId?: string;
+};
+
+type StateDiffEntry = {
+    path: string;
+    type: 'added' | 'removed' | 'changed';
+    before?: any;
+    after?: any;
+};
+
+type CheckpointDiff = {
+    context: StateDiffEntry[];
+    events: StateDiffEntry[];
+};
+
+const formatValue = (value: any) =>
+    value === undefined ? '—' : JSON.stringify(value, null, 2).slice(0, 2000);
+
+const DiffTable = ({ title, entries }: { title: string; entries: StateDiffEntry[] }) => (
+    <div className="flex flex-col gap-2">
+        <p className="text-sm font-medium">
+            {title} ({entries.length})
+        </p>
+        {entries.map(entry => (
+            <div key={entry.path} className="border-border rounded-md border p-2 text-xs">
+                <p className="font-mono">
+                    {entry.type} · {entry.path}
+                </p>
+                <div className="grid grid-cols-2 gap-2 pt-1">
+                    <pre className="text-muted-foreground overflow-auto whitespace-pre-wrap">
+                        {formatValue(entry.before)}
+                    </pre>
+                    <pre className="overflow-auto whitespace-pre-wrap">
+                        {formatValue(entry.after)}
+                    </pre>
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
+// Only served in development, the API returns 404 otherwise
+export default function CheckpointsPage() {
+    const [threadId, setThreadId] = useState('');
+    const [checkpoints, setCheckpoints] = useState<CheckpointSummary[]>([]);
+    const [from, setFrom] = useState<string | null>(null);
+    const [to, setTo] = useState<string | null>(null);
+    const [diff, setDiff] = useState<CheckpointDiff | null>(null);
+    const [task, setTask] = useState('');
+    const [contextOverrides, setContextOverrides] = useState('{}');
+    const [fork, setFork] = useState<{ forkId: string; answer?: any; error?: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const loadCheckpoints = async () => {
+        setError(null);
+        setDiff(null);
+        const response = await fetch(
+            `/api/dev/checkpoints?threadId=${encodeURIComponent(threadId)}`
+        );
+        const body = await response.json();
+        if (!response.ok) {
+            setError(body.error);
+            return;
+        }
+        setCheckpoints(body.checkpoints);
+        setFrom(null);
+        setTo(null);
+    };
+
+    const loadDiff = async () => {
+        if (!from || !to) return;
+        setError(null);
+        const params = new URLSearchParams({ threadId, from, to });
+        const response = await fetch(`/api/dev/checkpoints?${params}`);
+        const body = await response.json();
+        if (!response.ok) {
+            setError(body.error);
+            return;
+        }
+        setDiff(body);
+    };
+
+    const forkFromCheckpoint = async () => {
+        if (!from) return;
+        let context: Record<string, any>;
+        try {
+            context = JSON.parse(contextOverrides || '{}');
+        } catch {
+            setError('Context overrides must be valid JSON');
+            return;
+        }
+
+        setError(null);
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/dev/checkpoints', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ threadId, checkpointId: from, task, context }),
+            });
+            setFork(await response.json());
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="mx-auto flex w-full max-w-4xl flex-col gap-6 p-8">
+            <div className="flex flex-col gap-1">
+                <h1 className="text-xl font-semibold">Workflow checkpoints</h1>
+                <p className="text-muted-foreground text-sm">
+                    Inspect the state after each task of a run, diff two checkpoints and fork a new
+                    run from one.
+                </p>
+            </div>
+
+            <div className="flex gap-2">
+                <Input
+                    placeholder="Thread id"
+                    value={threadId}
+                    onChange={e => setThreadId(e.target.value)}
+                />
+                <Button onClick={loadCheckpoints} disabled={!threadId}>
+                    Load
+                </Button>
+            </div>
+
+            {error && <p className="text-sm text-rose-500">{error}</p>}
+
+            {checkpoints.length > 0 && (
+                <div className="flex flex-col gap-1">
+                    {checkpoints.map(checkpoint => (
+                        <div
+                            key={checkpoint.id}
+                            className="border-border flex items-center gap-3 rounded-md border px-3 py-2 text-sm"
+                        >
+                            <span className="font-mono">{checkpoint.taskName}</span>
+                            <span className="text-muted-foreground text-xs">
+                                → {checkpoint.next.join(', ') || 'end'}
+                            </span>
+                            <span className="text-muted-foreground ml-auto text-xs">
+                                {new Date(checkpoint.createdAt).toLocaleTimeString()}
+                            </span>
+                            <Button
+                                size="xs"
+                                variant={from === checkpoint.id ? 'default' : 'bordered'}
+                                onClick={() => setFrom(checkpoint.id)}
+                            >
+                                From
+                            </Button>
+                            <Button
+                                size="xs"
+                                variant={to === checkpoint.id ? 'default' : 'bordered'}
+                                onClick={() => setTo(checkpoint.id)}
+                            >
+                                To
+                            </Button>
+                        </div>
+                    ))}
+                    <Button className="self-start" onClick={loadDiff} disabled={!from || !to}>
+                        Diff
+                    </Button>
+                </div>
+            )}
+
+            {diff && (
+                <div className="flex flex-col gap-4">
+                    <DiffTable title="Context" entries={diff.context} />
+                    <DiffTable title="Events" entries={diff.events} />
+                </div>
+            )}
+
+            {from && (
+                <div className="flex flex-col gap-2">
+                    <p className="text-sm font-medium">Fork from the selected checkpoint</p>
+                    <Input
+                        placeholder="Task to re-run, defaults to the checkpoint's next tasks"
+                        value={task}
+                        onChange={e => setTask(e.target.value)}
+                    />
+                    <Textarea
+                        className="font-mono text-xs"
+                        rows={6}
+                        value={contextOverrides}
+                        onChange={e => setContextOverrides(e.target.value)}
+                    />
+                    <Button
+                        className="self-start"
+                        onClick={forkFromCheckpoint}
+                        disabled={isLoading}
+                    >
+                        {isLoading ? 'Running…' : 'Fork'}
+                    </Button>
+                </div>
+            )}
+
+            {fork && (
+                <div className="flex flex-col gap-1 text-sm">
+                    <p className="font-mono text-xs">Fork {fork.forkId}</p>
+                    {fork.error && <p className="text-rose-500">{fork.error}</p>}
+                    <pre className="overflow-auto whitespace-pre-wrap text-xs">
+                        {formatValue(fork.answer)}
+                    </pre>
+                </div>
+            )}
+        </div>
+    );
+}
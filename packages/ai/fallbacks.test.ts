@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { APICallError, RetryError } from 'ai';
+import {
+    classifyModelError,
+    configureFallbacks,
+    getFallbackChain,
+    runWithFallbacks,
+} from './fallbacks';
+import { ModelEnum } from './models';
+
+const KEYS = [
+    'OPENAI_API_KEY',
+    'ANTHROPIC_API_KEY',
+    'TOGETHER_API_KEY',
+    'GEMINI_API_KEY',
+    'FIREWORKS_API_KEY',
+];
+
+const apiCallError = (statusCode?: number, isRetryable = false) =>
+    new APICallError({
+        message: `Request failed${statusCode ? ` with ${statusCode}` : ''}`,
+        url: 'https://api.example.com/v1/chat/completions',
+        requestBodyValues: {},
+        statusCode,
+        isRetryable,
+    });
+
+describe('getFallbackChain', () => {
+    const savedKeys: Record<string, string | undefined> = {};
+
+    // Only OpenAI and Google have keys
+    beforeEach(() => {
+        KEYS.forEach(key => {
+            savedKeys[key] = process.env[key];
+            delete process.env[key];
+        });
+        process.env.OPENAI_API_KEY = 'sk-test';
+        process.env.GEMINI_API_KEY = 'gemini-test';
+    });
+
+    afterEach(() => {
+        KEYS.forEach(key => {
+            if (savedKeys[key] === undefined) delete process.env[key];
+            else process.env[key] = savedKeys[key];
+        });
+    });
+
+    test('skips fallbacks whose provider has no key, and repeats, but keeps the model', () => {
+        configureFallbacks({
+            tasks: {
+                'test-writer': [
+                    ModelEnum.Claude_3_7_Sonnet,
+                    ModelEnum.GPT_4_1,
+                    ModelEnum.Claude_3_5_Sonnet,
+                    ModelEnum.GEMINI_2_FLASH,
+                    ModelEnum.GPT_4_1,
+                ],
+            },
+        });
+
+        expect(getFallbackChain(ModelEnum.Claude_3_7_Sonnet, 'test-writer')).toEqual([
+            ModelEnum.Claude_3_7_Sonnet,
+            ModelEnum.GPT_4_1,
+            ModelEnum.GEMINI_2_FLASH,
+        ]);
+    });
+
+    test("falls back on the chat mode's chain without a task chain", () => {
+        expect(getFallbackChain(ModelEnum.LLAMA_4_SCOUT, 'unknown-task')).toEqual([
+            ModelEnum.LLAMA_4_SCOUT,
+            ModelEnum.GEMINI_2_FLASH,
+            ModelEnum.GPT_4o_Mini,
+        ]);
+    });
+
+    test('turns fallback off with an empty chain', () => {
+        configureFallbacks({ tasks: { 'test-single': [] } });
+
+        expect(getFallbackChain(ModelEnum.LLAMA_4_SCOUT, 'test-single')).toEqual([
+            ModelEnum.LLAMA_4_SCOUT,
+        ]);
+    });
+});
+
+describe('classifyModelError', () => {
+    test('retries throttling, timeouts and server errors', () => {
+        expect(classifyModelError(apiCallError(429))).toEqual({
+            retryable: true,
+            reason: 'rate limited',
+        });
+        expect(classifyModelError(apiCallError(408))).toEqual({
+            retryable: true,
+            reason: 'error 408',
+        });
+        expect(classifyModelError(apiCallError(503))).toEqual({
+            retryable: true,
+            reason: 'error 503',
+        });
+    });
+
+    test('does not retry bad requests and auth errors', () => {
+        expect(classifyModelError(apiCallError(400))).toEqual({
+            retryable: false,
+            reason: 'error 400',
+        });
+        expect(classifyModelError(apiCallError(401))).toEqual({
+            retryable: false,
+            reason: 'error 401',
+        });
+    });
+
+    test("follows the SDK's judgement for calls without a response", () => {
+        expect(classifyModelError(apiCallError(undefined, true))).toEqual({
+            retryable: true,
+            reason: 'no response',
+        });
+    });
+
+    test('judges a RetryError by its last error', () => {
+        const error = new RetryError({
+            message: 'Failed after 3 attempts',
+            reason: 'maxRetriesExceeded',
+            errors: [apiCallError(500), apiCallError(429)],
+        });
+
+        expect(classifyModelError(error)).toEqual({ retryable: true, reason: 'rate limited' });
+    });
+
+    test('recognizes network errors thrown before a response', () => {
+        expect(classifyModelError(new TypeError('fetch failed'))).toEqual({
+            retryable: true,
+            reason: 'unreachable',
+        });
+        expect(classifyModelError(new Error('Request timed out'))).toEqual({
+            retryable: true,
+            reason: 'timed out',
+        });
+        expect(classifyModelError(new Error('Invalid schema'))).toEqual({
+            retryable: false,
+            reason: 'failed',
+        });
+    });
+
+    test('never retries once the run was aborted', () => {
+        expect(classifyModelError(apiCallError(503), AbortSignal.abort())).toEqual({
+            retryable: false,
+            reason: 'aborted',
+        });
+    });
+});
+
+describe('runWithFallbacks', () => {
+    test('moves down the chain on retryable errors and reports each fallback', async () => {
+        const tried: string[] = [];
+        const fallbacks: string[] = [];
+
+        const answer = await runWithFallbacks(
+            [ModelEnum.GPT_4_1, ModelEnum.GEMINI_2_FLASH],
+            async model => {
+                tried.push(model);
+                if (model === ModelEnum.GPT_4_1) throw apiCallError(429);
+                return 'answer';
+            },
+            {
+                task: 'writer',
+                onFallback: ({ from, to, reason }) => fallbacks.push(`${from} → ${to}: ${reason}`),
+            }
+        );
+
+        expect(answer).toBe('answer');
+        expect(tried).toEqual([ModelEnum.GPT_4_1, ModelEnum.GEMINI_2_FLASH]);
+        expect(fallbacks).toEqual([
+            `${ModelEnum.GPT_4_1} → ${ModelEnum.GEMINI_2_FLASH}: rate limited`,
+        ]);
+    });
+
+    test('throws errors that are not retryable without trying the next model', async () => {
+        const tried: string[] = [];
+
+        const running = runWithFallbacks(
+            [ModelEnum.GPT_4_1, ModelEnum.GEMINI_2_FLASH],
+            async model => {
+                tried.push(model);
+                throw apiCallError(400);
+            }
+        );
+
+        await expect(running).rejects.toThrow('Request failed with 400');
+        expect(tried).toEqual([ModelEnum.GPT_4_1]);
+    });
+});
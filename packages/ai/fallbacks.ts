@@ -0,0 +1,159 @@
+import {
+    CHAT_MODE_CATALOG,
+    ChatModeId,
+    isCustomChatMode,
+    MODEL_CHAT_MODES,
+} from '@repo/shared/config';
+import { ModelFallback } from '@repo/shared/types';
+import { APICallError, RetryError } from 'ai';
+import { getModel, ModelEnum, ModelId } from './models';
+import { hasProviderKey } from './providers';
+
+export type FallbackConfig = {
+    // Chains per task, by the task's name, e.g. `writer`
+    tasks?: Record<string, ModelId[]>;
+    // Chains per chat mode, replacing the catalog's `fallbacks`
+    chatModes?: Partial<Record<ChatModeId, ModelId[]>>;
+};
+
+// Tasks whose model is fixed rather than picked by the chat mode
+const DEFAULT_TASK_FALLBACKS: Record<string, ModelId[]> = {
+    writer: [ModelEnum.Claude_3_7_Sonnet, ModelEnum.GPT_4_1, ModelEnum.GEMINI_2_FLASH],
+    analysis: [ModelEnum.Deepseek_R1, ModelEnum.O4_Mini, ModelEnum.GPT_4_1],
+    'web-search': [ModelEnum.GEMINI_2_FLASH, ModelEnum.GPT_4_1_Mini],
+};
+
+// Timeouts, conflicts and throttling, every 5xx is retryable too
+const RETRYABLE_STATUS_CODES = [408, 409, 425, 429];
+
+// Errors thrown before a response, e.g. by fetch, carry no status
+const RETRYABLE_MESSAGE =
+    /time ?out|timed out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|fetch failed|socket hang up|overloaded/i;
+
+// Chains from the AI_FALLBACKS env var, a JSON FallbackConfig
+const getEnvFallbacks = (): FallbackConfig => {
+    const value = typeof process !== 'undefined' ? process.env?.AI_FALLBACKS : undefined;
+    if (!value) return {};
+    try {
+        return JSON.parse(value);
+    } catch (error) {
+        console.error('Invalid AI_FALLBACKS, using the default fallbacks:', error);
+        return {};
+    }
+};
+
+let fallbackConfig: FallbackConfig = getEnvFallbacks();
+
+// Replaces the chains of the given tasks and chat modes, an empty chain turns fallback off
+export const configureFallbacks = ({ tasks, chatModes }: FallbackConfig) => {
+    fallbackConfig = {
+        tasks: { ...fallbackConfig.tasks, ...tasks },
+        chatModes: { ...fallbackConfig.chatModes, ...chatModes },
+    };
+};
+
+// Built-in models may back a chat mode, models of registered providers are their own. Built-in
+// ids are looked up first since some contain slashes, e.g. Fireworks' `accounts/…`
+const getChatModeFallbacks = (model: ModelId): ModelId[] | undefined => {
+    const mode = MODEL_CHAT_MODES.find(mode => CHAT_MODE_CATALOG[mode].model === model);
+    if (mode) {
+        return fallbackConfig.chatModes?.[mode] ?? CHAT_MODE_CATALOG[mode].fallbacks;
+    }
+    return isCustomChatMode(model) ? fallbackConfig.chatModes?.[model] : undefined;
+};
+
+/**
+ * The models to try in order, `model` first. A task's chain takes precedence over the
+ * chain of the chat mode `model` answers in. Fallbacks whose provider has no key, in the
+ * worker the user's own, are skipped since they could only fail.
+ */
+export const getFallbackChain = (model: ModelId, task?: string): ModelId[] => {
+    const chain =
+        (task ? (fallbackConfig.tasks?.[task] ?? DEFAULT_TASK_FALLBACKS[task]) : undefined) ??
+        getChatModeFallbacks(model) ??
+        [];
+
+    return [model, ...chain].filter((id, index, ids) => {
+        if (index === 0) return true;
+        const provider = getModel(id)?.provider;
+        return ids.indexOf(id) === index && !!provider && hasProviderKey(provider);
+    });
+};
+
+/**
+ * Whether another model could answer where this call failed, with a short reason for
+ * the steps. Throttling, timeouts, 5xx and network errors are, bad requests, auth
+ * errors and cancellations are not. The SDK's own retries end in a RetryError, judged
+ * by its last error.
+ */
+export const classifyModelError = (
+    error: unknown,
+    signal?: AbortSignal
+): { retryable: boolean; reason: string } => {
+    if (signal?.aborted) {
+        return { retryable: false, reason: 'aborted' };
+    }
+    if (RetryError.isInstance(error)) {
+        return classifyModelError(error.lastError, signal);
+    }
+    if (APICallError.isInstance(error)) {
+        const status = error.statusCode;
+        if (!status) {
+            return { retryable: error.isRetryable, reason: 'no response' };
+        }
+        return {
+            retryable: status >= 500 || RETRYABLE_STATUS_CODES.includes(status),
+            reason: status === 429 ? 'rate limited' : `error ${status}`,
+        };
+    }
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    if (RETRYABLE_MESSAGE.test(message)) {
+        return { retryable: true, reason: /time/i.test(message) ? 'timed out' : 'unreachable' };
+    }
+    return { retryable: false, reason: 'failed' };
+};
+
+/**
+ * Run `call` with each model of `models` until one succeeds. The next model is tried only
+ * for retryable errors and while `canFallBack` allows it, e.g. until output was streamed.
+ * Otherwise, or once the chain runs out, the last error is thrown.
+ */
+export const runWithFallbacks = async <T>(
+    models: ModelId[],
+    call: (model: ModelId) => Promise<T>,
+    {
+        task,
+        signal,
+        canFallBack,
+        onFallback,
+    }: {
+        task?: string;
+        signal?: AbortSignal;
+        canFallBack?: () => boolean;
+        onFallback?: (fallback: ModelFallback) => void;
+    } = {}
+): Promise<T> => {
+    let index = 0;
+    while (true) {
+        try {
+            return await call(models[index]);
+        } catch (error) {
+            const from = models[index];
+            const to = models[index + 1];
+            const { retryable, reason } = classifyModelError(error, signal);
+            if (!to || !retryable || (canFallBack && !canFallBack())) {
+                throw error;
+            }
+
+            onFallback?.({
+                task,
+                from,
+                fromName: getModel(from)?.name ?? from,
+                to,
+                toName: getModel(to)?.name ?? to,
+                reason,
+            });
+            index++;
+        }
+    }
+};
@@ -0,0 +1,36 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { getModelCost, ModelEnum } from './models';
+import { registerProvider, unregisterProvider } from './providers';
+
+beforeAll(() => {
+    registerProvider({
+        id: 'ollama',
+        baseURL: 'http://127.0.0.1:11434/v1',
+        models: [{ id: 'llama3.1:8b' }, { id: 'qwen3:32b', pricing: { input: 0.5, output: 1.5 } }],
+    });
+});
+
+afterAll(() => {
+    unregisterProvider('ollama');
+});
+
+describe('getModelCost', () => {
+    test('prices prompt and completion tokens per million', () => {
+        // GPT 4.1 costs $2 per million input and $8 per million output tokens
+        expect(
+            getModelCost(ModelEnum.GPT_4_1, { promptTokens: 1000, completionTokens: 500 })
+        ).toBeCloseTo((1000 * 2 + 500 * 8) / 1e6, 10);
+        expect(
+            getModelCost('ollama/qwen3:32b', { promptTokens: 2000000, completionTokens: 1000000 })
+        ).toBeCloseTo(2.5, 10);
+    });
+
+    test('is 0 for models without pricing', () => {
+        expect(
+            getModelCost('ollama/llama3.1:8b', { promptTokens: 1000, completionTokens: 500 })
+        ).toBe(0);
+        expect(getModelCost('unknown-model', { promptTokens: 1000, completionTokens: 500 })).toBe(
+            0
+        );
+    });
+});
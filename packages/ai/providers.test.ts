@@ -0,0 +1,63 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { registerProvider, unregisterProvider } from './providers';
+import { runWorkflowHarness } from './testing';
+
+// A local stand-in for an OpenAI-compatible server, streaming a fixed answer
+const requests: { url?: string; headers: http.IncomingHttpHeaders; body: any }[] = [];
+const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        const chunk = (delta: any, finishReason: string | null = null) =>
+            `data: ${JSON.stringify({
+                id: 'chunk',
+                object: 'chat.completion.chunk',
+                created: 0,
+                model: 'llama3.1:8b',
+                choices: [{ index: 0, delta, finish_reason: finishReason }],
+            })}\n\n`;
+
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(chunk({ role: 'assistant', content: 'Hello from ' }));
+        res.write(chunk({ content: 'the local model' }));
+        res.write(chunk({}, 'stop'));
+        res.end('data: [DONE]\n\n');
+    });
+});
+
+beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    registerProvider({
+        id: 'local',
+        name: 'Local',
+        baseURL: `http://127.0.0.1:${port}/v1`,
+        headers: { 'x-team': 'infra' },
+        models: [{ id: 'llama3.1:8b', name: 'Llama 3.1 8B' }],
+    });
+});
+
+afterAll(() => {
+    unregisterProvider('local');
+    server.close();
+});
+
+describe('registered providers', () => {
+    test('answer their chat mode through the provider', async () => {
+        const { workflow, getState } = await runWorkflowHarness({
+            mode: 'local/llama3.1:8b',
+            question: 'Hi',
+            messages: [{ role: 'user', content: 'Hi' }],
+        });
+
+        expect(getState('status')).toBe('COMPLETED');
+        expect(workflow.getContext()?.get('answer')).toBe('Hello from the local model');
+        expect(requests).toHaveLength(1);
+        expect(requests[0].url).toBe('/v1/chat/completions');
+        expect(requests[0].headers['x-team']).toBe('infra');
+        expect(requests[0].body.model).toBe('llama3.1:8b');
+    });
+});
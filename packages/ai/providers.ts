@@ -4,8 +4,16 @@ import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAI } from '@ai-sdk/openai';
 import { LanguageModelV1 } from '@ai-sdk/provider';
 import { createTogetherAI } from '@ai-sdk/togetherai';
+import {
+  getCustomChatMode,
+  ProviderConfig,
+  registerProviderChatModes,
+  removeProviderChatModes,
+  validateProviderConfig,
+} from '@repo/shared/config';
 import { LanguageModelV1Middleware, wrapLanguageModel } from 'ai';
-import { ModelEnum, models } from './models';
+import { getModel, ModelId, registerModels, removeModels } from './models';
+import { configureRateLimits } from './rate-limit';
 
 export const Providers = {
   OPENAI: 'openai',
@@ -17,11 +25,16 @@ export const Providers = {
 
 export type ProviderEnumType = (typeof Providers)[keyof typeof Providers];
 
+// A built-in provider or one registered at runtime with registerProvider
+export type ProviderId = ProviderEnumType | (string & {});
+
+const providerConfigs = new Map<string, ProviderConfig>();
+
 // Define a global type for API keys
 declare global {
   interface Window {
     AI_API_KEYS?: {
-      [key in ProviderEnumType]?: string;
+      [key in ProviderId]?: string;
     };
     SERPER_API_KEY?: string;
     JINA_API_KEY?: string;
@@ -30,7 +43,10 @@ declare global {
 }
 
 // Helper function to get API key from env or global
-const getApiKey = (provider: ProviderEnumType): string => {
+const getApiKey = (provider: ProviderId): string => {
+  const configuredKey = providerConfigs.get(provider)?.apiKey;
+  if (configuredKey) return configuredKey;
+
   // For server environments
   if (typeof process !== 'undefined' && process.env) {
     switch (provider) {
@@ -68,7 +84,29 @@ const getApiKey = (provider: ProviderEnumType): string => {
   return '';
 };
 
-export const getProviderInstance = (provider: ProviderEnumType) => {
+// Whether calls to the provider can authenticate, with the user's own key in the worker
+export const hasProviderKey = (provider: ProviderId): boolean => {
+  const config = providerConfigs.get(provider);
+  // Endpoints added at runtime may not need a key, e.g. a local Ollama
+  if (config?.baseURL && !Object.values(Providers).includes(provider as ProviderEnumType)) {
+    return true;
+  }
+  return !!getApiKey(provider);
+};
+
+export const getProviderInstance = (provider: ProviderId) => {
+  const config = providerConfigs.get(provider);
+  if (config?.baseURL && !Object.values(Providers).includes(provider as ProviderEnumType)) {
+    return createOpenAI({
+      name: config.id,
+      baseURL: config.baseURL,
+      // Local servers like Ollama ignore the key, but the SDK requires one
+      apiKey: getApiKey(config.id) || 'not-needed',
+      headers: config.headers,
+      compatibility: 'compatible',
+    });
+  }
+
   switch (provider) {
     case Providers.OPENAI:
       return createOpenAI({
@@ -101,10 +139,85 @@ export const getProviderInstance = (provider: ProviderEnumType) => {
   }
 };
 
-export const getLanguageModel = (m: ModelEnum, middleware?: LanguageModelV1Middleware) => {
-  const model = models.find(model => model.id === m);
-  const instance = getProviderInstance(model?.provider as ProviderEnumType);
-  const selectedModel = instance(model?.id || 'gpt-4o-mini')
+/**
+ * Add a provider, or models to a built-in one, from config. Its models become chat modes
+ * named `<provider id>/<model id>`. Registering the same id again replaces the provider.
+ */
+export const registerProvider = (config: ProviderConfig) => {
+  validateProviderConfig(config, Object.values(Providers));
+  unregisterProvider(config.id);
+
+  providerConfigs.set(config.id, config);
+  registerModels(
+    config.models.map(model => ({
+      id: getCustomChatMode(config.id, model.id),
+      name: model.name || model.id,
+      provider: config.id,
+      providerModelId: model.id,
+      contextWindow: model.contextWindow ?? 8192,
+      maxOutputTokens: model.maxOutputTokens ?? 4096,
+      capabilities: {
+        vision: false,
+        toolCalling: false,
+        reasoning: false,
+        jsonMode: false,
+        ...model.capabilities,
+      },
+      pricing: model.pricing,
+    }))
+  );
+  registerProviderChatModes([config]);
+  if (config.rateLimit) {
+    configureRateLimits({ [config.id]: config.rateLimit });
+  }
+};
+
+export const registerProviders = (configs: ProviderConfig[]) => {
+  configs.forEach(config => registerProvider(config));
+};
+
+export const unregisterProvider = (id: ProviderId) => {
+  providerConfigs.delete(id);
+  removeModels(id);
+  removeProviderChatModes(id);
+};
+
+export const getRegisteredProviders = (): ProviderConfig[] => Array.from(providerConfigs.values());
+
+// Providers from the AI_PROVIDERS env var, a JSON array of ProviderConfig
+const getEnvProviders = (): ProviderConfig[] => {
+  const value = typeof process !== 'undefined' ? process.env?.AI_PROVIDERS : undefined;
+  if (!value) return [];
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('Invalid AI_PROVIDERS, no providers were registered from it:', error);
+    return [];
+  }
+};
+
+getEnvProviders().forEach(config => {
+  try {
+    registerProvider(config);
+  } catch (error) {
+    console.error(`Skipping provider "${config?.id}" from AI_PROVIDERS:`, error);
+  }
+});
+
+// Replaces every provider model, used by the test kit in `@repo/ai/testing`
+let languageModelOverride: ((m: ModelId) => LanguageModelV1) | undefined;
+
+export const setLanguageModelOverride = (override?: (m: ModelId) => LanguageModelV1) => {
+  languageModelOverride = override;
+};
+
+export const getLanguageModel = (m: ModelId, middleware?: LanguageModelV1Middleware) => {
+  const model = getModel(m);
+  const selectedModel = languageModelOverride
+    ? languageModelOverride(m)
+    : getProviderInstance(model?.provider || Providers.OPENAI)(
+        model?.providerModelId || model?.id || 'gpt-4o-mini'
+      );
   if(middleware) {
     return wrapLanguageModel({model: selectedModel, middleware }) as LanguageModelV1;
   }
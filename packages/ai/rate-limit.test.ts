@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { RateLimiter, RateLimitPriority, RateLimitRelease } from './rate-limit';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RateLimiter', () => {
+    test('lets queued requests through by priority, then by arrival', async () => {
+        const limiter = new RateLimiter({ concurrency: 1 });
+        const first = await limiter.acquire();
+
+        const order: string[] = [];
+        const queued: Array<[string, RateLimitPriority]> = [
+            ['suggestions', 'low'],
+            ['planner', 'normal'],
+            ['answer', 'high'],
+            ['reflector', 'normal'],
+        ];
+        const waiting = queued.map(([name, priority]) =>
+            limiter.acquire({ priority }).then(release => {
+                order.push(name);
+                release();
+            })
+        );
+        expect(limiter.getQueueLength()).toBe(4);
+
+        first();
+        await Promise.all(waiting);
+
+        expect(order).toEqual(['answer', 'planner', 'reflector', 'suggestions']);
+    });
+
+    test('frees a slot only once when release is called again', async () => {
+        const limiter = new RateLimiter({ concurrency: 1 });
+        const release = await limiter.acquire();
+
+        const granted: RateLimitRelease[] = [];
+        limiter.acquire().then(next => granted.push(next));
+        limiter.acquire().then(next => granted.push(next));
+
+        release();
+        release();
+        await flush();
+
+        expect(granted).toHaveLength(1);
+        expect(limiter.getQueueLength()).toBe(1);
+
+        granted[0]();
+        await flush();
+        expect(granted).toHaveLength(2);
+    });
+
+    test('waits for the token bucket to refill', async () => {
+        // Refills one token per ms
+        const limiter = new RateLimiter({ tpm: 60000 });
+        (await limiter.acquire({ tokens: 60000 }))();
+
+        const startedAt = Date.now();
+        await limiter.acquire({ tokens: 50 });
+
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+    });
+
+    test('lets a request larger than the token budget through instead of waiting forever', async () => {
+        const limiter = new RateLimiter({ tpm: 1000 });
+
+        const release = await limiter.acquire({ tokens: 5000 });
+
+        expect(release).toBeFunction();
+    });
+
+    test('drops an aborted request from the queue', async () => {
+        const limiter = new RateLimiter({ concurrency: 1 });
+        const release = await limiter.acquire();
+        const controller = new AbortController();
+
+        const aborted = limiter.acquire({ signal: controller.signal });
+        const next = limiter.acquire();
+        controller.abort(new Error('Client disconnected'));
+
+        await expect(aborted).rejects.toThrow('Client disconnected');
+        expect(limiter.getQueueLength()).toBe(1);
+
+        release();
+        expect(await next).toBeFunction();
+    });
+
+    test('rejects right away when the signal already aborted', async () => {
+        const limiter = new RateLimiter({});
+
+        await expect(limiter.acquire({ signal: AbortSignal.abort() })).rejects.toBeDefined();
+        expect(limiter.getQueueLength()).toBe(0);
+    });
+});
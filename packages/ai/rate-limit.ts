@@ -0,0 +1,231 @@
+import { ProviderId } from './providers';
+
+// LLM providers plus the external services the workflow calls
+export type RateLimitKey = ProviderId | 'serper' | 'jina';
+
+export type RateLimitConfig = {
+    // Requests per minute
+    rpm?: number;
+    // Tokens per minute, for LLM calls
+    tpm?: number;
+    // Requests in flight at the same time
+    concurrency?: number;
+};
+
+// Higher runs first, e.g. the streamed answer before background suggestions
+export type RateLimitPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_ORDER: Record<RateLimitPriority, number> = { high: 2, normal: 1, low: 0 };
+
+// Kept below the lowest tiers of each provider, override them with configureRateLimits.
+// Registered providers are unlimited unless their config sets `rateLimit`
+const DEFAULT_RATE_LIMITS: Partial<Record<RateLimitKey, RateLimitConfig>> = {
+    openai: { rpm: 500, tpm: 200000, concurrency: 8 },
+    anthropic: { rpm: 50, tpm: 40000, concurrency: 4 },
+    together: { rpm: 60, concurrency: 4 },
+    google: { rpm: 1000, tpm: 1000000, concurrency: 8 },
+    fireworks: { rpm: 600, concurrency: 6 },
+    serper: { rpm: 300, concurrency: 4 },
+    jina: { rpm: 200, concurrency: 4 },
+};
+
+export type RateLimitOptions = {
+    priority?: RateLimitPriority;
+    // Estimated tokens of the request, counted against tpm until the call reports its usage
+    tokens?: number;
+    signal?: AbortSignal;
+};
+
+// Call with the tokens the request actually used, if known, to correct the estimate
+export type RateLimitRelease = (usedTokens?: number) => void;
+
+type Waiter = {
+    priority: number;
+    sequence: number;
+    tokens: number;
+    resolve: (release: RateLimitRelease) => void;
+    reject: (error: unknown) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+};
+
+/**
+ * Token bucket per minute for requests and for tokens, refilled continuously, plus a
+ * concurrency cap. Requests that don't fit wait in a queue ordered by priority, then by
+ * arrival. Only timers are used, so it runs in the server route and the browser worker.
+ */
+export class RateLimiter {
+    private config: RateLimitConfig;
+    private requests: number;
+    private tokens: number;
+    private refilledAt: number;
+    private inFlight: number = 0;
+    private queue: Waiter[] = [];
+    private sequence: number = 0;
+    private timer?: ReturnType<typeof setTimeout>;
+
+    constructor(config: RateLimitConfig) {
+        this.config = config;
+        this.requests = config.rpm ?? Infinity;
+        this.tokens = config.tpm ?? Infinity;
+        this.refilledAt = Date.now();
+    }
+
+    configure(config: RateLimitConfig) {
+        this.refill();
+        this.config = config;
+        this.requests = Math.min(this.requests, config.rpm ?? Infinity);
+        this.tokens = Math.min(this.tokens, config.tpm ?? Infinity);
+        this.drain();
+    }
+
+    acquire({ priority = 'normal', tokens = 0, signal }: RateLimitOptions = {}) {
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason ?? new Error('Operation aborted'));
+        }
+
+        return new Promise<RateLimitRelease>((resolve, reject) => {
+            const waiter: Waiter = {
+                priority: PRIORITY_ORDER[priority],
+                sequence: ++this.sequence,
+                // A request larger than the whole budget would never fit
+                tokens: Math.min(tokens, this.config.tpm ?? Infinity),
+                resolve,
+                reject,
+                signal,
+            };
+            waiter.onAbort = () => {
+                this.queue = this.queue.filter(queued => queued !== waiter);
+                reject(signal?.reason ?? new Error('Operation aborted'));
+                this.drain();
+            };
+            signal?.addEventListener('abort', waiter.onAbort, { once: true });
+
+            this.queue.push(waiter);
+            this.queue.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+            this.drain();
+        });
+    }
+
+    getQueueLength(): number {
+        return this.queue.length;
+    }
+
+    private refill() {
+        const now = Date.now();
+        const elapsedMinutes = (now - this.refilledAt) / 60000;
+        this.refilledAt = now;
+        if (this.config.rpm !== undefined) {
+            this.requests = Math.min(
+                this.config.rpm,
+                this.requests + elapsedMinutes * this.config.rpm
+            );
+        }
+        if (this.config.tpm !== undefined) {
+            this.tokens = Math.min(this.config.tpm, this.tokens + elapsedMinutes * this.config.tpm);
+        }
+    }
+
+    // Ms until the bucket holds `needed`, given it refills `perMinute`
+    private getWaitMs(available: number, needed: number, perMinute?: number) {
+        if (!perMinute || available >= needed) return 0;
+        return Math.ceil(((needed - available) / perMinute) * 60000);
+    }
+
+    // Starts queued requests in order, the head blocks the rest so priorities hold
+    private drain() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.refill();
+
+        while (this.queue.length > 0) {
+            if (this.inFlight >= (this.config.concurrency ?? Infinity)) return;
+
+            const waiter = this.queue[0];
+            const waitMs = Math.max(
+                this.getWaitMs(this.requests, 1, this.config.rpm),
+                this.getWaitMs(this.tokens, waiter.tokens, this.config.tpm)
+            );
+            if (waitMs > 0) {
+                this.timer = setTimeout(() => this.drain(), waitMs);
+                return;
+            }
+
+            this.queue.shift();
+            this.requests -= 1;
+            this.tokens -= waiter.tokens;
+            this.inFlight++;
+            if (waiter.onAbort) {
+                waiter.signal?.removeEventListener('abort', waiter.onAbort);
+            }
+            waiter.resolve(this.createRelease(waiter.tokens));
+        }
+    }
+
+    private createRelease(reservedTokens: number): RateLimitRelease {
+        let released = false;
+        return usedTokens => {
+            if (released) return;
+            released = true;
+            this.inFlight--;
+            if (usedTokens !== undefined && this.config.tpm !== undefined) {
+                this.tokens -= usedTokens - reservedTokens;
+            }
+            this.drain();
+        };
+    }
+}
+
+const limiters = new Map<RateLimitKey, RateLimiter>();
+
+// Limits from the AI_RATE_LIMITS env var, e.g. `{"openai":{"rpm":60,"tpm":90000}}`
+const getEnvRateLimits = (): Partial<Record<RateLimitKey, RateLimitConfig>> => {
+    const value = typeof process !== 'undefined' ? process.env?.AI_RATE_LIMITS : undefined;
+    if (!value) return {};
+    try {
+        return JSON.parse(value);
+    } catch (error) {
+        console.error('Invalid AI_RATE_LIMITS, using the default rate limits:', error);
+        return {};
+    }
+};
+
+// Shared by every workflow in the process or worker, so parallel runs queue together
+export const getRateLimiter = (key: RateLimitKey): RateLimiter => {
+    let limiter = limiters.get(key);
+    if (!limiter) {
+        limiter = new RateLimiter({ ...DEFAULT_RATE_LIMITS[key], ...getEnvRateLimits()[key] });
+        limiters.set(key, limiter);
+    }
+    return limiter;
+};
+
+export const configureRateLimits = (limits: Partial<Record<RateLimitKey, RateLimitConfig>>) => {
+    Object.entries(limits).forEach(([key, config]) => {
+        if (!config) return;
+        const rateLimitKey = key as RateLimitKey;
+        getRateLimiter(rateLimitKey).configure({
+            ...DEFAULT_RATE_LIMITS[rateLimitKey],
+            ...config,
+        });
+    });
+};
+
+/**
+ * Run `fn` once the limiter for `key` lets it through. `fn` may return the tokens it
+ * used through the `release` it receives, otherwise the estimate is kept.
+ */
+export const withRateLimit = async <T>(
+    key: RateLimitKey,
+    fn: (release: RateLimitRelease) => Promise<T>,
+    options?: RateLimitOptions
+): Promise<T> => {
+    const release = await getRateLimiter(key).acquire(options);
+    try {
+        return await fn(release);
+    } finally {
+        release();
+    }
+};
@@ -0,0 +1,63 @@
+import { FetchHandler, jsonResponse } from './fetch';
+
+export type FakeSearchResult = {
+    title: string;
+    link: string;
+    snippet?: string;
+};
+
+export type FakePage = {
+    title?: string;
+    description?: string;
+    content: string;
+};
+
+export type FakeSearchBackend = {
+    // Results for a Serper query, by exact query or from a function
+    search?:
+        | Record<string, FakeSearchResult[]>
+        | ((query: string) => FakeSearchResult[] | undefined);
+    // Jina reader pages, by URL or from a function
+    pages?: Record<string, FakePage> | ((url: string) => FakePage | undefined);
+};
+
+const lookup = <T>(source: Record<string, T> | ((key: string) => T | undefined), key: string) =>
+    typeof source === 'function' ? source(key) : source[key];
+
+/**
+ * Answers the Serper search and Jina reader requests made by getSERPResults and
+ * readURL. Unknown queries return no results and unknown pages a 404, like a
+ * search that comes back empty or a page that fails to load.
+ */
+export const createFakeSearchBackend = ({
+    search = {},
+    pages = {},
+}: FakeSearchBackend): FetchHandler => {
+    return async request => {
+        const url = new URL(request.url);
+
+        if (url.host === 'google.serper.dev' && url.pathname === '/search') {
+            const queries: Array<{ q: string }> = await request.json();
+            return jsonResponse(queries.map(({ q }) => ({ organic: lookup(search, q) || [] })));
+        }
+
+        if (url.host === 'r.jina.ai') {
+            const pageUrl = request.url.slice('https://r.jina.ai/'.length);
+            const page = lookup(pages, pageUrl);
+            if (!page) {
+                return jsonResponse({ code: 404, data: null }, { status: 404 });
+            }
+            return jsonResponse({
+                code: 200,
+                data: {
+                    title: page.title || pageUrl,
+                    description: page.description || '',
+                    url: pageUrl,
+                    content: page.content,
+                },
+            });
+        }
+
+        return undefined;
+    };
+};
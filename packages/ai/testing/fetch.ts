@@ -0,0 +1,36 @@
+// Answers a request, or returns undefined to leave it to the next handler
+export type FetchHandler = (
+    request: Request
+) => Response | undefined | Promise<Response | undefined>;
+
+/**
+ * Replace the global fetch with the given handlers, tried in order. Requests no
+ * handler answers fail, so a test never reaches the network by accident.
+ * Returns a function that puts the original fetch back.
+ */
+export const installFetch = (...handlers: FetchHandler[]): (() => void) => {
+    const originalFetch = globalThis.fetch;
+
+    globalThis.fetch = Object.assign(
+        async (input: RequestInfo | URL, init?: RequestInit) => {
+            const request = new Request(input, init);
+            for (const handler of handlers) {
+                const response = await handler(request.clone());
+                if (response) return response;
+            }
+            throw new Error(`No fetch handler for ${request.method} ${request.url}`);
+        },
+        { preconnect: originalFetch.preconnect }
+    );
+
+    return () => {
+        globalThis.fetch = originalFetch;
+    };
+};
+
+export const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+    new Response(JSON.stringify(body), {
+        status: 200,
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
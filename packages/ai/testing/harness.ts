@@ -0,0 +1,97 @@
+import { LanguageModelV1 } from '@ai-sdk/provider';
+import { EventRecord } from '@repo/orchestrator';
+import { ModelId } from '../models';
+import { setLanguageModelOverride } from '../providers';
+import { runWorkflow, WorkflowEventSchema } from '../workflow/flow';
+import { FetchHandler, installFetch } from './fetch';
+import { MockLanguageModel } from './mock-model';
+
+export type WorkflowHarnessOptions = Omit<
+    Parameters<typeof runWorkflow>[0],
+    'threadId' | 'threadItemId' | 'messages' | 'mcpConfig'
+> &
+    Partial<
+        Pick<
+            Parameters<typeof runWorkflow>[0],
+            'threadId' | 'threadItemId' | 'messages' | 'mcpConfig'
+        >
+    > & {
+        // Every getLanguageModel call gets this model, real providers are used when unset
+        model?: MockLanguageModel | ((model: ModelId) => LanguageModelV1);
+        // Fake search backend, record/replay handler, or both
+        fetch?: FetchHandler[];
+        // Environment set for the run, e.g. placeholder API keys
+        env?: Record<string, string>;
+    };
+
+// getSERPResults and readURL refuse to run without keys, even against a fake backend
+const PLACEHOLDER_ENV = {
+    SERPER_API_KEY: 'test-serper-key',
+    JINA_API_KEY: 'test-jina-key',
+};
+
+const setEnv = (env: Record<string, string>) => {
+    const previous = Object.fromEntries(Object.keys(env).map(key => [key, process.env[key]]));
+    Object.assign(process.env, env);
+    return () => {
+        Object.entries(previous).forEach(([key, value]) => {
+            if (value === undefined) delete process.env[key];
+            else process.env[key] = value;
+        });
+    };
+};
+
+/**
+ * Run the app workflow end to end against a mock model and fake HTTP backends and
+ * collect every event it emits. Global overrides are undone when the run settles,
+ * so runs must not overlap.
+ */
+export const runWorkflowHarness = async ({
+    model,
+    fetch: handlers = [],
+    env = {},
+    threadId = 'test-thread',
+    threadItemId = 'test-thread-item',
+    messages = [],
+    mcpConfig = {},
+    ...options
+}: WorkflowHarnessOptions) => {
+    const events: EventRecord<WorkflowEventSchema>[] = [];
+    const restoreEnv = setEnv({
+        ...Object.fromEntries(Object.entries(PLACEHOLDER_ENV).filter(([key]) => !process.env[key])),
+        ...env,
+    });
+    const restoreFetch = handlers.length > 0 ? installFetch(...handlers) : undefined;
+    if (model) {
+        setLanguageModelOverride(typeof model === 'function' ? model : model.getModel);
+    }
+
+    try {
+        const workflow = runWorkflow({
+            ...options,
+            threadId,
+            threadItemId,
+            messages,
+            mcpConfig,
+        });
+        workflow.subscribe(record => events.push(record));
+
+        await workflow.start('router', { question: options.question });
+
+        return {
+            workflow,
+            events,
+            // Payloads of one event in emit order
+            getEvents: <K extends keyof WorkflowEventSchema>(event: K) =>
+                events
+                    .filter(record => record.event === event)
+                    .map(record => record.data as WorkflowEventSchema[K]),
+            getState: <K extends keyof WorkflowEventSchema>(event: K) =>
+                workflow.getEvents()?.getState(event),
+        };
+    } finally {
+        setLanguageModelOverride(undefined);
+        restoreFetch?.();
+        restoreEnv();
+    }
+};
@@ -0,0 +1,6 @@
+// Test kit for workflow tasks, Node only
+export * from './fake-search';
+export * from './fetch';
+export * from './harness';
+export * from './mock-model';
+export * from './record-replay';
@@ -0,0 +1,134 @@
+import {
+    LanguageModelV1,
+    LanguageModelV1CallOptions,
+    LanguageModelV1StreamPart,
+} from '@ai-sdk/provider';
+import { simulateReadableStream } from 'ai';
+import { ModelId } from '../models';
+
+export type MockModelCall = {
+    // Position of the call across everything this mock answered
+    index: number;
+    model?: ModelId;
+    // 'text' for generateText, 'object' for generateObject
+    kind: 'text' | 'object';
+    system: string;
+    prompt: string;
+    options: LanguageModelV1CallOptions;
+};
+
+export type MockModelResponse =
+    | string
+    | {
+          text?: string;
+          // Returned as JSON text, which is what generateObject parses in json mode
+          object?: any;
+          // Wrapped in <think> tags, so extractReasoningMiddleware turns it into reasoning parts
+          reasoning?: string;
+          usage?: { promptTokens: number; completionTokens: number };
+          error?: Error;
+      };
+
+export type MockModelScript =
+    | MockModelResponse[]
+    | ((call: MockModelCall) => MockModelResponse | Promise<MockModelResponse>);
+
+export type MockLanguageModel = {
+    // Returns the model handed out for a given model, see setLanguageModelOverride
+    getModel: (model?: ModelId) => LanguageModelV1;
+    calls: MockModelCall[];
+};
+
+const DEFAULT_USAGE = { promptTokens: 10, completionTokens: 20 };
+
+const getMessageText = (content: any) =>
+    typeof content === 'string'
+        ? content
+        : (content as Array<{ type: string; text?: string }>)
+              .filter(part => part.type === 'text')
+              .map(part => part.text)
+              .join('\n');
+
+const splitIntoChunks = (text: string) => text.match(/\S+\s*|\s+/g) || [];
+
+/**
+ * A scripted model that answers generateText and generateObject without a provider.
+ * The script is either a list of responses used in call order, or a function that
+ * picks a response from the call, e.g. by matching the prompt.
+ */
+export const createMockLanguageModel = (
+    script: MockModelScript,
+    { chunkDelayInMs = null }: { chunkDelayInMs?: number | null } = {}
+): MockLanguageModel => {
+    const calls: MockModelCall[] = [];
+
+    const respond = async (options: LanguageModelV1CallOptions, model?: ModelId) => {
+        const call: MockModelCall = {
+            index: calls.length,
+            model,
+            kind: options.mode.type === 'regular' ? 'text' : 'object',
+            system: options.prompt
+                .filter(message => message.role === 'system')
+                .map(message => getMessageText(message.content))
+                .join('\n'),
+            prompt: options.prompt
+                .filter(message => message.role !== 'system')
+                .map(message => getMessageText(message.content))
+                .join('\n'),
+            options,
+        };
+        calls.push(call);
+
+        const response = Array.isArray(script) ? script[call.index] : await script(call);
+        if (response === undefined) {
+            throw new Error(`Mock model has no response for call #${call.index} (${call.kind}).`);
+        }
+
+        const normalized = typeof response === 'string' ? { text: response } : response;
+        if (normalized.error) throw normalized.error;
+
+        const text =
+            normalized.object !== undefined
+                ? JSON.stringify(normalized.object)
+                : normalized.text || '';
+
+        return {
+            text: normalized.reasoning ? `<think>${normalized.reasoning}</think>\n${text}` : text,
+            usage: normalized.usage || DEFAULT_USAGE,
+        };
+    };
+
+    const getModel = (model?: ModelId): LanguageModelV1 => ({
+        specificationVersion: 'v1',
+        provider: 'mock',
+        modelId: model || 'mock-model',
+        defaultObjectGenerationMode: 'json',
+        doGenerate: async options => {
+            const { text, usage } = await respond(options, model);
+            return {
+                text,
+                finishReason: 'stop',
+                usage,
+                rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+            };
+        },
+        doStream: async options => {
+            const { text, usage } = await respond(options, model);
+            return {
+                stream: simulateReadableStream<LanguageModelV1StreamPart>({
+                    chunks: [
+                        ...splitIntoChunks(text).map(textDelta => ({
+                            type: 'text-delta' as const,
+                            textDelta,
+                        })),
+                        { type: 'finish', finishReason: 'stop', usage },
+                    ],
+                    chunkDelayInMs,
+                }),
+                rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+            };
+        },
+    });
+
+    return { getModel, calls };
+};
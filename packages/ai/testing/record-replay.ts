@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FetchHandler } from './fetch';
+
+export type FetchExchange = {
+    request: { method: string; url: string; body?: string };
+    response: { status: number; statusText: string; headers: Record<string, string>; body: string };
+};
+
+export type FetchFixture = {
+    version: 1;
+    exchanges: FetchExchange[];
+};
+
+export type RecordReplayMode = 'record' | 'replay';
+
+export type RecordReplayOptions = {
+    fixturePath: string;
+    // Defaults to FIXTURE_MODE from the environment, replay unless it is 'record'
+    mode?: RecordReplayMode;
+    // Strips volatile parts of request bodies (dates, ids) before they are matched
+    normalizeBody?: (body: string) => string;
+    // The fetch used while recording, the global fetch at creation by default
+    fetch?: typeof fetch;
+};
+
+// Never written to fixtures
+const IGNORED_RESPONSE_HEADERS = [
+    'set-cookie',
+    'authorization',
+    'content-encoding',
+    'content-length',
+];
+
+const getRequestKey = (request: FetchExchange['request']) =>
+    `${request.method} ${request.url}\n${request.body || ''}`;
+
+/**
+ * Record real HTTP exchanges (LLM providers, Serper, Jina) to a fixture file and
+ * replay them offline. Replayed requests match on method, URL and body first, then
+ * fall back to the next unused exchange with the same method and URL, so prompts
+ * that embed the current date still replay in order.
+ */
+export const createRecordReplayFetch = ({
+    fixturePath,
+    mode = process.env.FIXTURE_MODE === 'record' ? 'record' : 'replay',
+    normalizeBody = body => body,
+    fetch: baseFetch = globalThis.fetch,
+}: RecordReplayOptions) => {
+    let exchanges: FetchExchange[] | undefined;
+    const used = new Set<number>();
+
+    const load = async (): Promise<FetchExchange[]> => {
+        if (!exchanges) {
+            if (mode === 'record') {
+                exchanges = [];
+            } else {
+                const fixture: FetchFixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+                exchanges = fixture.exchanges;
+            }
+        }
+        return exchanges;
+    };
+
+    const readRequest = async (request: Request): Promise<FetchExchange['request']> => {
+        const body = request.body ? await request.text() : undefined;
+        return {
+            method: request.method,
+            url: request.url,
+            body: body !== undefined ? normalizeBody(body) : undefined,
+        };
+    };
+
+    const handler: FetchHandler = async request => {
+        const recorded = await load();
+        const key = await readRequest(request.clone());
+
+        if (mode === 'record') {
+            const response = await baseFetch(request);
+            const body = await response.text();
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, name) => {
+                if (!IGNORED_RESPONSE_HEADERS.includes(name.toLowerCase())) {
+                    headers[name] = value;
+                }
+            });
+            recorded.push({
+                request: key,
+                response: {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers,
+                    body,
+                },
+            });
+            return new Response(body, {
+                status: response.status,
+                statusText: response.statusText,
+                headers,
+            });
+        }
+
+        const findIndex = (matches: (exchange: FetchExchange) => boolean) =>
+            recorded.findIndex((exchange, index) => !used.has(index) && matches(exchange));
+
+        let index = findIndex(exchange => getRequestKey(exchange.request) === getRequestKey(key));
+        if (index === -1) {
+            index = findIndex(
+                exchange =>
+                    exchange.request.method === key.method && exchange.request.url === key.url
+            );
+        }
+        if (index === -1) {
+            throw new Error(
+                `No recorded response for ${key.method} ${key.url} in ${fixturePath}. Record it again with FIXTURE_MODE=record.`
+            );
+        }
+
+        used.add(index);
+        const { response } = recorded[index];
+        return new Response(response.body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+        });
+    };
+
+    // Writes what was recorded, a no-op when replaying
+    const save = async () => {
+        if (mode !== 'record' || !exchanges) return;
+        const fixture: FetchFixture = { version: 1, exchanges };
+        await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+        await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+    };
+
+    return { mode, handler, save };
+};
@@ -0,0 +1,21 @@
+// Preloaded by `bun test`, see bunfig.toml. The Bun release the repo pins lacks
+// TextDecoderStream, which the AI SDK reads streamed provider responses with
+if (!('TextDecoderStream' in globalThis)) {
+    Object.assign(globalThis, {
+        TextDecoderStream: class extends TransformStream<Uint8Array, string> {
+            constructor(label: string = 'utf-8', options: TextDecoderOptions = {}) {
+                const decoder = new TextDecoder(label, options);
+                super({
+                    transform: (chunk, controller) => {
+                        const text = decoder.decode(chunk, { stream: true });
+                        if (text) controller.enqueue(text);
+                    },
+                    flush: controller => {
+                        const text = decoder.decode();
+                        if (text) controller.enqueue(text);
+                    },
+                });
+            }
+        },
+    });
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import { CoreMessage } from 'ai';
+import { ModelEnum } from './models';
+import { ContextBudget, countMessageTokens, countTokens } from './tokens';
+
+const model = ModelEnum.GPT_4o_Mini;
+
+// GPT 4o Mini has a 128k context window, reserve all but `total` tokens of it
+const createBudget = (total: number) =>
+    new ContextBudget(model, { reservedOutputTokens: 128000 - total });
+
+const words = (count: number, word = 'lorem') => Array(count).fill(word).join(' ');
+
+const message = (role: 'user' | 'assistant', content: string): CoreMessage => ({ role, content });
+
+describe('ContextBudget.fitTexts', () => {
+    test('keeps short texts whole and splits what they leave between the longer ones', () => {
+        const budget = createBudget(1000);
+        const short = words(50);
+        const shortTokens = countTokens(short, model);
+
+        const [first, second, third] = budget.fitTexts([words(2000), short, words(3000)]);
+
+        const evenShare = Math.ceil((1000 - shortTokens) / 2);
+        expect(second).toBe(short);
+        expect(first.endsWith('[…]')).toBe(true);
+        expect(third.endsWith('[…]')).toBe(true);
+        expect(countTokens(first, model)).toBeLessThanOrEqual(evenShare);
+        expect(countTokens(first, model)).toBeGreaterThan(evenShare - 10);
+        expect(countTokens(third, model)).toBeLessThanOrEqual(evenShare);
+        expect(budget.remaining).toBeLessThan(10);
+    });
+
+    test('keeps every text whole when they all fit', () => {
+        const budget = createBudget(1000);
+        const texts = [words(100), words(200, 'ipsum')];
+
+        expect(budget.fitTexts(texts)).toEqual(texts);
+        expect(budget.remaining).toBe(
+            1000 - texts.reduce((sum, text) => sum + countTokens(text, model), 0)
+        );
+    });
+
+    test('drops the lowest ranked texts that would get less than minTokens', () => {
+        const budget = createBudget(1000);
+
+        const fitted = budget.fitTexts([words(1000), words(1000), words(1000)], {
+            minTokens: 400,
+        });
+
+        expect(fitted[2]).toBe('');
+        expect(countTokens(fitted[0], model)).toBeGreaterThan(400);
+        expect(countTokens(fitted[1], model)).toBeGreaterThan(400);
+    });
+
+    test('stays within its share of the remaining budget', () => {
+        const budget = createBudget(1000);
+        budget.reserve(words(200));
+        const remaining = budget.remaining;
+
+        const [fitted] = budget.fitTexts([words(2000)], { share: 0.5 });
+
+        expect(countTokens(fitted, model)).toBeLessThanOrEqual(Math.floor(remaining * 0.5));
+        expect(budget.remaining).toBeGreaterThanOrEqual(Math.floor(remaining * 0.5));
+    });
+});
+
+describe('ContextBudget.fitMessages', () => {
+    const history = [
+        message('user', words(300, 'first')),
+        message('assistant', words(300, 'second')),
+        message('user', words(300, 'third')),
+        message('assistant', words(300, 'fourth')),
+    ];
+    const size = countMessageTokens(history[0], model);
+
+    test('keeps the latest messages that fit in its share', () => {
+        // Half of the budget holds three and a half messages
+        const budget = createBudget(7 * size);
+
+        const fitted = budget.fitMessages(history, { share: 0.5 });
+
+        expect(fitted).toEqual(history.slice(1));
+        // Plus the tokens priming the reply
+        const used = fitted.reduce((sum, kept) => sum + countMessageTokens(kept, model), 3);
+        expect(budget.remaining).toBe(7 * size - used);
+    });
+
+    test('always keeps the last message, even over budget', () => {
+        const budget = createBudget(100);
+
+        expect(budget.fitMessages(history)).toEqual(history.slice(-1));
+        expect(budget.remaining).toBe(0);
+    });
+
+    test('takes nothing from the budget for no messages', () => {
+        const budget = createBudget(1000);
+
+        expect(budget.fitMessages([])).toEqual([]);
+        expect(budget.remaining).toBe(1000);
+    });
+});
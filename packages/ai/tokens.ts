@@ -0,0 +1,281 @@
+import { CoreMessage } from 'ai';
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import { getModel, ModelId } from './models';
+
+export type TokenizerFamily = 'openai' | 'anthropic' | 'google' | 'other';
+
+type Encoding = 'o200k_base' | 'cl100k_base';
+
+// Built on first use, parsing the ranks takes a moment
+const encoders: Partial<Record<Encoding, Tiktoken>> = {};
+
+const getEncoder = (encoding: Encoding): Tiktoken => {
+    if (!encoders[encoding]) {
+        encoders[encoding] = getEncoding(encoding);
+    }
+    return encoders[encoding]!;
+};
+
+/**
+ * Tokens per o200k_base token for families whose tokenizers are not public or not shipped
+ * with the app, measured on English prose and markdown. 'other' covers the open-weight
+ * models (Llama, DeepSeek, Qwen) and endpoints added at runtime.
+ */
+const TOKENIZER_RATIOS: Record<TokenizerFamily, number> = {
+    openai: 1,
+    anthropic: 1.2,
+    google: 1.1,
+    other: 1.15,
+};
+
+// Tokens an image costs at each family's default resolution, e.g. OpenAI high detail at
+// 1024x1024 is 4 tiles. Images sent as URLs or data URLs carry no size.
+const IMAGE_TOKENS: Record<TokenizerFamily, number> = {
+    openai: 765,
+    anthropic: 1600,
+    google: 258,
+    other: 1000,
+};
+
+// Role and separator tokens each chat message adds, and those priming the reply
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+// For models without a catalog entry
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Output kept free by default, models' max output is often far beyond what an answer needs
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 8192;
+
+const TRUNCATION_MARKER = '\n[…]';
+
+export const getTokenizerFamily = (model?: ModelId | string): TokenizerFamily => {
+    switch (getModel(model)?.provider) {
+        case 'openai':
+            return 'openai';
+        case 'anthropic':
+            return 'anthropic';
+        case 'google':
+            return 'google';
+        default:
+            return 'other';
+    }
+};
+
+// GPT-4 Turbo and GPT-3.5 predate o200k_base
+const getOpenAIEncoding = (model?: ModelId | string): Encoding => {
+    const id = getModel(model)?.providerModelId || model || '';
+    return /^gpt-(3\.5|4-|4$)/.test(id) ? 'cl100k_base' : 'o200k_base';
+};
+
+// Other families are counted with o200k_base and scaled
+const getModelEncoder = (model?: ModelId | string) =>
+    getEncoder(getTokenizerFamily(model) === 'openai' ? getOpenAIEncoding(model) : 'o200k_base');
+
+const encode = (text: string, model?: ModelId | string) =>
+    getModelEncoder(model).encode(text, 'all');
+
+export const countTokens = (text: string | undefined, model?: ModelId | string): number => {
+    if (!text) return 0;
+    try {
+        return Math.ceil(encode(text, model).length * TOKENIZER_RATIOS[getTokenizerFamily(model)]);
+    } catch (error) {
+        console.warn('Failed to tokenize, estimating from length:', error);
+        return Math.ceil(text.length / 4);
+    }
+};
+
+/**
+ * Tokens of an image, from its size when known, following each provider's published
+ * formula: OpenAI counts 512px tiles after fitting 2048px and scaling the short side to
+ * 768px, Anthropic about one token per 750px² up to 1568px, Gemini a flat 258.
+ */
+export const estimateImageTokens = (
+    model?: ModelId | string,
+    size?: { width: number; height: number }
+): number => {
+    const family = getTokenizerFamily(model);
+    if (!size || family === 'google' || family === 'other') {
+        return IMAGE_TOKENS[family];
+    }
+    if (family === 'anthropic') {
+        const scale = Math.min(1, 1568 / Math.max(size.width, size.height));
+        return Math.min(
+            Math.ceil((size.width * scale * (size.height * scale)) / 750),
+            IMAGE_TOKENS.anthropic
+        );
+    }
+    const fit = Math.min(1, 2048 / Math.max(size.width, size.height));
+    const scale = fit * Math.min(1, 768 / (Math.min(size.width, size.height) * fit));
+    const tiles = Math.ceil((size.width * scale) / 512) * Math.ceil((size.height * scale) / 512);
+    return 85 + 170 * tiles;
+};
+
+const countContentTokens = (content: CoreMessage['content'], model?: ModelId | string) => {
+    if (typeof content === 'string') {
+        return countTokens(content, model);
+    }
+    return (content || []).reduce((sum: number, part) => {
+        switch (part.type) {
+            case 'text':
+            case 'reasoning':
+                return sum + countTokens(part.text, model);
+            case 'image':
+                return sum + estimateImageTokens(model);
+            case 'file':
+                return part.mimeType.startsWith('image/')
+                    ? sum + estimateImageTokens(model)
+                    : sum + countTokens(typeof part.data === 'string' ? part.data : '', model);
+            case 'tool-call':
+                return sum + countTokens(part.toolName + JSON.stringify(part.args ?? {}), model);
+            case 'tool-result':
+                return sum + countTokens(JSON.stringify(part.result ?? ''), model);
+            default:
+                return sum;
+        }
+    }, 0);
+};
+
+export const countMessageTokens = (message: CoreMessage, model?: ModelId | string): number =>
+    MESSAGE_OVERHEAD_TOKENS + countContentTokens(message.content, model);
+
+export const countMessagesTokens = (messages: CoreMessage[], model?: ModelId | string): number =>
+    messages.length
+        ? messages.reduce((sum, message) => sum + countMessageTokens(message, model), 0) +
+          REPLY_PRIMING_TOKENS
+        : 0;
+
+// Everything a call sends, the prompt goes out as its system message when there are messages
+export const countPromptTokens = (
+    model: ModelId | string,
+    prompt: string,
+    messages: CoreMessage[] = []
+): number => countTokens(prompt, model) + countMessagesTokens(messages, model);
+
+// Cut at a token boundary, marked so the model knows the text goes on
+export const truncateToTokens = (
+    text: string,
+    maxTokens: number,
+    model?: ModelId | string
+): string => {
+    if (countTokens(text, model) <= maxTokens) return text;
+    const markerTokens = countTokens(TRUNCATION_MARKER, model);
+    if (maxTokens <= markerTokens) return '';
+    const ratio = TOKENIZER_RATIOS[getTokenizerFamily(model)];
+    const keep = Math.floor((maxTokens - markerTokens) / ratio);
+    try {
+        return (
+            getModelEncoder(model).decode(encode(text, model).slice(0, keep)) + TRUNCATION_MARKER
+        );
+    } catch (error) {
+        return text.slice(0, keep * 4) + TRUNCATION_MARKER;
+    }
+};
+
+// Shares of what is left after the fixed prompt, retrieved content gets the rest
+export const DEFAULT_CONTEXT_SHARES = {
+    customInstructions: 0.1,
+    history: 0.3,
+};
+
+export type ContextBudgetOptions = {
+    // Tokens kept free for the answer, by default the model's max output, up to 8192 unless
+    // it reasons
+    reservedOutputTokens?: number;
+};
+
+/**
+ * Splits a model's context window between the parts of a prompt. The fixed parts, e.g.
+ * the template around the content, are reserved first, custom instructions and history
+ * are capped to a share of what is left and retrieved content fills the rest. Each fit
+ * takes from the budget, so the order of the calls is the order of priority.
+ */
+export class ContextBudget {
+    readonly model: ModelId;
+    readonly total: number;
+    private used = 0;
+
+    constructor(model: ModelId, { reservedOutputTokens }: ContextBudgetOptions = {}) {
+        const definition = getModel(model);
+        const maxOutputTokens = definition?.maxOutputTokens ?? DEFAULT_RESERVED_OUTPUT_TOKENS;
+        // Reasoning is part of the output, so reasoning models keep all of it
+        const reserved =
+            reservedOutputTokens ??
+            (definition?.capabilities.reasoning
+                ? maxOutputTokens
+                : Math.min(maxOutputTokens, DEFAULT_RESERVED_OUTPUT_TOKENS));
+        this.model = model;
+        this.total = Math.max((definition?.contextWindow ?? DEFAULT_CONTEXT_WINDOW) - reserved, 0);
+    }
+
+    get remaining(): number {
+        return Math.max(this.total - this.used, 0);
+    }
+
+    // Counts text sent as is
+    reserve(text: string): number {
+        const tokens = countTokens(text, this.model);
+        this.used += tokens;
+        return tokens;
+    }
+
+    // The text, truncated to `share` of the remaining budget
+    fitText(text: string, { share = 1 }: { share?: number } = {}): string {
+        const fitted = truncateToTokens(text, Math.floor(this.remaining * share), this.model);
+        this.used += countTokens(fitted, this.model);
+        return fitted;
+    }
+
+    // The latest messages within `share` of the remaining budget, the last one always kept
+    fitMessages(messages: CoreMessage[], { share = 1 }: { share?: number } = {}): CoreMessage[] {
+        const limit = Math.floor(this.remaining * share);
+        let tokens = 0;
+        let start = messages.length;
+
+        while (start > 0) {
+            const size = countMessageTokens(messages[start - 1], this.model);
+            if (start < messages.length && tokens + size > limit) break;
+            tokens += size;
+            start--;
+        }
+
+        this.used += tokens + (tokens ? REPLY_PRIMING_TOKENS : 0);
+        return messages.slice(start);
+    }
+
+    /**
+     * Texts ranked first to last, e.g. web pages or findings, within `share` of the
+     * remaining budget. Short texts are kept whole and leave their unused share to the
+     * longer ones, which are truncated evenly. Texts that would get less than
+     * `minTokens` are dropped from the end and come back empty.
+     */
+    fitTexts(
+        texts: string[],
+        { share = 1, minTokens = 200 }: { share?: number; minTokens?: number } = {}
+    ): string[] {
+        const limit = Math.floor(this.remaining * share);
+        const count = Math.min(texts.length, Math.max(Math.floor(limit / minTokens), 1));
+        const sizes = texts.slice(0, count).map(text => countTokens(text, this.model));
+        const allowed: number[] = [];
+        let left = limit;
+
+        sizes
+            .map((size, index) => ({ size, index }))
+            .sort((a, b) => a.size - b.size)
+            .forEach(({ size, index }, position) => {
+                const fairShare = Math.floor(left / (count - position));
+                allowed[index] = Math.min(size, fairShare);
+                left -= allowed[index];
+            });
+
+        return texts.map((text, index) => {
+            if (index >= count) return '';
+            const fitted =
+                sizes[index] <= allowed[index]
+                    ? text
+                    : truncateToTokens(text, allowed[index], this.model);
+            this.used += sizes[index] <= allowed[index] ? sizes[index] : allowed[index];
+            return fitted;
+        });
+    }
+}
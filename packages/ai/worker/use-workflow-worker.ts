@@ -1,9 +1,10 @@
-import { ChatMode } from '@repo/shared/config';
+import { ChatModeId, ProviderConfig } from '@repo/shared/config';
+import { ThreadSummary } from '@repo/shared/types';
 import { CoreAssistantMessage, CoreUserMessage } from 'ai';
 import { useEffect, useRef, useState } from 'react';
+import { RateLimitConfig, RateLimitKey } from '../rate-limit';
 
 export type WorkflowConfig = {
-    maxIterations?: number;
     maxRetries?: number;
     timeoutMs?: number;
     retryDelayMs?: number;
@@ -107,20 +108,31 @@ export function useWorkflowWorker(onMessage?: (data: any) => void, onAbort?: ()
         parentThreadItemId,
         customInstructions,
         messages,
+        summary,
         config,
         apiKeys,
         mcpConfig,
+        approvePlan,
+        rateLimits,
+        providers,
     }: {
-        mode: ChatMode;
+        mode: ChatModeId;
         question: string;
         threadId: string;
         threadItemId: string;
         parentThreadItemId: string;
         customInstructions?: string;
         messages: (CoreUserMessage | CoreAssistantMessage)[];
+        // The thread's summary of turns left out of `messages`
+        summary?: ThreadSummary;
         config?: WorkflowConfig;
         apiKeys?: Record<string, string>;
         mcpConfig?: Record<string, string>;
+        approvePlan?: boolean;
+        // Limits of the user's own API keys, applied to every run in the worker
+        rateLimits?: Partial<Record<RateLimitKey, RateLimitConfig>>;
+        // OpenAI-compatible endpoints the user added, registered in the worker
+        providers?: ProviderConfig[];
     }) => {
         // Reset state
         setError(null);
@@ -157,9 +169,13 @@ export function useWorkflowWorker(onMessage?: (data: any) => void, onAbort?: ()
                     parentThreadItemId,
                     customInstructions,
                     messages,
+                    summary,
                     config,
                     apiKeys: apiKeys || {},
                     mcpConfig,
+                    approvePlan,
+                    rateLimits,
+                    providers,
                 },
             });
 
@@ -170,6 +186,55 @@ export function useWorkflowWorker(onMessage?: (data: any) => void, onAbort?: ()
         }
     };
 
+    // Answer a question the suspended workflow is waiting on and let it continue
+    const provideInput = ({
+        mode,
+        question,
+        threadId,
+        threadItemId,
+        parentThreadItemId,
+        key,
+        value,
+        apiKeys,
+        mcpConfig,
+        providers,
+    }: {
+        mode: ChatModeId;
+        question: string;
+        threadId: string;
+        threadItemId: string;
+        parentThreadItemId: string;
+        key: string;
+        value: any;
+        apiKeys?: Record<string, string>;
+        mcpConfig?: Record<string, string>;
+        providers?: ProviderConfig[];
+    }) => {
+        if (!workerRef.current) {
+            setStatus('error');
+            setError(new Error('Workflow worker is not running'));
+            return;
+        }
+
+        workerRef.current.postMessage({
+            type: 'PROVIDE_INPUT',
+            payload: {
+                mode,
+                question,
+                threadId,
+                threadItemId,
+                parentThreadItemId,
+                key,
+                value,
+                apiKeys: apiKeys || {},
+                mcpConfig,
+                providers,
+            },
+        });
+
+        setStatus('running');
+    };
+
     const abortWorkflow = (graceful: boolean = false) => {
         if (!workerRef.current) {
             return;
@@ -189,6 +254,7 @@ export function useWorkflowWorker(onMessage?: (data: any) => void, onAbort?: ()
         error,
         flowState,
         startWorkflow,
+        provideInput,
         abortWorkflow,
     };
 }
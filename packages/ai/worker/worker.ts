@@ -1,5 +1,9 @@
-import { ChatMode } from '@repo/shared/config';
-import { runWorkflow } from '../workflow/flow';
+import { PersistenceLayer } from '@repo/orchestrator';
+import { IndexedDBStorageAdapter } from '@repo/orchestrator/storage';
+import { ChatMode, ChatModeId, ProviderConfig } from '@repo/shared/config';
+import { registerProviders } from '../providers';
+import { configureRateLimits } from '../rate-limit';
+import { runWorkflow, WorkflowContextSchema, WorkflowEventSchema } from '../workflow/flow';
 // Create context for the worker
 const ctx: Worker = self as any;
 
@@ -11,6 +15,96 @@ if (typeof process === 'undefined') {
 // Store for API keys and active workflow
 let apiKeys: Record<string, string> = {};
 let activeWorkflow: ReturnType<typeof runWorkflow> | null = null;
+// Suspended runs stay active so input can resume the same engine
+let activeThreadId: string | null = null;
+let activeThreadItemId: string | null = null;
+
+// Snapshots of in-flight runs, kept for a day so interrupted runs can be found and resumed
+const persistence = new PersistenceLayer<WorkflowEventSchema, WorkflowContextSchema>(
+    new IndexedDBStorageAdapter({ dbName: 'llmchat-workflows' }),
+    { ttlMs: 24 * 60 * 60 * 1000 }
+);
+
+// Snapshots that fail to load, e.g. from a newer version of the app, are started over
+const loadInterruptedRun = async (
+    {
+        threadId,
+        threadItemId,
+        question,
+        mode,
+    }: { threadId: string; threadItemId: string; question: string; mode: ChatModeId },
+    builderFactory: () => ReturnType<typeof runWorkflow>
+): Promise<ReturnType<typeof runWorkflow> | null> => {
+    const workflow: ReturnType<typeof runWorkflow> | null = await persistence
+        .loadWorkflow(threadId, builderFactory)
+        .catch(error => {
+            console.warn('[Worker] Could not load the saved run:', error);
+            return null;
+        });
+    const context = workflow?.getContext();
+    const isSameRun =
+        context?.get('threadItemId') === threadItemId &&
+        context?.get('question') === question &&
+        context?.get('mode') === mode;
+    return workflow && isSameRun && !workflow.isSuspended() && workflow.isResumable()
+        ? workflow
+        : null;
+};
+
+const setApiKeys = (newApiKeys?: Record<string, string>) => {
+    if (!newApiKeys) return;
+    apiKeys = newApiKeys;
+
+    self.AI_API_KEYS = {
+        openai: apiKeys.OPENAI_API_KEY,
+        anthropic: apiKeys.ANTHROPIC_API_KEY,
+        fireworks: apiKeys.FIREWORKS_API_KEY,
+        google: apiKeys.GEMINI_API_KEY,
+        together: apiKeys.TOGETHER_API_KEY,
+    };
+
+    self.SERPER_API_KEY = apiKeys.SERPER_API_KEY;
+    self.JINA_API_KEY = apiKeys.JINA_API_KEY;
+    self.NEXT_PUBLIC_APP_URL = apiKeys.NEXT_PUBLIC_APP_URL;
+};
+
+// Endpoints the user added in the browser, e.g. a local Ollama, are registered per run
+const setProviders = (providers?: ProviderConfig[]) => {
+    if (!providers?.length) return;
+    registerProviders(providers);
+};
+
+// Forward workflow events to the main thread
+const forwardEvents = (
+    workflow: ReturnType<typeof runWorkflow>,
+    {
+        threadId,
+        threadItemId,
+        parentThreadItemId,
+        mode,
+        question,
+    }: {
+        threadId: string;
+        threadItemId: string;
+        parentThreadItemId: string;
+        mode: ChatModeId;
+        question: string;
+    }
+) => {
+    workflow.onAll((event, payload, { seq, timestamp }) => {
+        ctx.postMessage({
+            event: event,
+            seq,
+            timestamp,
+            threadId,
+            threadItemId,
+            parentThreadItemId,
+            mode,
+            query: question,
+            [event]: payload,
+        });
+    });
+};
 
 // Handle messages from the main thread
 ctx.addEventListener('message', async (event: MessageEvent) => {
@@ -35,71 +129,138 @@ ctx.addEventListener('message', async (event: MessageEvent) => {
                 threadItemId,
                 parentThreadItemId,
                 messages,
+                summary,
                 config,
                 apiKeys: newApiKeys,
                 mcpConfig,
+                approvePlan,
+                rateLimits,
+                providers,
             } = payload;
 
-            // Set API keys if provided
-            if (newApiKeys) {
-                apiKeys = newApiKeys;
-
-                self.AI_API_KEYS = {
-                    openai: apiKeys.OPENAI_API_KEY,
-                    anthropic: apiKeys.ANTHROPIC_API_KEY,
-                    fireworks: apiKeys.FIREWORKS_API_KEY,
-                    google: apiKeys.GEMINI_API_KEY,
-                    together: apiKeys.TOGETHER_API_KEY,
-                };
-
-                self.SERPER_API_KEY = apiKeys.SERPER_API_KEY;
-                self.JINA_API_KEY = apiKeys.JINA_API_KEY;
-                self.NEXT_PUBLIC_APP_URL = apiKeys.NEXT_PUBLIC_APP_URL;
+            setApiKeys(newApiKeys);
+            setProviders(providers);
+            if (rateLimits) {
+                configureRateLimits(rateLimits);
             }
 
-            // Initialize the workflow
-            activeWorkflow = runWorkflow({
+            const buildWorkflow = () =>
+                runWorkflow({
+                    mode,
+                    question,
+                    threadId,
+                    threadItemId,
+                    messages,
+                    summary,
+                    config,
+                    mcpConfig,
+                    persistence,
+                    approvePlan,
+                    onFinish: (data: any) => {},
+                });
+
+            // A run of the same thread item cut off by a reload or crash continues where it stopped
+            const interrupted = await loadInterruptedRun(
+                { threadId, threadItemId, question, mode },
+                buildWorkflow
+            );
+            activeWorkflow = interrupted ?? buildWorkflow();
+            activeThreadId = threadId;
+            activeThreadItemId = threadItemId;
+
+            forwardEvents(activeWorkflow, {
+                threadId,
+                threadItemId,
+                parentThreadItemId,
                 mode,
                 question,
+            });
+
+            // Start the workflow with the appropriate task
+            const startTask = mode === ChatMode.Deep ? 'router' : 'router';
+            const result = interrupted
+                ? await activeWorkflow.resume()
+                : await activeWorkflow.start(startTask, {
+                      question,
+                  });
+
+            const suspended = activeWorkflow.isSuspended();
+
+            // Send completion message
+            ctx.postMessage({
+                type: 'done',
+                status: suspended ? 'suspended' : 'complete',
                 threadId,
                 threadItemId,
-                messages,
-                config,
-                mcpConfig,
-                onFinish: (data: any) => {},
+                parentThreadItemId,
+                result,
             });
 
-            // Forward workflow events to the main thread
-            activeWorkflow.onAll((event, payload) => {
-                ctx.postMessage({
-                    event: event,
+            // Clear the active workflow reference
+            if (!suspended) {
+                activeWorkflow = null;
+            }
+        } else if (type === 'PROVIDE_INPUT') {
+            const {
+                mode,
+                question,
+                threadId,
+                threadItemId,
+                parentThreadItemId,
+                key,
+                value,
+                apiKeys: newApiKeys,
+                mcpConfig,
+                providers,
+            } = payload;
+
+            setApiKeys(newApiKeys);
+            setProviders(providers);
+
+            // The engine is only gone if the worker restarted since the run was suspended
+            if (!activeWorkflow || activeThreadItemId !== threadItemId) {
+                activeWorkflow = await persistence.loadWorkflow(threadId, () =>
+                    runWorkflow({
+                        mode,
+                        question,
+                        threadId,
+                        threadItemId,
+                        messages: [],
+                        mcpConfig,
+                        persistence,
+                        onFinish: (data: any) => {},
+                    })
+                );
+
+                if (!activeWorkflow) {
+                    throw new Error('This run can no longer be resumed');
+                }
+
+                activeThreadId = threadId;
+                activeThreadItemId = threadItemId;
+                forwardEvents(activeWorkflow, {
                     threadId,
                     threadItemId,
                     parentThreadItemId,
                     mode,
-                    query: question,
-                    [event]: payload,
+                    question,
                 });
-            });
+            }
 
-            // Start the workflow with the appropriate task
-            const startTask = mode === ChatMode.Deep ? 'router' : 'router';
-            const result = await activeWorkflow.start(startTask, {
-                question,
-            });
+            await activeWorkflow.provideInput(key, value);
+            const suspended = activeWorkflow.isSuspended();
 
-            // Send completion message
             ctx.postMessage({
                 type: 'done',
-                status: 'complete',
+                status: suspended ? 'suspended' : 'complete',
                 threadId,
                 threadItemId,
                 parentThreadItemId,
-                result,
             });
 
-            // Clear the active workflow reference
-            activeWorkflow = null;
+            if (!suspended) {
+                activeWorkflow = null;
+            }
         } else if (type === 'ABORT_WORKFLOW') {
             // Abort handling
             if (activeWorkflow) {
@@ -111,6 +272,11 @@ ctx.addEventListener('message', async (event: MessageEvent) => {
                 }
             }
 
+            // A stopped run isn't continued by the next start of its thread item
+            if (activeThreadId) {
+                await persistence.deleteWorkflow(activeThreadId);
+            }
+
             ctx.postMessage({
                 type: 'done',
                 status: 'aborted',
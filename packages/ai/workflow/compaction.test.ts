@@ -0,0 +1,126 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { ChatModeId } from '@repo/shared/config';
+import { ThreadSummary } from '@repo/shared/types';
+import { registerProvider, setLanguageModelOverride, unregisterProvider } from '../providers';
+import { createMockLanguageModel, MockModelScript } from '../testing';
+import { compactMessageHistory, HistoryMessage } from './compaction';
+
+// 2500 tokens of history, about four of the turns below
+const mode = 'tiny/tiny-model' as ChatModeId;
+
+const filler = Array(250).fill('lorem').join(' ');
+
+// A question and its answer per thread item, about 600 tokens
+const turn = (threadItemId: string, { pinned = false } = {}): HistoryMessage[] => [
+    { role: 'user', content: `${threadItemId} question: ${filler}`, threadItemId, pinned },
+    { role: 'assistant', content: `${threadItemId} answer: ${filler}`, threadItemId, pinned },
+];
+
+const history = ({ pinned = [] as string[] } = {}): HistoryMessage[] => [
+    ...['item-1', 'item-2', 'item-3', 'item-4', 'item-5'].flatMap(id =>
+        turn(id, { pinned: pinned.includes(id) })
+    ),
+    { role: 'user', content: 'And what about the third option?' },
+];
+
+const previousSummary: ThreadSummary = {
+    text: 'The user compares three hosting options.',
+    threadItemIds: ['item-0'],
+};
+
+const compact = (script: MockModelScript, messages: HistoryMessage[]) => {
+    const model = createMockLanguageModel(script);
+    setLanguageModelOverride(model.getModel);
+    return {
+        calls: model.calls,
+        result: compactMessageHistory({ messages, summary: previousSummary, mode }),
+    };
+};
+
+beforeAll(() => {
+    registerProvider({
+        id: 'tiny',
+        baseURL: 'http://127.0.0.1:1/v1',
+        models: [{ id: 'tiny-model', contextWindow: 3000, maxOutputTokens: 500 }],
+    });
+});
+
+afterEach(() => setLanguageModelOverride(undefined));
+
+afterAll(() => unregisterProvider('tiny'));
+
+describe('compactMessageHistory', () => {
+    test('leaves a history that fits as it is, after the summary', async () => {
+        const messages = [...turn('item-1'), { role: 'user' as const, content: 'Thanks!' }];
+        const { calls, result } = compact([], messages);
+
+        const { messages: compacted, summary, compacted: didCompact } = await result;
+
+        expect(didCompact).toBe(false);
+        expect(calls).toHaveLength(0);
+        expect(summary).toBe(previousSummary);
+        expect(compacted).toHaveLength(4);
+        expect(compacted[0]).toEqual({
+            role: 'system',
+            content: expect.stringContaining(previousSummary.text),
+        });
+        expect(compacted[3]).toEqual({ role: 'user', content: 'Thanks!' });
+    });
+
+    test('folds the oldest turns into the summary, extending the previous one', async () => {
+        const { calls, result } = compact(['They settled on the second option.'], history());
+
+        const { messages, summary, compacted } = await result;
+
+        expect(compacted).toBe(true);
+        expect(summary).toEqual({
+            text: 'They settled on the second option.',
+            threadItemIds: ['item-0', 'item-1', 'item-2', 'item-3'],
+        });
+        expect(calls[0].prompt).toContain(previousSummary.text);
+        expect(calls[0].prompt).toContain('item-3 answer');
+        expect(calls[0].prompt).not.toContain('item-4 question');
+        expect(messages.map(message => message.role)).toEqual([
+            'system',
+            'user',
+            'assistant',
+            'user',
+            'assistant',
+            'user',
+        ]);
+        expect(messages[1].content).toContain('item-4 question');
+    });
+
+    test('never evicts pinned turns', async () => {
+        const { calls, result } = compact(['A summary.'], history({ pinned: ['item-1'] }));
+
+        const { messages, summary } = await result;
+
+        expect(summary?.threadItemIds).toEqual(['item-0', 'item-2', 'item-3', 'item-4']);
+        expect(calls[0].prompt).not.toContain('item-1 question');
+        expect(messages[1].content).toContain('item-1 question');
+        expect(messages[3].content).toContain('item-5 question');
+    });
+
+    test('keeps the previous summary when the summary call fails', async () => {
+        const { result } = compact([{ error: new Error('Invalid request') }], history());
+
+        const { messages, summary, compacted } = await result;
+
+        expect(compacted).toBe(false);
+        expect(summary).toBe(previousSummary);
+        // The evicted turns are dropped all the same
+        expect(messages).toHaveLength(6);
+        expect(messages[0].content).toContain(previousSummary.text);
+        expect(messages[1].content).toContain('item-4 question');
+    });
+
+    test('keeps the previous summary when the summary comes back empty', async () => {
+        const { result } = compact(['  '], history());
+
+        const { summary, compacted } = await result;
+
+        expect(compacted).toBe(false);
+        expect(summary).toBe(previousSummary);
+    });
+});
@@ -0,0 +1,146 @@
+import { LLMUsage, Span } from '@repo/orchestrator';
+import { ChatModeId } from '@repo/shared/config';
+import { ThreadSummary } from '@repo/shared/types';
+import { CoreMessage } from 'ai';
+import { getChatModeMaxTokens, getModelFromChatMode } from '../models';
+import { ContextBudget, countMessageTokens, countTokens } from '../tokens';
+import { generateText } from './utils';
+
+// As built by buildCoreMessagesFromThreadItems, the query has no thread item
+export type HistoryMessage = CoreMessage & {
+    threadItemId?: string;
+    pinned?: boolean;
+};
+
+// Kept free in the history for the summary that replaces the evicted turns
+const SUMMARY_MAX_TOKENS = 1024;
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation, its messages are not shown:';
+
+const buildSummaryPrompt = (previousSummary: string, turns: string[]) => `
+Summarize the earlier part of a conversation between a user and an assistant, so that it can go on without it.
+
+Keep facts, names, numbers, decisions, the user's preferences and questions left open. Leave out pleasantries and anything the conversation settled and moved past. Write plain prose of at most 300 words.
+
+${previousSummary ? `Extend the summary of the turns before these:\n<summary>\n${previousSummary}\n</summary>\n` : ''}
+<conversation>
+${turns.join('\n\n')}
+</conversation>
+`;
+
+const getMessageText = (message: CoreMessage) => {
+    if (typeof message.content === 'string') return message.content;
+    return message.content
+        .map(part => (part.type === 'text' ? part.text : part.type === 'image' ? '[image]' : ''))
+        .filter(Boolean)
+        .join('\n');
+};
+
+// Messages as the tasks send them, with the summary first as a system message
+const toModelMessages = (messages: HistoryMessage[], summary?: ThreadSummary): CoreMessage[] => [
+    ...(summary?.text
+        ? [{ role: 'system' as const, content: `${SUMMARY_PREFIX}\n\n${summary.text}` }]
+        : []),
+    ...messages.map(({ threadItemId, pinned, ...message }) => message as CoreMessage),
+];
+
+/**
+ * Fit the history to the chat mode's model by folding the oldest turns into the thread's
+ * rolling summary instead of dropping them. Pinned turns and the query are never evicted.
+ * The summary is written by the chat mode's model, whose key the run is known to have.
+ * If that call fails the evicted turns are dropped and the previous summary is kept.
+ */
+export const compactMessageHistory = async ({
+    messages,
+    summary,
+    mode,
+    trace,
+    recordUsage,
+    signal,
+}: {
+    messages: HistoryMessage[];
+    summary?: ThreadSummary;
+    mode: ChatModeId;
+    trace?: Span;
+    recordUsage?: (usage: LLMUsage) => void;
+    signal?: AbortSignal;
+}): Promise<{ messages: CoreMessage[]; summary?: ThreadSummary; compacted: boolean }> => {
+    const model = getModelFromChatMode(mode);
+    const maxTokens = getChatModeMaxTokens(mode);
+    const sizes = messages.map(message => countMessageTokens(message, model));
+    const summaryTokens = countTokens(summary?.text, model);
+    let tokenCount = sizes.reduce((sum, tokens) => sum + tokens, 0);
+
+    if (tokenCount + summaryTokens <= maxTokens) {
+        return { messages: toModelMessages(messages, summary), summary, compacted: false };
+    }
+
+    // Whole turns go, oldest first, until the rest leaves room for the summary
+    const turnIds = messages
+        .map(message => message.threadItemId)
+        .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+    const evictedIds: string[] = [];
+    for (const id of turnIds) {
+        if (tokenCount <= maxTokens - SUMMARY_MAX_TOKENS) break;
+        if (messages.some(message => message.threadItemId === id && message.pinned)) continue;
+        evictedIds.push(id);
+        tokenCount -= messages.reduce(
+            (sum, message, index) => (message.threadItemId === id ? sum + sizes[index] : sum),
+            0
+        );
+    }
+
+    if (!evictedIds.length) {
+        return { messages: toModelMessages(messages, summary), summary, compacted: false };
+    }
+
+    const isEvicted = (message: HistoryMessage) =>
+        !!message.threadItemId && evictedIds.includes(message.threadItemId);
+    const evicted = messages.filter(isEvicted);
+    const kept = messages.filter(message => !isEvicted(message));
+
+    const budget = new ContextBudget(model);
+    budget.reserve(
+        buildSummaryPrompt(
+            summary?.text || '',
+            evicted.map(() => '')
+        )
+    );
+    const turns = budget
+        .fitTexts(
+            evicted.map(
+                message =>
+                    `${message.role === 'user' ? 'User' : 'Assistant'}: ${getMessageText(message)}`
+            )
+        )
+        .filter(Boolean);
+
+    try {
+        const text = await generateText({
+            trace,
+            recordUsage,
+            priority: 'high',
+            model,
+            prompt: buildSummaryPrompt(summary?.text || '', turns),
+            signal,
+        });
+
+        if (!text.trim()) {
+            throw new Error('The summary came back empty');
+        }
+
+        const compactedSummary: ThreadSummary = {
+            text: text.trim(),
+            threadItemIds: [...(summary?.threadItemIds || []), ...evictedIds],
+        };
+
+        return {
+            messages: toModelMessages(kept, compactedSummary),
+            summary: compactedSummary,
+            compacted: true,
+        };
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        return { messages: toModelMessages(kept, summary), summary, compacted: false };
+    }
+};
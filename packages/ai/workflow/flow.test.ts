@@ -0,0 +1,67 @@
+import { ChatMode } from '@repo/shared/config';
+import { describe, expect, test } from 'bun:test';
+import { createFakeSearchBackend, createMockLanguageModel, runWorkflowHarness } from '../testing';
+
+const ANSWER = 'Bun is a fast JavaScript runtime [1].';
+
+// Answers object calls by the fields of their schema, the planner plans two rounds
+const createDeepModel = () =>
+    createMockLanguageModel(call => {
+        if (call.kind === 'text') {
+            return { text: ANSWER, reasoning: 'thinking' };
+        }
+        const { mode } = call.options;
+        const fields = Object.keys((mode.type === 'object-json' && mode.schema?.properties) || {});
+        if (fields.includes('needsClarification')) {
+            return { object: { needsClarification: false, reasoning: 'clear' } };
+        }
+        if (fields.includes('queries')) {
+            return call.index < 3
+                ? { object: { reasoning: 'plan', queries: ['bun runtime'] } }
+                : { object: { reasoning: 'enough', queries: null } };
+        }
+        if (fields.includes('questions')) {
+            return { object: { questions: ['What is Bun used for?'] } };
+        }
+        return { object: { query: 'bun runtime' } };
+    });
+
+const search = createFakeSearchBackend({
+    search: { 'bun runtime': [{ title: 'Bun', link: 'https://bun.sh', snippet: 'Bun' }] },
+    pages: { 'https://bun.sh': { title: 'Bun', content: 'Bun is an all-in-one toolkit.' } },
+});
+
+describe('Deep mode', () => {
+    test('researches the question and writes a cited answer', async () => {
+        const model = createDeepModel();
+        const { getEvents, getState } = await runWorkflowHarness({
+            mode: ChatMode.Deep,
+            question: 'What is Bun?',
+            model,
+            fetch: [search],
+        });
+
+        expect(getState('status')).toBe('COMPLETED');
+        // The first step searched and read, the last one wrapped up the research
+        const steps = Object.values(getState('steps') || {});
+        expect(steps[0]?.steps.search?.data).toEqual(['bun runtime']);
+        expect(steps[0]?.steps.read?.data?.map((result: any) => result.link)).toEqual([
+            'https://bun.sh',
+        ]);
+        expect(steps[steps.length - 1]?.steps.wrapup?.status).toBe('COMPLETED');
+        expect(getState('sources')?.map(source => source.link)).toEqual(['https://bun.sh']);
+        expect(getState('answer')?.text).toContain(ANSWER);
+        expect(model.calls.some(call => call.kind === 'text')).toBe(true);
+
+        // The mock reports 10 prompt and 20 completion tokens for every call
+        const calls = model.calls.length;
+        expect(getEvents('usage')).toHaveLength(calls);
+        expect(getState('usage')?.total).toMatchObject({
+            calls,
+            promptTokens: 10 * calls,
+            completionTokens: 20 * calls,
+            totalTokens: 30 * calls,
+        });
+        expect(getState('usage')?.total.reasoningTokens).toBeGreaterThan(0);
+    });
+});
@@ -1,17 +1,23 @@
 import {
+    BudgetExceeded,
     createContext,
     createTypedEventEmitter,
+    PersistenceLayer,
+    Tracer,
+    UsageSummary,
     WorkflowBuilder,
     WorkflowConfig,
 } from '@repo/orchestrator';
-import { ChatMode } from '@repo/shared/config';
+import { ChatModeId } from '@repo/shared/config';
+import { ThreadSummary } from '@repo/shared/types';
 import { Geo } from '@vercel/functions';
 import { CoreMessage } from 'ai';
-import { Langfuse } from 'langfuse';
 import {
     analysisTask,
+    clarifyTask,
     completionTask,
     modeRoutingTask,
+    planApprovalTask,
     plannerTask,
     proSearchTask,
     quickSearchTask,
@@ -21,6 +27,24 @@ import {
     webSearchTask,
     writerTask,
 } from './tasks';
+import { WORKFLOW_VERSION, workflowMigrations } from './migrations';
+import { createWorkflowTracer } from './tracer';
+
+// Deadline of a run unless its config sets one, Deep Research runs come closest to it
+export const DEFAULT_WORKFLOW_TIMEOUT_MS = 480000;
+
+// Tasks of the Deep Research loop, skipped for analysis once the budget runs out
+const RESEARCH_LOOP_TASKS = ['planner', 'plan-approval', 'web-search', 'reflector'];
+
+// Tasks that write the answer of their mode, they still run once the budget ran out
+const ANSWER_TASKS = ['analysis', 'writer', 'completion', 'quick-search', 'pro-search'];
+
+// Where a task goes once the budget ran out: Deep Research stops and the answer is written
+// from what was found. Any other task, like the router or the suggestions, ends the run
+const routeAroundBudget = ({ taskName }: BudgetExceeded) => {
+    if (RESEARCH_LOOP_TASKS.includes(taskName)) return 'analysis';
+    return ANSWER_TASKS.includes(taskName) ? taskName : 'end';
+};
 
 type Status = 'PENDING' | 'COMPLETED' | 'ERROR' | 'HUMAN_REVIEW';
 
@@ -64,6 +88,23 @@ export type WorkflowEventSchema = {
     status: Status;
 
     suggestions?: string[];
+    retry?: {
+        task: string;
+        attempt: number;
+        maxRetries: number;
+        status: Status;
+    };
+    // Set while the run is suspended on `awaitInput`
+    input?: {
+        key: string;
+        task: string;
+        request?: any;
+        status: Status;
+    };
+    // Tokens and cost of the run so far, per task and per model
+    usage?: UsageSummary;
+    // Set when the router compacted the history, the client stores it on the thread
+    summary?: ThreadSummary;
 };
 
 // Define the context schema type
@@ -72,7 +113,7 @@ export type WorkflowContextSchema = {
     question: string;
     search_queries: string[];
     messages: CoreMessage[];
-    mode: ChatMode;
+    mode: ChatModeId;
     goals: {
         id: number;
         text: string;
@@ -102,7 +143,11 @@ export type WorkflowContextSchema = {
     threadId: string;
     threadItemId: string;
     showSuggestions: boolean;
+    // Pause after planning until the user approves the search queries
+    approvePlan: boolean;
     customInstructions?: string;
+    // The thread's rolling summary of turns left out of `messages`
+    summary?: ThreadSummary;
     onFinish: (data: any) => void;
 };
 
@@ -119,10 +164,14 @@ export const runWorkflow = ({
     showSuggestions = false,
     onFinish,
     customInstructions,
+    summary,
     gl,
+    persistence,
+    approvePlan = false,
+    tracer = createWorkflowTracer(),
 }: {
     mcpConfig: Record<string, string>;
-    mode: ChatMode;
+    mode: ChatModeId;
     question: string;
     threadId: string;
     threadItemId: string;
@@ -134,17 +183,22 @@ export const runWorkflow = ({
     onFinish?: (data: any) => void;
     gl?: Geo;
     customInstructions?: string;
+    summary?: ThreadSummary;
+    persistence?: PersistenceLayer<WorkflowEventSchema, WorkflowContextSchema>;
+    approvePlan?: boolean;
+    // Defaults to the backend configured in the environment, see createWorkflowTracer
+    tracer?: Tracer;
 }) => {
-    const langfuse = new Langfuse();
-    const trace = langfuse.trace({
-        name: 'deep-research-workflow',
-    });
-
     // Set default values for config
     const workflowConfig: WorkflowConfig = {
-        maxIterations: 2,
-        timeoutMs: 480000, // Add default timeout of
+        timeoutMs: DEFAULT_WORKFLOW_TIMEOUT_MS,
         ...config,
+        budget: {
+            maxTotalExecutions: 20,
+            maxWallTimeMs: 300000,
+            onExceeded: routeAroundBudget,
+            ...config.budget,
+        },
     };
 
     // Create typed event emitter with the proper type
@@ -165,6 +219,10 @@ export const runWorkflow = ({
             status: 'PENDING',
         },
         status: 'PENDING',
+        retry: undefined,
+        input: undefined,
+        usage: undefined,
+        summary: undefined,
     });
 
     const context = createContext<WorkflowContextSchema>({
@@ -179,23 +237,29 @@ export const runWorkflow = ({
         steps: [],
         gl,
         customInstructions,
+        summary,
         sources: [],
         summaries: [],
         answer: undefined,
         threadId,
         threadItemId,
         showSuggestions,
+        approvePlan,
         onFinish: onFinish as any,
     });
 
     // Use the typed builder
     const builder = new WorkflowBuilder(threadId, {
-        trace,
+        tracer,
         initialEventState: events.getAllState(),
         events,
         context,
         config: workflowConfig,
         signal,
+        persistence,
+        initialTask: 'router',
+        version: WORKFLOW_VERSION,
+        migrations: workflowMigrations,
     });
 
     builder.addTasks([
@@ -210,7 +274,36 @@ export const runWorkflow = ({
         suggestionsTask,
         quickSearchTask,
         proSearchTask,
+        clarifyTask,
+        planApprovalTask,
     ]);
 
-    return builder.build();
+    const workflow = builder.build();
+
+    workflow.onTaskRetry(({ taskName, attempt, maxRetries }) => {
+        events.emit('retry', { task: taskName, attempt, maxRetries, status: 'PENDING' });
+    });
+
+    workflow.onTaskExecution(({ taskName }) => {
+        const retry = events.getState('retry');
+        if (retry?.task === taskName && retry.status === 'PENDING') {
+            events.emit('retry', { ...retry, status: 'COMPLETED' });
+        }
+    });
+
+    workflow.onUsage(() => {
+        events.emit('usage', workflow.getUsageSummary());
+    });
+
+    workflow.onInputRequested(({ key, task, request }) => {
+        events.emit('input', { key, task, request, status: 'PENDING' });
+        events.emit('status', 'HUMAN_REVIEW');
+    });
+
+    workflow.onInputReceived(({ key, task, request }) => {
+        events.emit('input', { key, task, request, status: 'COMPLETED' });
+        events.emit('status', 'PENDING');
+    });
+
+    return workflow;
 };
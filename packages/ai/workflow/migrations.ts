@@ -0,0 +1,17 @@
+import { renameTaskInSnapshot, WorkflowMigration } from '@repo/orchestrator';
+
+/**
+ * Version of the task graph and state shape in flow.ts. Runs suspended on input are
+ * persisted, so renaming a task or changing the context or events means bumping it and
+ * adding the step below, e.g.
+ * `{ from: 1, description: 'writer → answer', migrate: data => renameTaskInSnapshot(data, 'writer', 'answer') }`
+ */
+export const WORKFLOW_VERSION = 2;
+
+export const workflowMigrations: WorkflowMigration[] = [
+    {
+        from: 1,
+        description: 'quickSearch → quick-search',
+        migrate: data => renameTaskInSnapshot(data, 'quickSearch', 'quick-search'),
+    },
+];
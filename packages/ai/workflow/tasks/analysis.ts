@@ -1,19 +1,10 @@
 import { createTask } from '@repo/orchestrator';
 import { ModelEnum } from '../../models';
+import { ContextBudget, DEFAULT_CONTEXT_SHARES } from '../../tokens';
 import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
 import { ChunkBuffer, generateText, getHumanizedDate, handleError, sendEvents } from '../utils';
 
-export const analysisTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
-    name: 'analysis',
-    execute: async ({ trace, events, context, signal }) => {
-        const messages = context?.get('messages') || [];
-        const question = context?.get('question') || '';
-        const prevSummaries = context?.get('summaries') || [];
-        const { updateStep, nextStepId, addSources } = sendEvents(events);
-
-        const stepId = nextStepId();
-
-        const prompt = `
+const buildAnalysisPrompt = (question: string, findings: string[]) => `
           
 
                 # Research Analysis Framework
@@ -28,8 +19,8 @@ You gonna perform pre-writing analysis of the research findings.
 ## Research Materials
 
 <research_findings>
-${prevSummaries
-    ?.map(
+${findings
+    .map(
         (s, index) => `
 
 ## Finding ${index + 1}
@@ -48,6 +39,31 @@ ${s}
 
                 `;
 
+export const analysisTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
+    name: 'analysis',
+    execute: async ({ trace, events, context, signal, recordUsage }) => {
+        const messages = context?.get('messages') || [];
+        const question = context?.get('question') || '';
+        const prevSummaries = context?.get('summaries') || [];
+        const { updateStep, nextStepId, addSources, addFallback } = sendEvents(events);
+
+        const stepId = nextStepId();
+
+        const model = ModelEnum.Deepseek_R1;
+
+        const budget = new ContextBudget(model);
+        budget.reserve(
+            buildAnalysisPrompt(
+                question,
+                prevSummaries.map(() => '')
+            )
+        );
+        const history = budget.fitMessages(messages, { share: DEFAULT_CONTEXT_SHARES.history });
+        const prompt = buildAnalysisPrompt(
+            question,
+            budget.fitTexts(prevSummaries).filter(Boolean)
+        );
+
         const chunkBuffer = new ChunkBuffer({
             threshold: 200,
             breakOn: ['\n\n'],
@@ -64,9 +80,13 @@ ${s}
         });
 
         const text = await generateText({
+            trace,
+            recordUsage,
+            task: 'analysis',
+            onFallback: fallback => addFallback(stepId, fallback),
             prompt,
-            model: ModelEnum.Deepseek_R1,
-            messages: messages as any,
+            model,
+            messages: history as any,
             signal,
             onReasoning: reasoning => {
                 chunkBuffer.add(reasoning);
@@ -85,16 +105,6 @@ ${s}
 
         addSources(context?.get('sources') || []);
 
-        trace?.span({
-            name: 'analysis',
-            input: prompt,
-            output: text,
-            metadata: {
-                question,
-                prevSummaries,
-            },
-        });
-
         return {
             queries: [],
             analysis: text,
@@ -102,5 +112,6 @@ ${s}
         };
     },
     onError: handleError,
+    next: ['writer'],
     route: ({ result }) => 'writer',
 });
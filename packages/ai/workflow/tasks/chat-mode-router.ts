@@ -1,23 +1,31 @@
-import { trimMessageHistoryEstimated } from '@repo/ai/models';
 import { createTask } from '@repo/orchestrator';
 import { ChatMode } from '@repo/shared/config';
+import { compactMessageHistory } from '../compaction';
 import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
 import { handleError, sendEvents } from '../utils';
 export const modeRoutingTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'router',
-    execute: async ({ events, context, redirectTo }) => {
+    execute: async ({ events, context, redirectTo, trace, recordUsage, signal }) => {
         const mode = context?.get('mode') || ChatMode.GEMINI_2_FLASH;
         const { updateStatus } = sendEvents(events);
 
-        const messageHistory = context?.get('messages') || [];
-        const trimmedMessageHistory = trimMessageHistoryEstimated(messageHistory, mode);
-        context?.set('messages', trimmedMessageHistory.trimmedMessages ?? []);
+        updateStatus('PENDING');
 
-        if (!trimmedMessageHistory?.trimmedMessages) {
-            throw new Error('Maximum message history reached');
-        }
+        // Turns that no longer fit are folded into the thread's summary, sent as a system message
+        const { messages, summary, compacted } = await compactMessageHistory({
+            messages: context?.get('messages') || [],
+            summary: context?.get('summary'),
+            mode,
+            trace,
+            recordUsage,
+            signal,
+        });
+        context?.set('messages', messages);
+        context?.set('summary', summary);
 
-        updateStatus('PENDING');
+        if (compacted) {
+            events?.emit('summary', summary);
+        }
 
         if (mode === ChatMode.Deep) {
             redirectTo('refine-query');
@@ -27,5 +35,6 @@ export const modeRoutingTask = createTask<WorkflowEventSchema, WorkflowContextSc
             redirectTo('completion');
         }
     },
+    next: ['refine-query', 'pro-search', 'completion'],
     onError: handleError,
 });
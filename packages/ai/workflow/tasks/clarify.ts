@@ -0,0 +1,26 @@
+import { createTask } from '@repo/orchestrator';
+import { z } from 'zod';
+import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
+import { handleError } from '../utils';
+
+export const clarifyTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
+    name: 'clarify',
+    execute: async ({ data, context, awaitInput }) => {
+        const question = context?.get('question') || '';
+
+        // Suspends the run until the answer to the clarifying question comes back
+        const response = await awaitInput(
+            'clarification',
+            z.string().trim().min(1),
+            data?.clarifyingQuestion
+        );
+
+        const refinedQuery = `${question}\n\nAdditional context: ${response}`;
+        context?.update('question', () => refinedQuery);
+
+        return { refinedQuery };
+    },
+    onError: handleError,
+    next: ['planner'],
+    route: () => 'planner',
+});
@@ -1,17 +1,18 @@
 import { createTask } from '@repo/orchestrator';
 import { getModelFromChatMode } from '../../models';
 import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
-import { ChunkBuffer, generateText, getHumanizedDate, handleError } from '../utils';
+import { ChunkBuffer, generateText, getHumanizedDate, handleError, sendEvents } from '../utils';
 
 const MAX_ALLOWED_CUSTOM_INSTRUCTIONS_LENGTH = 6000;
 
 export const completionTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'completion',
-    execute: async ({ events, context, signal, redirectTo }) => {
+    execute: async ({ trace, events, context, signal, redirectTo, recordUsage }) => {
         if (!context) {
             throw new Error('Context is required but was not provided');
         }
 
+        const { addFallback } = sendEvents(events);
         const customInstructions = context?.get('customInstructions');
         const mode = context.get('mode');
         const webSearch = context.get('webSearch') || false;
@@ -21,7 +22,9 @@ export const completionTask = createTask<WorkflowEventSchema, WorkflowContextSch
                 .get('messages')
                 ?.filter(
                     message =>
-                        (message.role === 'user' || message.role === 'assistant') &&
+                        (message.role === 'system' ||
+                            message.role === 'user' ||
+                            message.role === 'assistant') &&
                         !!message.content
                 ) || [];
 
@@ -41,7 +44,7 @@ export const completionTask = createTask<WorkflowEventSchema, WorkflowContextSch
         }
 
         if (webSearch) {
-            redirectTo('quickSearch');
+            redirectTo('quick-search');
             return;
         }
 
@@ -86,6 +89,11 @@ export const completionTask = createTask<WorkflowEventSchema, WorkflowContextSch
         });
 
         const response = await generateText({
+            trace,
+            recordUsage,
+            task: 'completion',
+            onFallback: fallback => addFallback(0, fallback),
+            priority: 'high',
             model,
             messages,
             prompt,
@@ -125,6 +133,7 @@ export const completionTask = createTask<WorkflowEventSchema, WorkflowContextSch
         return;
     },
     onError: handleError,
+    next: ['quick-search', 'suggestions', 'end'],
     route: ({ context }) => {
         if (context?.get('showSuggestions') && context.get('answer')) {
             return 'suggestions';
@@ -1,6 +1,8 @@
 export * from './analysis';
 export * from './chat-mode-router';
+export * from './clarify';
 export * from './completion';
+export * from './plan-approval';
 export * from './planner';
 export * from './pro-search';
 export * from './quick-search';
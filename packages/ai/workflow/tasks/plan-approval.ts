@@ -0,0 +1,59 @@
+import { createTask } from '@repo/orchestrator';
+import { z } from 'zod';
+import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
+import { handleError, sendEvents } from '../utils';
+
+const PlanApprovalSchema = z.object({
+    approved: z.boolean(),
+    queries: z.array(z.string().trim().min(1)).optional(),
+});
+
+export const planApprovalTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
+    name: 'plan-approval',
+    execute: async ({ data, context, events, awaitInput }) => {
+        const { updateStep, updateAnswer, updateStatus } = sendEvents(events);
+        const plannedQueries: string[] = data?.queries || [];
+
+        const approval = await awaitInput('plan-approval', PlanApprovalSchema, {
+            reasoning: data?.reasoning,
+            queries: plannedQueries,
+        });
+
+        if (!approval.approved) {
+            updateAnswer({
+                text: 'Research cancelled before searching.',
+                finalText: 'Research cancelled before searching.',
+                status: 'COMPLETED',
+            });
+            updateStatus('COMPLETED');
+            return { approved: false };
+        }
+
+        const queries = approval.queries?.length ? approval.queries : plannedQueries;
+
+        context?.update('queries', current => [
+            ...(current ?? []).filter(query => !plannedQueries.includes(query)),
+            ...queries,
+        ]);
+
+        updateStep({
+            stepId: data?.stepId,
+            stepStatus: 'PENDING',
+            subSteps: {
+                search: {
+                    status: 'COMPLETED',
+                    data: queries,
+                },
+            },
+        });
+
+        return {
+            approved: true,
+            queries,
+            stepId: data?.stepId,
+        };
+    },
+    onError: handleError,
+    next: ['web-search', 'end'],
+    route: ({ result }) => (result?.approved ? 'web-search' : 'end'),
+});
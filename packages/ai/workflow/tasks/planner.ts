@@ -6,11 +6,11 @@ import { generateObject, getHumanizedDate, handleError, sendEvents } from '../ut
 
 export const plannerTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'planner',
-    execute: async ({ trace, events, context, data, signal }) => {
+    execute: async ({ trace, events, context, data, signal, recordUsage }) => {
         const messages = context?.get('messages') || [];
         const question = context?.get('question') || '';
         const currentYear = new Date().getFullYear();
-        const { updateStep, nextStepId } = sendEvents(events);
+        const { updateStep, nextStepId, addFallback } = sendEvents(events);
 
         const stepId = nextStepId();
 
@@ -62,6 +62,10 @@ export const plannerTask = createTask<WorkflowEventSchema, WorkflowContextSchema
                 `;
 
         const object = await generateObject({
+            trace,
+            recordUsage,
+            task: 'planner',
+            onFallback: fallback => addFallback(stepId, fallback),
             prompt,
             model: ModelEnum.GPT_4o_Mini,
             schema: z.object({
@@ -87,20 +91,13 @@ export const plannerTask = createTask<WorkflowEventSchema, WorkflowContextSchema
             },
         });
 
-        trace?.span({
-            name: 'planner',
-            input: prompt,
-            output: object,
-            metadata: {
-                data,
-            },
-        });
-
         return {
             queries: object.queries,
+            reasoning: object.reasoning,
             stepId,
         };
     },
     onError: handleError,
-    route: ({ result }) => 'web-search',
+    next: ['plan-approval', 'web-search'],
+    route: ({ context }) => (context?.get('approvePlan') ? 'plan-approval' : 'web-search'),
 });
@@ -87,10 +87,11 @@ Your goal is to help the user quickly understand and extract value from these se
 
 export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'pro-search',
-    execute: async ({ events, context, signal }) => {
+    execute: async ({ trace, events, context, signal, recordUsage }) => {
         try {
             const question = context?.get('question');
-            const { updateStatus, updateAnswer, updateStep, addSources } = sendEvents(events);
+            const { updateStatus, updateAnswer, updateStep, addSources, addFallback } =
+                sendEvents(events);
             if (!question) {
                 throw new Error('No question provided for search');
             }
@@ -100,7 +101,9 @@ export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
                     ?.get('messages')
                     ?.filter(
                         message =>
-                            (message.role === 'user' || message.role === 'assistant') &&
+                            (message.role === 'system' ||
+                                message.role === 'user' ||
+                                message.role === 'assistant') &&
                             !!message.content
                     ) || [];
 
@@ -108,6 +111,10 @@ export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
             let query;
             try {
                 query = await generateObject({
+                    trace,
+                    recordUsage,
+                    task: 'pro-search',
+                    onFallback: fallback => addFallback(0, fallback),
                     prompt: `Today is ${getHumanizedDate()}.
                     ${context?.get('gl')?.country ? `You are in ${context?.get('gl')?.country}\n\n` : ''}
                     
@@ -117,6 +124,7 @@ export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
                     schema: z.object({
                         query: z.string().min(1),
                     }),
+                    signal,
                 });
             } catch (error) {
                 throw new Error(
@@ -129,7 +137,7 @@ export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
             try {
                 const gl = context?.get('gl');
                 console.log('gl', gl);
-                searchResults = await getSERPResults([query.query], gl);
+                searchResults = await getSERPResults([query.query], gl, signal);
                 if (!searchResults || searchResults.length === 0) {
                     throw new Error('No search results found');
                 }
@@ -228,6 +236,10 @@ export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
             let reasoning = '';
             try {
                 reasoning = await generateText({
+                    trace,
+                    recordUsage,
+                    task: 'pro-search',
+                    onFallback: fallback => addFallback(1, fallback),
                     prompt: getAnalysisPrompt(question, webPageContent),
                     model: ModelEnum.Deepseek_R1,
                     messages,
@@ -237,6 +249,7 @@ export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
                     onChunk: (chunk, fullText) => {
                         chunkBuffer.add(chunk);
                     },
+                    signal,
                 });
 
                 if (!reasoning || reasoning.trim() === '') {
@@ -304,6 +317,7 @@ export const proSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
         }
     },
     onError: handleError,
+    next: ['suggestions', 'end'],
     route: ({ context }) => {
         if (context?.get('showSuggestions') && context.get('answer')) {
             return 'suggestions';
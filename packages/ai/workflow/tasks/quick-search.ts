@@ -1,6 +1,7 @@
 import { createTask } from '@repo/orchestrator';
 import { z } from 'zod';
 import { getModelFromChatMode, ModelEnum } from '../../models';
+import { ContextBudget, DEFAULT_CONTEXT_SHARES } from '../../tokens';
 import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
 import { readWebPagesWithTimeout, TReaderResult } from '../reader';
 import {
@@ -71,14 +72,12 @@ Your goal is to help the user quickly understand and extract value from these se
     return prompt;
 };
 
-const MAX_ALLOWED_CUSTOM_INSTRUCTIONS_LENGTH = 6000;
-
 export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
-    name: 'quickSearch',
-    execute: async ({ events, context, signal, trace }) => {
+    name: 'quick-search',
+    execute: async ({ events, context, signal, trace, recordUsage }) => {
         // Helper function to update step status
 
-        const { updateStep, updateStatus, addSources, updateAnswer, nextStepId } =
+        const { updateStep, updateStatus, addSources, updateAnswer, nextStepId, addFallback } =
             sendEvents(events);
 
         let messages =
@@ -86,7 +85,9 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
                 ?.get('messages')
                 ?.filter(
                     message =>
-                        (message.role === 'user' || message.role === 'assistant') &&
+                        (message.role === 'system' ||
+                            message.role === 'user' ||
+                            message.role === 'assistant') &&
                         !!message.content
                 ) || [];
 
@@ -95,20 +96,30 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
         const model = getModelFromChatMode(chatMode);
         const customInstructions = context?.get('customInstructions');
 
-        if (
-            customInstructions &&
-            customInstructions?.length < MAX_ALLOWED_CUSTOM_INSTRUCTIONS_LENGTH
-        ) {
+        // Instructions and history get their shares, the pages read later fill the rest
+        const budget = new ContextBudget(model);
+        const instructions = customInstructions
+            ? budget.fitText(customInstructions, {
+                  share: DEFAULT_CONTEXT_SHARES.customInstructions,
+              })
+            : '';
+        messages = budget.fitMessages(messages, { share: DEFAULT_CONTEXT_SHARES.history });
+
+        if (instructions) {
             messages = [
                 {
                     role: 'system',
-                    content: `Today is ${getHumanizedDate()}. and current location is ${gl?.city}, ${gl?.country}. \n\n ${customInstructions}`,
+                    content: `Today is ${getHumanizedDate()}. and current location is ${gl?.city}, ${gl?.country}. \n\n ${instructions}`,
                 },
                 ...messages,
             ];
         }
 
         const query = await generateObject({
+            trace,
+            recordUsage,
+            task: 'quick-search',
+            onFallback: fallback => addFallback(0, fallback),
             prompt: `Today is ${getHumanizedDate()}.${gl?.country ? `You are in ${gl?.country}\n\n` : ''}
  Generate a query to search the web for information make sure query is not too broad and be specific for recent information`,
             model: ModelEnum.GPT_4o_Mini,
@@ -116,6 +127,7 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
             schema: z.object({
                 query: z.string(),
             }),
+            signal,
         });
 
         if (!query.query) {
@@ -132,7 +144,7 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
             },
         });
 
-        const results = await getSERPResults([query.query], gl);
+        const results = await getSERPResults([query.query], gl, signal);
 
         if (!results || results.length === 0) {
             throw new Error('No results found');
@@ -187,7 +199,14 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
             },
         });
 
-        const prompt = buildWebSearchPrompt(webpageReader);
+        // Results keep their positions, they are cited by number
+        budget.reserve(
+            buildWebSearchPrompt(webpageReader.map(result => ({ ...result, markdown: '' })))
+        );
+        const contents = budget.fitTexts(webpageReader.map(result => result.markdown || ''));
+        const prompt = buildWebSearchPrompt(
+            webpageReader.map((result, index) => ({ ...result, markdown: contents[index] }))
+        );
 
         updateAnswer({
             text: '',
@@ -195,6 +214,11 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
         });
 
         const response = await generateText({
+            trace,
+            recordUsage,
+            task: 'quick-search',
+            onFallback: fallback => addFallback(stepId, fallback),
+            priority: 'high',
             model,
             messages: [...messages],
             prompt,
@@ -204,6 +228,7 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
                     status: 'PENDING',
                 });
             },
+            signal,
         });
 
         updateAnswer({
@@ -231,6 +256,7 @@ export const quickSearchTask = createTask<WorkflowEventSchema, WorkflowContextSc
         };
     },
     onError: handleError,
+    next: ['suggestions', 'end'],
     route: ({ context }) => {
         if (context?.get('showSuggestions') && context.get('answer')) {
             return 'suggestions';
@@ -19,10 +19,10 @@ const ClarificationResponseSchema = z.object({
 
 export const refineQueryTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'refine-query',
-    execute: async ({ trace, events, context, data, signal }) => {
+    execute: async ({ trace, events, context, data, signal, recordUsage }) => {
         const messages = context?.get('messages') || [];
         const question = context?.get('question') || '';
-        const { updateStatus, updateAnswer, updateObject } = sendEvents(events);
+        const { updateAnswer, updateObject, addFallback } = sendEvents(events);
 
         const prompt = `You are a professional research assistant tasked with refining user queries for deep research.
 
@@ -51,6 +51,10 @@ export const refineQueryTask = createTask<WorkflowEventSchema, WorkflowContextSc
                 `;
 
         const object = await generateObject({
+            trace,
+            recordUsage,
+            task: 'refine-query',
+            onFallback: fallback => addFallback(0, fallback),
             prompt,
             model: ModelEnum.GPT_4o_Mini,
             schema: ClarificationResponseSchema,
@@ -68,30 +72,21 @@ export const refineQueryTask = createTask<WorkflowEventSchema, WorkflowContextSc
                 updateObject({
                     clarifyingQuestion: object?.clarifyingQuestion,
                 });
-
-            updateStatus('COMPLETED');
         } else {
             context?.update('question', current => object?.refinedQuery || question);
         }
 
-        trace?.span({
-            name: 'refine-query',
-            input: prompt,
-            output: object,
-            metadata: {
-                data,
-            },
-        });
-
         return {
             needsClarification: object?.needsClarification,
+            clarifyingQuestion: object?.clarifyingQuestion,
             refinedQuery: object?.refinedQuery || question,
         };
     },
     onError: handleError,
+    next: ['clarify', 'planner'],
     route: ({ result }) => {
         if (result?.needsClarification) {
-            return 'end';
+            return 'clarify';
         }
 
         return 'planner';
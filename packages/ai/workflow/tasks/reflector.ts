@@ -6,14 +6,14 @@ import { generateObject, getHumanizedDate, handleError, sendEvents } from '../ut
 
 export const reflectorTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'reflector',
-    execute: async ({ trace, data, events, context, signal, redirectTo }) => {
+    execute: async ({ trace, data, events, context, signal, redirectTo, recordUsage }) => {
         const question = context?.get('question') || '';
         const messages = context?.get('messages') || [];
         const prevQueries = context?.get('queries') || [];
         const stepId = data?.stepId;
         const prevSummaries = context?.get('summaries') || [];
         const currentYear = new Date().getFullYear();
-        const { updateStep } = sendEvents(events);
+        const { updateStep, addFallback } = sendEvents(events);
 
         const prompt = `
 You are a research progress evaluator analyzing how effectively a research question has been addressed. Your primary responsibility is to identify remaining knowledge gaps and determine if additional targeted queries are necessary.
@@ -91,6 +91,10 @@ Current date: ${getHumanizedDate()}
 `;
 
         const object = await generateObject({
+            trace,
+            recordUsage,
+            task: 'reflector',
+            onFallback: fallback => addFallback(stepId, fallback),
             prompt,
             model: ModelEnum.GPT_4o_Mini,
             schema: z.object({
@@ -121,21 +125,13 @@ Current date: ${getHumanizedDate()}
             redirectTo('analysis');
         }
 
-        trace?.span({
-            name: 'reflector',
-            input: prompt,
-            output: object,
-            metadata: {
-                data,
-            },
-        });
-
         return {
             queries: object?.queries,
             stepId: newStepId,
         };
     },
     onError: handleError,
+    next: ['web-search', 'analysis'],
     route: ({ result, executionContext, config, context }) => {
         if (result?.queries?.filter(Boolean)?.length > 0) {
             return 'web-search';
@@ -1,6 +1,7 @@
 import { createTask } from '@repo/orchestrator';
 import { z } from 'zod';
-import { estimateTokensByWordCount, ModelEnum } from '../../models';
+import { ModelEnum } from '../../models';
+import { countTokens } from '../../tokens';
 import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
 import { generateObject, getHumanizedDate, handleError } from '../utils';
 
@@ -12,11 +13,11 @@ const SuggestionSchema = z.object({
 
 export const suggestionsTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'suggestions',
-    execute: async ({ trace, events, context, data, signal }) => {
+    execute: async ({ trace, events, context, data, signal, recordUsage }) => {
         const question = context?.get('question') || '';
         const answer = context?.get('answer') || '';
 
-        const tokens = estimateTokensByWordCount(question);
+        const tokens = countTokens(question, ModelEnum.GPT_4o_Mini);
 
         if (tokens > MAX_ALLOWED_TOKENS) {
             return {
@@ -38,6 +39,10 @@ export const suggestionsTask = createTask<WorkflowEventSchema, WorkflowContextSc
                 `;
 
         const object = await generateObject({
+            trace,
+            recordUsage,
+            task: 'suggestions',
+            priority: 'low',
             prompt,
             model: ModelEnum.GPT_4o_Mini,
             schema: SuggestionSchema,
@@ -51,6 +56,7 @@ export const suggestionsTask = createTask<WorkflowEventSchema, WorkflowContextSc
         };
     },
     onError: handleError,
+    next: ['end'],
     route: ({ result }) => {
         return 'end';
     },
@@ -1,5 +1,6 @@
 import { createTask } from '@repo/orchestrator';
 import { ModelEnum } from '../../models';
+import { ContextBudget } from '../../tokens';
 import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
 import {
     executeWebSearch,
@@ -10,13 +11,76 @@ import {
     sendEvents,
 } from '../utils';
 
+type WebPage = {
+    title: string;
+    link: string;
+    content: string;
+    index?: number;
+};
+
+const buildWebSearchPrompt = ({
+    question,
+    country,
+    pages,
+}: {
+    question: string;
+    country?: string;
+    pages: WebPage[];
+}) => `
+Role: You are a Research Information Processor. Your task is to clean and format web search results without summarizing or condensing the information.
+
+The current date and time is: **${getHumanizedDate()}**.
+${country ? `You are in ${country}.` : ''}
+
+<user_question>
+${question}
+</user_question>
+
+**Web Search Results**
+${pages
+    .map(
+        result =>
+            `<findings index="${result.index}">\n\n ## [${result.index}] ${result.link}\n\n ### Title: ${result.title}\n\n ${result.content} \n\n</findings>`
+    )
+    .join('\n')}
+
+<processing_guidelines>
+- Do NOT summarize or condense the information
+- Preserve all relevant details, facts, data points, examples, and explanations from the search results
+- Remove only duplicate content, irrelevant advertisements, navigation elements, or other web artifacts
+- Maintain the original depth and breadth of information
+- Organize the information in a clean, readable format
+- Present multiple perspectives or approaches when they exist in the sources
+</processing_guidelines>
+
+<output_format>
+- Present the full detailed information in a clean, readable format
+- Use headings or sections only when they help organize complex information
+- Include all source links and properly attribute information using [Source X] notation
+- Focus on preserving comprehensive information rather than summarizing
+</output_format>
+
+<citations>
+ **Citations and References:**
+   - each findings have given number which can be used to reference the source
+   - Use inline citations like [1] to reference the source
+   - For example: According to recent findings [1][3], progress in this area has accelerated
+   - When information appears in multiple findings, cite all relevant findings using multiple numbers
+   - Integrate citations naturally without disrupting reading flow
+   - Must include a numbered reference list at the end with format:
+      [1] https://www.example.com
+      [2] https://www.another-source.com
+</citations>
+
+      `;
+
 export const webSearchTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
     name: 'web-search',
-    execute: async ({ data, trace, events, context, signal }) => {
+    execute: async ({ data, trace, events, context, signal, recordUsage }) => {
         const queries = data?.queries;
         const stepId = data?.stepId;
         const gl = context?.get('gl');
-        const { updateStep } = sendEvents(events);
+        const { updateStep, addFallback } = sendEvents(events);
         const results = await executeWebSearch(queries, signal, gl);
 
         const searchResultsData = results?.map((result: any) => ({
@@ -62,63 +126,41 @@ export const webSearchTask = createTask<WorkflowEventSchema, WorkflowContextSche
         }
 
         const question = context?.get('question') || '';
-
-        const prompt = `
-Role: You are a Research Information Processor. Your task is to clean and format web search results without summarizing or condensing the information.
-
-The current date and time is: **${getHumanizedDate()}**.
-${gl?.country ? `You are in ${gl?.country}.` : ''}
-
-<user_question>
-${question}
-</user_question>
-
-**Web Search Results**
-${processedResults
-    .filter(result => !!result?.content && !!result?.link)
-    .map(result => ({
-        ...result,
-        index: context?.get('sources')?.find(s => s.link === result.link)?.index,
-    }))
-    .map(
-        (result: any) =>
-            `<findings index="${result.index}">\n\n ## [${result.index}] ${result.link}\n\n ### Title: ${result.title}\n\n ${result.content} \n\n</findings>`
-    )
-    .join('\n')}
-
-<processing_guidelines>
-- Do NOT summarize or condense the information
-- Preserve all relevant details, facts, data points, examples, and explanations from the search results
-- Remove only duplicate content, irrelevant advertisements, navigation elements, or other web artifacts
-- Maintain the original depth and breadth of information
-- Organize the information in a clean, readable format
-- Present multiple perspectives or approaches when they exist in the sources
-</processing_guidelines>
-
-<output_format>
-- Present the full detailed information in a clean, readable format
-- Use headings or sections only when they help organize complex information
-- Include all source links and properly attribute information using [Source X] notation
-- Focus on preserving comprehensive information rather than summarizing
-</output_format>
-
-<citations>
- **Citations and References:**
-   - each findings have given number which can be used to reference the source
-   - Use inline citations like [1] to reference the source
-   - For example: According to recent findings [1][3], progress in this area has accelerated
-   - When information appears in multiple findings, cite all relevant findings using multiple numbers
-   - Integrate citations naturally without disrupting reading flow
-   - Must include a numbered reference list at the end with format:
-      [1] https://www.example.com
-      [2] https://www.another-source.com
-</citations>
-
-      `;
+        const pages: WebPage[] = processedResults
+            .filter(result => !!result?.content && !!result?.link)
+            .map(result => ({
+                ...result,
+                index: context?.get('sources')?.find(s => s.link === result.link)?.index,
+            }));
+
+        const model = ModelEnum.GEMINI_2_FLASH;
+
+        // Pages are ranked by the search, the last ones are cut first
+        const budget = new ContextBudget(model);
+        budget.reserve(
+            buildWebSearchPrompt({
+                question,
+                country: gl?.country,
+                pages: pages.map(page => ({ ...page, content: '' })),
+            })
+        );
+        const contents = budget.fitTexts(pages.map(page => page.content));
+        const prompt = buildWebSearchPrompt({
+            question,
+            country: gl?.country,
+            pages: pages
+                .map((page, index) => ({ ...page, content: contents[index] }))
+                .filter(page => !!page.content),
+        });
 
         const summary = await generateText({
-            model: ModelEnum.GEMINI_2_FLASH,
+            trace,
+            recordUsage,
+            task: 'web-search',
+            onFallback: fallback => addFallback(stepId, fallback),
+            model,
             prompt,
+            signal,
         });
 
         updateStep({
@@ -131,17 +173,6 @@ ${processedResults
             },
         });
 
-        trace?.span({
-            name: 'web-search',
-            input: prompt,
-            output: summary,
-            metadata: {
-                queries,
-                stepId,
-                results,
-            },
-        });
-
         context?.update('summaries', current => [
             ...(current ?? []),
             `${queries?.map((q: any) => q.query).join(', ')} \n\n ${summary}`,
@@ -154,6 +185,9 @@ ${processedResults
         };
     },
     onError: handleError,
+    // Search and reader APIs are rate limited, so give them a moment before failing the run
+    retry: { maxRetries: 2 },
+    next: ['reflector', 'analysis'],
     route: ({ context }) => {
         const allQueries = context?.get('queries') || [];
         if (allQueries?.length < 6) {
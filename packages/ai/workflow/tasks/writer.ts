@@ -1,24 +1,22 @@
 import { createTask } from '@repo/orchestrator';
 import { format } from 'date-fns';
 import { ModelEnum } from '../../models';
+import { ContextBudget, DEFAULT_CONTEXT_SHARES } from '../../tokens';
 import { WorkflowContextSchema, WorkflowEventSchema } from '../flow';
 import { ChunkBuffer, generateText, handleError, sendEvents } from '../utils';
 
-export const writerTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
-    name: 'writer',
-    execute: async ({ trace, events, context, data, signal }) => {
-        const analysis = data?.analysis || '';
+const buildWriterPrompt = ({
+    question,
+    findings,
+    analysis,
+}: {
+    question: string;
+    findings: string[];
+    analysis: string;
+}) => {
+    const humanizedDate = format(new Date(), 'MMMM dd, yyyy, h:mm a');
 
-        const question = context?.get('question') || '';
-        const summaries = context?.get('summaries') || [];
-        const messages = context?.get('messages') || [];
-        const { updateStep, nextStepId, updateAnswer, updateStatus } = sendEvents(events);
-        const stepId = nextStepId();
-
-        const currentDate = new Date();
-        const humanizedDate = format(currentDate, 'MMMM dd, yyyy, h:mm a');
-
-        const prompt = `
+    return `
 
     Today is ${humanizedDate}.
 You are a Comprehensive Research Writer tasked with providing an extremely detailed and thorough writing about "${question}".
@@ -27,7 +25,7 @@ Your goal is to create a comprehensive report based on the research information
 First, carefully read and analyze the following research information:
 
 <research_findings>
-${summaries.map(summary => `<finding>${summary}</finding>`).join('\n')}
+${findings.map(finding => `<finding>${finding}</finding>`).join('\n')}
 </research_findings>
 
 <analysis>
@@ -69,6 +67,33 @@ Note: **Reference list at the end is not required.**
 
 Your report should demonstrate subject matter expertise while remaining intellectually accessible to informed professionals. Focus on providing substantive analysis rather than cataloging facts. Emphasize implications and significance rather than merely summarizing information.
     `;
+};
+
+export const writerTask = createTask<WorkflowEventSchema, WorkflowContextSchema>({
+    name: 'writer',
+    execute: async ({ trace, events, context, data, signal, recordUsage }) => {
+        const analysis = data?.analysis || '';
+
+        const question = context?.get('question') || '';
+        const summaries = context?.get('summaries') || [];
+        const messages = context?.get('messages') || [];
+        const { updateStep, nextStepId, updateAnswer, updateStatus, addFallback } =
+            sendEvents(events);
+        const stepId = nextStepId();
+
+        const model = ModelEnum.Claude_3_7_Sonnet;
+
+        // The template first, then history, then the analysis, which condenses the findings
+        const budget = new ContextBudget(model);
+        budget.reserve(
+            buildWriterPrompt({ question, findings: summaries.map(() => ''), analysis: '' })
+        );
+        const history = budget.fitMessages(messages, { share: DEFAULT_CONTEXT_SHARES.history });
+        const prompt = buildWriterPrompt({
+            question,
+            analysis: budget.fitText(analysis, { share: 0.5 }),
+            findings: budget.fitTexts(summaries).filter(Boolean),
+        });
 
         if (stepId) {
             updateStep({
@@ -91,9 +116,15 @@ Your report should demonstrate subject matter expertise while remaining intellec
         });
 
         const answer = await generateText({
+            trace,
+            recordUsage,
+            task: 'writer',
+            // Noted in the wrap-up step, which only follows research steps
+            onFallback: fallback => addFallback(stepId ? stepId + 1 : 0, fallback),
+            priority: 'high',
             prompt,
-            model: ModelEnum.Claude_3_7_Sonnet,
-            messages,
+            model,
+            messages: history,
             signal,
             onChunk: (chunk, fullText) => {
                 chunkBuffer.add(chunk);
@@ -116,18 +147,12 @@ Your report should demonstrate subject matter expertise while remaining intellec
         });
 
         updateStatus('COMPLETED');
-
-        trace?.span({
-            name: 'writer',
-            input: prompt,
-            output: answer,
-            metadata: context?.getAll(),
-        });
         context?.update('answer', _ => answer);
 
         return answer;
     },
     onError: handleError,
+    next: ['suggestions', 'end'],
     route: ({ result, context }) => {
         if (context?.get('showSuggestions') && !!context?.get('answer')) {
             return 'suggestions';
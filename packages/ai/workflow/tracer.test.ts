@@ -0,0 +1,61 @@
+import { ChatMode } from '@repo/shared/config';
+import { noopTracer } from '@repo/orchestrator';
+import { ConsoleTracer } from '@repo/orchestrator/tracing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMockLanguageModel, runWorkflowHarness } from '../testing';
+import { createWorkflowTracer } from './tracer';
+
+const TRACING_ENV = [
+    'LANGFUSE_SECRET_KEY',
+    'OTEL_EXPORTER_OTLP_ENDPOINT',
+    'OTEL_EXPORTER_OTLP_TRACES_ENDPOINT',
+];
+
+// Runs without any tracing backend configured, whatever the shell exports
+let savedEnv: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+    savedEnv = Object.fromEntries(TRACING_ENV.map(key => [key, process.env[key]]));
+    TRACING_ENV.forEach(key => delete process.env[key]);
+});
+
+afterEach(() => {
+    Object.entries(savedEnv).forEach(([key, value]) => {
+        if (value !== undefined) process.env[key] = value;
+    });
+});
+
+const createModel = () => createMockLanguageModel(() => 'Bun is a JavaScript runtime.');
+
+describe('workflow tracing', () => {
+    test('traces nothing and still answers when no backend is configured', async () => {
+        expect(createWorkflowTracer()).toBe(noopTracer);
+
+        const { workflow, getState } = await runWorkflowHarness({
+            mode: ChatMode.GPT_4o_Mini,
+            question: 'What is Bun?',
+            messages: [{ role: 'user', content: 'What is Bun?' }],
+            model: createModel(),
+        });
+
+        expect(getState('status')).toBe('COMPLETED');
+        expect(workflow.getContext()?.get('answer')).toBe('Bun is a JavaScript runtime.');
+    });
+
+    test('logs the spans of the run with the console tracer', async () => {
+        const lines: string[] = [];
+
+        const { getState } = await runWorkflowHarness({
+            mode: ChatMode.GPT_4o_Mini,
+            question: 'What is Bun?',
+            messages: [{ role: 'user', content: 'What is Bun?' }],
+            model: createModel(),
+            tracer: new ConsoleTracer({ log: line => lines.push(line) }),
+        });
+
+        expect(getState('status')).toBe('COMPLETED');
+        expect(lines.some(line => line.includes('[workflow]'))).toBe(true);
+        expect(lines.some(line => line.includes('[task]'))).toBe(true);
+        expect(lines.some(line => line.includes('[llm]'))).toBe(true);
+    });
+});
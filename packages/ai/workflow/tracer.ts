@@ -0,0 +1,19 @@
+import { noopTracer, Tracer } from '@repo/orchestrator';
+import { LangfuseTracer, OtlpTracer } from '@repo/orchestrator/tracing';
+
+const getEnv = (key: string) =>
+    typeof process !== 'undefined' && process.env ? process.env[key] : undefined;
+
+/**
+ * Picks the tracing backend from the environment: Langfuse when its keys are set,
+ * an OTLP collector when OTEL_EXPORTER_OTLP_ENDPOINT is set, otherwise nothing is traced.
+ */
+export const createWorkflowTracer = (): Tracer => {
+    if (getEnv('LANGFUSE_SECRET_KEY')) {
+        return new LangfuseTracer({ traceName: 'deep-research-workflow' });
+    }
+    if (getEnv('OTEL_EXPORTER_OTLP_ENDPOINT') || getEnv('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT')) {
+        return new OtlpTracer();
+    }
+    return noopTracer;
+};
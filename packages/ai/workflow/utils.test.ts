@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { getModelCost, ModelEnum } from '../models';
+import { countTokens } from '../tokens';
+import { getLLMUsage } from './utils';
+
+const model = ModelEnum.O4_Mini;
+const usage = { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 };
+
+describe('getLLMUsage', () => {
+    test('reports the tokens of the call and prices them', () => {
+        expect(getLLMUsage(model, usage)).toEqual({
+            model,
+            promptTokens: 1200,
+            completionTokens: 300,
+            reasoningTokens: 0,
+            cost: getModelCost(model, usage),
+        });
+        expect(getLLMUsage(model, usage).cost).toBeCloseTo((1200 * 1.1 + 300 * 4.4) / 1e6, 10);
+    });
+
+    test('takes reasoning tokens from the provider metadata before counting the reasoning', () => {
+        const reasoning = 'The user asks about Bun, a JavaScript runtime.';
+
+        expect(
+            getLLMUsage(model, usage, { openai: { reasoningTokens: 120 } }, reasoning)
+                .reasoningTokens
+        ).toBe(120);
+        expect(getLLMUsage(model, usage, undefined, reasoning).reasoningTokens).toBe(
+            countTokens(reasoning, model)
+        );
+    });
+
+    test('counts a call without usage as free and empty', () => {
+        expect(getLLMUsage(model)).toEqual({
+            model,
+            promptTokens: 0,
+            completionTokens: 0,
+            reasoningTokens: 0,
+            cost: 0,
+        });
+    });
+});
@@ -1,16 +1,30 @@
-import { TaskParams, TypedEventEmitter } from '@repo/orchestrator';
+import {
+    deriveSignal,
+    LLMUsage,
+    mapWithConcurrency,
+    Span,
+    SpanAttributeKeys,
+    TaskParams,
+    TypedEventEmitter,
+} from '@repo/orchestrator';
 import { Geo } from '@vercel/functions';
 import {
     CoreMessage,
     extractReasoningMiddleware,
     generateObject as generateObjectAi,
+    LanguageModelUsage,
+    ProviderMetadata,
     streamText,
     ToolSet,
 } from 'ai';
+import { ModelFallback } from '@repo/shared/types';
 import { format } from 'date-fns';
 import { ZodSchema } from 'zod';
-import { ModelEnum } from '../models';
+import { getFallbackChain, runWithFallbacks } from '../fallbacks';
+import { getModel, getModelCost, ModelId } from '../models';
 import { getLanguageModel } from '../providers';
+import { getRateLimiter, RateLimitPriority, RateLimitRelease, withRateLimit } from '../rate-limit';
+import { countPromptTokens, countTokens } from '../tokens';
 import { WorkflowEventSchema } from './flow';
 import { generateErrorMessage } from './tasks/utils';
 
@@ -59,7 +73,71 @@ export class ChunkBuffer {
     }
 }
 
-export const generateText = async ({
+/**
+ * Usage of a call as the engine records it. Providers that report reasoning tokens put
+ * them in their metadata, reasoning extracted from <think> tags is counted from the text.
+ */
+export const getLLMUsage = (
+    model: ModelId,
+    usage?: LanguageModelUsage,
+    providerMetadata?: ProviderMetadata,
+    reasoning?: string
+): LLMUsage => {
+    const promptTokens = usage?.promptTokens || 0;
+    const completionTokens = usage?.completionTokens || 0;
+    const reportedReasoningTokens = Number(providerMetadata?.openai?.reasoningTokens);
+    return {
+        model,
+        promptTokens,
+        completionTokens,
+        reasoningTokens: Number.isFinite(reportedReasoningTokens)
+            ? reportedReasoningTokens
+            : reasoning
+              ? countTokens(reasoning, model)
+              : 0,
+        cost: getModelCost(model, { promptTokens, completionTokens }),
+    };
+};
+
+// Queues the call behind others to the same provider, reserving its prompt tokens
+const acquireModelRateLimit = (
+    model: ModelId,
+    prompt: string,
+    messages: CoreMessage[] | undefined,
+    priority: RateLimitPriority,
+    signal?: AbortSignal
+) =>
+    getRateLimiter(getModel(model)?.provider || 'openai').acquire({
+        priority,
+        tokens: countPromptTokens(model, prompt, messages),
+        signal,
+    });
+
+type GenerateTextParams = {
+    prompt: string;
+    model: ModelId;
+    onChunk?: (chunk: string, fullText: string) => void;
+    messages?: CoreMessage[];
+    onReasoning?: (chunk: string, fullText: string) => void;
+    tools?: ToolSet;
+    onToolCall?: (toolCall: any) => void;
+    onToolResult?: (toolResult: any) => void;
+    signal?: AbortSignal;
+    toolChoice?: 'auto' | 'none' | 'required';
+    maxSteps?: number;
+    // Span of the calling task, the call and its tool calls are traced under it
+    trace?: Span;
+    // Usually the task's recordUsage, called once the call finishes
+    recordUsage?: (usage: LLMUsage) => void;
+    // 'high' for answers the user watches stream, 'low' for background calls
+    priority?: RateLimitPriority;
+    // The calling task's name, picks its fallback chain over the model's, see `../fallbacks`
+    task?: string;
+    // Called when a model fails and the next one of the chain is tried, e.g. addFallback
+    onFallback?: (fallback: ModelFallback) => void;
+};
+
+const streamModelText = async ({
     prompt,
     model,
     onChunk,
@@ -71,24 +149,23 @@ export const generateText = async ({
     signal,
     toolChoice = 'auto',
     maxSteps = 2,
-}: {
-    prompt: string;
-    model: ModelEnum;
-    onChunk?: (chunk: string, fullText: string) => void;
-    messages?: CoreMessage[];
-    onReasoning?: (chunk: string, fullText: string) => void;
-    tools?: ToolSet;
-    onToolCall?: (toolCall: any) => void;
-    onToolResult?: (toolResult: any) => void;
-    signal?: AbortSignal;
-    toolChoice?: 'auto' | 'none' | 'required';
-    maxSteps?: number;
-}) => {
+    trace,
+    recordUsage,
+    priority = 'normal',
+}: GenerateTextParams) => {
+    const span = trace?.startSpan(model, {
+        kind: 'llm',
+        input: messages?.length ? [{ role: 'system', content: prompt }, ...messages] : prompt,
+        attributes: { [SpanAttributeKeys.MODEL]: model },
+    });
+    const toolSpans = new Map<string, Span>();
+    let releaseRateLimit: RateLimitRelease | undefined;
     try {
         if (signal?.aborted) {
             throw new Error('Operation aborted');
         }
 
+        releaseRateLimit = await acquireModelRateLimit(model, prompt, messages, priority, signal);
         const middleware = extractReasoningMiddleware({
             tagName: 'think',
             separator: '\n',
@@ -130,44 +207,116 @@ export const generateText = async ({
                 onReasoning?.(chunk.textDelta, reasoning);
             }
             if (chunk.type === 'tool-call') {
+                const toolSpan = span?.startSpan(chunk.toolName, {
+                    kind: 'tool',
+                    input: chunk.args,
+                    attributes: {
+                        [SpanAttributeKeys.TOOL_NAME]: chunk.toolName,
+                        [SpanAttributeKeys.TOOL_CALL_ID]: chunk.toolCallId,
+                    },
+                });
+                if (toolSpan) {
+                    toolSpans.set(chunk.toolCallId, toolSpan);
+                }
                 onToolCall?.(chunk);
             }
             if (chunk.type === ('tool-result' as any)) {
+                const toolResult = chunk as any;
+                toolSpans.get(toolResult.toolCallId)?.end({ output: toolResult.result });
                 onToolResult?.(chunk);
             }
+            if (chunk.type === 'finish') {
+                releaseRateLimit(chunk.usage?.totalTokens);
+                recordUsage?.(getLLMUsage(model, chunk.usage, chunk.providerMetadata, reasoning));
+                span?.setAttributes({
+                    [SpanAttributeKeys.INPUT_TOKENS]: chunk.usage?.promptTokens,
+                    [SpanAttributeKeys.OUTPUT_TOKENS]: chunk.usage?.completionTokens,
+                });
+            }
 
             if (chunk.type === 'error') {
                 console.error(chunk.error);
+                span?.end({ error: chunk.error });
                 return Promise.reject(chunk.error);
             }
         }
+        span?.end({ output: fullText });
         return Promise.resolve(fullText);
     } catch (error) {
         console.error(error);
+        span?.end({ error });
         return Promise.reject(error);
+    } finally {
+        releaseRateLimit?.();
+        toolSpans.forEach(toolSpan => toolSpan.end());
     }
 };
 
-export const generateObject = async ({
+/**
+ * Stream a completion, falling back along the model's chain when its provider errors or
+ * times out. Once output reached the callbacks the error is thrown instead, the answer
+ * can't be restarted with another model.
+ */
+export const generateText = async ({ task, onFallback, ...params }: GenerateTextParams) => {
+    let streamed = false;
+    const markStreamed =
+        <A extends any[]>(callback?: (...args: A) => void) =>
+        (...args: A) => {
+            streamed = true;
+            callback?.(...args);
+        };
+
+    return runWithFallbacks(
+        getFallbackChain(params.model, task),
+        model =>
+            streamModelText({
+                ...params,
+                model,
+                onChunk: markStreamed(params.onChunk),
+                onReasoning: markStreamed(params.onReasoning),
+                onToolCall: markStreamed(params.onToolCall),
+            }),
+        { task, signal: params.signal, canFallBack: () => !streamed, onFallback }
+    );
+};
+
+type GenerateObjectParams = {
+    prompt: string;
+    model: ModelId;
+    schema: ZodSchema;
+    messages?: CoreMessage[];
+    signal?: AbortSignal;
+    trace?: Span;
+    recordUsage?: (usage: LLMUsage) => void;
+    priority?: RateLimitPriority;
+    task?: string;
+    onFallback?: (fallback: ModelFallback) => void;
+};
+
+const generateModelObject = async ({
     prompt,
     model,
     schema,
     messages,
     signal,
-}: {
-    prompt: string;
-    model: ModelEnum;
-    schema: ZodSchema;
-    messages?: CoreMessage[];
-    signal?: AbortSignal;
-}) => {
+    trace,
+    recordUsage,
+    priority = 'normal',
+}: GenerateObjectParams) => {
+    const span = trace?.startSpan(model, {
+        kind: 'llm',
+        input: messages?.length ? [{ role: 'system', content: prompt }, ...messages] : prompt,
+        attributes: { [SpanAttributeKeys.MODEL]: model },
+    });
+    let releaseRateLimit: RateLimitRelease | undefined;
     try {
         if (signal?.aborted) {
             throw new Error('Operation aborted');
         }
 
+        releaseRateLimit = await acquireModelRateLimit(model, prompt, messages, priority, signal);
         const selectedModel = getLanguageModel(model);
-        const { object } = !!messages?.length
+        const { object, usage, providerMetadata } = !!messages?.length
             ? await generateObjectAi({
                   system: prompt,
                   model: selectedModel,
@@ -182,9 +331,38 @@ export const generateObject = async ({
                   abortSignal: signal,
               });
 
+        releaseRateLimit(usage?.totalTokens);
+        recordUsage?.(getLLMUsage(model, usage, providerMetadata));
+        span?.end({
+            output: object,
+            attributes: {
+                [SpanAttributeKeys.INPUT_TOKENS]: usage?.promptTokens,
+                [SpanAttributeKeys.OUTPUT_TOKENS]: usage?.completionTokens,
+            },
+        });
         return JSON.parse(JSON.stringify(object));
     } catch (error) {
         console.error(error);
+        span?.end({ error });
+        throw error;
+    } finally {
+        releaseRateLimit?.();
+    }
+};
+
+// Null when every model of the chain failed, see generateText for the fallbacks
+export const generateObject = async ({ task, onFallback, ...params }: GenerateObjectParams) => {
+    try {
+        return await runWithFallbacks(
+            getFallbackChain(params.model, task),
+            model => generateModelObject({ ...params, model }),
+            { task, signal: params.signal, onFallback }
+        );
+    } catch (error) {
+        // Let the engine see cancellations instead of a missing object
+        if (params.signal?.aborted) {
+            throw error;
+        }
         return null;
     }
 };
@@ -272,7 +450,7 @@ export const getHumanizedDate = () => {
     return format(new Date(), 'MMMM dd, yyyy, h:mm a');
 };
 
-export const getSERPResults = async (queries: string[], gl?: Geo) => {
+export const getSERPResults = async (queries: string[], gl?: Geo, signal?: AbortSignal) => {
     const myHeaders = new Headers();
     const apiKey = process.env.SERPER_API_KEY || (self as any).SERPER_API_KEY || '';
 
@@ -293,19 +471,24 @@ export const getSERPResults = async (queries: string[], gl?: Geo) => {
 
     console.log('raw', raw);
 
-    try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 15000);
-
-        const response = await fetch('https://google.serper.dev/search', {
-            method: 'POST',
-            headers: myHeaders,
-            body: raw,
-            redirect: 'follow',
-            signal: controller.signal,
-        });
+    const { signal: requestSignal, dispose } = deriveSignal({
+        signals: [signal],
+        timeoutMs: 15000,
+    });
 
-        clearTimeout(timeoutId);
+    try {
+        const response = await withRateLimit(
+            'serper',
+            () =>
+                fetch('https://google.serper.dev/search', {
+                    method: 'POST',
+                    headers: myHeaders,
+                    body: raw,
+                    redirect: 'follow',
+                    signal: requestSignal,
+                }),
+            { signal: requestSignal }
+        );
 
         if (!response.ok) {
             throw new Error(`SERP API responded with status: ${response.status}`);
@@ -328,13 +511,18 @@ export const getSERPResults = async (queries: string[], gl?: Geo) => {
         }));
     } catch (error) {
         console.error(error);
+        if (signal?.aborted) {
+            throw error;
+        }
         return [];
+    } finally {
+        dispose();
     }
 };
 
-export const getWebPageContent = async (url: string) => {
+export const getWebPageContent = async (url: string, signal?: AbortSignal) => {
     try {
-        const result = await readURL(url);
+        const result = await readURL(url, signal);
         const title = result?.title ? `# ${result.title}\n\n` : '';
         const description = result?.description
             ? `${result.description}\n\n ${result.markdown}\n\n`
@@ -365,23 +553,33 @@ const processContent = (content: string, maxLength: number = 10000): string => {
     return result.trim();
 };
 
-const fetchWithJina = async (url: string): Promise<TReaderResult> => {
+const fetchWithJina = async (url: string, signal?: AbortSignal): Promise<TReaderResult> => {
+    const { signal: requestSignal, dispose } = deriveSignal({
+        signals: [signal],
+        timeoutMs: 15000,
+    });
+
     try {
-        const response = await fetch(`https://r.jina.ai/${url}`, {
-            method: 'GET',
-            headers: {
-                Authorization: `Bearer ${process.env.JINA_API_KEY}`,
-                Accept: 'application/json',
-                'X-Engine': 'browser',
-                // 'X-Md-Link-Style': 'referenced',
-                'X-No-Cache': 'true',
-                'X-Retain-Images': 'none',
-                'X-Return-Format': 'markdown',
-                'X-Robots-Txt': 'JinaReader',
-                // 'X-With-Links-Summary': 'true',
-            },
-            signal: AbortSignal.timeout(15000),
-        });
+        const response = await withRateLimit(
+            'jina',
+            () =>
+                fetch(`https://r.jina.ai/${url}`, {
+                    method: 'GET',
+                    headers: {
+                        Authorization: `Bearer ${process.env.JINA_API_KEY}`,
+                        Accept: 'application/json',
+                        'X-Engine': 'browser',
+                        // 'X-Md-Link-Style': 'referenced',
+                        'X-No-Cache': 'true',
+                        'X-Retain-Images': 'none',
+                        'X-Return-Format': 'markdown',
+                        'X-Robots-Txt': 'JinaReader',
+                        // 'X-With-Links-Summary': 'true',
+                    },
+                    signal: requestSignal,
+                }),
+            { signal: requestSignal }
+        );
 
         if (!response.ok) {
             throw new Error(`Jina API responded with status: ${response.status}`);
@@ -406,13 +604,15 @@ const fetchWithJina = async (url: string): Promise<TReaderResult> => {
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
         };
+    } finally {
+        dispose();
     }
 };
 
-export const readURL = async (url: string): Promise<TReaderResult> => {
+export const readURL = async (url: string, signal?: AbortSignal): Promise<TReaderResult> => {
     try {
         if (process.env.JINA_API_KEY) {
-            return await fetchWithJina(url);
+            return await fetchWithJina(url, signal);
         } else {
             console.log('No Jina API key found');
         }
@@ -429,45 +629,34 @@ export const processWebPages = async (
     signal?: AbortSignal,
     options = { batchSize: 4, maxPages: 8, timeout: 30000 }
 ) => {
-    const processedResults: Array<{ title: string; link: string; content: string }> = [];
-    const timeoutSignal = AbortSignal.timeout(options.timeout);
-    const combinedSignal = new AbortController();
-
-    signal?.addEventListener('abort', () => combinedSignal.abort());
-    timeoutSignal.addEventListener('abort', () => combinedSignal.abort());
+    const combinedSignal = deriveSignal({ signals: [signal], timeoutMs: options.timeout });
 
     try {
-        const startTime = Date.now();
-
-        for (let i = 0; i < results.length; i += options.batchSize) {
-            if (processedResults.length >= options.maxPages) break;
-            if (combinedSignal.signal.aborted) break;
-            if (Date.now() - startTime > options.timeout) break;
-
-            const batch = results.slice(i, i + options.batchSize);
-            const batchPromises = batch.map(result =>
-                getWebPageContent(result.link)
-                    .then(content => ({
-                        title: result.title,
-                        link: result.link,
-                        content,
-                    }))
-                    .catch(() => null)
-            );
-
-            const batchResults = await Promise.all(batchPromises);
-            const validResults = batchResults.filter((r): r is NonNullable<typeof r> => r !== null);
-            processedResults.push(...validResults);
-        }
+        // Pages that fail to load are skipped, reading stops once maxPages succeeded
+        const pages = await mapWithConcurrency(
+            results,
+            async result => ({
+                title: result.title,
+                link: result.link,
+                content: await getWebPageContent(result.link, combinedSignal.signal),
+            }),
+            {
+                concurrency: options.batchSize,
+                mode: 'best-effort',
+                signal: combinedSignal.signal,
+                maxFulfilled: options.maxPages,
+            }
+        );
 
-        return processedResults.slice(0, options.maxPages);
+        return pages
+            .flatMap(page => (page.status === 'fulfilled' ? [page.value] : []))
+            .slice(0, options.maxPages);
     } catch (error) {
         console.error('Error in processWebPages:', error);
-        return processedResults.slice(0, options.maxPages);
+        return [];
     } finally {
-        // Clean up event listeners to prevent memory leaks
-        signal?.removeEventListener('abort', () => combinedSignal.abort());
-        timeoutSignal.removeEventListener('abort', () => combinedSignal.abort());
+        // Clears the timeout and the listener on the task signal
+        combinedSignal.dispose();
     }
 };
 
@@ -477,7 +666,7 @@ export const executeWebSearch = async (queries: string[], signal?: AbortSignal,
     }
 
     const flatQueries = queries.flat();
-    const results = await getSERPResults(flatQueries, gl);
+    const results = await getSERPResults(flatQueries, gl, signal);
     const uniqueResults = results.filter(
         (result: { link: string }, index: number, self: { link: string }[]) =>
             index === self.findIndex((t: { link: string }) => t.link === result.link)
@@ -603,5 +792,35 @@ export const sendEvents = (events?: TypedEventEmitter<WorkflowEventSchema>) => {
         events?.update('object', prev => object);
     };
 
-    return { updateStep, addSources, updateAnswer, nextStepId, updateStatus, updateObject };
+    // Notes a fallback in the step of the task whose model failed
+    const addFallback = (stepId: number, fallback: ModelFallback) => {
+        events?.update('steps', prev => {
+            const step = prev?.[stepId];
+            return {
+                ...prev,
+                [stepId]: {
+                    ...step,
+                    id: stepId,
+                    status: step?.status || 'COMPLETED',
+                    steps: {
+                        ...step?.steps,
+                        fallback: {
+                            status: 'COMPLETED',
+                            data: [...(step?.steps?.fallback?.data || []), fallback],
+                        },
+                    },
+                },
+            };
+        });
+    };
+
+    return {
+        updateStep,
+        addSources,
+        updateAnswer,
+        nextStepId,
+        updateStatus,
+        updateObject,
+        addFallback,
+    };
 };
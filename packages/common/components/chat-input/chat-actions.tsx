@@ -1,8 +1,17 @@
 'use client';
 import { useUser } from '@clerk/nextjs';
 import { DotSpinner } from '@repo/common/components';
-import { useApiKeysStore, useChatStore } from '@repo/common/store';
-import { CHAT_MODE_CREDIT_COSTS, ChatMode, ChatModeConfig } from '@repo/shared/config';
+import { useApiKeysStore, useChatStore, useProvidersStore } from '@repo/common/store';
+import {
+    CHAT_MODE_CREDIT_COSTS,
+    ChatMode,
+    ChatModeId,
+    getChatModeConfig,
+    getChatModeCreditCost,
+    getChatModeName,
+    getCustomChatMode,
+    MODEL_CHAT_MODES,
+} from '@repo/shared/config';
 import {
     Button,
     cn,
@@ -18,6 +27,7 @@ import {
     IconArrowUp,
     IconAtom,
     IconChevronDown,
+    IconListCheck,
     IconNorthStar,
     IconPaperclip,
     IconPlayerStopFilled,
@@ -25,19 +35,19 @@ import {
 } from '@tabler/icons-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { usePathname, useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { BYOKIcon, NewIcon } from '../icons';
 
 export const chatOptions = [
     {
-        label: 'Deep Research',
+        label: getChatModeName(ChatMode.Deep),
         description: 'In depth research on complex topic',
         value: ChatMode.Deep,
         icon: <IconAtom size={16} className="text-muted-foreground" strokeWidth={2} />,
         creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.Deep],
     },
     {
-        label: 'Pro Search',
+        label: getChatModeName(ChatMode.Pro),
         description: 'Pro search with web search',
         value: ChatMode.Pro,
         icon: <IconNorthStar size={16} className="text-muted-foreground" strokeWidth={2} />,
@@ -45,83 +55,36 @@ export const chatOptions = [
     },
 ];
 
-export const modelOptions = [
-    {
-        label: 'Llama 4 Scout',
-        value: ChatMode.LLAMA_4_SCOUT,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.LLAMA_4_SCOUT],
-    },
-    {
-        label: 'GPT 4.1',
-        value: ChatMode.GPT_4_1,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.GPT_4_1],
-    },
-    {
-        label: 'GPT 4.1 Mini',
-        value: ChatMode.GPT_4_1_Mini,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.GPT_4_1_Mini],
-    },
-    {
-        label: 'GPT 4.1 Nano',
-        value: ChatMode.GPT_4_1_Nano,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.GPT_4_1_Nano],
-    },
-    {
-        label: 'Gemini Flash 2.0',
-        value: ChatMode.GEMINI_2_FLASH,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.GEMINI_2_FLASH],
-    },
+export const modelOptions = MODEL_CHAT_MODES.map(mode => ({
+    label: getChatModeName(mode),
+    value: mode,
+    icon: undefined,
+    creditCost: CHAT_MODE_CREDIT_COSTS[mode],
+}));
 
-    {
-        label: 'GPT 4o Mini',
-        value: ChatMode.GPT_4o_Mini,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.GPT_4o_Mini],
-    },
+// Models of the user's own endpoints and of the providers configured on the server
+export const useProviderModelOptions = () => {
+    const providers = useProvidersStore(state => state.providers);
+    const serverProviders = useProvidersStore(state => state.serverProviders);
 
-    {
-        label: 'O4 Mini',
-        value: ChatMode.O4_Mini,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.O4_Mini],
-    },
-
-    {
-        label: 'Claude 3.5 Sonnet',
-        value: ChatMode.CLAUDE_3_5_SONNET,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.CLAUDE_3_5_SONNET],
-    },
-
-    {
-        label: 'Deepseek R1',
-        value: ChatMode.DEEPSEEK_R1,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.DEEPSEEK_R1],
-    },
-
-    {
-        label: 'Claude 3.7 Sonnet',
-        value: ChatMode.CLAUDE_3_7_SONNET,
-        // webSearch: true,
-        icon: undefined,
-        creditCost: CHAT_MODE_CREDIT_COSTS[ChatMode.CLAUDE_3_7_SONNET],
-    },
-];
+    return useMemo(() => {
+        const localIds = providers.map(provider => provider.id);
+        return [
+            ...serverProviders.filter(provider => !localIds.includes(provider.id)),
+            ...providers,
+        ].flatMap(provider =>
+            provider.models.map(model => {
+                const value = getCustomChatMode(provider.id, model.id);
+                return {
+                    label: model.name || model.id,
+                    value: value as ChatModeId,
+                    icon: undefined,
+                    creditCost: getChatModeCreditCost(value),
+                };
+            })
+        );
+    }, [providers, serverProviders]);
+};
 
 export const AttachmentButton = () => {
     return (
@@ -143,12 +106,22 @@ export const ChatModeButton = () => {
     const setChatMode = useChatStore(state => state.setChatMode);
     const [isChatModeOpen, setIsChatModeOpen] = useState(false);
     const hasApiKeyForChatMode = useApiKeysStore(state => state.hasApiKeyForChatMode);
+    const loadServerProviders = useProvidersStore(state => state.loadServerProviders);
+    const providerModelOptions = useProviderModelOptions();
     const isChatPage = usePathname().startsWith('/chat');
 
+    useEffect(() => {
+        loadServerProviders();
+    }, [loadServerProviders]);
+
     const selectedOption =
         (isChatPage
-            ? [...chatOptions, ...modelOptions].find(option => option.value === chatMode)
-            : [...modelOptions].find(option => option.value === chatMode)) ?? modelOptions[0];
+            ? [...chatOptions, ...modelOptions, ...providerModelOptions].find(
+                  option => option.value === chatMode
+              )
+            : [...modelOptions, ...providerModelOptions].find(
+                  option => option.value === chatMode
+              )) ?? modelOptions[0];
 
     return (
         <DropdownMenu open={isChatModeOpen} onOpenChange={setIsChatModeOpen}>
@@ -170,7 +143,7 @@ export const WebSearchButton = () => {
     const chatMode = useChatStore(state => state.chatMode);
     const hasApiKeyForChatMode = useApiKeysStore(state => state.hasApiKeyForChatMode);
 
-    if (!ChatModeConfig[chatMode]?.webSearch && !hasApiKeyForChatMode(chatMode)) return null;
+    if (!getChatModeConfig(chatMode)?.webSearch && !hasApiKeyForChatMode(chatMode)) return null;
 
     return (
         <Button
@@ -190,6 +163,31 @@ export const WebSearchButton = () => {
     );
 };
 
+export const PlanApprovalButton = () => {
+    const approvePlan = useChatStore(state => state.approvePlan);
+    const setApprovePlan = useChatStore(state => state.setApprovePlan);
+    const chatMode = useChatStore(state => state.chatMode);
+
+    if (chatMode !== ChatMode.Deep) return null;
+
+    return (
+        <Button
+            size={approvePlan ? 'sm' : 'icon-sm'}
+            tooltip="Review plan before searching"
+            variant={approvePlan ? 'secondary' : 'ghost'}
+            className={cn('gap-2', approvePlan && 'bg-blue-500/10 text-blue-500')}
+            onClick={() => setApprovePlan(!approvePlan)}
+        >
+            <IconListCheck
+                size={16}
+                strokeWidth={2}
+                className={cn(approvePlan ? '!text-blue-500' : 'text-muted-foreground')}
+            />
+            {approvePlan && <p className="text-xs">Review</p>}
+        </Button>
+    );
+};
+
 export const NewLineIndicator = () => {
     const editor = useChatStore(state => state.editor);
     const hasTextInput = !!editor?.getText();
@@ -216,12 +214,17 @@ export const ChatModeOptions = ({
     setChatMode,
     isRetry = false,
 }: {
-    chatMode: ChatMode;
-    setChatMode: (chatMode: ChatMode) => void;
+    chatMode: ChatModeId;
+    setChatMode: (chatMode: ChatModeId) => void;
     isRetry?: boolean;
 }) => {
     const { isSignedIn } = useUser();
     const hasApiKeyForChatMode = useApiKeysStore(state => state.hasApiKeyForChatMode);
+    const providerModelOptions = useProviderModelOptions();
+    const modelGroups = [
+        { label: 'Models', options: modelOptions },
+        { label: 'Custom Models', options: providerModelOptions },
+    ].filter(group => group.options.length > 0);
     const isChatPage = usePathname().startsWith('/chat');
     const { push } = useRouter();
     return (
@@ -237,7 +240,10 @@ export const ChatModeOptions = ({
                         <DropdownMenuItem
                             key={option.label}
                             onSelect={() => {
-                                if (ChatModeConfig[option.value]?.isAuthRequired && !isSignedIn) {
+                                if (
+                                    getChatModeConfig(option.value)?.isAuthRequired &&
+                                    !isSignedIn
+                                ) {
                                     push('/sign-in');
                                     return;
                                 }
@@ -257,38 +263,43 @@ export const ChatModeOptions = ({
                                     )}
                                 </div>
                                 <div className="flex-1" />
-                                {ChatModeConfig[option.value]?.isNew && <NewIcon />}
+                                {getChatModeConfig(option.value)?.isNew && <NewIcon />}
                             </div>
                         </DropdownMenuItem>
                     ))}
                 </DropdownMenuGroup>
             )}
-            <DropdownMenuGroup>
-                <DropdownMenuLabel>Models</DropdownMenuLabel>
-                {modelOptions.map(option => (
-                    <DropdownMenuItem
-                        key={option.label}
-                        onSelect={() => {
-                            if (ChatModeConfig[option.value]?.isAuthRequired && !isSignedIn) {
-                                push('/sign-in');
-                                return;
-                            }
-                            setChatMode(option.value);
-                        }}
-                        className="h-auto"
-                    >
-                        <div className="flex w-full flex-row items-center gap-2.5 px-1.5 py-1.5">
-                            <div className="flex flex-col gap-0">
-                                {<p className="text-sm font-medium">{option.label}</p>}
-                            </div>
-                            <div className="flex-1" />
-                            {ChatModeConfig[option.value]?.isNew && <NewIcon />}
+            {modelGroups.map(group => (
+                <DropdownMenuGroup key={group.label}>
+                    <DropdownMenuLabel>{group.label}</DropdownMenuLabel>
+                    {group.options.map(option => (
+                        <DropdownMenuItem
+                            key={option.value}
+                            onSelect={() => {
+                                if (
+                                    getChatModeConfig(option.value)?.isAuthRequired &&
+                                    !isSignedIn
+                                ) {
+                                    push('/sign-in');
+                                    return;
+                                }
+                                setChatMode(option.value);
+                            }}
+                            className="h-auto"
+                        >
+                            <div className="flex w-full flex-row items-center gap-2.5 px-1.5 py-1.5">
+                                <div className="flex flex-col gap-0">
+                                    {<p className="text-sm font-medium">{option.label}</p>}
+                                </div>
+                                <div className="flex-1" />
+                                {getChatModeConfig(option.value)?.isNew && <NewIcon />}
 
-                            {hasApiKeyForChatMode(option.value) && <BYOKIcon />}
-                        </div>
-                    </DropdownMenuItem>
-                ))}
-            </DropdownMenuGroup>
+                                {hasApiKeyForChatMode(option.value) && <BYOKIcon />}
+                            </div>
+                        </DropdownMenuItem>
+                    ))}
+                </DropdownMenuGroup>
+            ))}
         </DropdownMenuContent>
     );
 };
@@ -6,7 +6,7 @@ import {
     MessagesRemainingBadge,
 } from '@repo/common/components';
 import { useImageAttachment } from '@repo/common/hooks';
-import { ChatModeConfig } from '@repo/shared/config';
+import { getChatModeConfig } from '@repo/shared/config';
 import { cn, Flex } from '@repo/ui';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useParams, usePathname, useRouter } from 'next/navigation';
@@ -17,7 +17,13 @@ import { useAgentStream } from '../../hooks/agent-provider';
 import { useChatEditor } from '../../hooks/use-editor';
 import { useChatStore } from '../../store';
 import { ExamplePrompts } from '../exmaple-prompts';
-import { ChatModeButton, GeneratingStatus, SendStopButton, WebSearchButton } from './chat-actions';
+import {
+    ChatModeButton,
+    GeneratingStatus,
+    PlanApprovalButton,
+    SendStopButton,
+    WebSearchButton,
+} from './chat-actions';
 import { ChatEditor } from './chat-editor';
 import { ImageUpload } from './image-upload';
 
@@ -65,10 +71,7 @@ export const ChatInput = ({
     const { push } = useRouter();
     const chatMode = useChatStore(state => state.chatMode);
     const sendMessage = async () => {
-        if (
-            !isSignedIn &&
-            !!ChatModeConfig[chatMode as keyof typeof ChatModeConfig]?.isAuthRequired
-        ) {
+        if (!isSignedIn && !!getChatModeConfig(chatMode)?.isAuthRequired) {
             push('/sign-in');
             return;
         }
@@ -160,6 +163,7 @@ export const ChatInput = ({
                                                 <ChatModeButton />
                                                 {/* <AttachmentButton /> */}
                                                 <WebSearchButton />
+                                                <PlanApprovalButton />
                                                 {/* <ToolsMenu /> */}
                                                 <ImageUpload
                                                     id="image-attachment"
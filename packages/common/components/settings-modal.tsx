@@ -1,8 +1,15 @@
 'use client';
-import { useMcpToolsStore } from '@repo/common/store';
+import { useMcpToolsStore, useProvidersStore } from '@repo/common/store';
 import { Alert, AlertDescription, DialogFooter } from '@repo/ui';
 import { Button } from '@repo/ui/src/components/button';
-import { IconBolt, IconBoltFilled, IconKey, IconSettings2, IconTrash } from '@tabler/icons-react';
+import {
+    IconBolt,
+    IconBoltFilled,
+    IconKey,
+    IconServer,
+    IconSettings2,
+    IconTrash,
+} from '@tabler/icons-react';
 
 import { Badge, Dialog, DialogContent, Input } from '@repo/ui';
 
@@ -40,6 +47,12 @@ export const SettingsModal = () => {
             key: SETTING_TABS.API_KEYS,
             component: <ApiKeySettings />,
         },
+        {
+            icon: <IconServer size={16} strokeWidth={2} className="text-muted-foreground" />,
+            title: 'Providers',
+            key: SETTING_TABS.PROVIDERS,
+            component: <ProviderSettings />,
+        },
         // {
         //     title: 'MCP Tools',
         //     key: SETTING_TABS.MCP_TOOLS,
@@ -403,6 +416,108 @@ export const ApiKeySettings = () => {
     );
 };
 
+export const ProviderSettings = () => {
+    const providers = useProvidersStore(state => state.providers);
+    const addProvider = useProvidersStore(state => state.addProvider);
+    const removeProvider = useProvidersStore(state => state.removeProvider);
+    const [id, setId] = useState('');
+    const [baseURL, setBaseURL] = useState('');
+    const [apiKey, setApiKey] = useState('');
+    const [models, setModels] = useState('');
+    const [error, setError] = useState('');
+
+    const handleAdd = () => {
+        try {
+            addProvider({
+                id: id.trim(),
+                baseURL: baseURL.trim(),
+                apiKey: apiKey.trim() || undefined,
+                models: models
+                    .split(',')
+                    .map(model => model.trim())
+                    .filter(Boolean)
+                    .map(model => ({ id: model })),
+            });
+            setId('');
+            setBaseURL('');
+            setApiKey('');
+            setModels('');
+            setError('');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-6">
+            <div className="flex flex-col">
+                <h2 className="flex items-center gap-1 text-base font-semibold">
+                    Providers <BYOKIcon />
+                </h2>
+
+                <p className="text-muted-foreground text-xs">
+                    Add any OpenAI-compatible endpoint, e.g. Ollama at http://localhost:11434/v1, LM
+                    Studio, vLLM or llama.cpp. It is called from your browser and stored locally.
+                </p>
+            </div>
+
+            {providers.map(provider => (
+                <div
+                    key={provider.id}
+                    className="flex items-center gap-2 rounded-md border px-3 py-1.5"
+                >
+                    <div className="flex flex-1 flex-col">
+                        <span className="text-sm font-medium">{provider.id}</span>
+                        <span className="text-muted-foreground text-xs">
+                            {provider.baseURL} · {provider.models.map(model => model.id).join(', ')}
+                        </span>
+                    </div>
+                    <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        tooltip="Remove provider"
+                        onClick={() => removeProvider(provider.id)}
+                    >
+                        <IconTrash size={14} strokeWidth={2} />
+                    </Button>
+                </div>
+            ))}
+
+            <div className="flex flex-col gap-2">
+                <Input
+                    placeholder="Id, e.g. ollama"
+                    value={id}
+                    onChange={e => setId(e.target.value)}
+                />
+                <Input
+                    placeholder="Base URL, e.g. http://localhost:11434/v1"
+                    value={baseURL}
+                    onChange={e => setBaseURL(e.target.value)}
+                />
+                <Input
+                    placeholder="API key (optional)"
+                    value={apiKey}
+                    onChange={e => setApiKey(e.target.value)}
+                />
+                <Input
+                    placeholder="Models, comma separated, e.g. llama3.1:8b, qwen2.5:14b"
+                    value={models}
+                    onChange={e => setModels(e.target.value)}
+                />
+                {error && <p className="text-xs text-rose-500">{error}</p>}
+                <Button
+                    className="self-start"
+                    size="sm"
+                    onClick={handleAdd}
+                    disabled={!id || !baseURL || !models}
+                >
+                    Add Provider
+                </Button>
+            </div>
+        </div>
+    );
+};
+
 export const CreditsSettings = () => {
     const remainingCredits = useChatStore(state => state.creditLimit.remaining);
     const maxLimit = useChatStore(state => state.creditLimit.maxLimit);
@@ -0,0 +1,33 @@
+import { MarkdownContent } from '@repo/common/components';
+import { ThreadSummary } from '@repo/shared/types';
+import { IconChevronDown, IconChevronUp, IconFold } from '@tabler/icons-react';
+import { useState } from 'react';
+
+// Shown after the last turn the thread's summary covers, those turns reach the model only as it
+export const CompactionMarker = ({ summary }: { summary: ThreadSummary }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="flex w-full flex-col gap-2">
+            <div
+                className="text-muted-foreground hover:text-foreground flex w-full cursor-pointer flex-row items-center gap-2 text-xs"
+                onClick={() => setIsOpen(!isOpen)}
+            >
+                <div className="bg-border h-[1px] flex-1" />
+                <IconFold size={14} strokeWidth={2} />
+                <p>Earlier messages were summarized to fit the context</p>
+                {isOpen ? (
+                    <IconChevronUp size={14} strokeWidth={2} />
+                ) : (
+                    <IconChevronDown size={14} strokeWidth={2} />
+                )}
+                <div className="bg-border h-[1px] flex-1" />
+            </div>
+            {isOpen && (
+                <div className="border-border bg-background w-full rounded-lg border p-4">
+                    <MarkdownContent content={summary.text} isCompleted={true} />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,8 +1,10 @@
+export * from './compaction-marker';
 export * from './followup-suggestion';
 export * from './goals';
 export * from './markdown-content';
 export * from './message';
 export * from './message-actions';
+export * from './plan-approval';
 export * from './question-prompt';
 export * from './source-grid';
 export * from './source-list';
@@ -2,10 +2,18 @@
 import { ChatModeOptions } from '@repo/common/components';
 import { useAgentStream, useCopyText } from '@repo/common/hooks';
 import { useChatStore } from '@repo/common/store';
-import { ChatMode, getChatModeName } from '@repo/shared/config';
+import { ChatModeId, getChatModeName } from '@repo/shared/config';
 import { ThreadItem } from '@repo/shared/types';
 import { Button, DropdownMenu, DropdownMenuTrigger } from '@repo/ui';
-import { IconCheck, IconCopy, IconMarkdown, IconRefresh, IconTrash } from '@tabler/icons-react';
+import {
+    IconCheck,
+    IconCopy,
+    IconMarkdown,
+    IconPinned,
+    IconPinnedFilled,
+    IconRefresh,
+    IconTrash,
+} from '@tabler/icons-react';
 import { forwardRef, useState } from 'react';
 type MessageActionsProps = {
     threadItem: ThreadItem;
@@ -16,9 +24,10 @@ export const MessageActions = forwardRef<HTMLDivElement, MessageActionsProps>(
     ({ threadItem, isLast }, ref) => {
         const { handleSubmit } = useAgentStream();
         const removeThreadItem = useChatStore(state => state.deleteThreadItem);
+        const updateThreadItem = useChatStore(state => state.updateThreadItem);
         const getThreadItems = useChatStore(state => state.getThreadItems);
         const useWebSearch = useChatStore(state => state.useWebSearch);
-        const [chatMode, setChatMode] = useState<ChatMode>(threadItem.mode);
+        const [chatMode, setChatMode] = useState<ChatModeId>(threadItem.mode);
         const { copyToClipboard, status, copyMarkdown, markdownCopyStatus } = useCopyText();
         return (
             <div className="flex flex-row items-center gap-1 py-2">
@@ -87,6 +96,27 @@ export const MessageActions = forwardRef<HTMLDivElement, MessageActionsProps>(
                     </DropdownMenu>
                 )}
 
+                {threadItem?.answer?.text && (
+                    <Button
+                        variant="ghost-bordered"
+                        size="icon-sm"
+                        onClick={() => {
+                            updateThreadItem(threadItem.threadId, {
+                                id: threadItem.id,
+                                pinned: !threadItem.pinned,
+                                persistToDB: true,
+                            });
+                        }}
+                        tooltip={threadItem.pinned ? 'Unpin' : 'Pin, never summarized'}
+                    >
+                        {threadItem.pinned ? (
+                            <IconPinnedFilled size={16} strokeWidth={2} />
+                        ) : (
+                            <IconPinned size={16} strokeWidth={2} />
+                        )}
+                    </Button>
+                )}
+
                 {isLast && (
                     <Button
                         variant="ghost-bordered"
@@ -104,6 +134,13 @@ export const MessageActions = forwardRef<HTMLDivElement, MessageActionsProps>(
                         Generated with {getChatModeName(threadItem.mode)}
                     </p>
                 )}
+                {!!threadItem.usage?.total.totalTokens && (
+                    <p className="text-muted-foreground text-xs">
+                        {threadItem.usage.total.totalTokens.toLocaleString()} tokens
+                        {threadItem.usage.total.cost > 0 &&
+                            ` · $${threadItem.usage.total.cost.toFixed(4)}`}
+                    </p>
+                )}
             </div>
         );
     }
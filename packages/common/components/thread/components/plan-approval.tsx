@@ -0,0 +1,89 @@
+import { useAgentStream } from '@repo/common/hooks';
+import { ThreadItem } from '@repo/shared/types';
+import { Button } from '@repo/ui';
+import { IconCheck, IconListSearch, IconSquare } from '@tabler/icons-react';
+import { useEffect, useState } from 'react';
+
+export const PlanApproval = ({ threadItem }: { threadItem: ThreadItem }) => {
+    const { submitInput } = useAgentStream();
+    const queries: string[] = threadItem.input?.request?.queries || [];
+    const reasoning: string = threadItem.input?.request?.reasoning || '';
+    const [selectedQueries, setSelectedQueries] = useState<string[]>(queries);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        setSelectedQueries(queries);
+    }, [queries.join('\n')]);
+
+    if (threadItem.input?.key !== 'plan-approval' || threadItem.input?.status !== 'PENDING') {
+        return null;
+    }
+
+    const submit = async (approved: boolean) => {
+        setIsSubmitting(true);
+        await submitInput({
+            threadItem,
+            key: 'plan-approval',
+            value: approved ? { approved, queries: selectedQueries } : { approved },
+        });
+        setIsSubmitting(false);
+    };
+
+    return (
+        <div className="border-border bg-background mt-2 flex w-full flex-col items-start gap-4 rounded-lg border p-4">
+            <div className="flex flex-row items-center gap-1">
+                <IconListSearch size={16} strokeWidth={2} className="text-brand" />
+                <p className="text-sm text-yellow-700">Review Research Plan</p>
+            </div>
+
+            {reasoning && <p className="text-muted-foreground text-sm">{reasoning}</p>}
+
+            <div className="flex flex-col gap-2">
+                {queries.map((query, index) => (
+                    <div
+                        key={index}
+                        className="flex cursor-pointer flex-row items-center gap-2"
+                        onClick={() => {
+                            if (selectedQueries.includes(query)) {
+                                setSelectedQueries(selectedQueries.filter(q => q !== query));
+                            } else {
+                                setSelectedQueries([...selectedQueries, query]);
+                            }
+                        }}
+                    >
+                        {selectedQueries.includes(query) ? (
+                            <IconCheck size={16} strokeWidth={2} className="text-brand" />
+                        ) : (
+                            <IconSquare
+                                size={16}
+                                strokeWidth={2}
+                                className="text-muted-foreground/20"
+                            />
+                        )}
+                        <p className="text-sm">{query}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-row gap-2">
+                <Button
+                    disabled={isSubmitting || !selectedQueries.length}
+                    size="sm"
+                    rounded="full"
+                    onClick={() => submit(true)}
+                >
+                    Start Research
+                </Button>
+                <Button
+                    disabled={isSubmitting}
+                    size="sm"
+                    rounded="full"
+                    variant="bordered"
+                    onClick={() => submit(false)}
+                >
+                    Cancel
+                </Button>
+            </div>
+        </div>
+    );
+};
@@ -10,7 +10,7 @@ export const QuestionPrompt = ({ threadItem }: { threadItem: ThreadItem }) => {
     const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
     const [customOption, setCustomOption] = useState<string>('');
     const [isCustomSelected, setIsCustomSelected] = useState<boolean>(false);
-    const { handleSubmit } = useAgentStream();
+    const { handleSubmit, submitInput } = useAgentStream();
     const getThreadItems = useChatStore(state => state.getThreadItems);
     const updateThreadItem = useChatStore(state => state.updateThreadItem);
 
@@ -18,6 +18,9 @@ export const QuestionPrompt = ({ threadItem }: { threadItem: ThreadItem }) => {
     const question = threadItem.object?.clarifyingQuestion?.question || '';
     const choiceType = threadItem.object?.clarifyingQuestion?.choiceType || 'multiple';
     const isSubmitted = !!threadItem.object?.clarifyingQuestion?.submittedQuery;
+    // The run is suspended on the answer, so it continues instead of starting over
+    const isAwaitingInput =
+        threadItem.input?.key === 'clarification' && threadItem.input?.status === 'PENDING';
 
     const handleOptionChange = (value: string) => {
         setSelectedOption(value);
@@ -138,6 +141,26 @@ export const QuestionPrompt = ({ threadItem }: { threadItem: ThreadItem }) => {
                         ? `${originalQuery}\n\nAdditional context: ${clarifyingResponse}`
                         : clarifyingResponse;
 
+                    if (isAwaitingInput) {
+                        const submittedItem = {
+                            ...threadItem,
+                            object: {
+                                ...threadItem.object,
+                                clarifyingQuestion: {
+                                    ...threadItem.object?.clarifyingQuestion,
+                                    submittedQuery: clarifyingResponse,
+                                },
+                            },
+                        };
+                        updateThreadItem(threadItem.threadId, submittedItem);
+                        await submitInput({
+                            threadItem: submittedItem,
+                            key: 'clarification',
+                            value: clarifyingResponse,
+                        });
+                        return;
+                    }
+
                     const formData = new FormData();
                     formData.append('query', query);
                     const threadItems = await getThreadItems(threadItem.threadId);
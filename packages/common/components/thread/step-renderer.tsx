@@ -1,7 +1,7 @@
 import { SearchResultsList, StepStatus, TextShimmer } from '@repo/common/components';
-import { Step } from '@repo/shared/types';
+import { ModelFallback, Step } from '@repo/shared/types';
 import { Badge } from '@repo/ui';
-import { IconSearch } from '@tabler/icons-react';
+import { IconArrowsShuffle, IconSearch } from '@tabler/icons-react';
 import { motion } from 'framer-motion';
 import React from 'react';
 
@@ -157,6 +157,31 @@ export const StepRenderer = ({ step }: StepRendererType) => {
         return null;
     };
 
+    const renderFallbackStep = () => {
+        if (step?.steps && 'fallback' in step.steps && Array.isArray(step.steps.fallback?.data)) {
+            return (
+                <motion.div
+                    className="flex flex-col gap-1"
+                    initial={{ opacity: 0, y: 5 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.3, delay: 0.1 }}
+                >
+                    {step.steps.fallback.data.map((fallback: ModelFallback, index: number) => (
+                        <p
+                            key={index}
+                            className="text-muted-foreground flex flex-row items-center gap-1 text-xs"
+                        >
+                            <IconArrowsShuffle size={12} className="shrink-0 opacity-50" />
+                            {fallback.fromName} was unavailable ({fallback.reason}),{' '}
+                            {fallback.toName} was used instead
+                        </p>
+                    ))}
+                </motion.div>
+            );
+        }
+        return null;
+    };
+
     return (
         <div className="flex w-full flex-row items-stretch justify-start gap-2">
             <div className="flex min-h-full shrink-0 flex-col items-center justify-start px-2">
@@ -182,6 +207,7 @@ export const StepRenderer = ({ step }: StepRendererType) => {
                 {renderReasoningStep()}
                 {renderSearchStep()}
                 {renderReadStep()}
+                {renderFallbackStep()}
             </motion.div>
         </div>
     );
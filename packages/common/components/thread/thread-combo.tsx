@@ -1,4 +1,4 @@
-import { ThreadItem } from '@repo/common/components';
+import { CompactionMarker, ThreadItem } from '@repo/common/components';
 import { useChatStore } from '@repo/common/store';
 import { useParams } from 'next/navigation';
 import { useMemo } from 'react';
@@ -14,6 +14,9 @@ export function Thread() {
         useShallow(state => state.getCurrentThreadItem(currentThreadId))
     );
     const isGenerating = useChatStore(useShallow(state => state.isGenerating));
+    const summary = useChatStore(state => state.currentThread?.summary);
+    // The marker follows the last turn the summary covers
+    const compactedUntil = summary?.threadItemIds[summary.threadItemIds.length - 1];
     const memoizedPreviousThreadItems = useMemo(() => {
         return previousThreadItems.map(threadItem => (
             <div key={threadItem.id}>
@@ -24,9 +27,14 @@ export function Thread() {
                     isGenerating={false}
                     isLast={false}
                 />
+                {summary && threadItem.id === compactedUntil && (
+                    <div className="pt-8">
+                        <CompactionMarker summary={summary} />
+                    </div>
+                )}
             </div>
         ));
-    }, [previousThreadItems]);
+    }, [previousThreadItems, summary, compactedUntil]);
 
     return (
         <div className="relative" id="thread-container">
@@ -5,6 +5,7 @@ import {
     Message,
     MessageActions,
     MotionSkeleton,
+    PlanApproval,
     QuestionPrompt,
     SourceGrid,
     Steps,
@@ -13,7 +14,7 @@ import { useAnimatedText } from '@repo/common/hooks';
 import { useChatStore } from '@repo/common/store';
 import { ThreadItem as ThreadItemType } from '@repo/shared/types';
 import { Alert, AlertDescription, cn } from '@repo/ui';
-import { IconAlertCircle, IconBook } from '@tabler/icons-react';
+import { IconAlertCircle, IconBook, IconRefresh } from '@tabler/icons-react';
 import { memo, useEffect, useMemo, useRef } from 'react';
 import { useInView } from 'react-intersection-observer';
 
@@ -124,7 +125,15 @@ export const ThreadItem = memo(
                                 </div>
                             )}
                         </div>
+                        {isLast && isGenerating && threadItem.retry?.status === 'PENDING' && (
+                            <div className="text-muted-foreground flex flex-row items-center gap-1.5 text-xs">
+                                <IconRefresh size={14} strokeWidth={2} className="animate-spin" />
+                                Retrying {threadItem.retry.task} ({threadItem.retry.attempt}/
+                                {threadItem.retry.maxRetries})
+                            </div>
+                        )}
                         <QuestionPrompt threadItem={threadItem} />
+                        <PlanApproval threadItem={threadItem} />
                         {threadItem.error && (
                             <Alert variant="destructive">
                                 <AlertDescription>
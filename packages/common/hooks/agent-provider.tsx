@@ -1,15 +1,21 @@
 import { useAuth, useUser } from '@clerk/nextjs';
 import { useWorkflowWorker } from '@repo/ai/worker';
-import { ChatMode, ChatModeConfig } from '@repo/shared/config';
+import { ChatMode, ChatModeId, getChatModeConfig } from '@repo/shared/config';
 import { ThreadItem } from '@repo/shared/types';
 import { buildCoreMessagesFromThreadItems, plausible } from '@repo/shared/utils';
 import { nanoid } from 'nanoid';
 import { useParams, useRouter } from 'next/navigation';
 import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo } from 'react';
-import { useApiKeysStore, useAppStore, useChatStore, useMcpToolsStore } from '../store';
+import {
+    useApiKeysStore,
+    useAppStore,
+    useChatStore,
+    useMcpToolsStore,
+    useProvidersStore,
+} from '../store';
 
 export type AgentContextType = {
-    runAgent: (body: any) => Promise<void>;
+    runAgent: (body: any, endpoint?: string) => Promise<void>;
     handleSubmit: (args: {
         formData: FormData;
         newThreadId?: string;
@@ -19,11 +25,40 @@ export type AgentContextType = {
         useWebSearch?: boolean;
         showSuggestions?: boolean;
     }) => Promise<void>;
+    submitInput: (args: { threadItem: ThreadItem; key: string; value: any }) => Promise<void>;
     updateContext: (threadId: string, data: any) => void;
 };
 
 const AgentContext = createContext<AgentContextType | undefined>(undefined);
 
+// A queued run as answered on submit, its token grants access to anonymous runs
+type QueuedRun = { runId: string; runToken: string };
+
+// Attempts in a row to pick up a run's event stream again, each waiting twice as long
+const MAX_RUN_RECONNECTS = 5;
+const getReconnectDelay = (attempt: number) => Math.min(500 * 2 ** attempt, 8000);
+
+// The events of a queued run after the one with id `lastEventId`, all of them for 0
+const subscribeToRun = async (
+    { runId, runToken }: QueuedRun,
+    lastEventId: number,
+    signal: AbortSignal
+) => {
+    const response = await fetch(`/api/runs/${runId}/events`, {
+        credentials: 'include',
+        cache: 'no-store',
+        headers: {
+            'X-Run-Token': runToken,
+            ...(lastEventId > 0 ? { 'Last-Event-ID': String(lastEventId) } : {}),
+        },
+        signal,
+    });
+    if (!response.ok || !response.body) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response;
+};
+
 export const AgentProvider = ({ children }: { children: ReactNode }) => {
     const { threadId: currentThreadId } = useParams();
     const { isSignedIn } = useAuth();
@@ -40,6 +75,7 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
         chatMode,
         fetchRemainingCredits,
         customInstructions,
+        approvePlan,
     } = useChatStore(state => ({
         updateThreadItem: state.updateThreadItem,
         setIsGenerating: state.setIsGenerating,
@@ -51,12 +87,14 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
         chatMode: state.chatMode,
         fetchRemainingCredits: state.fetchRemainingCredits,
         customInstructions: state.customInstructions,
+        approvePlan: state.approvePlan,
     }));
     const { push } = useRouter();
 
     const getSelectedMCP = useMcpToolsStore(state => state.getSelectedMCP);
     const apiKeys = useApiKeysStore(state => state.getAllKeys);
     const hasApiKeyForChatMode = useApiKeysStore(state => state.hasApiKeyForChatMode);
+    const providers = useProvidersStore(state => state.providers);
     const setShowSignInModal = useAppStore(state => state.setShowSignInModal);
 
     // Fetch remaining credits when user changes
@@ -78,6 +116,9 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
         'toolCalls',
         'toolResults',
         'object',
+        'retry',
+        'input',
+        'usage',
     ];
 
     // Helper: Update in-memory and store thread item
@@ -124,7 +165,7 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
         [threadItemMap, updateThreadItem]
     );
 
-    const { startWorkflow, abortWorkflow } = useWorkflowWorker(
+    const { startWorkflow, provideInput, abortWorkflow } = useWorkflowWorker(
         useCallback(
             (data: any) => {
                 if (
@@ -142,6 +183,11 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                     );
                 }
 
+                // The router compacted the history, the next turns build on the new summary
+                if (data?.threadId && data.event === 'summary' && data.summary) {
+                    updateThread({ id: data.threadId, summary: data.summary });
+                }
+
                 if (data.type === 'done') {
                     setIsGenerating(false);
                     setTimeout(fetchRemainingCredits, 1000);
@@ -150,12 +196,18 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                     }
                 }
             },
-            [handleThreadItemUpdate, setIsGenerating, fetchRemainingCredits, threadItemMap]
+            [
+                handleThreadItemUpdate,
+                updateThread,
+                setIsGenerating,
+                fetchRemainingCredits,
+                threadItemMap,
+            ]
         )
     );
 
     const runAgent = useCallback(
-        async (body: any) => {
+        async (body: any, endpoint: string = '/api/completion') => {
             const abortController = new AbortController();
             setAbortController(abortController);
             setIsGenerating(true);
@@ -172,7 +224,7 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
             });
 
             try {
-                const response = await fetch('/api/completion', {
+                let response = await fetch(endpoint, {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify(body),
@@ -205,11 +257,26 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                     throw new Error(`HTTP error! status: ${response.status}`);
                 }
 
+                // Queued runs answer with their id, their events are read from the run
+                const queuedRun: QueuedRun | undefined =
+                    response.status === 202 ? await response.json() : undefined;
+                if (queuedRun) {
+                    // Closing the event stream doesn't stop a queued run
+                    abortController.signal.addEventListener('abort', () => {
+                        fetch(`/api/runs/${queuedRun.runId}`, {
+                            method: 'DELETE',
+                            credentials: 'include',
+                            headers: { 'X-Run-Token': queuedRun.runToken },
+                        }).catch(error => console.error('Error stopping run:', error));
+                    });
+                    response = await subscribeToRun(queuedRun, 0, abortController.signal);
+                }
+
                 if (!response.body) {
                     throw new Error('No response body received');
                 }
 
-                const reader = response.body.getReader();
+                let reader = response.body.getReader();
                 const decoder = new TextDecoder();
                 let lastDbUpdate = Date.now();
                 const DB_UPDATE_INTERVAL = 1000;
@@ -217,10 +284,43 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                 const streamStartTime = performance.now();
 
                 let buffer = '';
+                let isDone = false;
+                // Id of the last event received, a queued run's stream resumes after it
+                let lastEventId = 0;
+                let reconnects = 0;
+                let isStreamLost = false;
+
+                // A run's event stream can close before the run is done, it's picked up
+                // again with a growing delay until MAX_RUN_RECONNECTS attempts in a row fail
+                const resubscribe = async (run: QueuedRun) => {
+                    while (reconnects < MAX_RUN_RECONNECTS && !abortController.signal.aborted) {
+                        await new Promise(resolve =>
+                            setTimeout(resolve, getReconnectDelay(reconnects++))
+                        );
+                        try {
+                            response = await subscribeToRun(
+                                run,
+                                lastEventId,
+                                abortController.signal
+                            );
+                            reader = response.body!.getReader();
+                            buffer = '';
+                            return true;
+                        } catch (error) {
+                            console.error('Error reconnecting to run:', error);
+                        }
+                    }
+                    return false;
+                };
 
                 while (true) {
                     try {
                         const { value, done } = await reader.read();
+                        if (done && queuedRun && !isDone && !abortController.signal.aborted) {
+                            if (await resubscribe(queuedRun)) continue;
+                            isStreamLost = !abortController.signal.aborted;
+                            break;
+                        }
                         if (done) break;
 
                         buffer += decoder.decode(value, { stream: true });
@@ -230,6 +330,12 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                         for (const message of messages) {
                             if (!message.trim()) continue;
 
+                            const idMatch = message.match(/^id: (\d+)$/m);
+                            if (idMatch) {
+                                lastEventId = Number(idMatch[1]);
+                                reconnects = 0;
+                            }
+
                             const eventMatch = message.match(/^event: (.+)$/m);
                             const dataMatch = message.match(/^data: (.+)$/m);
 
@@ -257,7 +363,14 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                                         if (shouldPersistToDB) {
                                             lastDbUpdate = Date.now();
                                         }
+                                    } else if (
+                                        currentEvent === 'summary' &&
+                                        data?.threadId &&
+                                        data.summary
+                                    ) {
+                                        updateThread({ id: data.threadId, summary: data.summary });
                                     } else if (currentEvent === 'done' && data.type === 'done') {
+                                        isDone = true;
                                         setIsGenerating(false);
                                         const streamDuration = performance.now() - streamStartTime;
                                         console.log(
@@ -284,10 +397,19 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                         }
                     } catch (readError) {
                         console.error('Error reading from stream:', readError);
+                        if (queuedRun && !isDone) {
+                            if (await resubscribe(queuedRun)) continue;
+                            isStreamLost = !abortController.signal.aborted;
+                            break;
+                        }
                         await new Promise(resolve => setTimeout(resolve, 1000));
                         continue;
                     }
                 }
+
+                if (isStreamLost) {
+                    throw new Error(`Lost the event stream of run ${queuedRun?.runId}`);
+                }
             } catch (streamError: any) {
                 const totalTime = performance.now() - startTime;
                 console.error(
@@ -326,6 +448,7 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
             setAbortController,
             setIsGenerating,
             updateThreadItem,
+            updateThread,
             handleThreadItemUpdate,
             fetchRemainingCredits,
             EVENT_TYPES,
@@ -351,11 +474,8 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
             useWebSearch?: boolean;
             showSuggestions?: boolean;
         }) => {
-            const mode = (newChatMode || chatMode) as ChatMode;
-            if (
-                !isSignedIn &&
-                !!ChatModeConfig[mode as keyof typeof ChatModeConfig]?.isAuthRequired
-            ) {
+            const mode = (newChatMode || chatMode) as ChatModeId;
+            if (!isSignedIn && !!getChatModeConfig(mode)?.isAuthRequired) {
                 push('/sign-in');
 
                 return;
@@ -393,11 +513,15 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                 },
             });
 
-            // Build core messages array
+            // Turns the thread's summary covers are sent as the summary, unless pinned
+            const summary = useChatStore
+                .getState()
+                .threads.find(thread => thread.id === threadId)?.summary;
             const coreMessages = buildCoreMessagesFromThreadItems({
                 messages: messages || [],
                 query,
                 imageAttachment,
+                summary,
             });
 
             if (hasApiKeyForChatMode(mode)) {
@@ -417,11 +541,14 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                     question: query,
                     threadId,
                     messages: coreMessages,
+                    summary,
                     mcpConfig: getSelectedMCP(),
                     threadItemId: optimisticAiThreadItemId,
                     parentThreadItemId: '',
                     customInstructions,
                     apiKeys: apiKeys(),
+                    approvePlan,
+                    providers,
                 });
             } else {
                 runAgent({
@@ -429,12 +556,19 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
                     prompt: query,
                     threadId,
                     messages: coreMessages,
+                    summary,
                     mcpConfig: getSelectedMCP(),
                     threadItemId: optimisticAiThreadItemId,
                     customInstructions,
                     parentThreadItemId: '',
                     webSearch: useWebSearch,
                     showSuggestions: showSuggestions ?? true,
+                    approvePlan,
+                    // Deep Research can outlive a single request, the queue keeps it running
+                    execution:
+                        mode === ChatMode.Deep && process.env.NEXT_PUBLIC_WORKFLOW_QUEUE === 'redis'
+                            ? 'queue'
+                            : 'stream',
                 });
             }
         },
@@ -451,10 +585,76 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
             abortWorkflow,
             startWorkflow,
             customInstructions,
+            approvePlan,
             getSelectedMCP,
             apiKeys,
             hasApiKeyForChatMode,
+            providers,
+            updateThreadItem,
+            runAgent,
+        ]
+    );
+
+    // Answer a question a suspended workflow is waiting on, continuing the same thread item
+    const submitInput = useCallback(
+        async ({ threadItem, key, value }: { threadItem: ThreadItem; key: string; value: any }) => {
+            // Start from the suspended item without its answer, the resumed run writes a new one
+            threadItemMap.set(threadItem.id, { ...threadItem, answer: undefined });
+            updateThreadItem(threadItem.threadId, { id: threadItem.id, status: 'PENDING' });
+            setIsGenerating(true);
+
+            if (hasApiKeyForChatMode(threadItem.mode)) {
+                const abortController = new AbortController();
+                setAbortController(abortController);
+
+                abortController.signal.addEventListener('abort', () => {
+                    setIsGenerating(false);
+                    abortWorkflow();
+                    updateThreadItem(threadItem.threadId, {
+                        id: threadItem.id,
+                        status: 'ABORTED',
+                    });
+                });
+
+                provideInput({
+                    mode: threadItem.mode,
+                    question: threadItem.query,
+                    threadId: threadItem.threadId,
+                    threadItemId: threadItem.id,
+                    parentThreadItemId: threadItem.parentId || '',
+                    key,
+                    value,
+                    apiKeys: apiKeys(),
+                    mcpConfig: getSelectedMCP(),
+                    providers,
+                });
+            } else {
+                await runAgent(
+                    {
+                        mode: threadItem.mode,
+                        prompt: threadItem.query,
+                        threadId: threadItem.threadId,
+                        threadItemId: threadItem.id,
+                        parentThreadItemId: threadItem.parentId || '',
+                        mcpConfig: getSelectedMCP(),
+                        key,
+                        value,
+                    },
+                    '/api/completion/input'
+                );
+            }
+        },
+        [
+            threadItemMap,
             updateThreadItem,
+            setIsGenerating,
+            setAbortController,
+            hasApiKeyForChatMode,
+            abortWorkflow,
+            provideInput,
+            apiKeys,
+            providers,
+            getSelectedMCP,
             runAgent,
         ]
     );
@@ -476,9 +676,10 @@ export const AgentProvider = ({ children }: { children: ReactNode }) => {
         () => ({
             runAgent,
             handleSubmit,
+            submitInput,
             updateContext,
         }),
-        [runAgent, handleSubmit, updateContext]
+        [runAgent, handleSubmit, submitInput, updateContext]
     );
 
     return <AgentContext.Provider value={contextValue}>{children}</AgentContext.Provider>;
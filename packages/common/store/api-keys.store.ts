@@ -1,6 +1,12 @@
-import { ChatMode } from '@repo/shared/config';
+import {
+    ChatModeId,
+    getChatModeApiKeyName,
+    isCustomChatMode,
+    parseCustomChatMode,
+} from '@repo/shared/config';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { useProvidersStore } from './providers.store';
 
 export type ApiKeys = {
     OPENAI_API_KEY?: string;
@@ -8,6 +14,7 @@ export type ApiKeys = {
     GEMINI_API_KEY?: string;
     JINA_API_KEY?: string;
     FIREWORKS_API_KEY?: string;
+    TOGETHER_API_KEY?: string;
     SERPER_API_KEY?: string;
 };
 
@@ -17,7 +24,7 @@ type ApiKeysState = {
     removeKey: (provider: keyof ApiKeys) => void;
     clearAllKeys: () => void;
     getAllKeys: () => ApiKeys;
-    hasApiKeyForChatMode: (chatMode: ChatMode) => boolean;
+    hasApiKeyForChatMode: (chatMode: ChatModeId) => boolean;
 };
 
 export const useApiKeysStore = create<ApiKeysState>()(
@@ -36,26 +43,18 @@ export const useApiKeysStore = create<ApiKeysState>()(
                 }),
             clearAllKeys: () => set({ keys: {} }),
             getAllKeys: () => get().keys,
-            hasApiKeyForChatMode: (chatMode: ChatMode) => {
-                const apiKeys = get().keys;
-                switch (chatMode) {
-                    case ChatMode.O4_Mini:
-                    case ChatMode.GPT_4o_Mini:
-                    case ChatMode.GPT_4_1_Mini:
-                    case ChatMode.GPT_4_1_Nano:
-                    case ChatMode.GPT_4_1:
-                        return !!apiKeys['OPENAI_API_KEY'];
-                    case ChatMode.GEMINI_2_FLASH:
-                        return !!apiKeys['GEMINI_API_KEY'];
-                    case ChatMode.CLAUDE_3_5_SONNET:
-                    case ChatMode.CLAUDE_3_7_SONNET:
-                        return !!apiKeys['ANTHROPIC_API_KEY'];
-                    case ChatMode.DEEPSEEK_R1:
-                    case ChatMode.LLAMA_4_SCOUT:
-                        return !!apiKeys['FIREWORKS_API_KEY'];
-                    default:
-                        return false;
+            hasApiKeyForChatMode: (chatMode: ChatModeId) => {
+                const keyName = getChatModeApiKeyName(chatMode);
+                if (keyName) {
+                    return !!get().keys[keyName];
                 }
+                // Models of the user's own endpoints run in the browser, server ones don't
+                return (
+                    isCustomChatMode(chatMode) &&
+                    useProvidersStore
+                        .getState()
+                        .isLocalProvider(parseCustomChatMode(chatMode).providerId)
+                );
             },
         }),
         {
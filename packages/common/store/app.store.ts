@@ -4,6 +4,7 @@ import { immer } from 'zustand/middleware/immer';
 
 export const SETTING_TABS = {
     API_KEYS: 'api-keys',
+    PROVIDERS: 'providers',
     MCP_TOOLS: 'mcp-tools',
     CREDITS: 'credits',
     PERSONALIZATION: 'personalization',
@@ -1,7 +1,7 @@
 'use client';
 
 import { Model, models } from '@repo/ai/models';
-import { ChatMode } from '@repo/shared/config';
+import { ChatMode, ChatModeId } from '@repo/shared/config';
 import { MessageGroup, Thread, ThreadItem } from '@repo/shared/types';
 import Dexie, { Table } from 'dexie';
 import { nanoid } from 'nanoid';
@@ -43,6 +43,7 @@ const loadInitialData = async () => {
           };
     const chatMode = config.chatMode || ChatMode.GEMINI_2_FLASH;
     const useWebSearch = typeof config.useWebSearch === 'boolean' ? config.useWebSearch : false;
+    const approvePlan = typeof config.approvePlan === 'boolean' ? config.approvePlan : false;
     const customInstructions = config.customInstructions || '';
 
     const initialThreads = threads.length ? threads : [];
@@ -52,6 +53,7 @@ const loadInitialData = async () => {
         currentThreadId: config.currentThreadId || initialThreads[0]?.id,
         config,
         useWebSearch,
+        approvePlan,
         chatMode,
         customInstructions,
         showSuggestions: config.showSuggestions ?? true,
@@ -62,10 +64,11 @@ type State = {
     model: Model;
     isGenerating: boolean;
     useWebSearch: boolean;
+    approvePlan: boolean;
     customInstructions: string;
     showSuggestions: boolean;
     editor: any;
-    chatMode: ChatMode;
+    chatMode: ChatModeId;
     context: string;
     imageAttachment: { base64?: string; file?: File };
     abortController: AbortController | null;
@@ -99,8 +102,10 @@ type Actions = {
     stopGeneration: () => void;
     setAbortController: (abortController: AbortController) => void;
     createThread: (optimisticId: string, thread?: Pick<Thread, 'title'>) => Promise<Thread>;
-    setChatMode: (chatMode: ChatMode) => void;
-    updateThread: (thread: Pick<Thread, 'id' | 'title'>) => Promise<void>;
+    setChatMode: (chatMode: ChatModeId) => void;
+    updateThread: (
+        thread: Pick<Thread, 'id'> & Partial<Pick<Thread, 'title' | 'summary'>>
+    ) => Promise<void>;
     getThread: (threadId: string) => Promise<Thread | null>;
     pinThread: (threadId: string) => Promise<void>;
     unpinThread: (threadId: string) => Promise<void>;
@@ -121,6 +126,7 @@ type Actions = {
     clearAllThreads: () => void;
     setCurrentSources: (sources: string[]) => void;
     setUseWebSearch: (useWebSearch: boolean) => void;
+    setApprovePlan: (approvePlan: boolean) => void;
     setShowSuggestions: (showSuggestions: boolean) => void;
 };
 
@@ -442,6 +448,7 @@ export const useChatStore = create(
         chatMode: ChatMode.GEMINI_2_FLASH,
         threadItems: [],
         useWebSearch: false,
+        approvePlan: false,
         customInstructions: '',
         currentThreadId: null,
         activeThreadItemView: null,
@@ -506,7 +513,15 @@ export const useChatStore = create(
             });
         },
 
-        setChatMode: (chatMode: ChatMode) => {
+        setApprovePlan: (approvePlan: boolean) => {
+            const existingConfig = JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}');
+            localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...existingConfig, approvePlan }));
+            set(state => {
+                state.approvePlan = approvePlan;
+            });
+        },
+
+        setChatMode: (chatMode: ChatModeId) => {
             localStorage.setItem(CONFIG_KEY, JSON.stringify({ chatMode }));
             set(state => {
                 state.chatMode = chatMode;
@@ -932,6 +947,7 @@ if (typeof window !== 'undefined') {
             currentThreadId,
             chatMode,
             useWebSearch,
+            approvePlan,
             showSuggestions,
             customInstructions,
         }) => {
@@ -941,6 +957,7 @@ if (typeof window !== 'undefined') {
                 currentThread: threads.find(t => t.id === currentThreadId) || threads?.[0],
                 chatMode,
                 useWebSearch,
+                approvePlan,
                 showSuggestions,
                 customInstructions,
             });
@@ -2,3 +2,4 @@ export * from './api-keys.store';
 export * from './app.store';
 export * from './chat.store';
 export * from './mcp-tools.store';
+export * from './providers.store';
@@ -0,0 +1,67 @@
+'use client';
+
+import {
+    PublicProviderConfig,
+    ProviderConfig,
+    registerProviderChatModes,
+    removeProviderChatModes,
+    validateProviderConfig,
+} from '@repo/shared/config';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+type ProvidersState = {
+    // Endpoints added in settings, called from the browser worker like the user's own API keys
+    providers: ProviderConfig[];
+    // Providers configured on the server with AI_PROVIDERS, without their keys
+    serverProviders: PublicProviderConfig[];
+    addProvider: (provider: ProviderConfig) => void;
+    removeProvider: (id: string) => void;
+    loadServerProviders: () => Promise<void>;
+    isLocalProvider: (id: string) => boolean;
+};
+
+export const useProvidersStore = create<ProvidersState>()(
+    persist(
+        (set, get) => ({
+            providers: [],
+            serverProviders: [],
+            addProvider: provider => {
+                validateProviderConfig(provider);
+                registerProviderChatModes([provider]);
+                set(state => ({
+                    providers: [...state.providers.filter(p => p.id !== provider.id), provider],
+                }));
+            },
+            removeProvider: id => {
+                removeProviderChatModes(id);
+                // A server provider with the same id stays selectable
+                registerProviderChatModes(get().serverProviders.filter(p => p.id === id));
+                set(state => ({ providers: state.providers.filter(p => p.id !== id) }));
+            },
+            loadServerProviders: async () => {
+                try {
+                    const response = await fetch('/api/providers');
+                    if (!response.ok) return;
+                    const { providers } = (await response.json()) as {
+                        providers: PublicProviderConfig[];
+                    };
+                    // Registered first, so the user's own endpoints win on the same id
+                    registerProviderChatModes(providers);
+                    registerProviderChatModes(get().providers);
+                    set({ serverProviders: providers });
+                } catch (error) {
+                    console.error('Failed to load providers:', error);
+                }
+            },
+            isLocalProvider: id => get().providers.some(provider => provider.id === id),
+        }),
+        {
+            name: 'providers-storage',
+            partialize: state => ({ providers: state.providers }),
+            onRehydrateStorage: () => state => {
+                registerProviderChatModes(state?.providers ?? []);
+            },
+        }
+    )
+);
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import { BudgetExceeded, BudgetExceededError, WorkflowBudget } from './budget';
+import { WorkflowBuilder } from './builder';
+import { createTask } from './task';
+
+// search loops on itself until the budget stops it, write is the best-effort answer
+const runResearch = async (budget: WorkflowBudget, { tokensPerSearch = 0 } = {}) => {
+    const executed: string[] = [];
+    const exceeded: BudgetExceeded[] = [];
+    const workflow = new WorkflowBuilder('run-1', { config: { budget } })
+        .addTasks([
+            createTask({
+                name: 'search',
+                execute: async ({ recordUsage }) => {
+                    executed.push('search');
+                    if (tokensPerSearch) {
+                        recordUsage({
+                            model: 'test-model',
+                            promptTokens: tokensPerSearch,
+                            completionTokens: 0,
+                        });
+                    }
+                },
+                route: () => 'search',
+            }),
+            createTask({
+                name: 'write',
+                execute: async () => {
+                    executed.push('write');
+                },
+                route: () => 'end',
+            }),
+        ])
+        .build();
+    workflow.onBudgetExceeded(event => exceeded.push(event));
+
+    await workflow.start('search');
+    return { executed, exceeded };
+};
+
+describe('workflow budgets', () => {
+    test('routes to onExceeded instead of the task once its budget ran out', async () => {
+        const { executed, exceeded } = await runResearch({
+            maxTaskExecutions: 3,
+            onExceeded: 'write',
+        });
+
+        expect(executed).toEqual(['search', 'search', 'search', 'write']);
+        expect(exceeded).toEqual([
+            { kind: 'taskExecutions', taskName: 'search', limit: 3, value: 3 },
+        ]);
+    });
+
+    test('picks the route with an onExceeded function', async () => {
+        const { executed } = await runResearch({
+            maxTotalExecutions: 2,
+            onExceeded: ({ kind }) => (kind === 'totalExecutions' ? 'end' : 'write'),
+        });
+
+        expect(executed).toEqual(['search', 'search']);
+    });
+
+    test('stops on recorded tokens', async () => {
+        const { executed, exceeded } = await runResearch(
+            { maxTokens: 250, onExceeded: 'write' },
+            { tokensPerSearch: 100 }
+        );
+
+        expect(executed).toEqual(['search', 'search', 'search', 'write']);
+        expect(exceeded[0]).toMatchObject({ kind: 'tokens', value: 300 });
+    });
+
+    test('checks the budget again before the tasks of the onExceeded route', async () => {
+        const { executed, exceeded } = await runResearch({
+            maxTotalExecutions: 2,
+            onExceeded: 'write',
+        });
+
+        // Still over budget before write, which runs as the route leads to itself
+        expect(executed).toEqual(['search', 'search', 'write']);
+        expect(exceeded.map(event => event.taskName)).toEqual(['search', 'write']);
+    });
+
+    test('runs the task anyway when onExceeded routes to it', async () => {
+        const { executed } = await runResearch({
+            maxTaskExecutions: 1,
+            onExceeded: ({ value }) => (value < 3 ? 'search' : 'end'),
+        });
+
+        expect(executed).toEqual(['search', 'search', 'search']);
+    });
+
+    test('throws a BudgetExceededError without onExceeded', async () => {
+        const running = runResearch({ maxTaskExecutions: 2 });
+
+        await expect(running).rejects.toBeInstanceOf(BudgetExceededError);
+        await expect(running).rejects.toThrow(
+            'Budget exceeded before task "search": taskExecutions reached 2 (limit 2)'
+        );
+    });
+});
@@ -0,0 +1,78 @@
+import { TaskRoutes } from './middleware';
+import { UsageSummary } from './types';
+
+export type BudgetKind = 'taskExecutions' | 'totalExecutions' | 'wallTime' | 'tokens';
+
+export type BudgetExceeded = {
+    kind: BudgetKind;
+    // The task that was about to run when the budget ran out
+    taskName: string;
+    limit: number;
+    value: number;
+};
+
+/**
+ * Limits checked before every task starts. A running task is never interrupted, so a
+ * task may overshoot `maxWallTimeMs` or `maxTokens`; `timeoutMs` stays the hard deadline.
+ */
+export type WorkflowBudget = {
+    // Completed runs of a single task
+    maxTaskExecutions?: number;
+    // Completed runs of all tasks together
+    maxTotalExecutions?: number;
+    // Since the engine's first run, so time spent suspended in storage isn't counted
+    maxWallTimeMs?: number;
+    // Prompt and completion tokens recorded through `recordUsage`
+    maxTokens?: number;
+    // Where the run goes instead of the task, e.g. 'writer' for a best-effort answer. The
+    // budget is checked again before the tasks of that route, routing to the task itself
+    // runs it anyway. Without it a BudgetExceededError is thrown
+    onExceeded?: TaskRoutes | ((exceeded: BudgetExceeded) => TaskRoutes);
+};
+
+export class BudgetExceededError extends Error {
+    exceeded: BudgetExceeded;
+
+    constructor(exceeded: BudgetExceeded) {
+        super(
+            `Budget exceeded before task "${exceeded.taskName}": ${exceeded.kind} reached ${exceeded.value} (limit ${exceeded.limit})`
+        );
+        this.name = 'BudgetExceededError';
+        this.exceeded = exceeded;
+    }
+}
+
+// The first budget that ran out, in the order they are declared in WorkflowBudget
+export const checkBudget = (
+    budget: WorkflowBudget,
+    {
+        taskName,
+        taskExecutions,
+        totalExecutions,
+        elapsedMs,
+        usage,
+    }: {
+        taskName: string;
+        taskExecutions: number;
+        totalExecutions: number;
+        elapsedMs: number;
+        usage: UsageSummary;
+    }
+): BudgetExceeded | undefined => {
+    const checks: Array<[BudgetKind, number | undefined, number]> = [
+        ['taskExecutions', budget.maxTaskExecutions, taskExecutions],
+        ['totalExecutions', budget.maxTotalExecutions, totalExecutions],
+        ['wallTime', budget.maxWallTimeMs, elapsedMs],
+        ['tokens', budget.maxTokens, usage.total.totalTokens],
+    ];
+
+    const exceeded = checks.find(([, limit, value]) => limit !== undefined && value >= limit);
+    return (
+        exceeded && {
+            kind: exceeded[0],
+            taskName,
+            limit: exceeded[1] as number,
+            value: exceeded[2],
+        }
+    );
+};
@@ -1,21 +1,35 @@
-import { LangfuseTraceClient } from 'langfuse';
 import { Context, ContextSchemaDefinition } from './context';
 import { WorkflowEngine } from './engine';
 import { EventSchemaDefinition, TypedEventEmitter } from './events';
+import {
+    buildWorkflowGraph,
+    exportWorkflowGraph,
+    WorkflowGraph,
+    WorkflowGraphFormat,
+} from './graph';
+import { WorkflowMiddleware } from './middleware';
+import { WorkflowMigration } from './migrations';
 import { PersistenceLayer } from './persistence';
+import { Tracer } from './tracer';
 import { TaskDefinition, WorkflowConfig } from './types';
+import { validateWorkflow, WorkflowValidationError, WorkflowValidationReport } from './validation';
 
 export type WorkflowBuilderOptions<
     TEvent extends EventSchemaDefinition = any,
     TContext extends ContextSchemaDefinition = any,
 > = {
-    trace?: LangfuseTraceClient;
+    tracer?: Tracer;
     initialEventState?: Record<string, any>;
     events?: TypedEventEmitter<TEvent>;
     context?: Context<TContext>;
     config?: WorkflowConfig;
     signal?: AbortSignal;
     persistence?: PersistenceLayer<TEvent, TContext>;
+    initialTask?: string;
+    middleware?: WorkflowMiddleware<TEvent, TContext>[];
+    // Version of the task graph and state shape, stored with every snapshot
+    version?: number;
+    migrations?: WorkflowMigration[];
 };
 
 export class WorkflowBuilder<
@@ -23,6 +37,7 @@ export class WorkflowBuilder<
     TContext extends ContextSchemaDefinition = any,
 > {
     private tasks: TaskDefinition<TEvent, TContext>[] = [];
+    private middleware: WorkflowMiddleware<TEvent, TContext>[] = [];
     private options: WorkflowBuilderOptions<TEvent, TContext>;
     private workflowInstance?: WorkflowEngine<TEvent, TContext>;
     private workflowId: string;
@@ -41,16 +56,42 @@ export class WorkflowBuilder<
         return this;
     }
 
-    build(): WorkflowEngine<TEvent, TContext> {
+    /**
+     * Register middleware that runs around every task, see WorkflowMiddleware.
+     */
+    use(middleware: WorkflowMiddleware<TEvent, TContext>): WorkflowBuilder<TEvent, TContext> {
+        this.middleware.push(middleware);
+        return this;
+    }
+
+    validate(initialTask = this.options.initialTask): WorkflowValidationReport {
+        return validateWorkflow(this.tasks, initialTask);
+    }
+
+    // `signal` replaces the one in the options, e.g. the task signal of a parent workflow
+    build({ signal = this.options.signal }: { signal?: AbortSignal } = {}): WorkflowEngine<
+        TEvent,
+        TContext
+    > {
+        const report = this.validate();
+        if (!report.valid) {
+            throw new WorkflowValidationError(report);
+        }
+        report.warnings.forEach(warning => console.warn(`⚠️ ${warning.message}`));
+
         this.workflowInstance = new WorkflowEngine<TEvent, TContext>({
             id: this.workflowId,
-            trace: this.options.trace,
+            tracer: this.options.tracer,
             initialEventState: this.options.initialEventState,
             events: this.options.events,
             context: this.options.context,
             config: this.options.config,
-            signal: this.options.signal,
+            signal,
             persistence: this.options.persistence,
+            initialTask: this.options.initialTask,
+            middleware: [...(this.options.middleware || []), ...this.middleware],
+            version: this.options.version,
+            migrations: this.options.migrations,
         });
 
         for (const taskDef of this.tasks) {
@@ -58,17 +99,31 @@ export class WorkflowBuilder<
                 name: taskDef.name,
                 execute: taskDef.execute,
                 route: taskDef.route,
+                next: taskDef.next,
                 dependencies: taskDef.dependencies,
                 retryCount: taskDef.retryCount,
+                retry: taskDef.retry,
                 timeoutMs: taskDef.timeoutMs,
                 onError: taskDef.onError,
-                signal: this.options.signal,
+                signal,
             });
         }
 
         return this.workflowInstance;
     }
 
+    getInitialTask(): string | undefined {
+        return this.options.initialTask;
+    }
+
+    getGraph(): WorkflowGraph {
+        return buildWorkflowGraph(this.tasks, this.options.initialTask);
+    }
+
+    exportGraph(format: WorkflowGraphFormat): string {
+        return exportWorkflowGraph(this.getGraph(), format, this.workflowId);
+    }
+
     async start(initialTask: string, initialData?: any) {
         if (!this.workflowInstance) {
             this.workflowInstance = this.build();
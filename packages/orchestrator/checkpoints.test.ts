@@ -0,0 +1,203 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { CheckpointOptions, diffState } from './checkpoints';
+import { Context } from './context';
+import { PersistenceLayer } from './persistence';
+import { MemoryStorageAdapter } from './storage';
+import { createTask } from './task';
+
+type TestContext = { tone: string; sources: string[]; report?: string; total?: bigint };
+
+// plan → search → write, each task leaves a trace in the context
+const createWorkflow = (
+    checkpoints: CheckpointOptions | undefined,
+    { tone = 'casual', ran = [] as string[], unserializable = false } = {}
+) =>
+    new WorkflowBuilder<any, TestContext>('run-1', {
+        context: new Context<TestContext>({ tone, sources: [] }),
+        config: { checkpoints },
+    })
+        .addTasks([
+            createTask<any, TestContext>({
+                name: 'plan',
+                execute: async () => {
+                    ran.push('plan');
+                    return 'bun runtime';
+                },
+                route: () => 'search',
+            }),
+            createTask<any, TestContext>({
+                name: 'search',
+                execute: async ({ data, context }) => {
+                    ran.push('search');
+                    context?.update('sources', (sources = []) => [...sources, `${data} docs`]);
+                    // JSON can't hold a BigInt, so no checkpoint can be taken after this task
+                    if (unserializable) context?.set('total', BigInt(1));
+                    return `results for ${data}`;
+                },
+                route: () => 'write',
+            }),
+            createTask<any, TestContext>({
+                name: 'write',
+                execute: async ({ data, context }) => {
+                    ran.push('write');
+                    const sources = context?.get('sources')?.join(', ');
+                    const report = `${context?.get('tone')} report on ${data} from ${sources}`;
+                    context?.set('report', report);
+                    return report;
+                },
+                route: () => 'end',
+            }),
+        ])
+        .build();
+
+describe('checkpoints', () => {
+    test('are off unless enabled', async () => {
+        const workflow = createWorkflow(undefined);
+        const emitted: unknown[] = [];
+        workflow.onCheckpoint(checkpoint => emitted.push(checkpoint));
+
+        await workflow.start('plan');
+
+        expect(workflow.getCheckpoints()).toEqual([]);
+        expect(emitted).toEqual([]);
+    });
+
+    test('are taken after every task with where it routed to', async () => {
+        const workflow = createWorkflow({ enabled: true });
+        const emitted: string[] = [];
+        workflow.onCheckpoint(checkpoint => emitted.push(checkpoint.id));
+
+        await workflow.start('plan');
+
+        const checkpoints = workflow.getCheckpoints();
+        expect(checkpoints.map(({ taskName, next }) => [taskName, next])).toEqual([
+            ['plan', ['search']],
+            ['search', ['write']],
+            ['write', []],
+        ]);
+        expect(emitted).toEqual(checkpoints.map(checkpoint => checkpoint.id));
+        expect(workflow.getCheckpoint(checkpoints[1].id)).toBe(checkpoints[1]);
+        expect(Object.isFrozen(checkpoints[1].snapshot.contextState)).toBe(true);
+    });
+
+    test('keep only the latest `max`', async () => {
+        const workflow = createWorkflow({ enabled: true, max: 2 });
+
+        await workflow.start('plan');
+
+        expect(workflow.getCheckpoints().map(checkpoint => checkpoint.taskName)).toEqual([
+            'search',
+            'write',
+        ]);
+    });
+
+    test('skip a state that cannot be serialized without failing the task', async () => {
+        const ran: string[] = [];
+        const workflow = createWorkflow({ enabled: true }, { ran, unserializable: true });
+
+        await workflow.start('plan');
+
+        expect(ran).toEqual(['plan', 'search', 'write']);
+        expect(workflow.getCheckpoints().map(checkpoint => checkpoint.taskName)).toEqual(['plan']);
+    });
+});
+
+describe('forking from a checkpoint', () => {
+    test("continues from the checkpoint's state rather than the live run's", async () => {
+        const original = createWorkflow({ enabled: true });
+        await original.start('plan');
+        const afterSearch = original.getCheckpoints()[1];
+
+        // Changes to the live run after the checkpoint must not reach the fork
+        original.getContext()?.set('sources', ['changed after the checkpoint']);
+
+        const ran: string[] = [];
+        const fork = createWorkflow(undefined, { tone: 'ignored', ran });
+        await fork.forkFrom(afterSearch);
+
+        expect(ran).toEqual(['write']);
+        expect(fork.getContext()?.get('report')).toBe(
+            'casual report on results for bun runtime from bun runtime docs'
+        );
+        expect(original.getContext()?.get('sources')).toEqual(['changed after the checkpoint']);
+    });
+
+    test('runs the chosen task with overridden context and data', async () => {
+        const original = createWorkflow({ enabled: true });
+        await original.start('plan');
+        const afterSearch = original.getCheckpoints()[1];
+
+        const ran: string[] = [];
+        const fork = createWorkflow(undefined, { ran });
+        await fork.forkFrom(afterSearch, {
+            task: 'write',
+            data: 'other results',
+            context: { tone: 'formal' },
+        });
+
+        expect(ran).toEqual(['write']);
+        expect(fork.getContext()?.get('report')).toBe(
+            'formal report on other results from bun runtime docs'
+        );
+        // The checkpoint itself is left as it was
+        expect(afterSearch.snapshot.contextState.tone).toBe('casual');
+    });
+});
+
+describe('saved checkpoints', () => {
+    test('are listed oldest first, loaded by id and deleted per run', async () => {
+        const persistence = new PersistenceLayer<any, TestContext>(new MemoryStorageAdapter());
+        const workflow = createWorkflow({ enabled: true });
+        await workflow.start('plan');
+        const checkpoints = workflow.getCheckpoints();
+        for (const checkpoint of [...checkpoints].reverse()) {
+            await persistence.saveCheckpoint(checkpoint);
+        }
+
+        const listed = await persistence.listCheckpoints('run-1');
+
+        expect(listed.map(checkpoint => checkpoint.taskName)).toEqual(['plan', 'search', 'write']);
+        expect(await persistence.loadCheckpoint('run-1', checkpoints[1].id)).toEqual(
+            checkpoints[1]
+        );
+        expect(await persistence.listCheckpoints('run-2')).toEqual([]);
+
+        await persistence.deleteCheckpoints('run-1');
+        expect(await persistence.listCheckpoints('run-1')).toEqual([]);
+    });
+});
+
+describe('diffState', () => {
+    test('lists added, removed and changed paths, nested objects key by key', () => {
+        const before = { tone: 'casual', sources: ['a'], draft: 'v1', meta: { model: 'mini' } };
+        const after = { tone: 'casual', sources: ['a', 'b'], report: 'r', meta: { model: 'pro' } };
+
+        expect(diffState(before, after)).toEqual([
+            { path: 'sources', type: 'changed', before: ['a'], after: ['a', 'b'] },
+            { path: 'draft', type: 'removed', before: 'v1' },
+            { path: 'meta.model', type: 'changed', before: 'mini', after: 'pro' },
+            { path: 'report', type: 'added', after: 'r' },
+        ]);
+    });
+
+    test('is empty for equal states', () => {
+        expect(diffState({ sources: ['a'], meta: {} }, { sources: ['a'], meta: {} })).toEqual([]);
+    });
+
+    test('diffs the context of two checkpoints', async () => {
+        const workflow = createWorkflow({ enabled: true });
+        await workflow.start('plan');
+        const [, afterSearch, afterWrite] = workflow.getCheckpoints();
+
+        expect(
+            diffState(afterSearch.snapshot.contextState, afterWrite.snapshot.contextState)
+        ).toEqual([
+            {
+                path: 'report',
+                type: 'added',
+                after: 'casual report on results for bun runtime from bun runtime docs',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,76 @@
+import { WorkflowPersistenceData } from './persistence';
+
+export type WorkflowCheckpoint = {
+    id: string;
+    workflowId: string;
+    // The task that had just completed when the checkpoint was taken
+    taskName: string;
+    // Where that task routed to, which is where a fork continues by default
+    next: string[];
+    createdAt: string;
+    // Order within the engine that took it, as several checkpoints can share a millisecond
+    sequence?: number;
+    snapshot: WorkflowPersistenceData<any, any>;
+};
+
+export type CheckpointOptions = {
+    // Off by default, each checkpoint copies the whole run state
+    enabled?: boolean;
+    // Checkpoints kept in memory per run, the oldest are dropped first
+    max?: number;
+};
+
+export type ForkOptions<TContext = any> = {
+    // Merged over the checkpoint's context, e.g. a different prompt or model
+    context?: Partial<TContext>;
+    // Run this task instead of the routes pending at the checkpoint
+    task?: string;
+    // Data for `task`
+    data?: any;
+};
+
+export type StateDiffEntry = {
+    path: string;
+    type: 'added' | 'removed' | 'changed';
+    before?: any;
+    after?: any;
+};
+
+export const DEFAULT_MAX_CHECKPOINTS = 20;
+
+export const deepFreeze = <T>(value: T): T => {
+    if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+        Object.freeze(value);
+        Object.values(value).forEach(deepFreeze);
+    }
+    return value;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Compare two serialized states, e.g. the context of two checkpoints. Objects are
+ * compared key by key, arrays and other values as a whole.
+ */
+export const diffState = (before: any, after: any, path: string = ''): StateDiffEntry[] => {
+    if (isObject(before) && isObject(after)) {
+        const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+        const entries: StateDiffEntry[] = [];
+        keys.forEach(key => {
+            const keyPath = path ? `${path}.${key}` : key;
+            if (!(key in before)) {
+                entries.push({ path: keyPath, type: 'added', after: after[key] });
+            } else if (!(key in after)) {
+                entries.push({ path: keyPath, type: 'removed', before: before[key] });
+            } else {
+                entries.push(...diffState(before[key], after[key], keyPath));
+            }
+        });
+        return entries;
+    }
+
+    return JSON.stringify(before) === JSON.stringify(after)
+        ? []
+        : [{ path, type: 'changed', before, after }];
+};
@@ -1,14 +1,21 @@
+import { deserializeState, getSchemaDefaults, parseField, serializeState, StateSchema } from './schema';
+
 export type ContextSchemaDefinition = Record<string, any>;
 
+export type ContextOptions = {
+  // Validates every write, fields with a default start with it
+  schema?: StateSchema;
+};
+
 export class Context<T extends ContextSchemaDefinition> {
   private state: { [K in keyof T]?: T[K] } = {};
+  private schema?: StateSchema;
 
-  constructor(initialState?: Partial<{ [K in keyof T]: T[K] }>) {
-    if (initialState) {
-      Object.entries(initialState).forEach(([key, value]) => {
-        this.state[key as keyof T] = value;
-      });
-    }
+  constructor(initialState?: Partial<{ [K in keyof T]: T[K] }>, { schema }: ContextOptions = {}) {
+    this.schema = schema;
+    Object.entries({ ...getSchemaDefaults(schema), ...initialState }).forEach(([key, value]) => {
+      this.set(key as keyof T, value);
+    });
   }
 
   get<K extends keyof T>(key: K): T[K] | undefined {
@@ -19,8 +26,9 @@ export class Context<T extends ContextSchemaDefinition> {
     return { ...this.state };
   }
 
+  // Throws a SchemaValidationError when the value doesn't match the schema
   set<K extends keyof T>(key: K, value: T[K]): void {
-    this.state[key] = value;
+    this.state[key] = parseField(this.schema, 'context', key as string, value);
   }
 
   update<K extends keyof T>(
@@ -37,10 +45,20 @@ export class Context<T extends ContextSchemaDefinition> {
       this.set(key as keyof T, value);
     });
   }
+
+  // JSON-safe snapshot for persistence, functions like callbacks are left out
+  serialize(): Record<string, any> {
+    return serializeState(this.state);
+  }
+
+  restore(serialized: Record<string, any>): void {
+    this.merge(deserializeState(serialized));
+  }
 }
 
 export function createContext<T extends ContextSchemaDefinition>(
-  initialState?: Partial<{ [K in keyof T]: T[K] }>
+  initialState?: Partial<{ [K in keyof T]: T[K] }>,
+  options?: ContextOptions
 ) {
-  return new Context<T>(initialState);
-} 
\ No newline at end of file
+  return new Context<T>(initialState, options);
+}
@@ -1,15 +1,59 @@
 import { EventEmitter } from 'events';
-import { LangfuseTraceClient } from 'langfuse';
+import { BudgetExceeded, BudgetExceededError, checkBudget, WorkflowBudget } from './budget';
+import {
+    DEFAULT_MAX_CHECKPOINTS,
+    deepFreeze,
+    ForkOptions,
+    WorkflowCheckpoint,
+} from './checkpoints';
 import { Context, ContextSchemaDefinition } from './context';
-import { EventSchemaDefinition, TypedEventEmitter } from './events';
+import {
+    EventRecord,
+    EventSchemaDefinition,
+    EventSubscribeOptions,
+    TypedEventEmitter,
+} from './events';
 import { ExecutionContext } from './execution-context';
-import { PersistenceLayer } from './persistence';
 import {
+    buildWorkflowGraph,
+    exportWorkflowGraph,
+    WorkflowGraph,
+    WorkflowGraphFormat,
+} from './graph';
+import { WorkflowSuspendedError } from './input';
+import {
+    MiddlewarePipeline,
+    TaskHookContext,
+    WorkflowEndStatus,
+    WorkflowMiddleware,
+} from './middleware';
+import {
+    DEFAULT_WORKFLOW_VERSION,
+    WorkflowMigration,
+    WorkflowMigrationRegistry,
+} from './migrations';
+import {
+    createWorkflowSnapshot,
+    PersistenceLayer,
+    restoreWorkflowSnapshot,
+    WorkflowPersistenceData,
+} from './persistence';
+import { getRetryDelay, ResolvedRetryPolicy, resolveRetryPolicy, waitForRetry } from './retry';
+import { DerivedSignal, deriveSignal, raceSignal } from './signal';
+import { noopTracer, Span, SpanAttributeKeys, SpanOptions, Tracer } from './tracer';
+import {
+    AwaitedInput,
+    AwaitInput,
     EventPayload,
+    InputSchema,
     ParallelTaskRoute,
+    PendingTask,
     TaskConfig,
     TaskOptions,
     TaskParams,
+    TaskRetryEvent,
+    UsageRecord,
+    UsageSummary,
     WorkflowConfig,
 } from './types';
 
@@ -21,47 +65,90 @@ export class WorkflowEngine<
     private tasks: Map<string, TaskConfig<TEvent, TContext>>;
     private eventEmitter: EventEmitter;
     private executionContext: ExecutionContext;
-    private trace?: LangfuseTraceClient;
+    private tracer: Tracer;
+    // Parent of the task spans, open while a run is active
+    private workflowSpan?: Span;
     private events?: TypedEventEmitter<TEvent>;
     private context?: Context<TContext>;
     private config?: WorkflowConfig;
     private persistence?: PersistenceLayer<TEvent, TContext>;
     private signal?: AbortSignal;
+    private initialTask?: string;
+    // The workflow signal combined with the run deadline from config.timeoutMs
+    private runSignal?: DerivedSignal;
+    private activeRuns: number = 0;
+    private middleware: MiddlewarePipeline<TEvent, TContext>;
+    private checkpoints: WorkflowCheckpoint[] = [];
+    private version: number;
+    private migrations: WorkflowMigrationRegistry;
+    private checkpointSequence: number = 0;
+    // When the first run started, for the wall time budget
+    private startedAt?: number;
 
     constructor({
         id,
-        trace,
+        tracer = noopTracer,
         initialEventState,
         events,
         context,
         config,
         signal,
         persistence,
+        initialTask,
+        middleware,
+        version = DEFAULT_WORKFLOW_VERSION,
+        migrations,
     }: {
         id: string;
-        trace?: LangfuseTraceClient;
+        tracer?: Tracer;
         initialEventState?: EventPayload;
         events?: TypedEventEmitter<TEvent>;
         context?: Context<TContext>;
         config?: WorkflowConfig;
         signal?: AbortSignal;
         persistence?: PersistenceLayer<TEvent, TContext>;
+        initialTask?: string;
+        middleware?: WorkflowMiddleware<TEvent, TContext>[];
+        version?: number;
+        // Upgrade snapshots saved by older versions before they are restored
+        migrations?: WorkflowMigration[];
     }) {
         this.id = id;
         this.tasks = new Map();
         this.eventEmitter = new EventEmitter();
         this.executionContext = new ExecutionContext(this.eventEmitter);
-        this.trace = trace;
+        this.tracer = tracer;
         this.events = events;
         this.context = context;
         this.config = config;
         this.signal = signal;
         this.persistence = persistence;
+        this.initialTask = initialTask;
+        this.middleware = new MiddlewarePipeline(middleware);
+        this.version = version;
+        this.migrations = new WorkflowMigrationRegistry(migrations);
+    }
+
+    getVersion(): number {
+        return this.version;
+    }
+
+    // Brings a snapshot saved by an older version of this workflow up to date
+    migrateSnapshot(data: WorkflowPersistenceData<TEvent, TContext>) {
+        return this.migrations.migrate(data, this.version);
     }
 
+    use(middleware: WorkflowMiddleware<TEvent, TContext>) {
+        this.middleware.use(middleware);
+        return this;
+    }
+
+    // Saves without blocking the caller, a failed save is logged rather than thrown
     persistState() {
         if (this.persistence) {
-            this.persistence.saveWorkflow(this.id, this);
+            this.persistence.saveWorkflow(this.id, this).catch(error => {
+                console.error(`❌ Failed to save workflow "${this.id}":`, error);
+            });
         }
     }
 
@@ -69,8 +156,45 @@ export class WorkflowEngine<
         this.events?.on(event, callback);
     }
 
-    onAll(callback: (event: keyof TEvent, data: any) => void) {
-        this.events?.onAll(callback);
+    onAll(
+        callback: (event: keyof TEvent, data: any, record: EventRecord<TEvent>) => void
+    ): () => void {
+        return this.events?.onAll(callback) ?? (() => {});
+    }
+
+    subscribe(
+        callback: (record: EventRecord<TEvent>) => void,
+        options?: EventSubscribeOptions<TEvent>
+    ): () => void {
+        return this.events?.subscribe(callback, options) ?? (() => {});
+    }
+
+    onTaskExecution(callback: (execution: { taskName: string; count: number }) => void) {
+        this.eventEmitter.on('taskExecution', callback);
+    }
+
+    onTaskRetry(callback: (retry: TaskRetryEvent) => void) {
+        this.eventEmitter.on('taskRetry', callback);
+    }
+
+    onUsage(callback: (usage: UsageRecord) => void) {
+        this.eventEmitter.on('usage', callback);
+    }
+
+    onCheckpoint(callback: (checkpoint: WorkflowCheckpoint) => void) {
+        this.eventEmitter.on('checkpoint', callback);
+    }
+
+    onBudgetExceeded(callback: (exceeded: BudgetExceeded) => void) {
+        this.eventEmitter.on('budgetExceeded', callback);
+    }
+
+    onInputRequested(callback: (input: AwaitedInput) => void) {
+        this.eventEmitter.on('inputRequested', callback);
+    }
+
+    onInputReceived(callback: (input: AwaitedInput & { value: any }) => void) {
+        this.eventEmitter.on('inputReceived', callback);
     }
 
     addTask(name: string, config: TaskConfig<TEvent, TContext>) {
@@ -85,33 +209,453 @@ export class WorkflowEngine<
                 this.context.merge(initialData);
             }
         }
-        await this.executeTask(initialTask, initialData);
+        this.initialTask = initialTask;
+        const routeId = this.executionContext.queueTask(initialTask, initialData);
+        await this.run(() => this.executeTask(initialTask, initialData, routeId));
     }
 
+    /**
+     * Continue a restored workflow from its pending routes.
+     * Tasks that were running when the snapshot was taken are executed again.
+     */
+    async resume() {
+        const pendingTasks = this.getResumableTasks();
+        if (pendingTasks.length === 0) {
+            console.log(`🏁 Workflow "${this.id}" has nothing left to resume.`);
+            return;
+        }
+
+        this.executionContext.setState(state => ({
+            ...state,
+            runningTasks: new Set(),
+        }));
+        console.log(
+            `🔁 Resuming workflow "${this.id}" from: ${pendingTasks.map(p => p.task).join(', ')}`
+        );
+
+        await this.run(() =>
+            Promise.all(
+                pendingTasks.map(pending =>
+                    this.executeTask(pending.task, pending.data, pending.id)
+                )
+            )
+        );
+    }
+
+    isResumable(): boolean {
+        return this.getResumableTasks().length > 0;
+    }
+
+    // Tasks suspended on `awaitInput` are left out, they continue through provideInput
+    private getResumableTasks(): PendingTask[] {
+        const awaitedRoutes = new Set(
+            this.executionContext.getAwaitedInputs().map(input => input.routeId)
+        );
+        return this.executionContext
+            .getPendingTasks()
+            .filter(pending => !awaitedRoutes.has(pending.id));
+    }
+
+    /**
+     * Answer an `awaitInput` request and re-run the task that made it, which now
+     * receives the value. Resolves once the run ends or suspends again.
+     */
+    async provideInput(key: string, value: any) {
+        const awaited = this.executionContext.getAwaitedInput(key);
+        if (!awaited) {
+            throw new Error(`Workflow "${this.id}" is not waiting for input "${key}".`);
+        }
+
+        const pending = this.executionContext
+            .getPendingTasks()
+            .find(pending => pending.id === awaited.routeId);
+        this.executionContext.setInput(key, value);
+        console.log(`▶️ Resuming task "${awaited.task}" with input "${key}".`);
+
+        await this.run(() => this.executeTask(awaited.task, pending?.data, awaited.routeId));
+    }
+
+    /**
+     * Continue a run from one of its checkpoints, usually on a freshly built engine. Tasks
+     * completed before the checkpoint aren't run again, so e.g. only the writer re-runs
+     * with a different prompt. Without `task`, the routes pending at the checkpoint run.
+     */
+    async forkFrom(
+        checkpoint: WorkflowCheckpoint,
+        { context, task, data }: ForkOptions<TContext> = {}
+    ) {
+        restoreWorkflowSnapshot(this, this.migrateSnapshot(checkpoint.snapshot));
+        if (context) {
+            this.context?.merge(context);
+        }
+        console.log(
+            `🔀 Forking workflow "${this.id}" from checkpoint "${checkpoint.id}" after task "${checkpoint.taskName}".`
+        );
+
+        if (!task) {
+            await this.resume();
+            return;
+        }
+
+        this.executionContext.setState(state => ({
+            ...state,
+            runningTasks: new Set(),
+            pendingTasks: new Map(),
+        }));
+        const routeId = this.executionContext.queueTask(task, data);
+        await this.run(() => this.executeTask(task, data, routeId));
+    }
+
+    getCheckpoints(): WorkflowCheckpoint[] {
+        return [...this.checkpoints];
+    }
+
+    getCheckpoint(id: string): WorkflowCheckpoint | undefined {
+        return this.checkpoints.find(checkpoint => checkpoint.id === id);
+    }
+
+    // Called once a completed task's routes are queued, so forks continue from them
+    private recordCheckpoint(taskName: string, queued: PendingTask[]) {
+        const options = this.config?.checkpoints;
+        if (!options?.enabled) return;
+
+        // A JSON copy, so freezing it leaves the live state alone. The config holds
+        // signals and callbacks, a fork runs with its own
+        let snapshot: WorkflowCheckpoint['snapshot'];
+        try {
+            snapshot = JSON.parse(
+                JSON.stringify({ ...createWorkflowSnapshot(this.id, this), workflowConfig: {} })
+            );
+        } catch (error) {
+            // A checkpoint is a debugging aid, it never fails the task it follows
+            console.warn(`⚠️ Skipped the checkpoint after task "${taskName}":`, error);
+            return;
+        }
+
+        const sequence = ++this.checkpointSequence;
+        const checkpoint: WorkflowCheckpoint = deepFreeze({
+            id: `${Date.now().toString(36)}-${sequence}`,
+            workflowId: this.id,
+            taskName,
+            next: queued.map(pending => pending.task),
+            createdAt: new Date().toISOString(),
+            sequence,
+            snapshot,
+        });
+
+        this.checkpoints.push(checkpoint);
+        const max = options?.max ?? DEFAULT_MAX_CHECKPOINTS;
+        if (this.checkpoints.length > max) {
+            this.checkpoints.splice(0, this.checkpoints.length - max);
+        }
+        this.eventEmitter.emit('checkpoint', checkpoint);
+    }
+
+    isSuspended(): boolean {
+        return this.executionContext.getAwaitedInputs().length > 0;
+    }
+
+    getAwaitedInputs(): AwaitedInput[] {
+        return this.executionContext.getAwaitedInputs();
+    }
+
+    // Runs can overlap when input arrives while other branches are still going,
+    // so the deadline covers them all and is cleared when the last one settles
+    private async run<T>(execute: () => Promise<T>): Promise<T> {
+        if (this.activeRuns++ === 0) {
+            if (this.startedAt === undefined) {
+                this.startedAt = Date.now();
+            }
+            this.startDeadline();
+            this.workflowSpan = this.tracer.startSpan(this.id, {
+                kind: 'workflow',
+                attributes: { [SpanAttributeKeys.WORKFLOW_ID]: this.id },
+            });
+        }
+        let failure: unknown;
+        try {
+            return await execute();
+        } catch (error) {
+            failure = error;
+            throw error;
+        } finally {
+            if (--this.activeRuns === 0) {
+                this.runSignal?.dispose();
+                this.workflowSpan?.end({
+                    error: failure,
+                    attributes: { [SpanAttributeKeys.WORKFLOW_SUSPENDED]: this.isSuspended() },
+                });
+                this.workflowSpan = undefined;
+                await this.middleware.onEnd({
+                    workflowId: this.id,
+                    status: this.getEndStatus(failure),
+                    error: failure,
+                    executionContext: this.executionContext,
+                    events: this.events,
+                    context: this.context,
+                });
+            }
+        }
+    }
+
+    private getEndStatus(failure: unknown): WorkflowEndStatus {
+        if (this.isSuspended()) return 'suspended';
+        if (this.executionContext.isAborted()) return 'aborted';
+        return failure ? 'failed' : 'completed';
+    }
+
+    private startSpan(name: string, options: SpanOptions): Span {
+        return (this.workflowSpan ?? this.tracer).startSpan(name, options);
+    }
+
+    // Routes are instant spans under the task that took them
+    private traceRoute(span: Span, taskName: string, to: string[]) {
+        span.startSpan(`${taskName} → ${to.join(', ') || 'none'}`, {
+            kind: 'route',
+            attributes: {
+                [SpanAttributeKeys.ROUTE_FROM]: taskName,
+                [SpanAttributeKeys.ROUTE_TO]: to,
+            },
+        }).end();
+    }
+
+    private createAwaitInput(taskName: string, routeId?: string): AwaitInput {
+        return async <T = any>(key: string, schema?: InputSchema<T>, request?: any): Promise<T> => {
+            if (this.executionContext.hasInput(key)) {
+                const value = this.executionContext.getInput(key);
+                return schema ? schema.parse(value) : value;
+            }
+
+            this.executionContext.requestInput({
+                key,
+                task: taskName,
+                routeId,
+                request,
+                requestedAt: new Date().toISOString(),
+            });
+            throw new WorkflowSuspendedError(key);
+        };
+    }
+
+    private startDeadline() {
+        this.runSignal?.dispose();
+        const timeoutMs = this.config?.timeoutMs;
+        this.runSignal = deriveSignal({
+            signals: [this.signal, this.config?.signal],
+            timeoutMs,
+            timeoutMessage: `⏳ Workflow "${this.id}" exceeded its ${timeoutMs}ms deadline`,
+        });
+        this.runSignal.signal.addEventListener(
+            'abort',
+            () => {
+                if (this.runSignal?.signal.reason?.name === 'TimeoutError') {
+                    console.log(`⏳ Workflow "${this.id}" exceeded its ${timeoutMs}ms deadline.`);
+                    this.abort();
+                }
+            },
+            { once: true }
+        );
+    }
+
+    private getRunSignal(): AbortSignal | undefined {
+        return this.runSignal?.signal ?? this.signal ?? this.config?.signal;
+    }
+
+    /**
+     * Run a task with its own signal, aborted by the workflow signal, the run deadline
+     * or the task timeout. The task is rejected as soon as the signal aborts, and the
+     * signal lets it cancel in-flight LLM and HTTP calls instead of running on.
+     */
     async executeTaskWithTimeout(
         task: (params: TaskParams<TEvent, TContext>) => Promise<any>,
         data: any,
-        timeoutMs: number
+        timeoutMs?: number,
+        trace?: Span
     ) {
-        return Promise.race([
-            task({
-                data,
-                executionContext: this.executionContext,
-                abort: this.executionContext.abortWorkflow.bind(this.executionContext),
-                trace: this.trace,
-                events: this.events,
-                context: this.context,
-                config: this.config,
-                signal: this.signal,
-                redirectTo: () => {}, // This will be overridden by the actual function
-            }),
-            new Promise((_, reject) =>
-                setTimeout(() => reject(new Error('⏳ Task timeout exceeded')), timeoutMs)
-            ),
-        ]);
+        const taskSignal = deriveSignal({
+            signals: [this.getRunSignal()],
+            timeoutMs,
+            timeoutMessage: `⏳ Task timeout exceeded (${timeoutMs}ms)`,
+        });
+
+        try {
+            return await raceSignal(
+                task({
+                    data,
+                    executionContext: this.executionContext,
+                    abort: this.executionContext.abortWorkflow.bind(this.executionContext),
+                    trace,
+                    events: this.events,
+                    context: this.context,
+                    config: this.config,
+                    signal: taskSignal.signal,
+                    redirectTo: () => {}, // This will be overridden by the actual function
+                }),
+                taskSignal.signal
+            );
+        } finally {
+            taskSignal.dispose();
+        }
+    }
+
+    private normalizeRoutes(
+        nextTasks: string | string[] | ParallelTaskRoute[],
+        result: any
+    ): ParallelTaskRoute[] {
+        if (!Array.isArray(nextTasks)) {
+            return [{ task: nextTasks, data: result }];
+        }
+
+        return (nextTasks as Array<string | ParallelTaskRoute>).map(route =>
+            typeof route === 'object'
+                ? { task: route.task, data: route.data !== undefined ? route.data : result }
+                : { task: route, data: result }
+        );
+    }
+
+    /**
+     * Record the routing decision of a completed task so it survives a restart,
+     * then persist the snapshot before any of the next tasks start.
+     */
+    private async queueRoutes(
+        taskName: string,
+        routeId: string | undefined,
+        routes: ParallelTaskRoute[]
+    ): Promise<PendingTask[]> {
+        const declared = this.tasks.get(taskName)?.next;
+        routes
+            .filter(route => declared && !declared.includes(route.task as string))
+            .forEach(route =>
+                console.warn(
+                    `⚠️ Task "${taskName}" routed to "${String(route.task)}", which is not declared in its next destinations.`
+                )
+            );
+
+        const queued = routes.map(route => ({
+            id: this.executionContext.queueTask(route.task as string, route.data, taskName),
+            task: route.task as string,
+            data: route.data,
+            from: taskName,
+        }));
+        this.executionContext.settleTask(routeId);
+        if (this.persistence) {
+            await this.persistence.saveWorkflow(this.id, this);
+        }
+        return queued;
+    }
+
+    private async waitBeforeRetry(
+        taskName: string,
+        attempt: number,
+        policy: ResolvedRetryPolicy,
+        error: Error,
+        span: Span
+    ) {
+        const delayMs = getRetryDelay(policy, attempt);
+        const retrySpan = span.startSpan(`retry ${attempt}/${policy.maxRetries}`, {
+            kind: 'retry',
+            attributes: {
+                [SpanAttributeKeys.RETRY_ATTEMPT]: attempt,
+                [SpanAttributeKeys.RETRY_MAX_RETRIES]: policy.maxRetries,
+                [SpanAttributeKeys.RETRY_DELAY_MS]: delayMs,
+                [SpanAttributeKeys.ERROR_MESSAGE]: error?.message || String(error),
+            },
+        });
+        console.log(
+            `🔁 Retrying task "${taskName}" in ${delayMs}ms (${attempt}/${policy.maxRetries})`
+        );
+        this.executionContext.emitTaskRetryEvent({
+            taskName,
+            attempt,
+            maxRetries: policy.maxRetries,
+            delayMs,
+            error: error?.message || String(error),
+        });
+        try {
+            await waitForRetry(delayMs, this.getRunSignal());
+        } finally {
+            retrySpan.end();
+        }
+    }
+
+    private getBudget(): WorkflowBudget {
+        return this.config?.budget ?? {};
+    }
+
+    // Checked before every task, also those of the best-effort route once a budget ran out
+    private checkBudget(taskName: string): BudgetExceeded | undefined {
+        const runCounts = this.executionContext.getAllTaskRunCounts();
+        return checkBudget(this.getBudget(), {
+            taskName,
+            taskExecutions: runCounts[taskName] || 0,
+            totalExecutions: Object.values(runCounts).reduce((total, count) => total + count, 0),
+            elapsedMs: Date.now() - (this.startedAt ?? Date.now()),
+            usage: this.executionContext.getUsageSummary(),
+        });
     }
 
-    async executeTask(taskName: string, data?: any) {
+    /**
+     * Send the run to the budget's `onExceeded` route instead of the task. Returns false
+     * when the route is the task itself, which then runs as usual.
+     */
+    private async routeAroundBudget(
+        exceeded: BudgetExceeded,
+        data: any,
+        routeId?: string
+    ): Promise<boolean> {
+        const { taskName } = exceeded;
+        const onExceeded = this.getBudget().onExceeded;
+        this.eventEmitter.emit('budgetExceeded', exceeded);
+        console.log(
+            `⛔ Budget exceeded before task "${taskName}": ${exceeded.kind} reached ${exceeded.value} (limit ${exceeded.limit}).`
+        );
+
+        if (onExceeded === undefined) {
+            this.executionContext.settleTask(routeId);
+            throw new BudgetExceededError(exceeded);
+        }
+
+        const next = typeof onExceeded === 'function' ? onExceeded(exceeded) : onExceeded;
+        if (next === taskName) {
+            return false;
+        }
+
+        const span = this.startSpan(taskName, {
+            kind: 'task',
+            input: data,
+            attributes: {
+                [SpanAttributeKeys.TASK_NAME]: taskName,
+                [SpanAttributeKeys.BUDGET_EXCEEDED]: exceeded.kind,
+            },
+        });
+        if (next === 'end') {
+            console.log(`🏁 Workflow ended instead of task "${taskName}".`);
+            this.executionContext.recordRoute(taskName, 'end');
+            this.traceRoute(span, taskName, ['end']);
+            span.end();
+            await this.queueRoutes(taskName, routeId, []);
+            return true;
+        }
+
+        console.log(`🔀 Routing to ${JSON.stringify(next)} instead of task "${taskName}".`);
+        const queued = await this.queueRoutes(taskName, routeId, this.normalizeRoutes(next, data));
+        this.traceRoute(
+            span,
+            taskName,
+            queued.map(pending => pending.task)
+        );
+        span.end();
+        await this.executeRoutes(queued);
+        return true;
+    }
+
+    private async executeRoutes(queued: PendingTask[]) {
+        await Promise.all(
+            queued.map(pending => this.executeTask(pending.task, pending.data, pending.id))
+        );
+    }
+
+    async executeTask(taskName: string, data?: any, routeId?: string) {
         if (this.executionContext.isAborted() && !this.executionContext.isGracefulShutdown()) {
             console.log(`⚠️ Task "${taskName}" skipped due to workflow abortion.`);
             return;
@@ -125,8 +669,6 @@ export class WorkflowEngine<
                 new Error(`Task "${taskName}" not found.`)
             );
             throw new Error(`Task "${taskName}" not found.`);
-
-            return;
         }
 
         if (
@@ -136,6 +678,8 @@ export class WorkflowEngine<
             console.log(
                 `⏳ Task "${taskName}" is waiting for dependencies: ${config.dependencies.join(', ')}`
             );
+            // The last dependency to complete routes here again
+            this.executionContext.settleTask(routeId);
             return;
         }
 
@@ -145,6 +689,12 @@ export class WorkflowEngine<
         }
 
         if (this.executionContext.isTaskRunning(taskName)) {
+            this.executionContext.settleTask(routeId);
+            return;
+        }
+
+        const exceeded = this.checkBudget(taskName);
+        if (exceeded && (await this.routeAroundBudget(exceeded, data, routeId))) {
             return;
         }
 
@@ -155,35 +705,58 @@ export class WorkflowEngine<
         }));
         console.log(`🚀 Executing task "${taskName}" (Run #${executionCount + 1})`);
 
-        this.executionContext.startTaskTiming(taskName);
-
+        const retryPolicy = resolveRetryPolicy(config, this.config);
+        const awaitInput = this.createAwaitInput(taskName, routeId);
+        const recordUsage = this.executionContext.recordUsage.bind(this.executionContext, taskName);
+        const span = this.startSpan(taskName, {
+            kind: 'task',
+            input: data,
+            attributes: {
+                [SpanAttributeKeys.TASK_NAME]: taskName,
+                [SpanAttributeKeys.TASK_RUN]: executionCount + 1,
+            },
+        });
         let attempt = 0;
-        let taskRedirect: string | string[] | ParallelTaskRoute[] | undefined;
+        // Set once the task settled, its routes run outside the retry loop so errors
+        // of downstream tasks aren't taken for this task's
+        let outcome: { result: any; queued: PendingTask[] } | undefined;
 
-        while (attempt <= (config.retryCount || 0)) {
+        while (attempt <= retryPolicy.maxRetries) {
+            this.executionContext.startTaskTiming(taskName);
+            const startedAt = Date.now();
+            const hook: TaskHookContext<TEvent, TContext> = {
+                workflowId: this.id,
+                taskName,
+                data,
+                attempt: attempt + 1,
+                executionContext: this.executionContext,
+                events: this.events,
+                context: this.context,
+                config: this.config,
+                trace: span,
+                signal: this.getRunSignal(),
+            };
+            let taskRedirect: string | string[] | ParallelTaskRoute[] | undefined;
             try {
                 // Create a redirect callback function for the task
                 const redirectTo = (nextTask: string | string[] | ParallelTaskRoute[]) => {
                     taskRedirect = nextTask;
                 };
 
-                const taskResult = config.timeoutMs
-                    ? await this.executeTaskWithTimeout(
-                          params => config.execute({ ...params, redirectTo }),
-                          data,
-                          config.timeoutMs
-                      )
-                    : await config.execute({
+                const shortCircuit = await this.middleware.beforeTask(hook);
+                if (shortCircuit) {
+                    console.log(`⏭️ Task "${taskName}" was short-circuited by middleware.`);
+                }
+
+                const taskResult = shortCircuit
+                    ? { result: shortCircuit.result, next: shortCircuit.next }
+                    : await this.executeTaskWithTimeout(
+                          params =>
+                              config.execute({ ...params, redirectTo, awaitInput, recordUsage }),
                           data,
-                          executionContext: this.executionContext,
-                          abort: this.executionContext.abortWorkflow.bind(this.executionContext),
-                          trace: this.trace,
-                          events: this.events,
-                          context: this.context,
-                          config: this.config,
-                          signal: this.signal,
-                          redirectTo,
-                      });
+                          config.timeoutMs,
+                          span
+                      );
 
                 // Add this line to end timing for successful execution
                 this.executionContext.endTaskTiming(taskName);
@@ -202,22 +775,17 @@ export class WorkflowEngine<
                     directNextTasks = taskResult.next;
                 }
 
+                result = await this.middleware.afterTask({
+                    ...hook,
+                    result,
+                    durationMs: Date.now() - startedAt,
+                });
+
                 this.executionContext.markTaskComplete(taskName, result);
-                if (this.persistence) {
-                    await this.persistence.saveWorkflow(this.id, this);
-                }
                 // Emit an event with the updated execution count
                 const executionCount = this.executionContext.getTaskExecutionCount(taskName);
                 this.executionContext.emitTaskExecutionEvent(taskName, executionCount);
 
-                if (
-                    this.executionContext.isAborted() &&
-                    !this.executionContext.isGracefulShutdown()
-                ) {
-                    console.log(`⚠️ Workflow stopped after task "${taskName}".`);
-                    return result;
-                }
-
                 // Check redirection sources in priority order:
                 // 1. Explicit redirect callback from within the task
                 // 2. Return value with 'next' property
@@ -233,7 +801,7 @@ export class WorkflowEngine<
                         result,
                         executionContext: this.executionContext,
                         abort: this.executionContext.abortWorkflow.bind(this.executionContext),
-                        trace: this.trace,
+                        trace: span,
                         events: this.events,
                         context: this.context,
                         config: this.config,
@@ -241,106 +809,130 @@ export class WorkflowEngine<
                     });
                 }
 
+                nextTasks = await this.middleware.onRoute({ ...hook, result, next: nextTasks });
+
                 // Check for special "end" route value
                 if (nextTasks === 'end') {
                     console.log(`🏁 Workflow ended after task "${taskName}".`);
+                    this.executionContext.recordRoute(taskName, 'end');
+                    this.traceRoute(span, taskName, ['end']);
+                    span.end({ output: result });
+                    await this.queueRoutes(taskName, routeId, []);
+                    this.recordCheckpoint(taskName, []);
+                    outcome = { result, queued: [] };
+                    break;
+                }
+
+                const queued = await this.queueRoutes(
+                    taskName,
+                    routeId,
+                    nextTasks ? this.normalizeRoutes(nextTasks, result) : []
+                );
+                this.traceRoute(
+                    span,
+                    taskName,
+                    queued.map(pending => pending.task)
+                );
+                span.end({ output: result });
+                this.recordCheckpoint(taskName, queued);
+                outcome = { result, queued };
+                break;
+            } catch (error) {
+                if (error instanceof WorkflowSuspendedError) {
+                    // The route stays pending so the task runs again once the input arrives
+                    this.executionContext.endTaskTiming(taskName);
+                    this.executionContext.setState(state => {
+                        state.runningTasks.delete(taskName);
+                        return state;
+                    });
+                    console.log(`⏸️ Task "${taskName}" is waiting for input "${error.key}".`);
+                    span.end({
+                        attributes: {
+                            [SpanAttributeKeys.TASK_SUSPENDED]: true,
+                            [SpanAttributeKeys.INPUT_KEY]: error.key,
+                        },
+                    });
                     if (this.persistence) {
                         await this.persistence.saveWorkflow(this.id, this);
                     }
-                    return result;
+                    return;
                 }
 
-                if (nextTasks) {
-                    if (Array.isArray(nextTasks)) {
-                        if (
-                            nextTasks.length > 0 &&
-                            typeof nextTasks[0] === 'object' &&
-                            'task' in nextTasks[0]
-                        ) {
-                            // Handle ParallelTaskRoute[] format
-                            await Promise.all(
-                                (nextTasks as ParallelTaskRoute[]).map(route =>
-                                    this.executeTask(
-                                        route.task,
-                                        route.data !== undefined ? route.data : result
-                                    )
-                                )
-                            );
-                        } else {
-                            // Handle string[] format (all tasks get the same data)
-                            await Promise.all(
-                                (nextTasks as string[]).map(nextTask =>
-                                    this.executeTask(nextTask, result)
-                                )
-                            );
-                        }
-                    } else {
-                        await this.executeTask(nextTasks as string, result);
-                    }
-                }
-                if (this.persistence) {
-                    await this.persistence.saveWorkflow(this.id, this);
-                }
-                return result;
-            } catch (error) {
                 this.executionContext.endTaskTiming(taskName, error as Error);
                 attempt++;
                 console.error(`❌ Error in task "${taskName}" (Attempt ${attempt}):`, error);
 
+                const canRetry =
+                    attempt <= retryPolicy.maxRetries && !this.executionContext.isAborted();
+                const willRetry = canRetry && retryPolicy.isRetryable(error as Error, attempt);
+                await this.middleware.onError({ ...hook, error: error as Error, willRetry });
+
+                // The error handler only sees the final failure
+                if (willRetry) {
+                    await this.waitBeforeRetry(
+                        taskName,
+                        attempt,
+                        retryPolicy,
+                        error as Error,
+                        span
+                    );
+                    continue;
+                }
+
                 if (config.onError) {
                     try {
                         const errorResult = await config.onError(error as Error, {
                             data,
                             executionContext: this.executionContext,
                             abort: this.executionContext.abortWorkflow.bind(this.executionContext),
-                            trace: this.trace,
+                            trace: span,
                             events: this.events,
                             context: this.context,
                             config: this.config,
                             redirectTo: () => {},
-                            signal: this.signal,
+                            signal: this.getRunSignal(),
                         });
 
-                        if (errorResult.retry) {
-                            if (attempt <= (config.retryCount || 0)) {
-                                continue;
-                            }
+                        if (errorResult.retry && canRetry) {
+                            await this.waitBeforeRetry(
+                                taskName,
+                                attempt,
+                                retryPolicy,
+                                error as Error,
+                                span
+                            );
+                            continue;
                         }
 
                         if (errorResult.result !== undefined) {
                             this.executionContext.markTaskComplete(taskName, errorResult.result);
-                            if (this.persistence) {
-                                await this.persistence.saveWorkflow(this.id, this);
-                            }
-
-                            if (errorResult.next) {
-                                if (Array.isArray(errorResult.next)) {
-                                    if (typeof errorResult.next[0] === 'object') {
-                                        await Promise.all(
-                                            (errorResult.next as ParallelTaskRoute[]).map(route =>
-                                                this.executeTask(
-                                                    route.task,
-                                                    route.data !== undefined
-                                                        ? route.data
-                                                        : errorResult.result
-                                                )
-                                            )
-                                        );
-                                    } else {
-                                        await Promise.all(
-                                            (errorResult.next as string[]).map(nextTask =>
-                                                this.executeTask(nextTask, errorResult.result)
-                                            )
-                                        );
-                                    }
-                                } else {
-                                    await this.executeTask(
-                                        errorResult.next as string,
-                                        errorResult.result
-                                    );
-                                }
-                            }
-                            return errorResult.result;
+
+                            const queued = await this.queueRoutes(
+                                taskName,
+                                routeId,
+                                errorResult.next
+                                    ? this.normalizeRoutes(
+                                          errorResult.next as
+                                              | string
+                                              | string[]
+                                              | ParallelTaskRoute[],
+                                          errorResult.result
+                                      )
+                                    : []
+                            );
+                            this.traceRoute(
+                                span,
+                                taskName,
+                                queued.map(pending => pending.task)
+                            );
+                            span.end({
+                                output: errorResult.result,
+                                error,
+                                attributes: { [SpanAttributeKeys.TASK_ATTEMPTS]: attempt },
+                            });
+                            this.recordCheckpoint(taskName, queued);
+                            outcome = { result: errorResult.result, queued };
+                            break;
                         }
                     } catch (errorHandlerError) {
                         console.error(
@@ -350,12 +942,27 @@ export class WorkflowEngine<
                     }
                 }
 
-                if (attempt > (config.retryCount || 0)) {
-                    console.error(`⛔ Task "${taskName}" failed after ${attempt} attempts.`);
-                    throw error;
-                }
+                console.error(`⛔ Task "${taskName}" failed after ${attempt} attempts.`);
+                span.end({ error, attributes: { [SpanAttributeKeys.TASK_ATTEMPTS]: attempt } });
+                throw error;
+            }
+        }
+
+        if (!outcome) return;
+
+        // The routes stay pending in the saved run, so a resume continues from them
+        if (this.executionContext.isAborted() && !this.executionContext.isGracefulShutdown()) {
+            console.log(`⚠️ Workflow stopped after task "${taskName}".`);
+            return outcome.result;
+        }
+
+        if (outcome.queued.length) {
+            await this.executeRoutes(outcome.queued);
+            if (this.persistence) {
+                await this.persistence.saveWorkflow(this.id, this);
             }
         }
+        return outcome.result;
     }
 
     /**
@@ -376,8 +983,10 @@ export class WorkflowEngine<
         this.addTask(options.name, {
             execute: options.execute,
             route: options.route || (() => undefined),
+            next: options.next,
             dependencies: options.dependencies,
-            retryCount: options.retryCount || 0,
+            retryCount: options.retryCount,
+            retry: options.retry,
             timeoutMs: options.timeoutMs,
             onError: options.onError,
         });
@@ -385,9 +994,7 @@ export class WorkflowEngine<
 
     abort(graceful: boolean = false) {
         this.executionContext.abortWorkflow(graceful);
-        if (this.persistence) {
-            this.persistence.saveWorkflow(this.id, this);
-        }
+        this.persistState();
     }
 
     getTaskRunCount(taskName: string): number {
@@ -410,4 +1017,43 @@ export class WorkflowEngine<
     getTimingSummary() {
         return this.executionContext.getMainTimingSummary();
     }
+
+    getUsageSummary(): UsageSummary {
+        return this.executionContext.getUsageSummary();
+    }
+
+    // Send buffered spans, e.g. before a serverless function returns
+    async flushTraces() {
+        await this.tracer.flush?.();
+    }
+
+    /**
+     * Get the task graph, optionally annotated with execution counts, timings
+     * and the routes taken so far in this run.
+     */
+    getGraph({ overlay = false }: { overlay?: boolean } = {}): WorkflowGraph {
+        const tasks = Array.from(this.tasks.entries()).map(([name, config]) => ({
+            name,
+            next: config.next,
+            dependencies: config.dependencies,
+        }));
+
+        return buildWorkflowGraph(
+            tasks,
+            this.initialTask,
+            overlay
+                ? {
+                      runCounts: this.executionContext.getAllTaskRunCounts(),
+                      timings: this.executionContext.getTaskTimingSummary(),
+                      routeCounts: this.executionContext.getRouteCounts(),
+                      pendingTasks: this.executionContext.getPendingTasks().map(p => p.task),
+                      summary: this.executionContext.getMainTimingSummary(),
+                  }
+                : undefined
+        );
+    }
+
+    exportGraph(format: WorkflowGraphFormat, { overlay = false }: { overlay?: boolean } = {}) {
+        return exportWorkflowGraph(this.getGraph({ overlay }), format, this.id);
+    }
 }
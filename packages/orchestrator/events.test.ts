@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test';
+import { EventRecord, TypedEventEmitter } from './events';
+
+type TestEvents = { status: string; steps: string[]; answer: string };
+
+const emitSteps = (events: TypedEventEmitter<TestEvents>, count: number) => {
+    for (let step = 1; step <= count; step++) {
+        events.update('steps', (steps = []) => [...steps, `step ${step}`]);
+    }
+};
+
+describe('TypedEventEmitter', () => {
+    test('numbers records from 1, one per emit', () => {
+        const events = new TypedEventEmitter<TestEvents>();
+        expect(events.getSequence()).toBe(0);
+
+        events.emit('status', 'PENDING');
+        emitSteps(events, 2);
+
+        expect(events.getReplayLog().map(record => [record.seq, record.event])).toEqual([
+            [1, 'status'],
+            [2, 'steps'],
+            [3, 'steps'],
+        ]);
+        expect(events.getSequence()).toBe(3);
+    });
+
+    test('keeps only the latest `replayLogSize` records', () => {
+        const events = new TypedEventEmitter<TestEvents>({}, { replayLogSize: 3 });
+
+        emitSteps(events, 5);
+
+        expect(events.getReplayLog().map(record => record.seq)).toEqual([3, 4, 5]);
+        expect(events.getReplayLog(4).map(record => record.seq)).toEqual([4, 5]);
+    });
+
+    test('replays from `fromSeq`, then delivers live records without duplicates', () => {
+        const events = new TypedEventEmitter<TestEvents>();
+        emitSteps(events, 3);
+
+        const received: number[] = [];
+        events.subscribe(record => received.push(record.seq), { fromSeq: 2 });
+        emitSteps(events, 1);
+
+        expect(received).toEqual([2, 3, 4]);
+    });
+
+    test('delivers only the events asked for, replayed and live', () => {
+        const events = new TypedEventEmitter<TestEvents>();
+        events.emit('status', 'PENDING');
+        emitSteps(events, 1);
+
+        const received: EventRecord<TestEvents>[] = [];
+        events.subscribe(record => received.push(record), { fromSeq: 1, events: ['status'] });
+        emitSteps(events, 1);
+        events.emit('status', 'COMPLETED');
+
+        expect(received.map(({ seq, data }) => [seq, data])).toEqual([
+            [1, 'PENDING'],
+            [4, 'COMPLETED'],
+        ]);
+    });
+
+    test('stops delivering once unsubscribed', () => {
+        const events = new TypedEventEmitter<TestEvents>();
+        const subscribed: number[] = [];
+        const all: string[] = [];
+        const unsubscribe = events.subscribe(record => subscribed.push(record.seq));
+        const offAll = events.onAll(event => all.push(event));
+
+        events.emit('status', 'PENDING');
+        unsubscribe();
+        offAll();
+        events.emit('status', 'COMPLETED');
+
+        expect(subscribed).toEqual([1]);
+        expect(all).toEqual(['status']);
+    });
+
+    test('passes onAll the keys missing from the initial state', () => {
+        const events = new TypedEventEmitter<TestEvents>({ status: 'PENDING' });
+        const received: Array<[keyof TestEvents, any, number]> = [];
+        events.onAll((event, data, { seq }) => received.push([event, data, seq]));
+
+        events.emit('answer', 'Bun is a JavaScript runtime.');
+
+        expect(received).toEqual([['answer', 'Bun is a JavaScript runtime.', 1]]);
+    });
+
+    test('restores state without notifying and never moves the sequence back', () => {
+        const events = new TypedEventEmitter<TestEvents>();
+        emitSteps(events, 3);
+        const received: number[] = [];
+        events.subscribe(record => received.push(record.seq));
+
+        events.restoreState({ status: 'COMPLETED' }, 10);
+        expect(events.getSequence()).toBe(10);
+        events.restoreState({ status: 'FAILED' }, 4);
+        expect(events.getSequence()).toBe(10);
+        events.emit('answer', 'done');
+
+        expect(events.getState('status')).toBe('FAILED');
+        expect(received).toEqual([11]);
+    });
+});
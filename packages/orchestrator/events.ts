@@ -1,15 +1,57 @@
+import {
+    deserializeState,
+    getSchemaDefaults,
+    parseField,
+    serializeState,
+    StateSchema,
+} from './schema';
+
 export type EventSchemaDefinition = Record<string, any>;
 
+export type EventRecord<T extends EventSchemaDefinition = any, K extends keyof T = keyof T> = {
+    // Monotonic per emitter, starting at 1
+    seq: number;
+    timestamp: number;
+    event: K;
+    data: T[K];
+};
+
+export type EventSubscribeOptions<T extends EventSchemaDefinition> = {
+    // Replay logged records with seq >= fromSeq before delivering live ones
+    fromSeq?: number;
+    // Only these events, all of them by default
+    events?: Array<keyof T>;
+};
+
+export type TypedEventEmitterOptions = {
+    // Records kept for replay, the oldest are dropped first
+    replayLogSize?: number;
+    // Validates every emitted payload, events with a default start with it
+    schema?: StateSchema;
+};
+
+const DEFAULT_REPLAY_LOG_SIZE = 1000;
+
 export class TypedEventEmitter<T extends EventSchemaDefinition> {
     private listeners: Map<keyof T, Set<(data: any) => void>> = new Map();
+    private recordListeners: Set<(record: EventRecord<T>) => void> = new Set();
     private state: { [K in keyof T]?: T[K] } = {};
+    private log: EventRecord<T>[] = [];
+    private seq: number = 0;
+    private replayLogSize: number;
+    private schema?: StateSchema;
 
-    constructor(initialState?: Partial<{ [K in keyof T]: T[K] }>) {
-        if (initialState) {
-            Object.entries(initialState).forEach(([key, value]) => {
-                this.state[key as keyof T] = value;
-            });
-        }
+    constructor(
+        initialState?: Partial<{ [K in keyof T]: T[K] }>,
+        { replayLogSize = DEFAULT_REPLAY_LOG_SIZE, schema }: TypedEventEmitterOptions = {}
+    ) {
+        this.replayLogSize = replayLogSize;
+        this.schema = schema;
+        Object.entries({ ...getSchemaDefaults(schema), ...initialState }).forEach(
+            ([key, value]) => {
+                this.state[key as keyof T] = parseField(schema, 'event', key, value);
+            }
+        );
     }
 
     on<K extends keyof T>(event: K, callback: (data: T[K]) => void) {
@@ -20,16 +62,37 @@ export class TypedEventEmitter<T extends EventSchemaDefinition> {
         return this;
     }
 
-    onAll(cb: (event: keyof T, data: any) => void) {
-        const allEventsCallback = (event: keyof T, data: any) => {
-            cb(event, data);
+    /**
+     * Listen to every event, including keys that weren't part of the initial state.
+     * Returns a function that unsubscribes.
+     */
+    onAll(cb: (event: keyof T, data: any, record: EventRecord<T>) => void): () => void {
+        return this.subscribe(record => cb(record.event, record.data, record));
+    }
+
+    /**
+     * Receive events as records with their sequence number and timestamp. With `fromSeq`
+     * the records still in the replay log are delivered first, so a listener that
+     * reconnects can pick up where it left off. Returns a function that unsubscribes.
+     */
+    subscribe(
+        callback: (record: EventRecord<T>) => void,
+        { fromSeq, events }: EventSubscribeOptions<T> = {}
+    ): () => void {
+        const listener = (record: EventRecord<T>) => {
+            if (!events || events.includes(record.event)) {
+                callback(record);
+            }
         };
 
-        for (const event of Object.keys(this.state) as Array<keyof T>) {
-            this.on(event, data => allEventsCallback(event, data));
+        if (fromSeq !== undefined) {
+            this.getReplayLog(fromSeq).forEach(listener);
         }
 
-        return this;
+        this.recordListeners.add(listener);
+        return () => {
+            this.recordListeners.delete(listener);
+        };
     }
 
     off<K extends keyof T>(event: K, callback: (data: T[K]) => void) {
@@ -37,11 +100,22 @@ export class TypedEventEmitter<T extends EventSchemaDefinition> {
         return this;
     }
 
-    emit<K extends keyof T>(event: K, data: T[K]) {
+    // Throws a SchemaValidationError, before any listener runs, when the payload is invalid
+    emit<K extends keyof T>(event: K, payload: T[K]) {
+        const data: T[K] = parseField(this.schema, 'event', event as string, payload);
         this.state[event] = data;
+        const record: EventRecord<T> = { seq: ++this.seq, timestamp: Date.now(), event, data };
+        this.log.push(record);
+        if (this.log.length > this.replayLogSize) {
+            this.log.splice(0, this.log.length - this.replayLogSize);
+        }
+
         this.listeners.get(event)?.forEach(callback => {
             callback(data);
         });
+        this.recordListeners.forEach(callback => {
+            callback(record);
+        });
         return this;
     }
 
@@ -59,10 +133,39 @@ export class TypedEventEmitter<T extends EventSchemaDefinition> {
     getAllState(): { [K in keyof T]?: T[K] } {
         return { ...this.state };
     }
+
+    // The sequence number of the last emitted event, 0 before the first one
+    getSequence(): number {
+        return this.seq;
+    }
+
+    getReplayLog(fromSeq: number = 0): EventRecord<T>[] {
+        return this.log.filter(record => record.seq >= fromSeq);
+    }
+
+    // JSON-safe snapshot of the event state for persistence
+    serializeState(): Record<string, any> {
+        return serializeState(this.state);
+    }
+
+    /**
+     * Replace the state from a snapshot without notifying listeners. The sequence
+     * continues from `seq`, so numbers stay monotonic across a restore.
+     */
+    restoreState(state: Partial<{ [K in keyof T]: T[K] }>, seq?: number) {
+        Object.entries(deserializeState(state)).forEach(([key, value]) => {
+            this.state[key as keyof T] = parseField(this.schema, 'event', key, value);
+        });
+        if (seq !== undefined && seq > this.seq) {
+            this.seq = seq;
+        }
+        return this;
+    }
 }
 
 export function createTypedEventEmitter<T extends EventSchemaDefinition>(
-    initialState?: Partial<{ [K in keyof T]: T[K] }>
+    initialState?: Partial<{ [K in keyof T]: T[K] }>,
+    options?: TypedEventEmitterOptions
 ) {
-    return new TypedEventEmitter<T>(initialState);
+    return new TypedEventEmitter<T>(initialState, options);
 }
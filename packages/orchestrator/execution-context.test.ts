@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import { EventEmitter } from 'events';
+import { WorkflowBuilder } from './builder';
+import { ExecutionContext } from './execution-context';
+import { createTask } from './task';
+import { UsageRecord } from './types';
+
+describe('usage', () => {
+    test('is summed per task and per model across calls', async () => {
+        const records: UsageRecord[] = [];
+        const workflow = new WorkflowBuilder('run-1', {})
+            .addTasks([
+                createTask({
+                    name: 'plan',
+                    execute: async ({ recordUsage }) => {
+                        recordUsage({
+                            model: 'mini',
+                            promptTokens: 100,
+                            completionTokens: 20,
+                            cost: 0.5,
+                        });
+                    },
+                    route: () => 'search',
+                }),
+                createTask({
+                    name: 'search',
+                    execute: async ({ recordUsage }) => {
+                        recordUsage({ model: 'mini', promptTokens: 50, completionTokens: 10 });
+                        recordUsage({
+                            model: 'pro',
+                            promptTokens: 200,
+                            completionTokens: 80,
+                            reasoningTokens: 30,
+                            cost: 2,
+                        });
+                    },
+                    route: () => 'end',
+                }),
+            ])
+            .build();
+        workflow.onUsage(record => records.push(record));
+
+        await workflow.start('plan');
+
+        expect(records.map(({ taskName, model }) => [taskName, model])).toEqual([
+            ['plan', 'mini'],
+            ['search', 'mini'],
+            ['search', 'pro'],
+        ]);
+        expect(workflow.getUsageSummary()).toEqual({
+            total: {
+                calls: 3,
+                promptTokens: 350,
+                completionTokens: 110,
+                reasoningTokens: 30,
+                totalTokens: 460,
+                cost: 2.5,
+            },
+            tasks: {
+                plan: {
+                    calls: 1,
+                    promptTokens: 100,
+                    completionTokens: 20,
+                    reasoningTokens: 0,
+                    totalTokens: 120,
+                    cost: 0.5,
+                },
+                search: {
+                    calls: 2,
+                    promptTokens: 250,
+                    completionTokens: 90,
+                    reasoningTokens: 30,
+                    totalTokens: 340,
+                    cost: 2,
+                },
+            },
+            models: {
+                mini: {
+                    calls: 2,
+                    promptTokens: 150,
+                    completionTokens: 30,
+                    reasoningTokens: 0,
+                    totalTokens: 180,
+                    cost: 0.5,
+                },
+                pro: {
+                    calls: 1,
+                    promptTokens: 200,
+                    completionTokens: 80,
+                    reasoningTokens: 30,
+                    totalTokens: 280,
+                    cost: 2,
+                },
+            },
+        });
+    });
+
+    test('counts reasoning tokens as part of the completion, not on top of it', () => {
+        const context = new ExecutionContext(new EventEmitter());
+
+        context.recordUsage('analysis', {
+            model: 'reasoner',
+            promptTokens: 10,
+            completionTokens: 40,
+            reasoningTokens: 25,
+        });
+
+        expect(context.getUsageSummary().tasks.analysis).toEqual({
+            calls: 1,
+            promptTokens: 10,
+            completionTokens: 40,
+            reasoningTokens: 25,
+            totalTokens: 50,
+            cost: 0,
+        });
+    });
+
+    test('is empty before any call', () => {
+        const context = new ExecutionContext(new EventEmitter());
+
+        expect(context.getUsageRecords()).toEqual([]);
+        expect(context.getUsageSummary()).toEqual({
+            total: {
+                calls: 0,
+                promptTokens: 0,
+                completionTokens: 0,
+                reasoningTokens: 0,
+                totalTokens: 0,
+                cost: 0,
+            },
+            tasks: {},
+            models: {},
+        });
+    });
+});
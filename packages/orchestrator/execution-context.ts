@@ -1,5 +1,34 @@
 import { EventEmitter } from 'events';
-import { TaskTiming, WorkflowState } from './types';
+import { getRouteKey } from './graph';
+import {
+    AwaitedInput,
+    LLMUsage,
+    PendingTask,
+    TaskRetryEvent,
+    TaskTiming,
+    UsageRecord,
+    UsageSummary,
+    UsageTotals,
+    WorkflowState,
+} from './types';
+
+const emptyUsageTotals = (): UsageTotals => ({
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+});
+
+const addUsage = (totals: UsageTotals, usage: LLMUsage): UsageTotals => ({
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    completionTokens: totals.completionTokens + usage.completionTokens,
+    reasoningTokens: totals.reasoningTokens + (usage.reasoningTokens ?? 0),
+    totalTokens: totals.totalTokens + usage.promptTokens + usage.completionTokens,
+    cost: totals.cost + (usage.cost ?? 0),
+});
 
 export class ExecutionContext {
     private state: WorkflowState;
@@ -7,20 +36,29 @@ export class ExecutionContext {
     private gracefulShutdown: boolean;
     private taskExecutionCounts: Map<string, number>;
     private eventEmitter: EventEmitter;
+    private routeSequence: number;
+    private routeCounts: Map<string, number>;
 
     private taskTimings: Map<string, TaskTiming[]>;
+    private usageRecords: UsageRecord[];
 
     constructor(eventEmitter: EventEmitter) {
         this.state = {
             completedTasks: new Set(),
             runningTasks: new Set(),
             taskData: new Map(),
+            pendingTasks: new Map(),
+            inputs: new Map(),
+            awaitedInputs: new Map(),
         };
         this.aborted = false;
         this.gracefulShutdown = false;
         this.taskExecutionCounts = new Map();
         this.eventEmitter = eventEmitter;
         this.taskTimings = new Map();
+        this.routeSequence = 0;
+        this.routeCounts = new Map();
+        this.usageRecords = [];
     }
 
     setState(func: (state: WorkflowState) => WorkflowState) {
@@ -43,6 +81,64 @@ export class ExecutionContext {
         this.state.taskData.set(taskName, data);
     }
 
+    queueTask(task: string, data?: any, from?: string): string {
+        const id = `${Date.now().toString(36)}-${++this.routeSequence}`;
+        this.state.pendingTasks.set(id, { id, task, data, from });
+        if (from) {
+            this.recordRoute(from, task);
+        }
+        return id;
+    }
+
+    recordRoute(from: string, to: string) {
+        const routeKey = getRouteKey(from, to);
+        this.routeCounts.set(routeKey, (this.routeCounts.get(routeKey) || 0) + 1);
+    }
+
+    getRouteCounts(): Record<string, number> {
+        return Object.fromEntries(this.routeCounts);
+    }
+
+    settleTask(id?: string) {
+        if (id) {
+            this.state.pendingTasks.delete(id);
+        }
+    }
+
+    getPendingTasks(): PendingTask[] {
+        return Array.from(this.state.pendingTasks.values());
+    }
+
+    requestInput(input: AwaitedInput) {
+        this.state.awaitedInputs.set(input.key, input);
+        this.eventEmitter.emit('inputRequested', input);
+    }
+
+    setInput(key: string, value: any) {
+        const awaited = this.state.awaitedInputs.get(key);
+        this.state.inputs.set(key, value);
+        this.state.awaitedInputs.delete(key);
+        if (awaited) {
+            this.eventEmitter.emit('inputReceived', { ...awaited, value });
+        }
+    }
+
+    hasInput(key: string) {
+        return this.state.inputs.has(key);
+    }
+
+    getInput(key: string) {
+        return this.state.inputs.get(key);
+    }
+
+    getAwaitedInput(key: string): AwaitedInput | undefined {
+        return this.state.awaitedInputs.get(key);
+    }
+
+    getAwaitedInputs(): AwaitedInput[] {
+        return Array.from(this.state.awaitedInputs.values());
+    }
+
     resetTaskCompletion(taskName: string) {
         this.state.completedTasks.delete(taskName);
     }
@@ -93,6 +189,41 @@ export class ExecutionContext {
         }
     }
 
+    emitTaskRetryEvent(retry: TaskRetryEvent): void {
+        if (this.eventEmitter) {
+            this.eventEmitter.emit('taskRetry', retry);
+        }
+    }
+
+    recordUsage(taskName: string, usage: LLMUsage) {
+        const record: UsageRecord = { ...usage, taskName, timestamp: Date.now() };
+        this.usageRecords.push(record);
+        if (this.eventEmitter) {
+            this.eventEmitter.emit('usage', record);
+        }
+    }
+
+    getUsageRecords(): UsageRecord[] {
+        return [...this.usageRecords];
+    }
+
+    // Totals for the run, broken down per task and per model
+    getUsageSummary(): UsageSummary {
+        const summary: UsageSummary = { total: emptyUsageTotals(), tasks: {}, models: {} };
+        this.usageRecords.forEach(record => {
+            summary.total = addUsage(summary.total, record);
+            summary.tasks[record.taskName] = addUsage(
+                summary.tasks[record.taskName] || emptyUsageTotals(),
+                record
+            );
+            summary.models[record.model] = addUsage(
+                summary.models[record.model] || emptyUsageTotals(),
+                record
+            );
+        });
+        return summary;
+    }
+
     hasReachedMaxRuns(taskName: string, maxRuns: number): boolean {
         const count = this.getTaskExecutionCount(taskName);
         return count >= maxRuns;
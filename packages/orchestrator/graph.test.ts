@@ -0,0 +1,266 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import {
+    buildWorkflowGraph,
+    exportWorkflowGraph,
+    toDot,
+    toMermaid,
+    WorkflowGraphTask,
+    WorkflowRunOverlay,
+} from './graph';
+import { createTask } from './task';
+
+// The quoted name has no `next`, so its routes are unknown
+const tasks: WorkflowGraphTask[] = [
+    { name: 'plan', next: ['web-search', 'end'] },
+    { name: 'web-search', next: ['write'] },
+    { name: 'write', next: ['end'], dependencies: ['web-search'] },
+    { name: 'say "hi"' },
+];
+
+// web-search failed once and was retried through a route it doesn't declare
+const overlay: WorkflowRunOverlay = {
+    runCounts: { plan: 1, 'web-search': 2, write: 1 },
+    timings: {
+        plan: { totalDuration: '5ms', attempts: 1, failures: 0, averageDuration: '5ms' },
+        'web-search': {
+            totalDuration: '30ms',
+            attempts: 3,
+            failures: 1,
+            averageDuration: '10ms',
+        },
+    },
+    routeCounts: { 'plan->web-search': 1, 'web-search->write': 1, 'web-search->web-search': 1 },
+    pendingTasks: ['write'],
+    summary: { totalDuration: '40ms' },
+};
+
+describe('buildWorkflowGraph', () => {
+    test('has a node per task and separates route from dependency edges', () => {
+        const graph = buildWorkflowGraph(tasks, 'plan');
+
+        expect(graph.nodes).toEqual([
+            { id: 'plan', initial: true, declared: true, stats: undefined },
+            { id: 'web-search', initial: false, declared: true, stats: undefined },
+            { id: 'write', initial: false, declared: true, stats: undefined },
+            { id: 'say "hi"', initial: false, declared: false, stats: undefined },
+        ]);
+        expect(graph.edges).toEqual([
+            { from: 'plan', to: 'web-search', kind: 'route' },
+            { from: 'plan', to: 'end', kind: 'route' },
+            { from: 'web-search', to: 'write', kind: 'route' },
+            { from: 'write', to: 'end', kind: 'route' },
+            { from: 'web-search', to: 'write', kind: 'dependency' },
+        ]);
+        expect(graph.summary).toBeUndefined();
+    });
+
+    test('adds run stats, route counts and routes taken without being declared', () => {
+        const graph = buildWorkflowGraph(tasks, 'plan', overlay);
+
+        expect(graph.nodes.map(node => [node.id, node.stats])).toEqual([
+            [
+                'plan',
+                {
+                    runs: 1,
+                    attempts: 1,
+                    failures: 0,
+                    totalDuration: '5ms',
+                    averageDuration: '5ms',
+                    pending: false,
+                },
+            ],
+            [
+                'web-search',
+                {
+                    runs: 2,
+                    attempts: 3,
+                    failures: 1,
+                    totalDuration: '30ms',
+                    averageDuration: '10ms',
+                    pending: false,
+                },
+            ],
+            [
+                'write',
+                {
+                    runs: 1,
+                    attempts: 0,
+                    failures: 0,
+                    totalDuration: '0ms',
+                    averageDuration: '0ms',
+                    pending: true,
+                },
+            ],
+            [
+                'say "hi"',
+                {
+                    runs: 0,
+                    attempts: 0,
+                    failures: 0,
+                    totalDuration: '0ms',
+                    averageDuration: '0ms',
+                    pending: false,
+                },
+            ],
+        ]);
+        expect(graph.edges).toEqual([
+            { from: 'plan', to: 'web-search', kind: 'route', count: 1 },
+            { from: 'plan', to: 'end', kind: 'route', count: 0 },
+            { from: 'web-search', to: 'write', kind: 'route', count: 1 },
+            { from: 'write', to: 'end', kind: 'route', count: 0 },
+            { from: 'web-search', to: 'write', kind: 'dependency' },
+            { from: 'web-search', to: 'web-search', kind: 'route', count: 1 },
+        ]);
+        expect(graph.summary).toEqual({ totalDuration: '40ms' });
+    });
+});
+
+describe('toMermaid', () => {
+    test('renders the declared graph with escaped labels and safe ids', () => {
+        expect(toMermaid(buildWorkflowGraph(tasks, 'plan'))).toBe(
+            [
+                'flowchart TD',
+                '    plan["plan"]',
+                '    web_search["web-search"]',
+                '    write["write"]',
+                '    say__hi_["say #quot;hi#quot;"]',
+                '    __end__((end))',
+                '    plan --> web_search',
+                '    plan --> __end__',
+                '    web_search --> write',
+                '    write --> __end__',
+                '    web_search -.->|depends| write',
+                '    classDef initial stroke-width:3px',
+                '    classDef undeclared stroke-dasharray:4 4',
+                '    classDef failed stroke:#d33',
+                '    class plan initial',
+                '    class say__hi_ undeclared',
+            ].join('\n')
+        );
+    });
+
+    test('renders the run overlay', () => {
+        expect(toMermaid(buildWorkflowGraph(tasks, 'plan', overlay))).toBe(
+            [
+                'flowchart TD',
+                '    plan["plan<br/>runs: 1 · 5ms"]',
+                '    web_search["web-search<br/>runs: 2 · 30ms · failures: 1"]',
+                '    write["write<br/>runs: 1 · 0ms · pending"]',
+                '    say__hi_["say #quot;hi#quot;<br/>runs: 0 · 0ms"]',
+                '    __end__((end))',
+                '    plan -->|1x| web_search',
+                '    plan -->|0x| __end__',
+                '    web_search -->|1x| write',
+                '    write -->|0x| __end__',
+                '    web_search -.->|depends| write',
+                '    web_search -->|1x| web_search',
+                '    classDef initial stroke-width:3px',
+                '    classDef undeclared stroke-dasharray:4 4',
+                '    classDef failed stroke:#d33',
+                '    class plan initial',
+                '    class say__hi_ undeclared',
+                '    class web_search failed',
+            ].join('\n')
+        );
+    });
+});
+
+describe('toDot', () => {
+    test('renders the declared graph with quoted ids and labels', () => {
+        expect(toDot(buildWorkflowGraph(tasks, 'plan'), 'research "v2"')).toBe(
+            [
+                'digraph "research \\"v2\\"" {',
+                '    rankdir=TB;',
+                '    node [shape=box];',
+                '    "plan" [label="plan", penwidth=3];',
+                '    "web-search" [label="web-search"];',
+                '    "write" [label="write"];',
+                '    "say \\"hi\\"" [label="say \\"hi\\"", style=dashed];',
+                '    "end" [shape=doublecircle];',
+                '    "plan" -> "web-search";',
+                '    "plan" -> "end";',
+                '    "web-search" -> "write";',
+                '    "write" -> "end";',
+                '    "web-search" -> "write" [style=dashed, label="depends"];',
+                '}',
+            ].join('\n')
+        );
+    });
+
+    test('renders the run overlay', () => {
+        expect(exportWorkflowGraph(buildWorkflowGraph(tasks, 'plan', overlay), 'dot')).toBe(
+            [
+                'digraph "workflow" {',
+                '    rankdir=TB;',
+                '    node [shape=box];',
+                '    "plan" [label="plan\\nruns: 1 · 5ms", penwidth=3];',
+                '    "web-search" [label="web-search\\nruns: 2 · 30ms · failures: 1", color=red];',
+                '    "write" [label="write\\nruns: 1 · 0ms · pending"];',
+                '    "say \\"hi\\"" [label="say \\"hi\\"\\nruns: 0 · 0ms", style=dashed];',
+                '    "end" [shape=doublecircle];',
+                '    "plan" -> "web-search" [label="1x"];',
+                '    "plan" -> "end" [label="0x"];',
+                '    "web-search" -> "write" [label="1x"];',
+                '    "write" -> "end" [label="0x"];',
+                '    "web-search" -> "write" [style=dashed, label="depends"];',
+                '    "web-search" -> "web-search" [label="1x"];',
+                '}',
+            ].join('\n')
+        );
+    });
+});
+
+describe('workflow graphs', () => {
+    const createWorkflow = () =>
+        new WorkflowBuilder('research', { initialTask: 'plan' }).addTasks([
+            createTask({
+                name: 'plan',
+                execute: async () => 'plan',
+                route: () => 'search',
+                next: ['search'],
+            }),
+            createTask({
+                name: 'search',
+                // Counts earlier runs, so search runs three times
+                execute: async ({ executionContext }) =>
+                    executionContext.getTaskExecutionCount('search'),
+                route: ({ result }) => (result < 2 ? 'search' : 'write'),
+                next: ['search', 'write'],
+            }),
+            createTask({
+                name: 'write',
+                execute: async () => 'report',
+                route: () => 'end',
+                next: ['end'],
+            }),
+        ]);
+
+    test('exports the declared graph from the builder', () => {
+        const builder = createWorkflow();
+
+        expect(JSON.parse(builder.exportGraph('json'))).toEqual(
+            JSON.parse(JSON.stringify(builder.getGraph()))
+        );
+        expect(builder.exportGraph('mermaid')).toBe(toMermaid(builder.getGraph()));
+    });
+
+    test('counts the routes a run took per getRouteKey', async () => {
+        const workflow = createWorkflow().build();
+        await workflow.start('plan');
+
+        const graph = workflow.getGraph({ overlay: true });
+
+        expect(graph.nodes.map(node => [node.id, node.stats?.runs])).toEqual([
+            ['plan', 1],
+            ['search', 3],
+            ['write', 1],
+        ]);
+        expect(graph.edges.map(({ from, to, count }) => `${from}->${to} ${count}x`)).toEqual([
+            'plan->search 1x',
+            'search->search 2x',
+            'search->write 1x',
+            'write->end 1x',
+        ]);
+    });
+});
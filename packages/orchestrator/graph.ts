@@ -0,0 +1,210 @@
+export type WorkflowGraphFormat = 'json' | 'mermaid' | 'dot';
+
+export type WorkflowGraphNodeStats = {
+    runs: number;
+    attempts: number;
+    failures: number;
+    totalDuration: string;
+    averageDuration: string;
+    pending: boolean;
+};
+
+export type WorkflowGraphNode = {
+    id: string;
+    initial: boolean;
+    // False when the task has no `next` declaration, so its outgoing routes are unknown
+    declared: boolean;
+    stats?: WorkflowGraphNodeStats;
+};
+
+export type WorkflowGraphEdge = {
+    from: string;
+    to: string;
+    kind: 'route' | 'dependency';
+    // Number of times the route was taken during a run
+    count?: number;
+};
+
+export type WorkflowGraph = {
+    initialTask?: string;
+    nodes: WorkflowGraphNode[];
+    edges: WorkflowGraphEdge[];
+    summary?: Record<string, any>;
+};
+
+export type WorkflowGraphTask = {
+    name: string;
+    next?: string[];
+    dependencies?: string[];
+};
+
+export type WorkflowRunOverlay = {
+    runCounts: Record<string, number>;
+    timings: Record<
+        string,
+        { totalDuration: string; attempts: number; failures: number; averageDuration: string }
+    >;
+    routeCounts: Record<string, number>;
+    pendingTasks: string[];
+    summary?: Record<string, any>;
+};
+
+const END = 'end';
+
+export const getRouteKey = (from: string, to: string) => `${from}->${to}`;
+
+export const buildWorkflowGraph = (
+    tasks: WorkflowGraphTask[],
+    initialTask?: string,
+    overlay?: WorkflowRunOverlay
+): WorkflowGraph => {
+    const nodes: WorkflowGraphNode[] = tasks.map(task => ({
+        id: task.name,
+        initial: task.name === initialTask,
+        declared: !!task.next,
+        stats: overlay
+            ? {
+                  runs: overlay.runCounts[task.name] || 0,
+                  attempts: overlay.timings[task.name]?.attempts || 0,
+                  failures: overlay.timings[task.name]?.failures || 0,
+                  totalDuration: overlay.timings[task.name]?.totalDuration || '0ms',
+                  averageDuration: overlay.timings[task.name]?.averageDuration || '0ms',
+                  pending: overlay.pendingTasks.includes(task.name),
+              }
+            : undefined,
+    }));
+
+    const edges: WorkflowGraphEdge[] = [];
+    const routeEdges = new Set<string>();
+
+    tasks.forEach(task => {
+        (task.next || []).forEach(to => {
+            routeEdges.add(getRouteKey(task.name, to));
+            edges.push({ from: task.name, to, kind: 'route' });
+        });
+        (task.dependencies || []).forEach(dependency => {
+            edges.push({ from: dependency, to: task.name, kind: 'dependency' });
+        });
+    });
+
+    if (overlay) {
+        // Routes taken at runtime but never declared still belong in the picture
+        Object.keys(overlay.routeCounts)
+            .filter(key => !routeEdges.has(key))
+            .forEach(key => {
+                const [from, to] = key.split('->');
+                edges.push({ from, to, kind: 'route' });
+            });
+
+        edges
+            .filter(edge => edge.kind === 'route')
+            .forEach(edge => {
+                edge.count = overlay.routeCounts[getRouteKey(edge.from, edge.to)] || 0;
+            });
+    }
+
+    return { initialTask, nodes, edges, summary: overlay?.summary };
+};
+
+const getNodeLabel = (node: WorkflowGraphNode, lineBreak: string) => {
+    if (!node.stats) return node.id;
+    const { runs, totalDuration, failures, pending } = node.stats;
+    const details = [`runs: ${runs}`, totalDuration];
+    if (failures > 0) details.push(`failures: ${failures}`);
+    if (pending) details.push('pending');
+    return `${node.id}${lineBreak}${details.join(' · ')}`;
+};
+
+const getMermaidId = (id: string) => (id === END ? '__end__' : id.replace(/[^a-zA-Z0-9_]/g, '_'));
+
+export const toMermaid = (graph: WorkflowGraph): string => {
+    const lines = ['flowchart TD'];
+
+    graph.nodes.forEach(node => {
+        const label = getNodeLabel(node, '<br/>').replace(/"/g, '#quot;');
+        lines.push(`    ${getMermaidId(node.id)}["${label}"]`);
+    });
+
+    if (graph.edges.some(edge => edge.to === END)) {
+        lines.push(`    ${getMermaidId(END)}((end))`);
+    }
+
+    graph.edges.forEach(edge => {
+        const from = getMermaidId(edge.from);
+        const to = getMermaidId(edge.to);
+        if (edge.kind === 'dependency') {
+            lines.push(`    ${from} -.->|depends| ${to}`);
+        } else if (edge.count !== undefined) {
+            lines.push(`    ${from} -->|${edge.count}x| ${to}`);
+        } else {
+            lines.push(`    ${from} --> ${to}`);
+        }
+    });
+
+    const classes: Record<string, (node: WorkflowGraphNode) => boolean> = {
+        initial: node => node.initial,
+        undeclared: node => !node.declared,
+        failed: node => !!node.stats && node.stats.failures > 0,
+    };
+    lines.push('    classDef initial stroke-width:3px');
+    lines.push('    classDef undeclared stroke-dasharray:4 4');
+    lines.push('    classDef failed stroke:#d33');
+    Object.entries(classes).forEach(([className, matches]) => {
+        const ids = graph.nodes.filter(matches).map(node => getMermaidId(node.id));
+        if (ids.length > 0) {
+            lines.push(`    class ${ids.join(',')} ${className}`);
+        }
+    });
+
+    return lines.join('\n');
+};
+
+const quoteDot = (value: string) =>
+    `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+export const toDot = (graph: WorkflowGraph, name: string = 'workflow'): string => {
+    const lines = [`digraph ${quoteDot(name)} {`, '    rankdir=TB;', '    node [shape=box];'];
+
+    graph.nodes.forEach(node => {
+        const attributes = [`label=${quoteDot(getNodeLabel(node, '\n'))}`];
+        if (node.initial) attributes.push('penwidth=3');
+        if (!node.declared) attributes.push('style=dashed');
+        if (node.stats && node.stats.failures > 0) attributes.push('color=red');
+        lines.push(`    ${quoteDot(node.id)} [${attributes.join(', ')}];`);
+    });
+
+    if (graph.edges.some(edge => edge.to === END)) {
+        lines.push(`    ${quoteDot(END)} [shape=doublecircle];`);
+    }
+
+    graph.edges.forEach(edge => {
+        const attributes =
+            edge.kind === 'dependency'
+                ? ['style=dashed', 'label="depends"']
+                : edge.count !== undefined
+                  ? [`label="${edge.count}x"`]
+                  : [];
+        lines.push(
+            `    ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`
+        );
+    });
+
+    lines.push('}');
+    return lines.join('\n');
+};
+
+export const exportWorkflowGraph = (
+    graph: WorkflowGraph,
+    format: WorkflowGraphFormat,
+    name?: string
+): string => {
+    switch (format) {
+        case 'mermaid':
+            return toMermaid(graph);
+        case 'dot':
+            return toDot(graph, name);
+        case 'json':
+        default:
+            return JSON.stringify(graph, null, 2);
+    }
+};
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { Context } from './context';
+import { PersistenceLayer } from './persistence';
+import { MemoryStorageAdapter } from './storage';
+import { createTask } from './task';
+import { InputSchema } from './types';
+
+type ApprovalContext = { plan?: string; approved?: boolean; answer?: string };
+
+const approvalSchema: InputSchema<boolean> = {
+    parse: value => {
+        if (typeof value !== 'boolean') throw new Error('Expected a boolean');
+        return value;
+    },
+};
+
+const createWorkflow = (persistence: PersistenceLayer<any, ApprovalContext>) =>
+    new WorkflowBuilder<any, ApprovalContext>('run-1', {
+        persistence,
+        context: new Context<ApprovalContext>({}),
+    })
+        .addTasks([
+            createTask({
+                name: 'plan',
+                execute: async ({ context }) => context?.set('plan', 'search the docs'),
+                route: () => 'approve',
+            }),
+            createTask({
+                name: 'approve',
+                execute: async ({ context, awaitInput }) => {
+                    const approved = await awaitInput('approval', approvalSchema, {
+                        plan: context?.get('plan'),
+                    });
+                    context?.set('approved', approved);
+                },
+                route: () => 'write',
+            }),
+            createTask({
+                name: 'write',
+                execute: async ({ context }) =>
+                    context?.set('answer', context.get('approved') ? 'done' : 'skipped'),
+                route: () => 'end',
+            }),
+        ])
+        .build();
+
+// Runs until the workflow suspends on approval, then loads it like a later request would
+const suspendAndReload = async () => {
+    const persistence = new PersistenceLayer<any, ApprovalContext>(new MemoryStorageAdapter());
+    const suspended = createWorkflow(persistence);
+    await suspended.start('plan');
+    expect(suspended.isSuspended()).toBe(true);
+
+    return persistence.loadWorkflow('run-1', () => createWorkflow(persistence));
+};
+
+describe('awaitInput', () => {
+    test('suspends the run and persists what it waits for', async () => {
+        const workflow = await suspendAndReload();
+
+        expect(workflow.isSuspended()).toBe(true);
+        expect(workflow.isResumable()).toBe(false);
+        expect(workflow.getAwaitedInputs()).toEqual([
+            expect.objectContaining({
+                key: 'approval',
+                task: 'approve',
+                request: { plan: 'search the docs' },
+            }),
+        ]);
+        expect(workflow.getContext().get('answer')).toBeUndefined();
+    });
+
+    test('continues the run once the input is provided', async () => {
+        const workflow = await suspendAndReload();
+
+        await workflow.provideInput('approval', true);
+
+        expect(workflow.isSuspended()).toBe(false);
+        expect(workflow.getContext().getAll()).toMatchObject({ approved: true, answer: 'done' });
+        expect(workflow.getTaskRunCount('plan')).toBe(1);
+    });
+
+    test('rejects input for a key the run is not waiting for', async () => {
+        const workflow = await suspendAndReload();
+
+        await expect(workflow.provideInput('approved', true)).rejects.toThrow(
+            'Workflow "run-1" is not waiting for input "approved".'
+        );
+        expect(workflow.isSuspended()).toBe(true);
+        expect(workflow.getContext().get('answer')).toBeUndefined();
+    });
+
+    test('fails the task when the input does not match its schema', async () => {
+        const workflow = await suspendAndReload();
+
+        await expect(workflow.provideInput('approval', 'yes')).rejects.toThrow(
+            'Expected a boolean'
+        );
+        expect(workflow.getContext().get('answer')).toBeUndefined();
+    });
+});
@@ -0,0 +1,14 @@
+/**
+ * Thrown by `awaitInput` when the answer hasn't arrived yet. The engine catches it,
+ * keeps the task's route pending and persists the run instead of failing the task,
+ * so tasks must not swallow it in their own try/catch.
+ */
+export class WorkflowSuspendedError extends Error {
+    key: string;
+
+    constructor(key: string) {
+        super(`Workflow suspended until input "${key}" is provided`);
+        this.name = 'WorkflowSuspendedError';
+        this.key = key;
+    }
+}
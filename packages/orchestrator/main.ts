@@ -1,7 +1,22 @@
+export * from './budget';
 export * from './builder';
+export * from './checkpoints';
 export * from './context';
 export * from './engine';
 export * from './events';
 export * from './execution-context';
+export * from './graph';
+export * from './input';
+export * from './map';
+export * from './middleware';
+export * from './migrations';
+export * from './persistence';
+export * from './retry';
+export * from './run-queue';
+export * from './schema';
+export * from './signal';
+export * from './sub-workflow';
 export * from './task';
+export * from './tracer';
 export * from './types';
+export * from './validation';
@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { createMapTask, mapWithConcurrency, MapTaskResult } from './map';
+import { createTask } from './task';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Fails the item 'broken', the others resolve to their upper case after `ms`
+const search = async (query: string, _index: number, signal: AbortSignal, ms = 5) => {
+    if (query === 'broken') throw new Error(`search for "${query}" failed`);
+    await sleep(ms);
+    if (signal.aborted) throw signal.reason;
+    return query.toUpperCase();
+};
+
+describe('mapWithConcurrency', () => {
+    test('keeps at most `concurrency` items in flight and returns results in input order', async () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        const results = await mapWithConcurrency(
+            ['a', 'b', 'c', 'd', 'e'],
+            async (item, index) => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await sleep(5 - index);
+                running--;
+                return item.toUpperCase();
+            },
+            { concurrency: 2 }
+        );
+
+        expect(maxRunning).toBe(2);
+        expect(results.map(result => result.status === 'fulfilled' && result.value)).toEqual([
+            'A',
+            'B',
+            'C',
+            'D',
+            'E',
+        ]);
+    });
+
+    test('throws the first failure and aborts the items still running in fail-fast mode', async () => {
+        const aborted: string[] = [];
+
+        await expect(
+            mapWithConcurrency(
+                ['slow', 'broken', 'never'],
+                async (item, index, signal) => {
+                    signal.addEventListener('abort', () => aborted.push(item));
+                    return search(item, index, signal, 20);
+                },
+                { concurrency: 2 }
+            )
+        ).rejects.toThrow('search for "broken" failed');
+
+        expect(aborted).toEqual(['slow']);
+    });
+
+    test('settles every item and reports failures in best-effort mode', async () => {
+        const results = await mapWithConcurrency(['bun', 'broken', 'node'], search, {
+            mode: 'best-effort',
+        });
+
+        expect(results).toEqual([
+            { index: 0, status: 'fulfilled', value: 'BUN' },
+            { index: 1, status: 'rejected', error: new Error('search for "broken" failed') },
+            { index: 2, status: 'fulfilled', value: 'NODE' },
+        ]);
+    });
+
+    test('retries a failed item on its own', async () => {
+        let attempts = 0;
+        const results = await mapWithConcurrency(
+            ['flaky'],
+            async () => {
+                if (++attempts < 3) throw new Error('503');
+                return 'ok';
+            },
+            { retry: { maxRetries: 2, delayMs: 1, jitter: 0 } }
+        );
+
+        expect(attempts).toBe(3);
+        expect(results).toEqual([{ index: 0, status: 'fulfilled', value: 'ok' }]);
+    });
+
+    test('stops starting items once maxFulfilled succeeded', async () => {
+        const started: string[] = [];
+        const results = await mapWithConcurrency(
+            ['a', 'b', 'c', 'd'],
+            async item => {
+                started.push(item);
+                return item;
+            },
+            { concurrency: 1, maxFulfilled: 2 }
+        );
+
+        expect(started).toEqual(['a', 'b']);
+        expect(results).toHaveLength(2);
+    });
+});
+
+describe('createMapTask', () => {
+    const runMap = async (mode: 'fail-fast' | 'best-effort') => {
+        let joined: MapTaskResult<string> | undefined;
+        const workflow = new WorkflowBuilder('run-1')
+            .addTasks([
+                createMapTask<any, any, string, string>({
+                    name: 'search',
+                    items: () => ['bun', 'broken', 'node'],
+                    execute: (query, index, { signal }) => search(query, index, signal),
+                    mode,
+                    join: 'write',
+                }),
+                createTask({
+                    name: 'write',
+                    execute: async ({ data }) => {
+                        joined = data;
+                    },
+                    route: () => 'end',
+                }),
+            ])
+            .build();
+        await workflow.start('search');
+        return joined;
+    };
+
+    test('joins every outcome in best-effort mode', async () => {
+        expect(await runMap('best-effort')).toEqual({
+            results: ['BUN', undefined, 'NODE'],
+            errors: [{ index: 1, error: 'search for "broken" failed' }],
+        });
+    });
+
+    test('fails the task without reaching the join in fail-fast mode', async () => {
+        await expect(runMap('fail-fast')).rejects.toThrow('search for "broken" failed');
+    });
+});
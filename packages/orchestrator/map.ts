@@ -0,0 +1,208 @@
+import { ContextSchemaDefinition } from './context';
+import { EventSchemaDefinition } from './events';
+import { getRetryDelay, resolveRetryPolicy, waitForRetry } from './retry';
+import { deriveSignal, raceSignal } from './signal';
+import { RetryPolicy, TaskDefinition, TaskExecuteParams } from './types';
+
+// fail-fast stops at the first failed item, best-effort runs every item and reports failures
+export type MapMode = 'fail-fast' | 'best-effort';
+
+export type MapItemResult<R> =
+    | { index: number; status: 'fulfilled'; value: R }
+    | { index: number; status: 'rejected'; error: Error };
+
+export type MapOptions<R = any> = {
+    // Items running at the same time, all of them by default
+    concurrency?: number;
+    mode?: MapMode;
+    signal?: AbortSignal;
+    itemTimeoutMs?: number;
+    // Retries of a single item, separate from the retries of the task running the map
+    retry?: RetryPolicy;
+    // Stop starting new items once this many succeeded
+    maxFulfilled?: number;
+    onItemSettled?: (result: MapItemResult<R>) => void;
+};
+
+const toError = (error: unknown): Error =>
+    error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Run `fn` over the items with at most `concurrency` in flight and return the settled
+ * results in input order. In fail-fast mode the first failure aborts the items still
+ * running and is thrown. In best-effort mode nothing is thrown, and when the signal
+ * aborts the items that never started are left out of the results.
+ */
+export const mapWithConcurrency = async <T, R>(
+    items: T[],
+    fn: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+    {
+        concurrency = items.length,
+        mode = 'fail-fast',
+        signal,
+        itemTimeoutMs,
+        retry,
+        maxFulfilled,
+        onItemSettled,
+    }: MapOptions<R> = {}
+): Promise<MapItemResult<R>[]> => {
+    const results: MapItemResult<R>[] = [];
+    const policy = resolveRetryPolicy({ retry });
+    const stop = new AbortController();
+    const batch = deriveSignal({ signals: [signal, stop.signal] });
+    let nextIndex = 0;
+    let fulfilled = 0;
+    let failure: Error | undefined;
+
+    const runItem = async (index: number): Promise<R> => {
+        let attempt = 0;
+        while (true) {
+            const itemSignal = deriveSignal({
+                signals: [batch.signal],
+                timeoutMs: itemTimeoutMs,
+                timeoutMessage: `⏳ Item ${index} timed out after ${itemTimeoutMs}ms`,
+            });
+            try {
+                return await raceSignal(
+                    fn(items[index], index, itemSignal.signal),
+                    itemSignal.signal
+                );
+            } catch (error) {
+                attempt++;
+                const err = toError(error);
+                if (
+                    attempt > policy.maxRetries ||
+                    batch.signal.aborted ||
+                    !policy.isRetryable(err, attempt)
+                ) {
+                    throw err;
+                }
+                await waitForRetry(getRetryDelay(policy, attempt), batch.signal);
+            } finally {
+                itemSignal.dispose();
+            }
+        }
+    };
+
+    const worker = async () => {
+        while (nextIndex < items.length && !batch.signal.aborted) {
+            if (maxFulfilled !== undefined && fulfilled >= maxFulfilled) return;
+
+            const index = nextIndex++;
+            let result: MapItemResult<R>;
+            try {
+                result = { index, status: 'fulfilled', value: await runItem(index) };
+                fulfilled++;
+            } catch (error) {
+                result = { index, status: 'rejected', error: toError(error) };
+                if (mode === 'fail-fast' && !failure) {
+                    failure = result.error;
+                    stop.abort(failure);
+                }
+            }
+            results.push(result);
+            onItemSettled?.(result);
+        }
+    };
+
+    try {
+        const workers = Math.max(1, Math.min(concurrency, items.length));
+        await Promise.all(Array.from({ length: workers }, worker));
+    } finally {
+        batch.dispose();
+    }
+
+    if (failure) throw failure;
+    if (mode === 'fail-fast' && signal?.aborted) {
+        throw toError(signal.reason ?? new Error('Operation aborted'));
+    }
+
+    return results.sort((a, b) => a.index - b.index);
+};
+
+export type MapTaskResult<R = any> = {
+    // One entry per input item, undefined where the item failed or never ran
+    results: Array<R | undefined>;
+    errors: Array<{ index: number; error: string }>;
+};
+
+export type MapTaskOptions<
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+    T = any,
+    R = any,
+> = Omit<TaskDefinition<TEvent, TContext>, 'execute'> &
+    Omit<MapOptions<R>, 'signal' | 'onItemSettled'> & {
+        items: (params: TaskExecuteParams<TEvent, TContext>) => T[] | Promise<T[]>;
+        execute: (
+            item: T,
+            index: number,
+            params: TaskExecuteParams<TEvent, TContext> & { signal: AbortSignal }
+        ) => Promise<R>;
+        onItemSettled?: (
+            result: MapItemResult<R>,
+            params: TaskExecuteParams<TEvent, TContext>
+        ) => void;
+        // Task that receives the MapTaskResult once every item settled
+        join?: string;
+    };
+
+/**
+ * Fan a task out over a list of items and fan back in to `join`. The task result is a
+ * MapTaskResult, so the join task (or a custom `route`) sees every item's outcome.
+ */
+export const createMapTask = <
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+    T = any,
+    R = any,
+>({
+    items,
+    execute,
+    concurrency,
+    mode,
+    itemTimeoutMs,
+    retry,
+    maxFulfilled,
+    onItemSettled,
+    join,
+    ...taskDef
+}: MapTaskOptions<TEvent, TContext, T, R>): TaskDefinition<TEvent, TContext> => ({
+    ...taskDef,
+    next: taskDef.next ?? (join ? [join] : undefined),
+    route: taskDef.route ?? (join ? () => join : undefined),
+    execute: async (params): Promise<MapTaskResult<R>> => {
+        const list = await items(params);
+        const settled = await mapWithConcurrency(
+            list,
+            (item, index, signal) => execute(item, index, { ...params, signal }),
+            {
+                concurrency,
+                mode,
+                signal: params.signal,
+                itemTimeoutMs,
+                retry,
+                maxFulfilled,
+                onItemSettled: onItemSettled && (result => onItemSettled(result, params)),
+            }
+        );
+
+        const results: Array<R | undefined> = new Array(list.length).fill(undefined);
+        const errors: MapTaskResult<R>['errors'] = [];
+        settled.forEach(result => {
+            if (result.status === 'fulfilled') {
+                results[result.index] = result.value;
+            } else {
+                errors.push({ index: result.index, error: result.error.message });
+            }
+        });
+
+        if (errors.length > 0) {
+            console.warn(
+                `⚠️ Task "${taskDef.name}": ${errors.length}/${list.length} items failed.`
+            );
+        }
+
+        return { results, errors };
+    },
+});
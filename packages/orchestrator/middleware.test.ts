@@ -0,0 +1,158 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { WorkflowMiddleware } from './middleware';
+import { createTask } from './task';
+
+const createWorkflow = (
+    middleware: WorkflowMiddleware[],
+    { fail = false }: { fail?: boolean } = {}
+) => {
+    const executed: string[] = [];
+    const workflow = new WorkflowBuilder('run-1', { middleware })
+        .addTasks([
+            createTask({
+                name: 'search',
+                execute: async () => {
+                    executed.push('search');
+                    if (fail) throw new Error('search backend down');
+                    return 'results';
+                },
+                route: () => 'write',
+            }),
+            createTask({
+                name: 'write',
+                execute: async ({ data }) => {
+                    executed.push('write');
+                    return `report from ${data}`;
+                },
+                route: () => 'end',
+            }),
+            createTask({
+                name: 'reflect',
+                execute: async () => {
+                    executed.push('reflect');
+                },
+                route: () => 'end',
+            }),
+        ])
+        .build();
+    return { workflow, executed };
+};
+
+describe('workflow middleware', () => {
+    test('calls the hooks of every task in order and ends with the run status', async () => {
+        const calls: string[] = [];
+        const logger: WorkflowMiddleware = {
+            beforeTask: ({ taskName, attempt }) => {
+                calls.push(`before ${taskName} #${attempt}`);
+            },
+            afterTask: ({ taskName }) => {
+                calls.push(`after ${taskName}`);
+            },
+            onRoute: ({ taskName, next }) => {
+                calls.push(`route ${taskName} → ${next}`);
+            },
+            onEnd: ({ status }) => {
+                calls.push(`end ${status}`);
+            },
+        };
+
+        await createWorkflow([logger]).workflow.start('search');
+
+        expect(calls).toEqual([
+            'before search #1',
+            'after search',
+            'route search → write',
+            'before write #1',
+            'after write',
+            'route write → end',
+            'end completed',
+        ]);
+    });
+
+    test('skips a task short-circuited by beforeTask and stops at the first that does', async () => {
+        const cache: WorkflowMiddleware = {
+            beforeTask: ({ taskName }) =>
+                taskName === 'search' ? { result: 'cached' } : undefined,
+        };
+        const neverReached: WorkflowMiddleware = {
+            beforeTask: ({ taskName }) => {
+                if (taskName === 'search') throw new Error('should not run');
+            },
+        };
+        const results: string[] = [];
+        const recorder: WorkflowMiddleware = {
+            afterTask: ({ result }) => {
+                results.push(result);
+            },
+        };
+
+        const { workflow, executed } = createWorkflow([cache, neverReached, recorder]);
+        await workflow.start('search');
+
+        expect(executed).toEqual(['write']);
+        expect(results).toEqual(['cached', 'report from cached']);
+    });
+
+    test('replaces results with afterTask and routes with onRoute', async () => {
+        const middleware: WorkflowMiddleware = {
+            afterTask: ({ taskName, result }) =>
+                taskName === 'search' ? { result: `${result}, redacted` } : undefined,
+            onRoute: ({ taskName }) => (taskName === 'search' ? ['write', 'reflect'] : undefined),
+        };
+        let report: string | undefined;
+        const recorder: WorkflowMiddleware = {
+            afterTask: ({ taskName, result }) => {
+                if (taskName === 'write') report = result;
+            },
+        };
+
+        const { workflow, executed } = createWorkflow([middleware, recorder]);
+        await workflow.start('search');
+
+        expect(report).toBe('report from results, redacted');
+        expect(executed.sort()).toEqual(['reflect', 'search', 'write']);
+    });
+
+    test('reports errors and a failed run without failing hooks hiding the error', async () => {
+        const calls: string[] = [];
+        const broken: WorkflowMiddleware = {
+            name: 'broken',
+            onError: () => {
+                throw new Error('metrics backend down');
+            },
+            onEnd: () => {
+                throw new Error('metrics backend down');
+            },
+        };
+        const recorder: WorkflowMiddleware = {
+            onError: ({ taskName, error, willRetry }) => {
+                calls.push(`error ${taskName}: ${error.message} (retry: ${willRetry})`);
+            },
+            onEnd: ({ status, error }) => {
+                calls.push(`end ${status}: ${(error as Error).message}`);
+            },
+        };
+
+        const { workflow } = createWorkflow([broken, recorder], { fail: true });
+
+        await expect(workflow.start('search')).rejects.toThrow('search backend down');
+        expect(calls).toEqual([
+            'error search: search backend down (retry: false)',
+            'end failed: search backend down',
+        ]);
+    });
+
+    test('fails the attempt when afterTask throws', async () => {
+        const validator: WorkflowMiddleware = {
+            afterTask: ({ taskName }) => {
+                if (taskName === 'search') throw new Error('no results');
+            },
+        };
+
+        const { workflow, executed } = createWorkflow([validator]);
+
+        await expect(workflow.start('search')).rejects.toThrow('no results');
+        expect(executed).toEqual(['search']);
+    });
+});
@@ -0,0 +1,155 @@
+import { Context, ContextSchemaDefinition } from './context';
+import { EventSchemaDefinition, TypedEventEmitter } from './events';
+import { ExecutionContext } from './execution-context';
+import { Span } from './tracer';
+import { ParallelTaskRoute, WorkflowConfig } from './types';
+
+// Where a task goes next, in any of the forms tasks and routers can return
+export type TaskRoutes = string | string[] | ParallelTaskRoute[];
+
+export type TaskHookContext<
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+> = {
+    workflowId: string;
+    taskName: string;
+    data?: any;
+    // 1 for the first attempt, incremented on every retry
+    attempt: number;
+    executionContext: ExecutionContext;
+    events?: TypedEventEmitter<TEvent>;
+    context?: Context<TContext>;
+    config?: WorkflowConfig;
+    trace?: Span;
+    signal?: AbortSignal;
+};
+
+export type WorkflowEndStatus = 'completed' | 'suspended' | 'aborted' | 'failed';
+
+export type WorkflowEndContext<
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+> = {
+    workflowId: string;
+    status: WorkflowEndStatus;
+    error?: unknown;
+    executionContext: ExecutionContext;
+    events?: TypedEventEmitter<TEvent>;
+    context?: Context<TContext>;
+};
+
+/**
+ * Hooks around every task of a workflow, for concerns like logging, metrics, caching or
+ * validation that would otherwise be repeated in each task. Middleware runs in the order
+ * it was registered, and hooks may be async.
+ */
+export type WorkflowMiddleware<
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+> = {
+    name?: string;
+    // Return `{ result }` to skip the task, e.g. on a cache hit. `next` routes it directly,
+    // otherwise the task's router runs on the result
+    beforeTask?: (
+        hook: TaskHookContext<TEvent, TContext>
+    ) => void | TaskShortCircuit | Promise<void | TaskShortCircuit>;
+    // Return `{ result }` to replace what the task returned. Throwing fails the attempt
+    afterTask?: (
+        hook: TaskHookContext<TEvent, TContext> & { result: any; durationMs: number }
+    ) => void | { result: any } | Promise<void | { result: any }>;
+    // Return routes, or 'end', to replace where the task goes next
+    onRoute?: (
+        hook: TaskHookContext<TEvent, TContext> & { result: any; next?: TaskRoutes }
+    ) => void | TaskRoutes | Promise<void | TaskRoutes>;
+    // Called on every failed attempt, before the retry policy and the task's onError
+    onError?: (
+        hook: TaskHookContext<TEvent, TContext> & { error: Error; willRetry: boolean }
+    ) => void | Promise<void>;
+    // Called when the last active run settles, including when it suspends on input
+    onEnd?: (hook: WorkflowEndContext<TEvent, TContext>) => void | Promise<void>;
+};
+
+export type TaskShortCircuit = {
+    result: any;
+    next?: TaskRoutes;
+};
+
+export class MiddlewarePipeline<
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+> {
+    private middleware: WorkflowMiddleware<TEvent, TContext>[];
+
+    constructor(middleware: WorkflowMiddleware<TEvent, TContext>[] = []) {
+        this.middleware = [...middleware];
+    }
+
+    use(middleware: WorkflowMiddleware<TEvent, TContext>) {
+        this.middleware.push(middleware);
+        return this;
+    }
+
+    // The first middleware that short-circuits wins, the ones after it don't run
+    async beforeTask(hook: TaskHookContext<TEvent, TContext>): Promise<TaskShortCircuit | void> {
+        for (const middleware of this.middleware) {
+            const shortCircuit = await middleware.beforeTask?.(hook);
+            if (shortCircuit && 'result' in shortCircuit) {
+                return shortCircuit;
+            }
+        }
+    }
+
+    async afterTask(
+        hook: TaskHookContext<TEvent, TContext> & { result: any; durationMs: number }
+    ): Promise<any> {
+        let result = hook.result;
+        for (const middleware of this.middleware) {
+            const replaced = await middleware.afterTask?.({ ...hook, result });
+            if (replaced && 'result' in replaced) {
+                result = replaced.result;
+            }
+        }
+        return result;
+    }
+
+    async onRoute(
+        hook: TaskHookContext<TEvent, TContext> & { result: any; next?: TaskRoutes }
+    ): Promise<TaskRoutes | undefined> {
+        let next = hook.next;
+        for (const middleware of this.middleware) {
+            const rewritten = await middleware.onRoute?.({ ...hook, next });
+            if (rewritten !== undefined) {
+                next = rewritten;
+            }
+        }
+        return next;
+    }
+
+    private getName(middleware: WorkflowMiddleware<TEvent, TContext>) {
+        return middleware.name || `middleware #${this.middleware.indexOf(middleware) + 1}`;
+    }
+
+    // Failing error and end hooks are logged, they must not hide the original outcome
+    async onError(hook: TaskHookContext<TEvent, TContext> & { error: Error; willRetry: boolean }) {
+        for (const middleware of this.middleware) {
+            try {
+                await middleware.onError?.(hook);
+            } catch (error) {
+                console.error(
+                    `❌ onError of ${this.getName(middleware)} failed for task "${hook.taskName}":`,
+                    error
+                );
+            }
+        }
+    }
+
+    async onEnd(hook: WorkflowEndContext<TEvent, TContext>) {
+        for (const middleware of this.middleware) {
+            try {
+                await middleware.onEnd?.(hook);
+            } catch (error) {
+                console.error(`❌ onEnd of ${this.getName(middleware)} failed:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { Context } from './context';
+import {
+    renameTaskInSnapshot,
+    updateContextInSnapshot,
+    WorkflowMigration,
+    WorkflowMigrationError,
+    WorkflowMigrationRegistry,
+    WorkflowVersionError,
+} from './migrations';
+import { PersistenceLayer, WorkflowPersistenceData } from './persistence';
+import { MemoryStorageAdapter } from './storage';
+import { createTask } from './task';
+
+const snapshot = (version?: number): WorkflowPersistenceData<any, any> => ({
+    id: 'run-1',
+    version,
+    workflowState: {
+        completedTasks: ['plan'],
+        runningTasks: [],
+        taskData: [['plan', 'the plan']],
+        pendingTasks: [{ id: 'route-1', task: 'quickSearch', from: 'plan' }],
+        inputs: [],
+        awaitedInputs: [],
+    },
+    eventState: {},
+    contextState: { query: 'bun' },
+    taskTimings: { plan: [] },
+    executionCounts: { plan: 1, quickSearch: 2 },
+    workflowConfig: {},
+    lastUpdated: new Date().toISOString(),
+});
+
+const migrations: WorkflowMigration[] = [
+    {
+        from: 1,
+        description: 'quickSearch was renamed to quick-search',
+        migrate: data => renameTaskInSnapshot(data, 'quickSearch', 'quick-search'),
+    },
+    {
+        from: 2,
+        migrate: data =>
+            updateContextInSnapshot(data, ({ query, ...context }) => ({
+                ...context,
+                question: query,
+            })),
+    },
+];
+
+describe('WorkflowMigrationRegistry', () => {
+    test('migrates an unversioned snapshot one version at a time', () => {
+        const migrated = new WorkflowMigrationRegistry(migrations).migrate(snapshot(), 3);
+
+        expect(migrated.version).toBe(3);
+        expect(migrated.workflowState.pendingTasks).toEqual([
+            { id: 'route-1', task: 'quick-search', from: 'plan' },
+        ]);
+        expect(migrated.executionCounts).toEqual({ plan: 1, 'quick-search': 2 });
+        expect(migrated.contextState).toEqual({ question: 'bun' });
+    });
+
+    test('leaves a snapshot at the current version as it is', () => {
+        const data = snapshot(3);
+
+        expect(new WorkflowMigrationRegistry(migrations).migrate(data, 3)).toBe(data);
+    });
+
+    test('rejects a snapshot saved by a newer version', () => {
+        const migrate = () => new WorkflowMigrationRegistry(migrations).migrate(snapshot(4), 3);
+
+        expect(migrate).toThrow(WorkflowVersionError);
+        expect(migrate).toThrow('was saved by version 4, but this code is at version 3');
+    });
+
+    test('rejects a snapshot no migration is registered for', () => {
+        expect(() =>
+            new WorkflowMigrationRegistry([migrations[1]]).migrate(snapshot(1), 3)
+        ).toThrow(WorkflowMigrationError);
+    });
+
+    test('wraps a migration that throws', () => {
+        const registry = new WorkflowMigrationRegistry([
+            {
+                from: 1,
+                migrate: () => {
+                    throw new Error('context is missing');
+                },
+            },
+        ]);
+
+        expect(() => registry.migrate(snapshot(1), 2)).toThrow(
+            'Migrating workflow "run-1" from version 1 failed: context is missing'
+        );
+    });
+
+    test('refuses two migrations from the same version', () => {
+        expect(() => new WorkflowMigrationRegistry([migrations[0], migrations[0]])).toThrow(
+            'A migration from version 1 is already registered.'
+        );
+    });
+});
+
+describe('loading saved runs of another version', () => {
+    const createWorkflow = (
+        persistence: PersistenceLayer<any, any>,
+        version: number,
+        ran: string[] = []
+    ) =>
+        new WorkflowBuilder('run-1', {
+            persistence,
+            version,
+            migrations: migrations.slice(0, 1),
+            context: new Context<any>({}),
+        })
+            .addTask(
+                createTask({
+                    name: 'quick-search',
+                    execute: async () => {
+                        ran.push('quick-search');
+                    },
+                    route: () => 'end',
+                })
+            )
+            .build();
+
+    test('resumes a run saved before a task was renamed', async () => {
+        const storage = new MemoryStorageAdapter();
+        const persistence = new PersistenceLayer<any, any>(storage);
+        await storage.save('workflow:run-1', snapshot(1));
+
+        const ran: string[] = [];
+        const workflow = await persistence.resumeWorkflow('run-1', () =>
+            createWorkflow(persistence, 2, ran)
+        );
+
+        expect(ran).toEqual(['quick-search']);
+        expect(workflow.getTaskRunCount('quick-search')).toBe(3);
+        expect((await persistence.listWorkflows())[0].version).toBe(2);
+    });
+
+    test('refuses a run saved by a newer version', async () => {
+        const storage = new MemoryStorageAdapter();
+        const persistence = new PersistenceLayer<any, any>(storage);
+        await storage.save('workflow:run-1', snapshot(3));
+
+        await expect(
+            persistence.loadWorkflow('run-1', () => createWorkflow(persistence, 2))
+        ).rejects.toBeInstanceOf(WorkflowVersionError);
+    });
+});
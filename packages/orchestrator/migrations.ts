@@ -0,0 +1,155 @@
+import { WorkflowPersistenceData } from './persistence';
+
+// Workflows that don't declare a version, and snapshots saved before versioning, are at 1
+export const DEFAULT_WORKFLOW_VERSION = 1;
+
+/**
+ * Upgrades a snapshot from `from` to `from + 1`. Bump the workflow version whenever a
+ * task is renamed or the context or event shape changes, and register the step here.
+ */
+export type WorkflowMigration = {
+    from: number;
+    description?: string;
+    migrate: (data: WorkflowPersistenceData<any, any>) => WorkflowPersistenceData<any, any>;
+};
+
+export class WorkflowVersionError extends Error {
+    snapshotVersion: number;
+    codeVersion: number;
+
+    constructor(id: string, snapshotVersion: number, codeVersion: number) {
+        super(
+            `Workflow "${id}" was saved by version ${snapshotVersion}, but this code is at version ${codeVersion}. It can't be restored until the code is updated.`
+        );
+        this.name = 'WorkflowVersionError';
+        this.snapshotVersion = snapshotVersion;
+        this.codeVersion = codeVersion;
+    }
+}
+
+export class WorkflowMigrationError extends Error {
+    version: number;
+
+    constructor(id: string, version: number, cause?: unknown) {
+        super(
+            cause
+                ? `Migrating workflow "${id}" from version ${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`
+                : `Workflow "${id}" can't be migrated from version ${version}, no migration is registered for it.`
+        );
+        this.name = 'WorkflowMigrationError';
+        this.version = version;
+    }
+}
+
+export class WorkflowMigrationRegistry {
+    private migrations: Map<number, WorkflowMigration> = new Map();
+
+    constructor(migrations: WorkflowMigration[] = []) {
+        migrations.forEach(migration => this.register(migration));
+    }
+
+    register(migration: WorkflowMigration) {
+        if (this.migrations.has(migration.from)) {
+            throw new Error(`A migration from version ${migration.from} is already registered.`);
+        }
+        this.migrations.set(migration.from, migration);
+        return this;
+    }
+
+    /**
+     * Upgrade a snapshot one version at a time until it reaches `version`. Throws a
+     * WorkflowVersionError when the snapshot is newer than the code.
+     */
+    migrate(
+        data: WorkflowPersistenceData<any, any>,
+        version: number
+    ): WorkflowPersistenceData<any, any> {
+        let current = data.version ?? DEFAULT_WORKFLOW_VERSION;
+        if (current > version) {
+            throw new WorkflowVersionError(data.id, current, version);
+        }
+
+        let migrated = data;
+        while (current < version) {
+            const migration = this.migrations.get(current);
+            if (!migration) {
+                throw new WorkflowMigrationError(data.id, current);
+            }
+
+            console.log(
+                `🔁 Migrating workflow "${data.id}" from version ${current} to ${current + 1}${migration.description ? `: ${migration.description}` : ''}.`
+            );
+            try {
+                migrated = { ...migration.migrate(migrated), version: current + 1 };
+            } catch (error) {
+                throw new WorkflowMigrationError(data.id, current, error);
+            }
+            current++;
+        }
+        return migrated;
+    }
+}
+
+const renameIn = (names: string[] = [], from: string, to: string) =>
+    names.map(name => (name === from ? to : name));
+
+const renameKey = <T>(record: Record<string, T> = {}, from: string, to: string) => {
+    const renamed: Record<string, T> = {};
+    Object.keys(record).forEach(key => {
+        renamed[key === from ? to : key] = record[key];
+    });
+    return renamed;
+};
+
+// Rewrites every reference to a task: completion, pending routes, inputs, counts and usage
+export const renameTaskInSnapshot = (
+    data: WorkflowPersistenceData<any, any>,
+    from: string,
+    to: string
+): WorkflowPersistenceData<any, any> => {
+    const state = data.workflowState;
+    return {
+        ...data,
+        workflowState: state && {
+            ...state,
+            completedTasks: renameIn(state.completedTasks, from, to),
+            runningTasks: renameIn(state.runningTasks, from, to),
+            taskData: (state.taskData || []).map(([task, value]) => [
+                task === from ? to : task,
+                value,
+            ]),
+            pendingTasks: (state.pendingTasks || []).map(pending => ({
+                ...pending,
+                task: pending.task === from ? to : pending.task,
+                from: pending.from === from ? to : pending.from,
+            })),
+            awaitedInputs: (state.awaitedInputs || []).map(input => ({
+                ...input,
+                task: input.task === from ? to : input.task,
+            })),
+        },
+        taskTimings: renameKey(data.taskTimings, from, to),
+        executionCounts: renameKey(data.executionCounts, from, to),
+        usageRecords: data.usageRecords?.map(record => ({
+            ...record,
+            taskName: record.taskName === from ? to : record.taskName,
+        })),
+    };
+};
+
+// The context is stored serialized, `update` receives and returns the stored form
+export const updateContextInSnapshot = (
+    data: WorkflowPersistenceData<any, any>,
+    update: (contextState: Record<string, any>) => Record<string, any>
+): WorkflowPersistenceData<any, any> => ({
+    ...data,
+    contextState: update({ ...(data.contextState || {}) }),
+});
+
+export const updateEventsInSnapshot = (
+    data: WorkflowPersistenceData<any, any>,
+    update: (eventState: Record<string, any>) => Record<string, any>
+): WorkflowPersistenceData<any, any> => ({
+    ...data,
+    eventState: update({ ...(data.eventState || {}) }),
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { Context } from './context';
+import { deserializeWorkflowState, PersistenceLayer, serializeWorkflowState } from './persistence';
+import { MemoryStorageAdapter } from './storage';
+import { createTask } from './task';
+import { WorkflowState } from './types';
+
+type TestContext = { visited: Set<string> };
+
+// Tasks listed in `hang` never settle, standing in for a process killed while they run
+const createWorkflow = (
+    persistence: PersistenceLayer<any, TestContext>,
+    { hang = [], ran }: { hang?: string[]; ran: string[] }
+) => {
+    const run =
+        (name: string) =>
+        async ({ context }: any) => {
+            ran.push(name);
+            context?.update('visited', (visited: Set<string>) => new Set(visited).add(name));
+            if (hang.includes(name)) {
+                await new Promise(() => {});
+            }
+            return name;
+        };
+
+    return new WorkflowBuilder<any, TestContext>('run-1', {
+        persistence,
+        context: new Context<TestContext>({ visited: new Set() }),
+    })
+        .addTasks([
+            createTask({ name: 'plan', execute: run('plan'), route: () => ['search', 'read'] }),
+            createTask({ name: 'search', execute: run('search'), route: () => 'write' }),
+            createTask({ name: 'read', execute: run('read'), route: () => 'end' }),
+            createTask({ name: 'write', execute: run('write'), route: () => 'end' }),
+        ])
+        .build();
+};
+
+// Starts a run and returns once it hangs in every task of `hang`
+const crashIn = async (persistence: PersistenceLayer<any, TestContext>, hang: string[]) => {
+    const ran: string[] = [];
+    createWorkflow(persistence, { hang, ran }).start('plan');
+    while (!hang.every(task => ran.includes(task))) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+describe('resuming a saved run', () => {
+    test('continues from the tasks that were routed to but not completed', async () => {
+        const persistence = new PersistenceLayer<any, TestContext>(new MemoryStorageAdapter());
+        await crashIn(persistence, ['search', 'read']);
+
+        const ran: string[] = [];
+        const workflow = await persistence.resumeWorkflow('run-1', () =>
+            createWorkflow(persistence, { ran })
+        );
+
+        expect(ran.sort()).toEqual(['read', 'search', 'write']);
+        expect(workflow.isResumable()).toBe(false);
+    });
+
+    test('leaves parallel branches that completed before the crash out', async () => {
+        const persistence = new PersistenceLayer<any, TestContext>(new MemoryStorageAdapter());
+        await crashIn(persistence, ['search']);
+        // Let the read branch settle and be saved while search hangs
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        const ran: string[] = [];
+        const workflow = await persistence.loadWorkflow('run-1', () =>
+            createWorkflow(persistence, { ran })
+        );
+        expect(workflow.isResumable()).toBe(true);
+
+        await workflow.resume();
+
+        expect(ran).toEqual(['search', 'write']);
+        expect(workflow.getTaskRunCount('read')).toBe(1);
+        expect(workflow.getContext().get('visited')).toBeInstanceOf(Set);
+        expect(Array.from(workflow.getContext().get('visited')).sort()).toEqual([
+            'plan',
+            'read',
+            'search',
+            'write',
+        ]);
+    });
+});
+
+describe('serializeWorkflowState', () => {
+    test('round-trips Sets and Maps through JSON', () => {
+        const state: WorkflowState = {
+            completedTasks: new Set(['plan']),
+            runningTasks: new Set(['search']),
+            taskData: new Map<string, any>([
+                ['plan', { queries: new Set(['bun']), at: new Date('2025-01-01T00:00:00Z') }],
+            ]),
+            pendingTasks: new Map([
+                ['route-1', { id: 'route-1', task: 'search', data: new Map([['q', 'bun']]) }],
+            ]),
+            inputs: new Map([['approve', true]]),
+            awaitedInputs: new Map(),
+        };
+
+        const restored = deserializeWorkflowState(
+            JSON.parse(JSON.stringify(serializeWorkflowState(state)))
+        );
+
+        expect(restored).toEqual(state);
+        expect(restored.taskData.get('plan').queries).toBeInstanceOf(Set);
+        expect(restored.pendingTasks.get('route-1')?.data).toBeInstanceOf(Map);
+    });
+});
@@ -1,57 +1,187 @@
-import { WorkflowConfig } from './types';
+import { WorkflowCheckpoint } from './checkpoints';
+import { DEFAULT_WORKFLOW_VERSION } from './migrations';
+import { deserializeState, serializeState } from './schema';
+import { AwaitedInput, PendingTask, UsageRecord, WorkflowConfig, WorkflowState } from './types';
 
-type PersistentStorageAdapter = {
-    save(key: string, data: any): Promise<void>;
+export type StorageSaveOptions = {
+    // Entries older than this are treated as missing and cleaned up by the adapter
+    ttlMs?: number;
+};
+
+// What `list` knows of an entry without loading its data, times are epoch ms
+export type StorageListEntry = {
+    key: string;
+    updatedAt: number;
+    expiresAt?: number;
+};
+
+export type PersistentStorageAdapter = {
+    save(key: string, data: any, options?: StorageSaveOptions): Promise<void>;
     load(key: string): Promise<any | null>;
     delete(key: string): Promise<void>;
     exists(key: string): Promise<boolean>;
+    // Entries that have not expired, in no particular order
+    list(prefix?: string): Promise<StorageListEntry[]>;
+};
+
+export type PersistenceOptions = {
+    ttlMs?: number;
+};
+
+export type WorkflowSummary = {
+    id: string;
+    lastUpdated: string;
+    version: number;
+    pendingTasks: string[];
+    // Keys of `awaitInput` requests the run is suspended on
+    awaitingInput: string[];
+    resumable: boolean;
+};
+
+// Sets and Maps serialize to {} with JSON.stringify, so the state is stored as plain arrays
+export type SerializedWorkflowState = {
+    completedTasks: string[];
+    runningTasks: string[];
+    taskData: [string, any][];
+    pendingTasks: PendingTask[];
+    inputs: [string, any][];
+    awaitedInputs: AwaitedInput[];
 };
 
-type WorkflowPersistenceData<TEvent, TContext> = {
+export type WorkflowPersistenceData<TEvent, TContext> = {
     id: string;
-    workflowState: any;
+    // Version of the workflow definition that saved it, 1 when missing
+    version?: number;
+    workflowState: SerializedWorkflowState;
     eventState: any;
+    // Sequence number of the last event, so numbering continues after a restore
+    eventSeq?: number;
     contextState: any;
     taskTimings: Record<string, any[]>;
     executionCounts: Record<string, number>;
+    usageRecords?: UsageRecord[];
     workflowConfig: WorkflowConfig;
     lastUpdated: string;
 };
 
+const STORAGE_KEY_PREFIX = 'workflow:';
+const CHECKPOINT_KEY_PREFIX = 'checkpoint:';
+
+export const serializeWorkflowState = (state: WorkflowState): SerializedWorkflowState => ({
+    completedTasks: Array.from(state.completedTasks),
+    runningTasks: Array.from(state.runningTasks),
+    taskData: serializeState(Array.from(state.taskData.entries())),
+    pendingTasks: serializeState(Array.from(state.pendingTasks.values())),
+    inputs: serializeState(Array.from(state.inputs.entries())),
+    awaitedInputs: serializeState(Array.from(state.awaitedInputs.values())),
+});
+
+export const deserializeWorkflowState = (
+    data?: Partial<SerializedWorkflowState>
+): WorkflowState => ({
+    completedTasks: new Set(Array.isArray(data?.completedTasks) ? data.completedTasks : []),
+    runningTasks: new Set(Array.isArray(data?.runningTasks) ? data.runningTasks : []),
+    taskData: new Map(Array.isArray(data?.taskData) ? deserializeState(data.taskData) : []),
+    pendingTasks: new Map(
+        (Array.isArray(data?.pendingTasks) ? deserializeState(data.pendingTasks) : []).map(
+            (pending: PendingTask) => [pending.id, pending]
+        )
+    ),
+    inputs: new Map(Array.isArray(data?.inputs) ? deserializeState(data.inputs) : []),
+    awaitedInputs: new Map(
+        (Array.isArray(data?.awaitedInputs) ? deserializeState(data.awaitedInputs) : []).map(
+            (input: AwaitedInput) => [input.key, input]
+        )
+    ),
+});
+
+export const createWorkflowSnapshot = <TEvent = any, TContext = any>(
+    id: string,
+    engine: any
+): WorkflowPersistenceData<TEvent, TContext> => {
+    const executionContext = engine.executionContext;
+    const events = engine.getEvents();
+    const context = engine.getContext();
+    return {
+        id,
+        version: engine.getVersion?.() ?? DEFAULT_WORKFLOW_VERSION,
+        workflowState: serializeWorkflowState(executionContext.state),
+        eventState: events?.serializeState() || {},
+        eventSeq: events?.getSequence(),
+        contextState: context?.serialize() || {},
+        taskTimings: executionContext.taskTimings
+            ? Object.fromEntries(executionContext.taskTimings)
+            : {},
+        executionCounts: executionContext.getAllTaskRunCounts(),
+        usageRecords: executionContext.getUsageRecords(),
+        workflowConfig: engine.getConfig() || {},
+        lastUpdated: new Date().toISOString(),
+    };
+};
+
+// Copies what it restores, so a frozen checkpoint snapshot can be restored as well
+export const restoreWorkflowSnapshot = (engine: any, data: any) => {
+    engine.executionContext.state = deserializeWorkflowState(data.workflowState);
+    engine.executionContext.taskExecutionCounts = new Map(Object.entries(data.executionCounts));
+    if (data.taskTimings) {
+        engine.executionContext.taskTimings = new Map(
+            Object.entries(data.taskTimings).map(([task, timings]) => [
+                task,
+                [...(timings as any[])],
+            ])
+        );
+    }
+    if (Array.isArray(data.usageRecords)) {
+        engine.executionContext.usageRecords = [...data.usageRecords];
+    }
+    const context = engine.getContext();
+    if (context && data.contextState) {
+        context.restore(data.contextState);
+    }
+    const events = engine.getEvents();
+    if (events && data.eventState) {
+        events.restoreState(data.eventState, data.eventSeq);
+    }
+};
+
 export class PersistenceLayer<TEvent, TContext> {
     private storage: PersistentStorageAdapter;
+    private options: PersistenceOptions;
 
-    constructor(storage: PersistentStorageAdapter) {
+    constructor(storage: PersistentStorageAdapter, options: PersistenceOptions = {}) {
         this.storage = storage;
+        this.options = options;
     }
 
     async saveWorkflow(id: string, engine: any): Promise<void> {
-        const executionContext = engine.executionContext;
-        const events = engine.getEvents();
-        const context = engine.getContext();
-        const data: WorkflowPersistenceData<TEvent, TContext> = {
-            id,
-            workflowState: executionContext.state,
-            eventState: events?.getAllState() || {},
-            contextState: context?.getAll() || {},
-            taskTimings: executionContext.taskTimings
-                ? Object.fromEntries(executionContext.taskTimings)
-                : {},
-            executionCounts: executionContext.getAllTaskRunCounts(),
-            workflowConfig: engine.getConfig() || {},
-            lastUpdated: new Date().toISOString(),
-        };
-        await this.storage.save(this.getStorageKey(id), data);
+        const data = createWorkflowSnapshot<TEvent, TContext>(id, engine);
+        await this.storage.save(this.getStorageKey(id), data, { ttlMs: this.options.ttlMs });
     }
 
+    /**
+     * Rebuild a workflow and restore its snapshot. The factory may return a builder
+     * or an engine it has already built and wired up. Snapshots saved by an older
+     * version of the workflow are migrated first, newer ones throw a WorkflowVersionError.
+     */
     async loadWorkflow(id: string, builderFactory: () => any): Promise<any> {
         const exists = await this.storage.exists(this.getStorageKey(id));
         if (!exists) return null;
         const data = await this.storage.load(this.getStorageKey(id));
         if (!data) return null;
-        const builder = builderFactory();
-        const engine = builder.build();
-        this.restoreEngineState(engine, data);
+        const built = builderFactory();
+        const engine = typeof built?.build === 'function' ? built.build() : built;
+        restoreWorkflowSnapshot(engine, engine.migrateSnapshot(data));
+        return engine;
+    }
+
+    /**
+     * Load a workflow and continue it from the tasks that were routed to but never completed.
+     * Returns null when there is no snapshot for the given id.
+     */
+    async resumeWorkflow(id: string, builderFactory: () => any): Promise<any> {
+        const engine = await this.loadWorkflow(id, builderFactory);
+        if (!engine) return null;
+        await engine.resume();
         return engine;
     }
 
@@ -59,29 +189,85 @@ export class PersistenceLayer<TEvent, TContext> {
         await this.storage.delete(this.getStorageKey(id));
     }
 
+    async saveCheckpoint(checkpoint: WorkflowCheckpoint): Promise<void> {
+        await this.storage.save(
+            `${this.getCheckpointPrefix(checkpoint.workflowId)}${checkpoint.id}`,
+            checkpoint,
+            { ttlMs: this.options.ttlMs }
+        );
+    }
+
+    async loadCheckpoint(
+        workflowId: string,
+        checkpointId: string
+    ): Promise<WorkflowCheckpoint | null> {
+        return this.storage.load(`${this.getCheckpointPrefix(workflowId)}${checkpointId}`);
+    }
+
+    // Oldest first
+    async listCheckpoints(workflowId: string): Promise<WorkflowCheckpoint[]> {
+        const entries = await this.storage.list(this.getCheckpointPrefix(workflowId));
+        const checkpoints: WorkflowCheckpoint[] = [];
+        for (const { key } of entries) {
+            const checkpoint: WorkflowCheckpoint | null = await this.storage.load(key);
+            if (checkpoint) checkpoints.push(checkpoint);
+        }
+        return checkpoints.sort(
+            (a, b) =>
+                a.createdAt.localeCompare(b.createdAt) || (a.sequence ?? 0) - (b.sequence ?? 0)
+        );
+    }
+
+    async deleteCheckpoints(workflowId: string): Promise<void> {
+        const entries = await this.storage.list(this.getCheckpointPrefix(workflowId));
+        await Promise.all(entries.map(({ key }) => this.storage.delete(key)));
+    }
+
     async exists(id: string): Promise<boolean> {
         return this.storage.exists(this.getStorageKey(id));
     }
 
+    /**
+     * List persisted workflows, e.g. to find interrupted runs to resume or stale ones to delete.
+     */
+    async listWorkflows({
+        updatedBefore,
+        resumable,
+    }: { updatedBefore?: Date; resumable?: boolean } = {}): Promise<WorkflowSummary[]> {
+        const entries = await this.storage.list(STORAGE_KEY_PREFIX);
+        const summaries: WorkflowSummary[] = [];
+
+        for (const { key } of entries) {
+            const data: WorkflowPersistenceData<TEvent, TContext> | null =
+                await this.storage.load(key);
+            if (!data) continue;
+
+            const pending = data.workflowState?.pendingTasks || [];
+            const awaitedInputs = data.workflowState?.awaitedInputs || [];
+            const awaitedRoutes = new Set(awaitedInputs.map(input => input.routeId));
+            const summary: WorkflowSummary = {
+                id: data.id ?? key.slice(STORAGE_KEY_PREFIX.length),
+                lastUpdated: data.lastUpdated,
+                version: data.version ?? DEFAULT_WORKFLOW_VERSION,
+                pendingTasks: pending.map(p => p.task),
+                awaitingInput: awaitedInputs.map(input => input.key),
+                // Runs suspended on input only continue once the input arrives
+                resumable: pending.some(p => !awaitedRoutes.has(p.id)),
+            };
+
+            if (updatedBefore && new Date(summary.lastUpdated) >= updatedBefore) continue;
+            if (resumable !== undefined && summary.resumable !== resumable) continue;
+            summaries.push(summary);
+        }
+
+        return summaries;
+    }
+
     private getStorageKey(id: string): string {
-        return `workflow:${id}`;
+        return `${STORAGE_KEY_PREFIX}${id}`;
     }
 
-    private restoreEngineState(engine: any, data: any) {
-        engine.executionContext.state = data.workflowState;
-        engine.executionContext.taskExecutionCounts = new Map(Object.entries(data.executionCounts));
-        if (data.taskTimings) {
-            engine.executionContext.taskTimings = new Map(Object.entries(data.taskTimings));
-        }
-        const context = engine.getContext();
-        if (context && data.contextState) {
-            context.merge(data.contextState);
-        }
-        const events = engine.getEvents();
-        if (events && data.eventState) {
-            Object.entries(data.eventState).forEach(([key, value]) => {
-                events.emit(key, value);
-            });
-        }
+    private getCheckpointPrefix(workflowId: string): string {
+        return `${CHECKPOINT_KEY_PREFIX}${workflowId}:`;
     }
 }
@@ -0,0 +1,71 @@
+import { QueuedRun, RunLogEntry, RunQueueAdapter } from '../run-queue';
+import { isExpired } from '../storage/utils';
+
+/**
+ * In-process queue, for a long-running server or local development. Runs and logs
+ * are lost on restart and only visible to the process that holds the adapter.
+ */
+export class MemoryQueueAdapter implements RunQueueAdapter {
+    private runs: QueuedRun[] = [];
+    // Popped runs not acked yet, they share one lease like the runs of a Redis worker
+    private held: QueuedRun[] = [];
+    private leaseExpiresAt?: number;
+    private logs: Map<string, { entries: RunLogEntry[]; expiresAt?: number }> = new Map();
+
+    async push(run: QueuedRun): Promise<void> {
+        this.runs.push(run);
+    }
+
+    async pop({ leaseMs }: { leaseMs: number }): Promise<QueuedRun | null> {
+        const run = this.runs.shift();
+        if (!run) return null;
+        this.held.push(run);
+        await this.renew(leaseMs);
+        return run;
+    }
+
+    async renew(leaseMs: number): Promise<void> {
+        this.leaseExpiresAt = Date.now() + leaseMs;
+    }
+
+    async ack(run: QueuedRun): Promise<void> {
+        this.held = this.held.filter(held => held.runId !== run.runId);
+    }
+
+    async reclaim(): Promise<number> {
+        if (!this.held.length || !isExpired(this.leaseExpiresAt)) return 0;
+        const reclaimed = this.held;
+        this.held = [];
+        this.runs.unshift(...reclaimed);
+        return reclaimed.length;
+    }
+
+    async size(): Promise<number> {
+        return this.runs.length;
+    }
+
+    async append(runId: string, data: any, options?: { ttlMs?: number }): Promise<number> {
+        const log = this.getLog(runId) || {
+            entries: [],
+            // Like Redis, the log expires relative to its first entry
+            expiresAt: options?.ttlMs ? Date.now() + options.ttlMs : undefined,
+        };
+        const index = log.entries.length;
+        log.entries.push({ index, timestamp: Date.now(), data });
+        this.logs.set(runId, log);
+        return index;
+    }
+
+    async read(runId: string, fromIndex: number = 0): Promise<RunLogEntry[]> {
+        return (this.getLog(runId)?.entries || []).slice(fromIndex);
+    }
+
+    private getLog(runId: string) {
+        const log = this.logs.get(runId);
+        if (log && isExpired(log.expiresAt)) {
+            this.logs.delete(runId);
+            return undefined;
+        }
+        return log;
+    }
+}
@@ -0,0 +1,156 @@
+import { QueuedRun, RunLogEntry, RunQueueAdapter } from '../run-queue';
+
+// The subset of the `@vercel/kv` / `@upstash/redis` client this adapter needs
+export type RedisQueueClient = {
+    rpush(key: string, ...values: string[]): Promise<number>;
+    lmove<T = any>(
+        source: string,
+        destination: string,
+        whereFrom: 'left' | 'right',
+        whereTo: 'left' | 'right'
+    ): Promise<T | null>;
+    lrem(key: string, count: number, value: string): Promise<number>;
+    llen(key: string): Promise<number>;
+    lrange<T = any>(key: string, start: number, end: number): Promise<T[]>;
+    pexpire(key: string, milliseconds: number): Promise<number>;
+    set(key: string, value: string, options: { px: number }): Promise<any>;
+    exists(...keys: string[]): Promise<number>;
+    sadd(key: string, ...members: string[]): Promise<number>;
+    srem(key: string, ...members: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+};
+
+type StoredLogEntry = {
+    timestamp: number;
+    data: any;
+};
+
+// Upstash deserializes JSON values automatically
+const parse = <T>(value: any): T => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const createWorkerId = () =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Redis lists for the queue and the progress logs, so runs submitted by one serverless
+ * function are picked up by whichever worker pops them next. LMOVE atomically hands a run
+ * to a single worker and keeps it in that worker's list until it is acked. Each adapter
+ * is one worker, whose lease key is set before it takes a run, so its list is only
+ * reclaimed once the worker stopped renewing the lease.
+ */
+export class RedisQueueAdapter implements RunQueueAdapter {
+    private client: RedisQueueClient;
+    private namespace: string;
+    private workerId = createWorkerId();
+    // Runs this worker holds and when its lease runs out, as far as this process knows
+    private heldRuns = 0;
+    private leaseExpiresAt = 0;
+
+    constructor({
+        client,
+        namespace = 'orchestrator',
+    }: {
+        client: RedisQueueClient;
+        namespace?: string;
+    }) {
+        this.client = client;
+        this.namespace = namespace;
+    }
+
+    async push(run: QueuedRun): Promise<void> {
+        await this.client.rpush(this.getQueueKey(), JSON.stringify(run));
+    }
+
+    async pop({ leaseMs }: { leaseMs: number }): Promise<QueuedRun | null> {
+        // An idle worker's lease may have run out, and its list be reclaimed right now
+        if (this.heldRuns === 0 && this.leaseExpiresAt - Date.now() < leaseMs / 2) {
+            this.workerId = createWorkerId();
+        }
+        await this.renew(leaseMs);
+        await this.client.sadd(this.getWorkersKey(), this.workerId);
+        const value = await this.client.lmove(
+            this.getQueueKey(),
+            this.getHeldKey(this.workerId),
+            'left',
+            'right'
+        );
+        if (value === null || value === undefined) return null;
+        this.heldRuns++;
+        return parse<QueuedRun>(value);
+    }
+
+    async renew(leaseMs: number): Promise<void> {
+        this.leaseExpiresAt = Date.now() + leaseMs;
+        await this.client.set(this.getLeaseKey(this.workerId), '1', { px: leaseMs });
+    }
+
+    // Runs are pushed as compact JSON, which serializing the parsed run reproduces
+    async ack(run: QueuedRun): Promise<void> {
+        this.heldRuns = Math.max(0, this.heldRuns - 1);
+        await this.client.lrem(this.getHeldKey(this.workerId), 1, JSON.stringify(run));
+    }
+
+    async reclaim(): Promise<number> {
+        let reclaimed = 0;
+        const workerIds = await this.client.smembers(this.getWorkersKey());
+        for (const workerId of workerIds) {
+            if (workerId === this.workerId) continue;
+            if (await this.client.exists(this.getLeaseKey(workerId))) continue;
+
+            // From the newest held run, so the runs keep their order at the front
+            while (
+                await this.client.lmove(
+                    this.getHeldKey(workerId),
+                    this.getQueueKey(),
+                    'right',
+                    'left'
+                )
+            ) {
+                reclaimed++;
+            }
+            await this.client.srem(this.getWorkersKey(), workerId);
+        }
+        return reclaimed;
+    }
+
+    async size(): Promise<number> {
+        return this.client.llen(this.getQueueKey());
+    }
+
+    async append(runId: string, data: any, options?: { ttlMs?: number }): Promise<number> {
+        const entry: StoredLogEntry = { timestamp: Date.now(), data };
+        const length = await this.client.rpush(this.getLogKey(runId), JSON.stringify(entry));
+        if (options?.ttlMs && length === 1) {
+            await this.client.pexpire(this.getLogKey(runId), options.ttlMs);
+        }
+        return length - 1;
+    }
+
+    async read(runId: string, fromIndex: number = 0): Promise<RunLogEntry[]> {
+        const values = await this.client.lrange(this.getLogKey(runId), fromIndex, -1);
+        return values.map((value, offset) => ({
+            index: fromIndex + offset,
+            ...parse<StoredLogEntry>(value),
+        }));
+    }
+
+    private getQueueKey() {
+        return `${this.namespace}:queue`;
+    }
+
+    private getWorkersKey() {
+        return `${this.namespace}:workers`;
+    }
+
+    private getHeldKey(workerId: string) {
+        return `${this.namespace}:held:${workerId}`;
+    }
+
+    private getLeaseKey(workerId: string) {
+        return `${this.namespace}:lease:${workerId}`;
+    }
+
+    private getLogKey(runId: string) {
+        return `${this.namespace}:log:${runId}`;
+    }
+}
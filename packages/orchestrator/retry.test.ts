@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { getRetryDelay, isRetryableError, resolveRetryPolicy } from './retry';
+import { createTask } from './task';
+
+const errorWith = (name: string, fields: Record<string, any> = {}) =>
+    Object.assign(new Error(name), { name, ...fields });
+
+describe('isRetryableError', () => {
+    test.each([
+        ['rate limits', errorWith('Error', { status: 429 })],
+        ['request timeouts', errorWith('Error', { statusCode: 408 })],
+        ['server errors', errorWith('Error', { response: { status: 503 } })],
+        [
+            'API errors the AI SDK marks retryable',
+            errorWith('AI_APICallError', { isRetryable: true }),
+        ],
+        ['unclassified errors', new Error('socket hang up')],
+    ])('retries %s', (_, error) => {
+        expect(isRetryableError(error)).toBe(true);
+    });
+
+    test.each([
+        ['aborts', errorWith('AbortError')],
+        ['schema validation errors', errorWith('SchemaValidationError')],
+        ['exceeded budgets', errorWith('BudgetExceededError')],
+        ['unparseable model output', errorWith('AI_JSONParseError')],
+        ['missing API keys', errorWith('AI_LoadAPIKeyError')],
+        [
+            'API errors the AI SDK marks final',
+            errorWith('AI_APICallError', { isRetryable: false, statusCode: 500 }),
+        ],
+        ['other client errors', errorWith('Error', { status: 401 })],
+    ])("doesn't retry %s", (_, error) => {
+        expect(isRetryableError(error)).toBe(false);
+    });
+});
+
+describe('resolveRetryPolicy', () => {
+    test('prefers the task retry policy over retryCount and the workflow config', () => {
+        const policy = resolveRetryPolicy(
+            { retry: { maxRetries: 3, delayMs: 50 }, retryCount: 1 },
+            { maxRetries: 5, retryDelayMs: 10, retryJitter: 0 }
+        );
+
+        expect(policy).toMatchObject({ maxRetries: 3, delayMs: 50, jitter: 0 });
+    });
+});
+
+describe('getRetryDelay', () => {
+    test('backs off exponentially up to maxDelayMs', () => {
+        const policy = resolveRetryPolicy({
+            retry: { delayMs: 100, multiplier: 2, maxDelayMs: 300, jitter: 0 },
+        });
+
+        expect([1, 2, 3, 4].map(attempt => getRetryDelay(policy, attempt))).toEqual([
+            100, 200, 300, 300,
+        ]);
+    });
+
+    test('spreads the delay by at most the jitter', () => {
+        const policy = resolveRetryPolicy({ retry: { delayMs: 100, jitter: 0.5 } });
+
+        for (let i = 0; i < 20; i++) {
+            const delay = getRetryDelay(policy, 1);
+            expect(delay).toBeGreaterThanOrEqual(50);
+            expect(delay).toBeLessThanOrEqual(150);
+        }
+    });
+});
+
+describe('retrying tasks', () => {
+    const runFailingTask = async (error: Error) => {
+        let attempts = 0;
+        const retries: number[] = [];
+        const workflow = new WorkflowBuilder('run-1')
+            .addTask(
+                createTask({
+                    name: 'search',
+                    retry: { maxRetries: 2, delayMs: 1, jitter: 0 },
+                    execute: async () => {
+                        attempts++;
+                        throw error;
+                    },
+                })
+            )
+            .build();
+        workflow.onTaskRetry(retry => retries.push(retry.attempt));
+
+        await expect(workflow.start('search')).rejects.toThrow(error.message);
+        return { attempts, retries };
+    };
+
+    test('retries a retryable error until maxRetries runs out', async () => {
+        const { attempts, retries } = await runFailingTask(
+            errorWith('AI_APICallError', { isRetryable: true })
+        );
+
+        expect(attempts).toBe(3);
+        expect(retries).toEqual([1, 2]);
+    });
+
+    test('fails on the first attempt for a non-retryable error', async () => {
+        const { attempts, retries } = await runFailingTask(errorWith('ZodError'));
+
+        expect(attempts).toBe(1);
+        expect(retries).toEqual([]);
+    });
+});
@@ -0,0 +1,94 @@
+import { RetryPolicy, WorkflowConfig } from './types';
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_RETRY_DELAY_MULTIPLIER = 2;
+const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+const DEFAULT_RETRY_JITTER = 0.2;
+
+// Errors that will fail the same way on every attempt
+const NON_RETRYABLE_ERROR_NAMES = [
+    'ZodError',
+    'SchemaValidationError',
+    'BudgetExceededError',
+    'AI_TypeValidationError',
+    'AI_NoObjectGeneratedError',
+    'AI_JSONParseError',
+    'AI_InvalidPromptError',
+    'AI_InvalidArgumentError',
+    'AI_LoadAPIKeyError',
+    'AI_NoSuchModelError',
+];
+
+/**
+ * Rate limits, server errors and network failures are worth another attempt,
+ * while validation errors, aborts and other client errors are not. Errors that
+ * can't be classified are retried, matching the engine's previous behavior.
+ */
+export const isRetryableError = (error: Error): boolean => {
+    const err = error as any;
+    if (!err) return false;
+
+    if (err.name === 'AbortError') return false;
+    if (NON_RETRYABLE_ERROR_NAMES.includes(err.name)) return false;
+
+    // The AI SDK classifies its API call errors already
+    if (typeof err.isRetryable === 'boolean') return err.isRetryable;
+
+    const status = err.statusCode ?? err.status ?? err.response?.status;
+    if (typeof status === 'number') {
+        return status === 408 || status === 429 || status >= 500;
+    }
+
+    return true;
+};
+
+/**
+ * Merge a task's retry settings over the workflow defaults. `retry` takes
+ * precedence over the older `retryCount` option.
+ */
+export const resolveRetryPolicy = (
+    task: { retry?: RetryPolicy; retryCount?: number },
+    config: WorkflowConfig = {}
+): ResolvedRetryPolicy => ({
+    maxRetries: task.retry?.maxRetries ?? task.retryCount ?? config.maxRetries ?? 0,
+    delayMs: task.retry?.delayMs ?? config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    multiplier:
+        task.retry?.multiplier ?? config.retryDelayMultiplier ?? DEFAULT_RETRY_DELAY_MULTIPLIER,
+    maxDelayMs: task.retry?.maxDelayMs ?? config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+    jitter: task.retry?.jitter ?? config.retryJitter ?? DEFAULT_RETRY_JITTER,
+    isRetryable: task.retry?.isRetryable ?? config.isRetryableError ?? isRetryableError,
+});
+
+/**
+ * Exponential backoff for the given attempt (1-based), capped at maxDelayMs
+ * and spread by ±jitter so parallel tasks don't retry in lockstep.
+ */
+export const getRetryDelay = (policy: ResolvedRetryPolicy, attempt: number): number => {
+    const delay = Math.min(
+        policy.delayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1)),
+        policy.maxDelayMs
+    );
+    const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    const spread = delay * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(delay + spread));
+};
+
+export const waitForRetry = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Workflow aborted'));
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(new Error('Workflow aborted'));
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delayMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
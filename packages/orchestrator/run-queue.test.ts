@@ -0,0 +1,180 @@
+import { describe, expect, test } from 'bun:test';
+import { MemoryQueueAdapter } from './queue';
+import { RunHandler, RunLogEntry, WorkflowRunQueue } from './run-queue';
+import { MemoryStorageAdapter } from './storage';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createQueue = (options: { maxAttempts?: number } = {}) => {
+    const adapter = new MemoryQueueAdapter();
+    const storage = new MemoryStorageAdapter();
+    const queue = new WorkflowRunQueue<{ question: string }, string>({
+        adapter,
+        storage,
+        pollIntervalMs: 5,
+        ...options,
+    });
+    return { adapter, storage, queue };
+};
+
+// Settles only once the run's signal aborts
+const waitForAbort: RunHandler = ({ signal }) =>
+    new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+
+describe('WorkflowRunQueue', () => {
+    test('executes submitted runs in order and keeps their result', async () => {
+        const { queue } = createQueue();
+        const first = await queue.submit({ question: 'first' });
+        const second = await queue.submit({ question: 'second' });
+        expect(first.status).toBe('queued');
+        expect(await queue.getQueueSize()).toBe(2);
+
+        const executed: string[] = [];
+        const handler: RunHandler<{ question: string }, string> = async ({ run }) => {
+            executed.push(run.payload.question);
+            return { result: `answer to ${run.payload.question}` };
+        };
+
+        expect(await queue.processNext(handler)).toBe(true);
+        expect(await queue.processNext(handler)).toBe(true);
+        expect(await queue.processNext(handler)).toBe(false);
+
+        expect(executed).toEqual(['first', 'second']);
+        expect(await queue.getRun(first.id)).toMatchObject({
+            status: 'completed',
+            attempts: 1,
+            result: 'answer to first',
+        });
+        expect((await queue.getRun(second.id))?.status).toBe('completed');
+    });
+
+    test('marks a run whose handler throws as failed', async () => {
+        const { queue } = createQueue();
+        const run = await queue.submit({ question: 'why' });
+
+        await queue.processNext(async () => {
+            throw new Error('model unavailable');
+        });
+
+        expect(await queue.getRun(run.id)).toMatchObject({
+            status: 'failed',
+            error: 'model unavailable',
+        });
+    });
+
+    test('drops a run aborted while queued without executing it', async () => {
+        const { queue } = createQueue();
+        const run = await queue.submit({ question: 'why' });
+
+        expect(await queue.abort(run.id)).toBe(true);
+
+        let executed = false;
+        await queue.processNext(async () => {
+            executed = true;
+        });
+
+        expect(executed).toBe(false);
+        expect((await queue.getRun(run.id))?.status).toBe('aborted');
+        expect(await queue.abort(run.id)).toBe(false);
+    });
+
+    test('aborts the signal of a running run', async () => {
+        const { queue } = createQueue();
+        const run = await queue.submit({ question: 'why' });
+
+        const processing = queue.processNext(waitForAbort);
+        while ((await queue.getRun(run.id))?.status !== 'running') {
+            await sleep(5);
+        }
+        expect(await queue.abort(run.id)).toBe(true);
+        await processing;
+
+        expect(await queue.getRun(run.id)).toMatchObject({
+            status: 'aborted',
+            abortRequested: true,
+        });
+    });
+
+    test('executes a run again once the lease of the worker that stopped ran out', async () => {
+        const { adapter, storage, queue } = createQueue();
+        const run = await queue.submit({ question: 'why' });
+
+        // A worker takes the run and stops before acking it
+        await adapter.pop({ leaseMs: 10 });
+        await storage.save(`run:${run.id}`, { ...run, status: 'running', attempts: 1 });
+        expect(await adapter.reclaim()).toBe(0);
+        expect(await queue.processNext(async () => {})).toBe(false);
+
+        await sleep(20);
+        const handler: RunHandler = async () => ({ result: 'answer' });
+        expect(await queue.processNext(handler)).toBe(true);
+
+        expect(await queue.getRun(run.id)).toMatchObject({ status: 'completed', attempts: 2 });
+        expect(await queue.getQueueSize()).toBe(0);
+    });
+
+    test('fails a run once its workers stopped maxAttempts times', async () => {
+        const { adapter, storage, queue } = createQueue({ maxAttempts: 1 });
+        const run = await queue.submit({ question: 'why' });
+
+        await adapter.pop({ leaseMs: 10 });
+        await storage.save(`run:${run.id}`, { ...run, status: 'running', attempts: 1 });
+        await sleep(20);
+
+        let executed = false;
+        await queue.processNext(async () => {
+            executed = true;
+        });
+
+        expect(executed).toBe(false);
+        expect((await queue.getRun(run.id))?.status).toBe('failed');
+    });
+
+    test('replays published entries from fromIndex and resolves with the finished run', async () => {
+        const { queue } = createQueue();
+        const run = await queue.submit({ question: 'why' });
+
+        let release: () => void = () => {};
+        const released = new Promise<void>(resolve => (release = resolve));
+        const processing = queue.processNext(async ({ publish }) => {
+            await publish('plan');
+            await publish('search');
+            await released;
+            await publish('write');
+            return { result: 'answer' };
+        });
+
+        // Subscribes once the first two entries were published
+        while ((await queue.getRun(run.id))?.status !== 'running') {
+            await sleep(5);
+        }
+        await sleep(10);
+
+        const entries: RunLogEntry[] = [];
+        const subscription = queue.subscribe(run.id, entry => entries.push(entry), {
+            fromIndex: 1,
+        });
+        release();
+        const [finished] = await Promise.all([subscription, processing]);
+
+        expect(entries.map(entry => [entry.index, entry.data])).toEqual([
+            [1, 'search'],
+            [2, 'write'],
+        ]);
+        expect(finished).toMatchObject({ status: 'completed', result: 'answer' });
+    });
+
+    test('stops a subscription when its signal aborts, without affecting the run', async () => {
+        const { queue } = createQueue();
+        const run = await queue.submit({ question: 'why' });
+
+        const controller = new AbortController();
+        const subscription = queue.subscribe(run.id, () => {}, { signal: controller.signal });
+        controller.abort();
+
+        expect((await subscription)?.status).toBe('queued');
+        expect(await queue.getQueueSize()).toBe(1);
+    });
+});
@@ -0,0 +1,358 @@
+import { PersistentStorageAdapter } from './persistence';
+
+export type QueuedRun<TPayload = any> = {
+    runId: string;
+    payload: TPayload;
+    enqueuedAt: string;
+};
+
+// One progress entry of a run, indexed from 0 in the order it was published
+export type RunLogEntry<T = any> = {
+    index: number;
+    timestamp: number;
+    data: T;
+};
+
+/**
+ * Transport between the processes submitting runs and the workers executing them:
+ * a FIFO of runs plus an append-only progress log per run. A popped run is held by the
+ * worker until it acks it, runs held by a worker whose lease ran out go back to the
+ * queue. Implementations live in `./queue`.
+ */
+export type RunQueueAdapter = {
+    push(run: QueuedRun): Promise<void>;
+    // Moves the oldest run to this worker's held runs, null when the queue is empty
+    pop(options: { leaseMs: number }): Promise<QueuedRun | null>;
+    // Extends the lease on every run this worker holds
+    renew(leaseMs: number): Promise<void>;
+    // Releases a run once it finished, whatever its outcome
+    ack(run: QueuedRun): Promise<void>;
+    // Puts the runs of workers whose lease ran out back at the front of the queue
+    reclaim(): Promise<number>;
+    size(): Promise<number>;
+    // Returns the index of the appended entry
+    append(runId: string, data: any, options?: { ttlMs?: number }): Promise<number>;
+    read(runId: string, fromIndex?: number): Promise<RunLogEntry[]>;
+};
+
+export type RunStatus = 'queued' | 'running' | 'suspended' | 'completed' | 'failed' | 'aborted';
+
+export type WorkflowRun<TPayload = any, TResult = any> = {
+    id: string;
+    status: RunStatus;
+    payload: TPayload;
+    enqueuedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    // Workers that took the run, more than one when a worker stopped while running it
+    attempts?: number;
+    result?: TResult;
+    error?: string;
+    // Set by abort(), the worker running it aborts its signal on the next poll
+    abortRequested?: boolean;
+};
+
+export type RunHandlerParams<TPayload = any> = {
+    run: WorkflowRun<TPayload>;
+    // Appends to the run's progress log, read by subscribe()
+    publish: (data: any) => Promise<void>;
+    // Aborted when the run is aborted through abort() or the worker stops
+    signal: AbortSignal;
+};
+
+export type RunHandlerResult<TResult = any> = {
+    // 'suspended' for runs waiting on input, they are continued outside the queue
+    status?: 'completed' | 'suspended';
+    result?: TResult;
+};
+
+export type RunHandler<TPayload = any, TResult = any> = (
+    params: RunHandlerParams<TPayload>
+) => Promise<RunHandlerResult<TResult> | void>;
+
+export type RunQueueOptions = {
+    adapter: RunQueueAdapter;
+    // Where run records and results are kept, shared by every process
+    storage: PersistentStorageAdapter;
+    // How long records, results and progress logs are kept, a day by default
+    ttlMs?: number;
+    pollIntervalMs?: number;
+    // How long a run stays held by a worker that stopped renewing it, a minute by default
+    leaseMs?: number;
+    // Workers that may take a run before it fails, 2 by default
+    maxAttempts?: number;
+};
+
+const RUN_KEY_PREFIX = 'run:';
+const DEFAULT_RUN_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DEFAULT_LEASE_MS = 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+const FINISHED_STATUSES: RunStatus[] = ['completed', 'failed', 'aborted', 'suspended'];
+
+export const isRunFinished = (run: WorkflowRun) => FINISHED_STATUSES.includes(run.status);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>(resolve => {
+        const timeout = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timeout);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+        signal?.addEventListener('abort', done, { once: true });
+    });
+
+/**
+ * Runs executed by workers instead of the request that submitted them. The submitter
+ * gets a run id back, progress is published to a log that any process can subscribe
+ * to, and the record with the result stays in storage after the run finishes. Closing
+ * a subscription never affects the run, only abort() does.
+ */
+export class WorkflowRunQueue<TPayload = any, TResult = any> {
+    private adapter: RunQueueAdapter;
+    private storage: PersistentStorageAdapter;
+    private ttlMs: number;
+    private pollIntervalMs: number;
+    private leaseMs: number;
+    private maxAttempts: number;
+
+    constructor({
+        adapter,
+        storage,
+        ttlMs = DEFAULT_RUN_TTL_MS,
+        pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+        leaseMs = DEFAULT_LEASE_MS,
+        maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    }: RunQueueOptions) {
+        this.adapter = adapter;
+        this.storage = storage;
+        this.ttlMs = ttlMs;
+        this.pollIntervalMs = pollIntervalMs;
+        this.leaseMs = leaseMs;
+        this.maxAttempts = maxAttempts;
+    }
+
+    // The id is generated here, so a submitter can't overwrite another run's record
+    async submit(payload: TPayload): Promise<WorkflowRun<TPayload, TResult>> {
+        const runId = globalThis.crypto.randomUUID();
+        const run: WorkflowRun<TPayload, TResult> = {
+            id: runId,
+            status: 'queued',
+            payload,
+            enqueuedAt: new Date().toISOString(),
+        };
+        await this.saveRun(run);
+        await this.adapter.push({ runId, payload, enqueuedAt: run.enqueuedAt });
+        console.log(`📥 Queued run "${runId}".`);
+        return run;
+    }
+
+    async getRun(runId: string): Promise<WorkflowRun<TPayload, TResult> | null> {
+        return this.storage.load(this.getKey(runId));
+    }
+
+    // Queued runs are dropped when dequeued, running ones are aborted by their worker
+    async abort(runId: string): Promise<boolean> {
+        const run = await this.getRun(runId);
+        if (!run || isRunFinished(run)) return false;
+
+        await this.saveRun({ ...run, abortRequested: true });
+        return true;
+    }
+
+    async getQueueSize(): Promise<number> {
+        return this.adapter.size();
+    }
+
+    /**
+     * Deliver the run's progress from `fromIndex` until it finishes or the signal aborts,
+     * then resolve with the latest record. Entries published before the call are replayed,
+     * so a client that reconnects passes the index after the last entry it saw.
+     */
+    async subscribe(
+        runId: string,
+        onEntry: (entry: RunLogEntry) => void,
+        { fromIndex = 0, signal }: { fromIndex?: number; signal?: AbortSignal } = {}
+    ): Promise<WorkflowRun<TPayload, TResult> | null> {
+        let nextIndex = fromIndex;
+        while (true) {
+            // Read the record first, so entries published before it finished aren't missed
+            const run = await this.getRun(runId);
+            const entries = await this.adapter.read(runId, nextIndex);
+            entries.forEach(entry => {
+                nextIndex = entry.index + 1;
+                onEntry(entry);
+            });
+
+            if (!run || isRunFinished(run) || signal?.aborted) {
+                return run;
+            }
+            await sleep(this.pollIntervalMs, signal);
+        }
+    }
+
+    /**
+     * Take the next queued run and execute it. Returns false when the queue was empty,
+     * so a serverless worker can drain the queue until it runs out of time. Runs left by
+     * stopped workers are queued again first.
+     */
+    async processNext(
+        handler: RunHandler<TPayload, TResult>,
+        { signal }: { signal?: AbortSignal } = {}
+    ): Promise<boolean> {
+        const reclaimed = await this.adapter.reclaim();
+        if (reclaimed > 0) {
+            console.log(`♻️ Queued ${reclaimed} run(s) of stopped workers again.`);
+        }
+
+        const queued = await this.adapter.pop({ leaseMs: this.leaseMs });
+        if (!queued) return false;
+
+        // Renewed while the run executes, so only runs of stopped workers are reclaimed
+        const leaseRenewal = setInterval(() => {
+            this.adapter.renew(this.leaseMs).catch(error => {
+                console.error(`❌ Failed to renew the lease on run "${queued.runId}":`, error);
+            });
+        }, this.leaseMs / 3);
+        try {
+            await this.executeRun(queued.runId, handler, signal);
+        } finally {
+            clearInterval(leaseRenewal);
+            await this.adapter.ack(queued);
+        }
+        return true;
+    }
+
+    /**
+     * Execute queued runs, up to `concurrency` at a time, until the signal aborts. An empty
+     * queue is polled every `pollIntervalMs`.
+     */
+    async process(
+        handler: RunHandler<TPayload, TResult>,
+        { concurrency = 1, signal }: { concurrency?: number; signal?: AbortSignal } = {}
+    ) {
+        const worker = async () => {
+            while (!signal?.aborted) {
+                let processed = false;
+                try {
+                    processed = await this.processNext(handler, { signal });
+                } catch (error) {
+                    console.error('❌ Run queue worker failed to take a run:', error);
+                }
+                if (!processed) {
+                    await sleep(this.pollIntervalMs, signal);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+    }
+
+    private async executeRun(
+        runId: string,
+        handler: RunHandler<TPayload, TResult>,
+        signal?: AbortSignal
+    ) {
+        const run = await this.getRun(runId);
+        if (!run || isRunFinished(run) || run.abortRequested) {
+            if (run?.abortRequested && !isRunFinished(run)) {
+                await this.finishRun(run, { status: 'aborted' });
+            }
+            console.log(`⏭️ Skipping run "${runId}", it is no longer queued.`);
+            return;
+        }
+
+        // A run still marked running was taken by a worker that stopped
+        const attempts = (run.attempts ?? 0) + 1;
+        if (attempts > this.maxAttempts) {
+            await this.finishRun(run, {
+                status: 'failed',
+                error: `Run stopped by its worker ${run.attempts} time(s)`,
+            });
+            return;
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const running: WorkflowRun<TPayload, TResult> = {
+            ...run,
+            status: 'running',
+            startedAt: new Date().toISOString(),
+            attempts,
+        };
+        await this.saveRun(running);
+        console.log(`🚀 Running queued run "${run.id}".`);
+
+        const watcher = this.watchAbort(run.id, controller);
+        try {
+            const outcome = await handler({
+                run: running,
+                publish: async data => {
+                    await this.adapter.append(run.id, data, { ttlMs: this.ttlMs });
+                },
+                signal: controller.signal,
+            });
+            await this.finishRun(running, {
+                status: outcome?.status ?? 'completed',
+                result: outcome?.result,
+            });
+        } catch (error) {
+            const aborted = controller.signal.aborted;
+            console.error(`❌ Queued run "${run.id}" ${aborted ? 'aborted' : 'failed'}:`, error);
+            await this.finishRun(running, {
+                status: aborted ? 'aborted' : 'failed',
+                error: error instanceof Error ? error.message : String(error),
+            });
+        } finally {
+            watcher.stop();
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    // Polls the record for abort(), which may come from any process
+    private watchAbort(runId: string, controller: AbortController) {
+        let stopped = false;
+        const poll = async () => {
+            while (!stopped && !controller.signal.aborted) {
+                await sleep(this.pollIntervalMs);
+                const run = await this.getRun(runId).catch(() => null);
+                if (run?.abortRequested && !stopped) {
+                    console.log(`⚠️ Run "${runId}" was aborted.`);
+                    controller.abort(new Error(`Run "${runId}" was aborted`));
+                }
+            }
+        };
+        poll();
+        return {
+            stop: () => {
+                stopped = true;
+            },
+        };
+    }
+
+    private async finishRun(
+        run: WorkflowRun<TPayload, TResult>,
+        update: Pick<WorkflowRun<TPayload, TResult>, 'status' | 'result' | 'error'>
+    ) {
+        // Keep an abort requested while the run was finishing
+        const latest = await this.getRun(run.id);
+        await this.saveRun({
+            ...run,
+            ...update,
+            abortRequested: latest?.abortRequested,
+            finishedAt: new Date().toISOString(),
+        });
+        console.log(`🏁 Run "${run.id}" ${update.status}.`);
+    }
+
+    private async saveRun(run: WorkflowRun<TPayload, TResult>) {
+        await this.storage.save(this.getKey(run.id), run, { ttlMs: this.ttlMs });
+    }
+
+    private getKey(runId: string) {
+        return `${RUN_KEY_PREFIX}${runId}`;
+    }
+}
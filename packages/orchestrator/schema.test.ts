@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { Context } from './context';
+import { TypedEventEmitter } from './events';
+import { FieldSchema, SchemaValidationError, StateSchema } from './schema';
+import { createTask } from './task';
+
+// Minimal stand-ins for z.string() and z.array(z.string()).default([])
+const string: FieldSchema<string> = {
+    safeParse: value =>
+        typeof value === 'string'
+            ? { success: true, data: value }
+            : { success: false, error: { issues: [{ path: [], message: 'Expected string' }] } },
+};
+
+const stringList: FieldSchema<string[]> = {
+    safeParse: (value = []) => {
+        if (!Array.isArray(value)) {
+            return { success: false, error: { issues: [{ path: [], message: 'Expected array' }] } };
+        }
+        const invalid = value.findIndex(item => typeof item !== 'string');
+        return invalid === -1
+            ? { success: true, data: value }
+            : {
+                  success: false,
+                  error: { issues: [{ path: [invalid], message: 'Expected string' }] },
+              };
+    },
+};
+
+const schema: StateSchema = { shape: { question: string, queries: stringList } };
+
+const validationError = (write: () => void): SchemaValidationError => {
+    try {
+        write();
+    } catch (error) {
+        if (error instanceof SchemaValidationError) return error;
+        throw error;
+    }
+    throw new Error('Expected a SchemaValidationError');
+};
+
+describe('Context with a schema', () => {
+    test('starts fields with their defaults and accepts valid writes', () => {
+        const context = new Context<any>({ question: 'why' }, { schema });
+        context.update('queries', queries => [...queries, 'bun']);
+
+        expect(context.getAll()).toEqual({ question: 'why', queries: ['bun'] });
+    });
+
+    test('rejects an invalid write naming the offending path', () => {
+        const context = new Context<any>({}, { schema });
+
+        const error = validationError(() => context.set('queries', ['bun', 42]));
+
+        expect(error).toMatchObject({ source: 'context', key: 'queries' });
+        expect(error.message).toContain('queries.1: Expected string');
+        expect(context.get('queries')).toEqual([]);
+    });
+
+    test('leaves keys without a field alone', () => {
+        const context = new Context<any>({}, { schema });
+        context.set('anything', 42);
+
+        expect(context.get('anything')).toBe(42);
+    });
+
+    test('rejects an invalid snapshot on restore', () => {
+        const context = new Context<any>({}, { schema });
+
+        expect(() => context.restore({ question: 7 })).toThrow(SchemaValidationError);
+    });
+});
+
+describe('TypedEventEmitter with a schema', () => {
+    test('rejects an invalid payload before any listener runs', () => {
+        const events = new TypedEventEmitter<any>({}, { schema });
+        const received: any[] = [];
+        events.onAll((event, data) => received.push([event, data]));
+
+        const error = validationError(() => events.emit('question', 42));
+
+        expect(error).toMatchObject({ source: 'event', key: 'question' });
+        expect(received).toEqual([]);
+        expect(events.getSequence()).toBe(0);
+    });
+});
+
+describe('tasks writing invalid state', () => {
+    test('fail without being retried', async () => {
+        let attempts = 0;
+        const workflow = new WorkflowBuilder('run-1', {
+            context: new Context<any>({}, { schema }),
+            config: { maxRetries: 2, retryDelayMs: 1 },
+        })
+            .addTask(
+                createTask({
+                    name: 'plan',
+                    execute: async ({ context }) => {
+                        attempts++;
+                        context?.set('question', null);
+                    },
+                })
+            )
+            .build();
+
+        await expect(workflow.start('plan')).rejects.toThrow(SchemaValidationError);
+        expect(attempts).toBe(1);
+    });
+});
@@ -0,0 +1,143 @@
+export type SchemaIssue = {
+    path: Array<string | number>;
+    message: string;
+};
+
+export type SchemaParseResult<T = any> =
+    | { success: true; data: T }
+    | { success: false; error: { issues: SchemaIssue[] } };
+
+// Structural so that a Zod schema fits without the orchestrator depending on zod
+export type FieldSchema<T = any> = {
+    safeParse: (value: unknown) => SchemaParseResult<T>;
+};
+
+/**
+ * A Zod object schema, e.g. `z.object({ question: z.string(), queries: z.array(z.string()).default([]) })`.
+ * Each key is validated on its own when it is written, keys without a field are left as is.
+ */
+export type StateSchema = {
+    shape: Record<string, FieldSchema>;
+};
+
+export class SchemaValidationError extends Error {
+    source: string;
+    key: string;
+    issues: SchemaIssue[];
+
+    constructor(source: string, key: string, issues: SchemaIssue[]) {
+        super(
+            `Invalid ${source} value:\n${issues
+                .map(issue => `  - ${[key, ...issue.path].join('.')}: ${issue.message}`)
+                .join('\n')}`
+        );
+        this.name = 'SchemaValidationError';
+        this.source = source;
+        this.key = key;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Validate the value written to `key` and return it as parsed by the schema, so defaults
+ * and transforms apply. Throws a SchemaValidationError naming the offending paths.
+ */
+export const parseField = (
+    schema: StateSchema | undefined,
+    source: string,
+    key: string,
+    value: unknown
+) => {
+    const field = schema?.shape[key];
+    if (!field) return value;
+
+    const parsed = field.safeParse(value);
+    if (!parsed.success) {
+        throw new SchemaValidationError(source, key, parsed.error.issues);
+    }
+    return parsed.data;
+};
+
+// The values fields produce for undefined, i.e. their `.default()`
+export const getSchemaDefaults = (schema?: StateSchema): Record<string, any> => {
+    const defaults: Record<string, any> = {};
+    Object.entries(schema?.shape || {}).forEach(([key, field]) => {
+        const parsed = field.safeParse(undefined);
+        if (parsed.success && parsed.data !== undefined) {
+            defaults[key] = parsed.data;
+        }
+    });
+    return defaults;
+};
+
+// Values JSON can't represent are stored as tagged objects
+const TYPE_KEY = '$type';
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Make state safe for JSON storage: Dates, Sets and Maps are tagged so
+ * deserializeState can rebuild them, functions and undefined values are left out.
+ */
+export const serializeState = (value: any): any => {
+    if (value instanceof Date) {
+        return { [TYPE_KEY]: 'Date', value: value.toISOString() };
+    }
+    if (value instanceof Set) {
+        return { [TYPE_KEY]: 'Set', values: Array.from(value).map(serializeState) };
+    }
+    if (value instanceof Map) {
+        return {
+            [TYPE_KEY]: 'Map',
+            entries: Array.from(value.entries()).map(([key, entry]) => [
+                serializeState(key),
+                serializeState(entry),
+            ]),
+        };
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => (typeof item === 'function' ? null : serializeState(item)));
+    }
+    if (isPlainObject(value)) {
+        const serialized: Record<string, any> = {};
+        Object.entries(value).forEach(([key, entry]) => {
+            if (typeof entry !== 'function' && entry !== undefined) {
+                serialized[key] = serializeState(entry);
+            }
+        });
+        return serialized;
+    }
+    return typeof value === 'function' ? undefined : value;
+};
+
+export const deserializeState = (value: any): any => {
+    if (Array.isArray(value)) {
+        return value.map(deserializeState);
+    }
+    if (!isPlainObject(value)) {
+        return value;
+    }
+
+    switch (value[TYPE_KEY]) {
+        case 'Date':
+            return new Date(value.value);
+        case 'Set':
+            return new Set((value.values || []).map(deserializeState));
+        case 'Map':
+            return new Map(
+                (value.entries || []).map(([key, entry]: [any, any]) => [
+                    deserializeState(key),
+                    deserializeState(entry),
+                ])
+            );
+    }
+
+    const deserialized: Record<string, any> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+        deserialized[key] = deserializeState(entry);
+    });
+    return deserialized;
+};
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { deriveSignal, raceSignal, TimeoutError } from './signal';
+import { createTask } from './task';
+import { TaskDefinition } from './types';
+
+const never = new Promise<never>(() => {});
+
+describe('deriveSignal', () => {
+    test('aborts with a parent signal and its reason', () => {
+        const parent = new AbortController();
+        const { signal } = deriveSignal({ signals: [parent.signal] });
+
+        parent.abort(new Error('stopped'));
+
+        expect(signal.aborted).toBe(true);
+        expect(signal.reason.message).toBe('stopped');
+    });
+
+    test('aborts with a TimeoutError once the timeout elapses', async () => {
+        const { signal } = deriveSignal({ timeoutMs: 5 });
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(signal.reason).toBeInstanceOf(TimeoutError);
+        expect(signal.reason.timeoutMs).toBe(5);
+    });
+
+    test("doesn't abort after dispose", async () => {
+        const parent = new AbortController();
+        const { signal, dispose } = deriveSignal({ signals: [parent.signal], timeoutMs: 5 });
+
+        dispose();
+        parent.abort();
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(signal.aborted).toBe(false);
+    });
+});
+
+describe('raceSignal', () => {
+    test('rejects with the abort reason even when the promise never settles', async () => {
+        const controller = new AbortController();
+        const racing = raceSignal(never, controller.signal);
+
+        controller.abort(new Error('cancelled'));
+
+        await expect(racing).rejects.toThrow('cancelled');
+    });
+});
+
+describe('task timeouts', () => {
+    const runTask = async (options: Partial<TaskDefinition>, config = {}) => {
+        const workflow = new WorkflowBuilder('run-1', { config })
+            .addTask(
+                createTask({
+                    name: 'search',
+                    execute: async () => {},
+                    ...options,
+                })
+            )
+            .build();
+        return workflow.start('search');
+    };
+
+    test("aborts the task's signal with a TimeoutError", async () => {
+        let taskSignal: AbortSignal | undefined;
+
+        await expect(
+            runTask({
+                timeoutMs: 10,
+                execute: async ({ signal }) => {
+                    taskSignal = signal;
+                    return never;
+                },
+            })
+        ).rejects.toBeInstanceOf(TimeoutError);
+
+        expect(taskSignal?.aborted).toBe(true);
+        expect(taskSignal?.reason).toBeInstanceOf(TimeoutError);
+    });
+
+    test('aborts running tasks once the workflow deadline passes', async () => {
+        let taskSignal: AbortSignal | undefined;
+
+        await expect(
+            runTask(
+                {
+                    execute: async ({ signal }) => {
+                        taskSignal = signal;
+                        return never;
+                    },
+                },
+                { timeoutMs: 10 }
+            )
+        ).rejects.toThrow('exceeded its 10ms deadline');
+
+        expect(taskSignal?.aborted).toBe(true);
+    });
+
+    test('aborts the task when the workflow signal aborts', async () => {
+        const controller = new AbortController();
+        let taskSignal: AbortSignal | undefined;
+
+        const running = runTask(
+            {
+                execute: async ({ signal }) => {
+                    taskSignal = signal;
+                    return never;
+                },
+            },
+            { signal: controller.signal }
+        );
+        controller.abort(new Error('Client disconnected'));
+
+        await expect(running).rejects.toThrow('Client disconnected');
+        expect(taskSignal?.aborted).toBe(true);
+    });
+});
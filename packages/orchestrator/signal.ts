@@ -0,0 +1,81 @@
+export class TimeoutError extends Error {
+    timeoutMs: number;
+
+    constructor(message: string, timeoutMs: number) {
+        super(message);
+        this.name = 'TimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+export type DerivedSignal = {
+    signal: AbortSignal;
+    // Clears the timer and detaches from the parent signals
+    dispose: () => void;
+};
+
+/**
+ * Create a signal that aborts when any of the given signals aborts or, when
+ * timeoutMs is set, once the timeout elapses. Call dispose when the work is
+ * done so the timer doesn't keep the process alive.
+ */
+export const deriveSignal = ({
+    signals = [],
+    timeoutMs,
+    timeoutMessage,
+}: {
+    signals?: Array<AbortSignal | undefined>;
+    timeoutMs?: number;
+    timeoutMessage?: string;
+}): DerivedSignal => {
+    const controller = new AbortController();
+    const parents = signals.filter((signal): signal is AbortSignal => !!signal);
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const dispose = () => {
+        if (timeout) clearTimeout(timeout);
+        parents.forEach(parent => parent.removeEventListener('abort', onParentAbort));
+    };
+
+    function onParentAbort(this: AbortSignal) {
+        dispose();
+        controller.abort(this.reason);
+    }
+
+    const abortedParent = parents.find(parent => parent.aborted);
+    if (abortedParent) {
+        controller.abort(abortedParent.reason);
+        return { signal: controller.signal, dispose };
+    }
+
+    parents.forEach(parent => parent.addEventListener('abort', onParentAbort, { once: true }));
+
+    if (timeoutMs && timeoutMs > 0) {
+        timeout = setTimeout(() => {
+            dispose();
+            controller.abort(
+                new TimeoutError(timeoutMessage || `Timed out after ${timeoutMs}ms`, timeoutMs)
+            );
+        }, timeoutMs);
+    }
+
+    return { signal: controller.signal, dispose };
+};
+
+const getAbortReason = (signal: AbortSignal): Error =>
+    signal.reason instanceof Error ? signal.reason : new Error('Operation aborted');
+
+/**
+ * Reject as soon as the signal aborts, even if the promise itself ignores it.
+ */
+export const raceSignal = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+    if (signal.aborted) {
+        return Promise.reject(getAbortReason(signal));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(getAbortReason(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
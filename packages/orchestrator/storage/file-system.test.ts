@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSystemStorageAdapter } from './file-system';
+
+let directory: string | undefined;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createStorage = async () => {
+    directory = await mkdtemp(join(tmpdir(), 'orchestrator-'));
+    return new FileSystemStorageAdapter({ directory });
+};
+
+afterEach(async () => {
+    if (directory) {
+        await rm(directory, { recursive: true, force: true });
+    }
+});
+
+describe('FileSystemStorageAdapter', () => {
+    test('saves the same key concurrently', async () => {
+        const storage = await createStorage();
+
+        await Promise.all(
+            Array.from({ length: 20 }, (_, index) => storage.save('workflow:run-1', { index }))
+        );
+
+        expect((await storage.load('workflow:run-1'))?.index).toBeNumber();
+        expect(await readdir(directory!)).toEqual([`${encodeURIComponent('workflow:run-1')}.json`]);
+    });
+
+    test('removes an entry once its TTL passed', async () => {
+        const storage = await createStorage();
+        await storage.save('workflow:run-1', { step: 1 }, { ttlMs: 20 });
+
+        expect(await storage.load('workflow:run-1')).toEqual({ step: 1 });
+        await sleep(30);
+
+        expect(await storage.exists('workflow:run-1')).toBe(false);
+        expect(await readdir(directory!)).toEqual([]);
+    });
+
+    test('lists unexpired entries under a prefix with their save and expiry times', async () => {
+        const storage = await createStorage();
+        const savedAt = Date.now();
+        await storage.save('workflow:run-1', {}, { ttlMs: 60000 });
+        await storage.save('workflow:run-2', {}, { ttlMs: 20 });
+        await storage.save('checkpoint:run-1:a', {});
+        await sleep(30);
+
+        const listed = await storage.list('workflow:');
+
+        expect(listed).toHaveLength(1);
+        expect(listed[0].key).toBe('workflow:run-1');
+        expect(listed[0].updatedAt).toBeGreaterThanOrEqual(savedAt);
+        expect(listed[0].expiresAt).toBeGreaterThanOrEqual(savedAt + 60000);
+        expect((await storage.list()).map(entry => entry.key).sort()).toEqual([
+            'checkpoint:run-1:a',
+            'workflow:run-1',
+        ]);
+    });
+});
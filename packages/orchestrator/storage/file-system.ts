@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { PersistentStorageAdapter, StorageListEntry, StorageSaveOptions } from '../persistence';
+import { createStoredEntry, isExpired, StoredEntry } from './utils';
+
+/**
+ * Stores each key as a JSON file in `directory`. Node only, which is why it is
+ * not exported from `storage/index.ts` (the worker bundle would pull in `fs`).
+ */
+export class FileSystemStorageAdapter implements PersistentStorageAdapter {
+    private directory: string;
+
+    constructor({ directory }: { directory: string }) {
+        this.directory = directory;
+    }
+
+    async save(key: string, data: any, options?: StorageSaveOptions): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        const entry = createStoredEntry(data, options);
+        // Write to a temp file first so a crash mid-write never leaves a truncated snapshot,
+        // one per save so concurrent saves of a key don't rename each other's file away
+        const tempPath = `${this.getPath(key)}.${process.pid}.${randomUUID()}.tmp`;
+        try {
+            await writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+            await rename(tempPath, this.getPath(key));
+        } catch (error) {
+            await rm(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    async load(key: string): Promise<any | null> {
+        return (await this.loadEntry(key))?.data ?? null;
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.getPath(key), { force: true });
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return (await this.load(key)) !== null;
+    }
+
+    async list(prefix: string = ''): Promise<StorageListEntry[]> {
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error) {
+            return [];
+        }
+
+        const listed: StorageListEntry[] = [];
+        for (const file of files) {
+            if (!file.endsWith('.json')) continue;
+            const key = decodeURIComponent(file.slice(0, -'.json'.length));
+            if (!key.startsWith(prefix)) continue;
+            const entry = await this.loadEntry(key);
+            if (entry) {
+                listed.push({ key, updatedAt: entry.updatedAt, expiresAt: entry.expiresAt });
+            }
+        }
+        return listed;
+    }
+
+    // Null when missing or expired, expired files are removed
+    private async loadEntry(key: string): Promise<StoredEntry | null> {
+        let entry: StoredEntry;
+        try {
+            entry = JSON.parse(await readFile(this.getPath(key), 'utf-8'));
+        } catch (error) {
+            return null;
+        }
+        if (isExpired(entry.expiresAt)) {
+            await this.delete(key);
+            return null;
+        }
+        return entry;
+    }
+
+    private getPath(key: string): string {
+        // Keys contain ':' which is not a valid file name character on every platform
+        return join(this.directory, `${encodeURIComponent(key)}.json`);
+    }
+}
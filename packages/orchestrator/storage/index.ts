@@ -0,0 +1,5 @@
+// `FileSystemStorageAdapter` is Node only and is imported from `@repo/orchestrator/storage/file-system`
+export * from './indexed-db';
+export * from './kv';
+export * from './memory';
+export * from './sqlite';
@@ -0,0 +1,97 @@
+import { PersistentStorageAdapter, StorageListEntry, StorageSaveOptions } from '../persistence';
+import { createStoredEntry, isExpired, StoredEntry, toStorable } from './utils';
+
+type IndexedDBRecord = StoredEntry & {
+    key: string;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Browser storage built on the global `indexedDB`, so it works inside the
+ * workflow web worker as well as on the main thread.
+ */
+export class IndexedDBStorageAdapter implements PersistentStorageAdapter {
+    private dbName: string;
+    private storeName: string;
+    private dbPromise?: Promise<IDBDatabase>;
+
+    constructor({
+        dbName = 'orchestrator',
+        storeName = 'workflows',
+    }: { dbName?: string; storeName?: string } = {}) {
+        this.dbName = dbName;
+        this.storeName = storeName;
+    }
+
+    async save(key: string, data: any, options?: StorageSaveOptions): Promise<void> {
+        const record: IndexedDBRecord = {
+            key,
+            // Structured clone throws on functions, so strip them like the other adapters do
+            ...createStoredEntry(toStorable(data), options),
+        };
+        const store = await this.getStore('readwrite');
+        await promisifyRequest(store.put(record));
+    }
+
+    async load(key: string): Promise<any | null> {
+        const store = await this.getStore('readonly');
+        const record: IndexedDBRecord | undefined = await promisifyRequest(store.get(key));
+        if (!record) return null;
+        if (isExpired(record.expiresAt)) {
+            await this.delete(key);
+            return null;
+        }
+        return record.data;
+    }
+
+    async delete(key: string): Promise<void> {
+        const store = await this.getStore('readwrite');
+        await promisifyRequest(store.delete(key));
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return (await this.load(key)) !== null;
+    }
+
+    async list(prefix: string = ''): Promise<StorageListEntry[]> {
+        const store = await this.getStore('readonly');
+        const records: IndexedDBRecord[] = await promisifyRequest(store.getAll());
+        const listed: StorageListEntry[] = [];
+
+        for (const { key, updatedAt, expiresAt } of records) {
+            if (isExpired(expiresAt)) {
+                await this.delete(key);
+            } else if (key.startsWith(prefix)) {
+                listed.push({ key, updatedAt, expiresAt });
+            }
+        }
+        return listed;
+    }
+
+    private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this.getDatabase();
+        return db.transaction(this.storeName, mode).objectStore(this.storeName);
+    }
+
+    private getDatabase(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            if (typeof indexedDB === 'undefined') {
+                return Promise.reject(new Error('IndexedDB is not available in this environment'));
+            }
+
+            const request = indexedDB.open(this.dbName, 1);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(this.storeName)) {
+                    request.result.createObjectStore(this.storeName, { keyPath: 'key' });
+                }
+            };
+            this.dbPromise = promisifyRequest(request);
+        }
+        return this.dbPromise;
+    }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test';
+import { KvClient, KvStorageAdapter } from './kv';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Redis MATCH patterns: `*`, `?` and `[…]` are wildcards unless escaped with `\`
+const globToRegExp = (pattern: string) => {
+    let source = '';
+    for (let index = 0; index < pattern.length; index++) {
+        const char = pattern[index];
+        if (char === '\\') {
+            source += `\\${pattern[++index]}`;
+        } else if (char === '*') {
+            source += '.*';
+        } else if (char === '?') {
+            source += '.';
+        } else if (char === '[' || char === ']') {
+            source += char;
+        } else {
+            source += char.replace(/[.+^${}()|/-]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+};
+
+/**
+ * An in-memory stand-in for Redis. SCAN returns `count` keys per page so the
+ * adapter has to follow the cursor, `parseJson` mimics Upstash returning parsed values.
+ */
+const createKvClient = ({ parseJson = false } = {}) => {
+    const values = new Map<string, { value: any; expiresAt?: number }>();
+    const isLive = (key: string) => {
+        const entry = values.get(key);
+        if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            values.delete(key);
+        }
+        return values.has(key);
+    };
+
+    const client: KvClient = {
+        get: async (key: string) => {
+            if (!isLive(key)) return null;
+            const { value } = values.get(key)!;
+            return parseJson ? JSON.parse(value) : value;
+        },
+        set: async (key, value, options) => {
+            values.set(key, {
+                value,
+                expiresAt: options?.px ? Date.now() + options.px : undefined,
+            });
+            return 'OK';
+        },
+        del: async (...keys) => keys.filter(key => values.delete(key)).length,
+        exists: async (...keys) => keys.filter(isLive).length,
+        scan: async (cursor, { match = '*', count = 10 } = {}) => {
+            const keys = Array.from(values.keys());
+            const start = Number(cursor);
+            const next = start + count < keys.length ? start + count : 0;
+            const page = keys
+                .slice(start, start + count)
+                .filter(key => globToRegExp(match).test(key));
+            return [String(next), page];
+        },
+    };
+    return { client, values };
+};
+
+describe('KvStorageAdapter', () => {
+    test('saves, loads and deletes under its namespace', async () => {
+        const { client, values } = createKvClient();
+        const storage = new KvStorageAdapter({ client, namespace: 'research' });
+
+        await storage.save('workflow:run-1', { step: 1 });
+
+        expect(Array.from(values.keys())).toEqual(['research:workflow:run-1']);
+        expect(await storage.load('workflow:run-1')).toEqual({ step: 1 });
+        expect(await storage.exists('workflow:run-1')).toBe(true);
+        expect(await storage.load('workflow:run-2')).toBeNull();
+
+        await storage.delete('workflow:run-1');
+        expect(await storage.load('workflow:run-1')).toBeNull();
+        expect(await storage.exists('workflow:run-1')).toBe(false);
+    });
+
+    test('loads values the client already parsed', async () => {
+        const storage = new KvStorageAdapter({
+            client: createKvClient({ parseJson: true }).client,
+        });
+
+        await storage.save('workflow:run-1', { step: 1 });
+
+        expect(await storage.load('workflow:run-1')).toEqual({ step: 1 });
+    });
+
+    test('treats entries past their TTL as missing', async () => {
+        const storage = new KvStorageAdapter({ client: createKvClient().client });
+        await storage.save('workflow:run-1', { step: 1 }, { ttlMs: 20 });
+        await storage.save('workflow:run-2', { step: 2 });
+
+        expect(await storage.exists('workflow:run-1')).toBe(true);
+        await sleep(30);
+
+        expect(await storage.load('workflow:run-1')).toBeNull();
+        expect(await storage.exists('workflow:run-1')).toBe(false);
+        expect(await storage.load('workflow:run-2')).toEqual({ step: 2 });
+    });
+
+    test('lists the entries under a prefix with their save and expiry times', async () => {
+        const storage = new KvStorageAdapter({ client: createKvClient().client });
+        const savedAt = Date.now();
+        await storage.save('workflow:run-1', {}, { ttlMs: 60000 });
+        await storage.save('workflow:run-2', {});
+        await storage.save('checkpoint:run-1:a', {});
+
+        const listed = await storage.list('workflow:');
+
+        expect(listed.map(entry => entry.key).sort()).toEqual(['workflow:run-1', 'workflow:run-2']);
+        const [withTtl, withoutTtl] = listed.sort((a, b) => a.key.localeCompare(b.key));
+        expect(withTtl.updatedAt).toBeGreaterThanOrEqual(savedAt);
+        expect(withTtl.expiresAt).toBeGreaterThanOrEqual(savedAt + 60000);
+        expect(withoutTtl.expiresAt).toBeUndefined();
+    });
+
+    test('follows the scan cursor across pages', async () => {
+        const storage = new KvStorageAdapter({ client: createKvClient().client });
+        const keys = Array.from({ length: 250 }, (_, index) => `workflow:run-${index}`);
+        for (const key of keys) {
+            await storage.save(key, {});
+        }
+
+        expect((await storage.list('workflow:')).map(entry => entry.key)).toEqual(keys);
+    });
+
+    test('leaves expired entries out of the list', async () => {
+        const storage = new KvStorageAdapter({ client: createKvClient().client });
+        await storage.save('workflow:run-1', {}, { ttlMs: 20 });
+        await storage.save('workflow:run-2', {});
+        await sleep(30);
+
+        expect((await storage.list()).map(entry => entry.key)).toEqual(['workflow:run-2']);
+    });
+
+    test('matches prefixes with glob characters literally', async () => {
+        const storage = new KvStorageAdapter({ client: createKvClient().client });
+        await storage.save('workflow:run*1:a', {});
+        await storage.save('workflow:run-21:b', {});
+        await storage.save('workflow:run?:c', {});
+        await storage.save('workflow:run1:d', {});
+
+        expect((await storage.list('workflow:run*')).map(entry => entry.key)).toEqual([
+            'workflow:run*1:a',
+        ]);
+        expect((await storage.list('workflow:run?')).map(entry => entry.key)).toEqual([
+            'workflow:run?:c',
+        ]);
+    });
+});
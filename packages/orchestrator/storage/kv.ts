@@ -0,0 +1,88 @@
+import { PersistentStorageAdapter, StorageListEntry, StorageSaveOptions } from '../persistence';
+import { createStoredEntry, StoredEntry } from './utils';
+
+// The subset of the `@vercel/kv` / `@upstash/redis` client this adapter needs
+export type KvClient = {
+    get<T = any>(key: string): Promise<T | null>;
+    set(key: string, value: any, options?: { px?: number }): Promise<unknown>;
+    del(...keys: string[]): Promise<number>;
+    exists(...keys: string[]): Promise<number>;
+    scan(
+        cursor: string | number,
+        options?: { match?: string; count?: number }
+    ): Promise<[string | number, string[]]>;
+};
+
+// Prefixes are matched literally, so glob characters in a key don't widen a SCAN MATCH
+const escapeGlob = (pattern: string) => pattern.replace(/[\\*?[\]]/g, '\\$&');
+
+/**
+ * Redis-backed storage. Expiry is delegated to Redis through `PX`, so expired
+ * runs disappear from both `load` and `list` without any cleanup pass. Values are
+ * stored with their save time, which Redis does not keep, so `list` reads each one.
+ */
+export class KvStorageAdapter implements PersistentStorageAdapter {
+    private client: KvClient;
+    private namespace: string;
+
+    constructor({ client, namespace = 'orchestrator' }: { client: KvClient; namespace?: string }) {
+        this.client = client;
+        this.namespace = namespace;
+    }
+
+    async save(key: string, data: any, options?: StorageSaveOptions): Promise<void> {
+        const value = JSON.stringify(createStoredEntry(data, options));
+        if (options?.ttlMs) {
+            await this.client.set(this.getKey(key), value, { px: options.ttlMs });
+        } else {
+            await this.client.set(this.getKey(key), value);
+        }
+    }
+
+    async load(key: string): Promise<any | null> {
+        return (await this.loadEntry(key))?.data ?? null;
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.del(this.getKey(key));
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return (await this.client.exists(this.getKey(key))) > 0;
+    }
+
+    async list(prefix: string = ''): Promise<StorageListEntry[]> {
+        const keys: string[] = [];
+        let cursor: string | number = 0;
+
+        do {
+            const [nextCursor, batch]: [string | number, string[]] = await this.client.scan(
+                cursor,
+                { match: `${escapeGlob(this.getKey(prefix))}*`, count: 100 }
+            );
+            keys.push(...batch.map(key => key.slice(this.namespace.length + 1)));
+            cursor = nextCursor;
+        } while (String(cursor) !== '0');
+
+        const listed: StorageListEntry[] = [];
+        for (const key of keys) {
+            // Keys may expire between the scan and the read
+            const entry = await this.loadEntry(key);
+            if (entry) {
+                listed.push({ key, updatedAt: entry.updatedAt, expiresAt: entry.expiresAt });
+            }
+        }
+        return listed;
+    }
+
+    private async loadEntry(key: string): Promise<StoredEntry | null> {
+        const value = await this.client.get(this.getKey(key));
+        if (value === null || value === undefined) return null;
+        // Upstash deserializes JSON values automatically
+        return typeof value === 'string' ? JSON.parse(value) : value;
+    }
+
+    private getKey(key: string): string {
+        return `${this.namespace}:${key}`;
+    }
+}
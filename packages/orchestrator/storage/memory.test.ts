@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { MemoryStorageAdapter } from './memory';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('MemoryStorageAdapter', () => {
+    test('treats entries past their TTL as missing', async () => {
+        const storage = new MemoryStorageAdapter();
+        await storage.save('workflow:run-1', { step: 1 }, { ttlMs: 20 });
+        await storage.save('workflow:run-2', { step: 2 });
+
+        expect(await storage.exists('workflow:run-1')).toBe(true);
+        await sleep(30);
+
+        expect(await storage.load('workflow:run-1')).toBeNull();
+        expect(await storage.exists('workflow:run-1')).toBe(false);
+        expect(await storage.load('workflow:run-2')).toEqual({ step: 2 });
+    });
+
+    test('lists the entries under a prefix with their save and expiry times', async () => {
+        const storage = new MemoryStorageAdapter();
+        const savedAt = Date.now();
+        await storage.save('workflow:run-1', {}, { ttlMs: 60000 });
+        await storage.save('workflow:run-2', {});
+        await storage.save('checkpoint:run-1:a', {});
+
+        const listed = await storage.list('workflow:');
+
+        expect(listed.map(entry => entry.key).sort()).toEqual(['workflow:run-1', 'workflow:run-2']);
+        const [withTtl, withoutTtl] = listed.sort((a, b) => a.key.localeCompare(b.key));
+        expect(withTtl.updatedAt).toBeGreaterThanOrEqual(savedAt);
+        expect(withTtl.expiresAt).toBeGreaterThanOrEqual(savedAt + 60000);
+        expect(withoutTtl.expiresAt).toBeUndefined();
+    });
+
+    test('leaves expired entries out of the list', async () => {
+        const storage = new MemoryStorageAdapter();
+        await storage.save('workflow:run-1', {}, { ttlMs: 20 });
+        await storage.save('workflow:run-2', {});
+        await sleep(30);
+
+        expect((await storage.list()).map(entry => entry.key)).toEqual(['workflow:run-2']);
+    });
+});
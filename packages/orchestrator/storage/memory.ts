@@ -0,0 +1,40 @@
+import { PersistentStorageAdapter, StorageListEntry, StorageSaveOptions } from '../persistence';
+import { createStoredEntry, isExpired, StoredEntry, toStorable } from './utils';
+
+export class MemoryStorageAdapter implements PersistentStorageAdapter {
+    private entries: Map<string, StoredEntry> = new Map();
+
+    async save(key: string, data: any, options?: StorageSaveOptions): Promise<void> {
+        this.entries.set(key, createStoredEntry(toStorable(data), options));
+    }
+
+    async load(key: string): Promise<any | null> {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+        if (isExpired(entry.expiresAt)) {
+            this.entries.delete(key);
+            return null;
+        }
+        return entry.data;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return (await this.load(key)) !== null;
+    }
+
+    async list(prefix: string = ''): Promise<StorageListEntry[]> {
+        const listed: StorageListEntry[] = [];
+        for (const [key, { updatedAt, expiresAt }] of Array.from(this.entries.entries())) {
+            if (isExpired(expiresAt)) {
+                this.entries.delete(key);
+            } else if (key.startsWith(prefix)) {
+                listed.push({ key, updatedAt, expiresAt });
+            }
+        }
+        return listed;
+    }
+}
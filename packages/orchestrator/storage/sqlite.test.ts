@@ -0,0 +1,38 @@
+import { Database } from 'bun:sqlite';
+import { describe, expect, test } from 'bun:test';
+import { SqliteStorageAdapter } from './sqlite';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SqliteStorageAdapter', () => {
+    test('treats rows past their TTL as missing', async () => {
+        const storage = new SqliteStorageAdapter({ db: new Database(':memory:') });
+        await storage.save('workflow:run-1', { step: 1 }, { ttlMs: 20 });
+
+        expect(await storage.load('workflow:run-1')).toEqual({ step: 1 });
+        await sleep(30);
+
+        expect(await storage.load('workflow:run-1')).toBeNull();
+    });
+
+    test('lists unexpired rows under a prefix, oldest save first', async () => {
+        const db = new Database(':memory:');
+        const storage = new SqliteStorageAdapter({ db });
+        await storage.save('workflow:run-2', {});
+        await sleep(5);
+        await storage.save('workflow:run-1', {}, { ttlMs: 60000 });
+        await storage.save('workflow:run-3', {}, { ttlMs: 20 });
+        await storage.save('checkpoint:run-1:a', {});
+        await sleep(30);
+
+        const listed = await storage.list('workflow:');
+
+        expect(listed.map(entry => entry.key)).toEqual(['workflow:run-2', 'workflow:run-1']);
+        expect(listed[0].expiresAt).toBeUndefined();
+        expect(listed[1].expiresAt).toBeGreaterThanOrEqual(listed[1].updatedAt + 60000);
+        // Expired rows are deleted by the listing
+        expect(db.prepare('SELECT count(*) AS count FROM workflow_snapshots').get()).toEqual({
+            count: 3,
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import { PersistentStorageAdapter, StorageListEntry, StorageSaveOptions } from '../persistence';
+import { getExpiresAt, isExpired } from './utils';
+
+// The subset of the better-sqlite3 / bun:sqlite API this adapter needs
+export type SqliteDatabase = {
+    exec(sql: string): unknown;
+    prepare(sql: string): {
+        run(...params: any[]): unknown;
+        get(...params: any[]): any;
+        all(...params: any[]): any[];
+    };
+};
+
+type SqliteRow = {
+    key: string;
+    data: string;
+    expires_at: number | null;
+    updated_at: number;
+};
+
+export class SqliteStorageAdapter implements PersistentStorageAdapter {
+    private db: SqliteDatabase;
+    private table: string;
+
+    constructor({ db, table = 'workflow_snapshots' }: { db: SqliteDatabase; table?: string }) {
+        this.db = db;
+        this.table = table;
+        this.db.exec(
+            `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, data TEXT NOT NULL, expires_at INTEGER, updated_at INTEGER NOT NULL)`
+        );
+    }
+
+    async save(key: string, data: any, options?: StorageSaveOptions): Promise<void> {
+        this.db
+            .prepare(
+                `INSERT INTO ${this.table} (key, data, expires_at, updated_at) VALUES (?, ?, ?, ?)
+                 ON CONFLICT(key) DO UPDATE SET data = excluded.data, expires_at = excluded.expires_at, updated_at = excluded.updated_at`
+            )
+            .run(key, JSON.stringify(data), getExpiresAt(options) ?? null, Date.now());
+    }
+
+    async load(key: string): Promise<any | null> {
+        const row: SqliteRow | undefined = this.db
+            .prepare(`SELECT key, data, expires_at FROM ${this.table} WHERE key = ?`)
+            .get(key);
+        if (!row) return null;
+        if (isExpired(row.expires_at)) {
+            await this.delete(key);
+            return null;
+        }
+        return JSON.parse(row.data);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return (await this.load(key)) !== null;
+    }
+
+    async list(prefix: string = ''): Promise<StorageListEntry[]> {
+        this.db
+            .prepare(`DELETE FROM ${this.table} WHERE expires_at IS NOT NULL AND expires_at <= ?`)
+            .run(Date.now());
+        const rows: Omit<SqliteRow, 'data'>[] = this.db
+            .prepare(
+                `SELECT key, expires_at, updated_at FROM ${this.table} WHERE substr(key, 1, ?) = ? ORDER BY updated_at`
+            )
+            .all(prefix.length, prefix);
+        return rows.map(row => ({
+            key: row.key,
+            updatedAt: row.updated_at,
+            expiresAt: row.expires_at ?? undefined,
+        }));
+    }
+}
@@ -0,0 +1,26 @@
+import { StorageSaveOptions } from '../persistence';
+
+export type StoredEntry = {
+    data: any;
+    updatedAt: number;
+    expiresAt?: number;
+};
+
+export const createStoredEntry = (data: any, options?: StorageSaveOptions): StoredEntry => ({
+    data,
+    updatedAt: Date.now(),
+    expiresAt: getExpiresAt(options),
+});
+
+export const getExpiresAt = (options?: StorageSaveOptions): number | undefined => {
+    return options?.ttlMs ? Date.now() + options.ttlMs : undefined;
+};
+
+export const isExpired = (expiresAt?: number | null): boolean => {
+    return !!expiresAt && expiresAt <= Date.now();
+};
+
+// Round-trips through JSON so every adapter drops functions (e.g. `onFinish`) the same way
+export const toStorable = (data: any): any => {
+    return JSON.parse(JSON.stringify(data));
+};
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { Context } from './context';
+import { TypedEventEmitter } from './events';
+import { createSubWorkflowTask } from './sub-workflow';
+import { createTask } from './task';
+import { TaskDefinition } from './types';
+
+type ResearchContext = { query?: string; findings?: string[] };
+
+const createResearch = (tasks: TaskDefinition[]) =>
+    new WorkflowBuilder<any, ResearchContext>('research', {
+        initialTask: tasks[0].name,
+        context: new Context<ResearchContext>({}),
+        events: new TypedEventEmitter<any>({}),
+    }).addTasks(tasks);
+
+const searchTask = createTask({
+    name: 'search',
+    execute: async ({ context, events }) => {
+        events?.update('status', () => 'searching');
+        context?.set('findings', [`notes on ${context.get('query')}`]);
+    },
+    route: () => 'end',
+});
+
+const runParent = async (
+    subWorkflow: TaskDefinition,
+    { timeoutMs }: { timeoutMs?: number } = {}
+) => {
+    const context = new Context<{ question: string; report?: any }>({ question: 'bun' });
+    const events = new TypedEventEmitter<any>({});
+    const workflow = new WorkflowBuilder('parent', { context, events })
+        .addTasks([
+            { ...subWorkflow, timeoutMs },
+            createTask({
+                name: 'write',
+                execute: async ({ data }) => context.set('report', data),
+                route: () => 'end',
+            }),
+        ])
+        .build();
+    await workflow.start(subWorkflow.name);
+    return { context, events };
+};
+
+describe('createSubWorkflowTask', () => {
+    test('starts the child with the mapped input and returns its output', async () => {
+        const { context, events } = await runParent(
+            createSubWorkflowTask({
+                name: 'research',
+                workflow: () => createResearch([searchTask]),
+                input: ({ context }) => ({ query: context?.get('question') }),
+                output: ({ context }) => context?.get('findings'),
+                route: () => 'write',
+            })
+        );
+
+        expect(context.get('report')).toEqual(['notes on bun']);
+        expect(events.getState('research')).toEqual({ status: 'searching' });
+    });
+
+    test('fails the parent task when a child task fails', async () => {
+        const failing = createTask({
+            name: 'search',
+            execute: async () => {
+                throw new Error('search backend down');
+            },
+        });
+
+        await expect(
+            runParent(
+                createSubWorkflowTask({
+                    name: 'research',
+                    workflow: () => createResearch([failing]),
+                })
+            )
+        ).rejects.toThrow('search backend down');
+    });
+
+    test("fails when the child suspends on input, which sub-workflows don't support", async () => {
+        const asking = createTask({
+            name: 'search',
+            execute: async ({ awaitInput }) => awaitInput('scope'),
+        });
+
+        await expect(
+            runParent(
+                createSubWorkflowTask({
+                    name: 'research',
+                    workflow: () => createResearch([asking]),
+                })
+            )
+        ).rejects.toThrow('is waiting for input (scope)');
+    });
+
+    test("aborts the child's tasks when the parent task times out", async () => {
+        let childSignal: AbortSignal | undefined;
+        const hanging = createTask({
+            name: 'search',
+            execute: async ({ signal }) => {
+                childSignal = signal;
+                await new Promise(() => {});
+            },
+        });
+
+        await expect(
+            runParent(
+                createSubWorkflowTask({
+                    name: 'research',
+                    workflow: () => createResearch([hanging]),
+                }),
+                { timeoutMs: 10 }
+            )
+        ).rejects.toThrow('Task timeout exceeded');
+        expect(childSignal?.aborted).toBe(true);
+    });
+});
@@ -0,0 +1,118 @@
+import { WorkflowBuilder } from './builder';
+import { Context, ContextSchemaDefinition } from './context';
+import { WorkflowEngine } from './engine';
+import { EventSchemaDefinition, TypedEventEmitter } from './events';
+import { TaskDefinition, TaskExecuteParams } from './types';
+
+export type SubWorkflowResult<
+    TChildEvent extends EventSchemaDefinition = any,
+    TChildContext extends ContextSchemaDefinition = any,
+> = {
+    workflow: WorkflowEngine<TChildEvent, TChildContext>;
+    context?: Context<TChildContext>;
+    events?: TypedEventEmitter<TChildEvent>;
+};
+
+export type SubWorkflowTaskOptions<
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+    TChildEvent extends EventSchemaDefinition = any,
+    TChildContext extends ContextSchemaDefinition = any,
+> = Omit<TaskDefinition<TEvent, TContext>, 'execute'> & {
+    // Builds a fresh child workflow for every execution, so parallel runs don't share state
+    workflow: (
+        params: TaskExecuteParams<TEvent, TContext>
+    ) => WorkflowBuilder<TChildEvent, TChildContext>;
+    // Defaults to the initial task of the child builder
+    initialTask?: string;
+    // The slice of the parent's data and context the child starts with
+    input?: (params: TaskExecuteParams<TEvent, TContext>) => Partial<TChildContext>;
+    // What the task returns to the parent, the child's whole context by default
+    output?: (
+        child: SubWorkflowResult<TChildEvent, TChildContext>,
+        params: TaskExecuteParams<TEvent, TContext>
+    ) => any;
+    // Parent event key the child's event state is collected under, the task name by default
+    namespace?: string | ((params: TaskExecuteParams<TEvent, TContext>) => string);
+    // Replaces the namespaced forwarding, e.g. to pass selected child events through as is
+    forwardEvent?: (
+        event: keyof TChildEvent,
+        payload: any,
+        params: TaskExecuteParams<TEvent, TContext>
+    ) => void;
+};
+
+/**
+ * Run a whole workflow as a single task of another one. The child has its own tasks,
+ * context and events, so task names can't collide with the parent's. Child events are
+ * forwarded into the parent's events under `namespace` as `{ [event]: payload }`.
+ */
+export const createSubWorkflowTask = <
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+    TChildEvent extends EventSchemaDefinition = any,
+    TChildContext extends ContextSchemaDefinition = any,
+>({
+    workflow,
+    initialTask,
+    input,
+    output,
+    namespace,
+    forwardEvent,
+    ...taskDef
+}: SubWorkflowTaskOptions<TEvent, TContext, TChildEvent, TChildContext>): TaskDefinition<
+    TEvent,
+    TContext
+> => ({
+    ...taskDef,
+    execute: async params => {
+        const builder = workflow(params);
+        const startTask = initialTask ?? builder.getInitialTask();
+        if (!startTask) {
+            throw new Error(`Sub-workflow task "${taskDef.name}" has no initial task.`);
+        }
+
+        // Child tasks get signals derived from this task's, so their in-flight LLM and HTTP
+        // calls are cancelled with it
+        const engine = builder.build({ signal: params.signal });
+        const key = typeof namespace === 'function' ? namespace(params) : namespace || taskDef.name;
+
+        engine.onAll((event, payload) => {
+            if (forwardEvent) {
+                forwardEvent(event, payload, params);
+                return;
+            }
+            (params.events as TypedEventEmitter<any> | undefined)?.update(key, current => ({
+                ...(current || {}),
+                [event]: payload,
+            }));
+        });
+
+        // Tokens spent by the child count towards this task
+        engine.onUsage(({ taskName, timestamp, ...usage }) => params.recordUsage(usage));
+
+        // Nor are further child tasks started once the parent task is aborted or timed out
+        const onAbort = () => engine.abort();
+        params.signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
+            await engine.start(startTask, input ? input(params) : undefined);
+        } finally {
+            params.signal?.removeEventListener('abort', onAbort);
+        }
+
+        if (engine.isSuspended()) {
+            const keys = engine.getAwaitedInputs().map(awaited => awaited.key);
+            throw new Error(
+                `Sub-workflow task "${taskDef.name}" is waiting for input (${keys.join(', ')}), which sub-workflows don't support.`
+            );
+        }
+
+        const child: SubWorkflowResult<TChildEvent, TChildContext> = {
+            workflow: engine,
+            context: engine.getContext(),
+            events: engine.getEvents(),
+        };
+        return output ? output(child, params) : child.context?.getAll();
+    },
+});
@@ -0,0 +1,83 @@
+export type SpanKind = 'workflow' | 'task' | 'retry' | 'route' | 'llm' | 'tool' | 'span';
+
+export type SpanAttributeValue = string | number | boolean | string[] | number[] | undefined;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export type SpanOptions = {
+    kind?: SpanKind;
+    input?: any;
+    attributes?: SpanAttributes;
+};
+
+export type SpanEndOptions = {
+    output?: any;
+    error?: unknown;
+    attributes?: SpanAttributes;
+};
+
+export interface Span {
+    startSpan(name: string, options?: SpanOptions): Span;
+    setAttributes(attributes: SpanAttributes): Span;
+    addEvent(name: string, attributes?: SpanAttributes): Span;
+    // Ending twice is a no-op
+    end(options?: SpanEndOptions): void;
+}
+
+/**
+ * Backend for the spans the engine emits around workflows, tasks, retries and routes,
+ * and that tasks add for LLM and tool calls. Implementations live in `./tracing`.
+ */
+export interface Tracer {
+    startSpan(name: string, options?: SpanOptions): Span;
+    // Sends buffered spans, e.g. before a serverless function returns
+    flush?(): Promise<void>;
+}
+
+// Attribute names follow the OpenTelemetry GenAI conventions where one exists
+export const SpanAttributeKeys = {
+    WORKFLOW_ID: 'workflow.id',
+    WORKFLOW_SUSPENDED: 'workflow.suspended',
+    TASK_NAME: 'task.name',
+    TASK_RUN: 'task.run',
+    TASK_ATTEMPTS: 'task.attempts',
+    TASK_SUSPENDED: 'task.suspended',
+    INPUT_KEY: 'input.key',
+    RETRY_ATTEMPT: 'retry.attempt',
+    RETRY_MAX_RETRIES: 'retry.max_retries',
+    RETRY_DELAY_MS: 'retry.delay_ms',
+    ROUTE_FROM: 'route.from',
+    ROUTE_TO: 'route.to',
+    BUDGET_EXCEEDED: 'budget.exceeded',
+    MODEL: 'gen_ai.request.model',
+    INPUT_TOKENS: 'gen_ai.usage.input_tokens',
+    OUTPUT_TOKENS: 'gen_ai.usage.output_tokens',
+    TOOL_NAME: 'gen_ai.tool.name',
+    TOOL_CALL_ID: 'gen_ai.tool.call.id',
+    ERROR_MESSAGE: 'error.message',
+} as const;
+
+export const getErrorMessage = (error: unknown): string =>
+    error instanceof Error ? error.message : String(error);
+
+class NoopSpan implements Span {
+    startSpan(): Span {
+        return this;
+    }
+
+    setAttributes(): Span {
+        return this;
+    }
+
+    addEvent(): Span {
+        return this;
+    }
+
+    end() {}
+}
+
+const noopSpan = new NoopSpan();
+
+export const noopTracer: Tracer = {
+    startSpan: () => noopSpan,
+};
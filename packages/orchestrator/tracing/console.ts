@@ -0,0 +1,63 @@
+import {
+    getErrorMessage,
+    Span,
+    SpanAttributes,
+    SpanEndOptions,
+    SpanOptions,
+    Tracer,
+} from '../tracer';
+
+class ConsoleSpan implements Span {
+    private attributes: SpanAttributes;
+    private startTime = Date.now();
+    private ended = false;
+
+    constructor(
+        private name: string,
+        private options: SpanOptions,
+        private depth: number,
+        private log: (line: string) => void
+    ) {
+        this.attributes = { ...options.attributes };
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        return new ConsoleSpan(name, options, this.depth + 1, this.log);
+    }
+
+    setAttributes(attributes: SpanAttributes): Span {
+        Object.assign(this.attributes, attributes);
+        return this;
+    }
+
+    addEvent(name: string, attributes?: SpanAttributes): Span {
+        this.log(`${'  '.repeat(this.depth + 1)}· ${name} ${JSON.stringify(attributes || {})}`);
+        return this;
+    }
+
+    end({ error, attributes }: SpanEndOptions = {}) {
+        if (this.ended) return;
+        this.ended = true;
+        Object.assign(this.attributes, attributes);
+        const status = error ? ` ❌ ${getErrorMessage(error)}` : '';
+        this.log(
+            `${'  '.repeat(this.depth)}🔭 [${this.options.kind || 'span'}] ${this.name} ${Date.now() - this.startTime}ms${status} ${JSON.stringify(this.attributes)}`
+        );
+    }
+}
+
+/**
+ * Logs every span when it ends, indented by depth. Meant for local debugging, spans
+ * are printed in the order they finish so children come before their parent.
+ */
+export class ConsoleTracer implements Tracer {
+    private log: (line: string) => void;
+
+    constructor({ log = console.log }: { log?: (line: string) => void } = {}) {
+        this.log = log;
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        return new ConsoleSpan(name, options, 0, this.log);
+    }
+}
@@ -0,0 +1,3 @@
+export * from './console';
+export * from './langfuse';
+export * from './otlp';
@@ -0,0 +1,111 @@
+import {
+    Langfuse,
+    LangfuseGenerationClient,
+    LangfuseSpanClient,
+    LangfuseTraceClient,
+} from 'langfuse';
+import {
+    getErrorMessage,
+    Span,
+    SpanAttributeKeys,
+    SpanAttributes,
+    SpanEndOptions,
+    SpanOptions,
+    Tracer,
+} from '../tracer';
+
+type LangfuseParent = LangfuseTraceClient | LangfuseSpanClient | LangfuseGenerationClient;
+
+class LangfuseSpan implements Span {
+    private attributes: SpanAttributes;
+    private ended = false;
+    private observation: LangfuseSpanClient | LangfuseGenerationClient;
+
+    constructor(
+        parent: LangfuseParent,
+        name: string,
+        private options: SpanOptions
+    ) {
+        this.attributes = { ...options.attributes };
+        // LLM calls become generations so Langfuse tracks models, tokens and cost
+        this.observation =
+            options.kind === 'llm'
+                ? parent.generation({
+                      name,
+                      input: options.input,
+                      model: this.attributes[SpanAttributeKeys.MODEL] as string | undefined,
+                      metadata: { kind: options.kind, ...this.attributes },
+                  })
+                : parent.span({
+                      name,
+                      input: options.input,
+                      metadata: { kind: options.kind || 'span', ...this.attributes },
+                  });
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        return new LangfuseSpan(this.observation, name, options);
+    }
+
+    setAttributes(attributes: SpanAttributes): Span {
+        Object.assign(this.attributes, attributes);
+        return this;
+    }
+
+    addEvent(name: string, attributes?: SpanAttributes): Span {
+        this.observation.event({ name, metadata: attributes });
+        return this;
+    }
+
+    end({ output, error, attributes }: SpanEndOptions = {}) {
+        if (this.ended) return;
+        this.ended = true;
+        Object.assign(this.attributes, attributes);
+
+        const body = {
+            output,
+            metadata: { kind: this.options.kind || 'span', ...this.attributes },
+            ...(error ? { level: 'ERROR' as const, statusMessage: getErrorMessage(error) } : {}),
+        };
+
+        if (this.options.kind === 'llm') {
+            const input = this.attributes[SpanAttributeKeys.INPUT_TOKENS] as number | undefined;
+            const outputTokens = this.attributes[SpanAttributeKeys.OUTPUT_TOKENS] as
+                | number
+                | undefined;
+            (this.observation as LangfuseGenerationClient).end({
+                ...body,
+                usage: { input, output: outputTokens },
+            });
+        } else {
+            this.observation.end(body);
+        }
+    }
+}
+
+/**
+ * Sends spans to Langfuse. Every root span opens its own trace, so one workflow run
+ * is one trace. The client is created from the LANGFUSE_* environment by default.
+ */
+export class LangfuseTracer implements Tracer {
+    private client: Langfuse;
+    private traceName?: string;
+
+    constructor({ client, traceName }: { client?: Langfuse; traceName?: string } = {}) {
+        this.client = client || new Langfuse();
+        this.traceName = traceName;
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        const trace = this.client.trace({
+            name: this.traceName || name,
+            input: options.input,
+            metadata: options.attributes,
+        });
+        return new LangfuseSpan(trace, name, options);
+    }
+
+    async flush() {
+        await this.client.flushAsync();
+    }
+}
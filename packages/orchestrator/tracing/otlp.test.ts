@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from '../builder';
+import { createTask } from '../task';
+import { Span, SpanAttributeKeys } from '../tracer';
+import { OtlpTracer } from './otlp';
+
+type ExportedSpan = {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    attributes: Array<{ key: string; value: Record<string, any> }>;
+};
+
+const requests: { url: string; body: any }[] = [];
+const originalFetch = globalThis.fetch;
+
+// The collector accepts every export, requests are kept to inspect the spans
+beforeEach(() => {
+    requests.length = 0;
+    globalThis.fetch = Object.assign(
+        async (input: RequestInfo | URL, init?: RequestInit) => {
+            requests.push({ url: String(input), body: JSON.parse(String(init?.body)) });
+            return new Response(null, { status: 200 });
+        },
+        { preconnect: originalFetch.preconnect }
+    );
+});
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+const getAttribute = (span: ExportedSpan, key: string) =>
+    span.attributes.find(attribute => attribute.key === key)?.value;
+
+// search → write, each task makes one LLM call under its own span
+const createWorkflow = (tracer: OtlpTracer) => {
+    const callModel = (trace: Span | undefined, model: string, promptTokens: number) => {
+        const span = trace?.startSpan(model, {
+            kind: 'llm',
+            attributes: { [SpanAttributeKeys.MODEL]: model },
+        });
+        span?.end({
+            output: 'answer',
+            attributes: {
+                [SpanAttributeKeys.INPUT_TOKENS]: promptTokens,
+                [SpanAttributeKeys.OUTPUT_TOKENS]: 20,
+            },
+        });
+    };
+
+    return new WorkflowBuilder('run-1', { tracer })
+        .addTasks([
+            createTask({
+                name: 'search',
+                execute: async ({ trace }) => callModel(trace, 'gpt-4o-mini', 120),
+                route: () => 'write',
+            }),
+            createTask({
+                name: 'write',
+                execute: async ({ trace }) => callModel(trace, 'gpt-4.1', 300),
+                route: () => 'end',
+            }),
+        ])
+        .build();
+};
+
+describe('OtlpTracer', () => {
+    test('exports a span per task, LLM call and route under the workflow span', async () => {
+        const workflow = createWorkflow(
+            new OtlpTracer({ url: 'http://collector.test/v1/traces', serviceName: 'research' })
+        );
+
+        await workflow.start('search');
+        await workflow.flushTraces();
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0].url).toBe('http://collector.test/v1/traces');
+        const [resourceSpans] = requests[0].body.resourceSpans;
+        expect(resourceSpans.resource.attributes).toEqual([
+            { key: 'service.name', value: { stringValue: 'research' } },
+        ]);
+
+        const spans: ExportedSpan[] = resourceSpans.scopeSpans[0].spans;
+        const byKind = (kind: string) =>
+            spans.filter(span => getAttribute(span, 'span.kind')?.stringValue === kind);
+        const [root] = byKind('workflow');
+        const tasks = byKind('task');
+        const llmCalls = byKind('llm');
+        const routes = byKind('route');
+
+        expect(spans).toHaveLength(7);
+        expect(root.name).toBe('run-1');
+        expect(root.parentSpanId).toBeUndefined();
+        expect(tasks.map(span => span.name)).toEqual(['search', 'write']);
+        expect(llmCalls.map(span => span.name)).toEqual(['gpt-4o-mini', 'gpt-4.1']);
+        expect(routes.map(span => span.name)).toEqual(['search → write', 'write → end']);
+
+        // Every span is in the run's trace, LLM calls and routes nest under their task
+        expect(new Set(spans.map(span => span.traceId)).size).toBe(1);
+        tasks.forEach((task, index) => {
+            expect(task.parentSpanId).toBe(root.spanId);
+            expect(llmCalls[index].parentSpanId).toBe(task.spanId);
+            expect(routes[index].parentSpanId).toBe(task.spanId);
+        });
+
+        expect(getAttribute(llmCalls[0], SpanAttributeKeys.MODEL)).toEqual({
+            stringValue: 'gpt-4o-mini',
+        });
+        expect(getAttribute(llmCalls[0], SpanAttributeKeys.INPUT_TOKENS)).toEqual({
+            intValue: '120',
+        });
+        expect(getAttribute(llmCalls[1], SpanAttributeKeys.INPUT_TOKENS)).toEqual({
+            intValue: '300',
+        });
+        expect(getAttribute(llmCalls[1], SpanAttributeKeys.OUTPUT_TOKENS)).toEqual({
+            intValue: '20',
+        });
+        expect(getAttribute(routes[0], SpanAttributeKeys.ROUTE_TO)).toEqual({
+            arrayValue: { values: [{ stringValue: 'write' }] },
+        });
+    });
+
+    test('sends full batches before the run ends', async () => {
+        const workflow = createWorkflow(
+            new OtlpTracer({ url: 'http://collector.test/v1/traces', maxBatchSize: 3 })
+        );
+
+        await workflow.start('search');
+        await workflow.flushTraces();
+
+        expect(
+            requests.map(request => request.body.resourceSpans[0].scopeSpans[0].spans.length)
+        ).toEqual([3, 3, 1]);
+    });
+});
@@ -0,0 +1,229 @@
+import {
+    getErrorMessage,
+    Span,
+    SpanAttributes,
+    SpanAttributeValue,
+    SpanEndOptions,
+    SpanOptions,
+    Tracer,
+} from '../tracer';
+
+type OtlpValue =
+    | { stringValue: string }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { boolValue: boolean }
+    | { arrayValue: { values: OtlpValue[] } };
+
+type OtlpAttribute = { key: string; value: OtlpValue };
+
+type OtlpSpan = {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: number;
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: OtlpAttribute[];
+    events: Array<{ timeUnixNano: string; name: string; attributes: OtlpAttribute[] }>;
+    status: { code: number; message?: string };
+};
+
+// SpanKind.INTERNAL and StatusCode values from the OTLP protocol
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+const MAX_ATTRIBUTE_LENGTH = 4096;
+
+const randomHex = (bytes: number) =>
+    Array.from(globalThis.crypto.getRandomValues(new Uint8Array(bytes)), byte =>
+        byte.toString(16).padStart(2, '0')
+    ).join('');
+
+const toUnixNano = (ms: number) => `${BigInt(Math.round(ms)) * BigInt(1000000)}`;
+
+const truncate = (value: string) =>
+    value.length > MAX_ATTRIBUTE_LENGTH ? `${value.slice(0, MAX_ATTRIBUTE_LENGTH)}…` : value;
+
+const toOtlpValue = (value: Exclude<SpanAttributeValue, undefined>): OtlpValue => {
+    if (Array.isArray(value)) {
+        return { arrayValue: { values: (value as Array<string | number>).map(toOtlpValue) } };
+    }
+    if (typeof value === 'boolean') return { boolValue: value };
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? { intValue: `${value}` } : { doubleValue: value };
+    }
+    return { stringValue: truncate(value) };
+};
+
+const toOtlpAttributes = (attributes: SpanAttributes): OtlpAttribute[] =>
+    Object.entries(attributes)
+        .filter((entry): entry is [string, Exclude<SpanAttributeValue, undefined>] => {
+            return entry[1] !== undefined;
+        })
+        .map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+
+const stringify = (value: any) => {
+    if (value === undefined) return undefined;
+    try {
+        return typeof value === 'string' ? value : JSON.stringify(value);
+    } catch {
+        return String(value);
+    }
+};
+
+class OtlpSpanImpl implements Span {
+    private spanId = randomHex(8);
+    private startTime = Date.now();
+    private attributes: SpanAttributes;
+    private events: OtlpSpan['events'] = [];
+    private ended = false;
+
+    constructor(
+        private tracer: OtlpTracer,
+        private name: string,
+        options: SpanOptions,
+        private traceId: string = randomHex(16),
+        private parentSpanId?: string
+    ) {
+        this.attributes = {
+            'span.kind': options.kind || 'span',
+            'input.value': stringify(options.input),
+            ...options.attributes,
+        };
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        return new OtlpSpanImpl(this.tracer, name, options, this.traceId, this.spanId);
+    }
+
+    setAttributes(attributes: SpanAttributes): Span {
+        Object.assign(this.attributes, attributes);
+        return this;
+    }
+
+    addEvent(name: string, attributes: SpanAttributes = {}): Span {
+        this.events.push({
+            timeUnixNano: toUnixNano(Date.now()),
+            name,
+            attributes: toOtlpAttributes(attributes),
+        });
+        return this;
+    }
+
+    end({ output, error, attributes }: SpanEndOptions = {}) {
+        if (this.ended) return;
+        this.ended = true;
+        Object.assign(this.attributes, attributes, {
+            'output.value': stringify(output),
+            ...(error ? { 'error.message': getErrorMessage(error) } : {}),
+        });
+
+        this.tracer.record(
+            {
+                traceId: this.traceId,
+                spanId: this.spanId,
+                parentSpanId: this.parentSpanId,
+                name: this.name,
+                kind: SPAN_KIND_INTERNAL,
+                startTimeUnixNano: toUnixNano(this.startTime),
+                endTimeUnixNano: toUnixNano(Date.now()),
+                attributes: toOtlpAttributes(this.attributes),
+                events: this.events,
+                status: error
+                    ? { code: STATUS_ERROR, message: getErrorMessage(error) }
+                    : { code: STATUS_OK },
+            },
+            !this.parentSpanId
+        );
+    }
+}
+
+export type OtlpTracerOptions = {
+    // Full traces endpoint, e.g. http://localhost:4318/v1/traces
+    url?: string;
+    headers?: Record<string, string>;
+    serviceName?: string;
+    // Spans sent per request, buffered spans are also sent when a root span ends
+    maxBatchSize?: number;
+};
+
+const getEnv = (key: string) =>
+    typeof process !== 'undefined' && process.env ? process.env[key] : undefined;
+
+/**
+ * Exports spans over OTLP/HTTP as JSON, without depending on the OpenTelemetry SDK,
+ * so it also works in the web worker. Defaults follow the standard
+ * OTEL_EXPORTER_OTLP_* and OTEL_SERVICE_NAME environment variables.
+ */
+export class OtlpTracer implements Tracer {
+    private url: string;
+    private headers: Record<string, string>;
+    private serviceName: string;
+    private maxBatchSize: number;
+    private buffer: OtlpSpan[] = [];
+    private pending = new Set<Promise<void>>();
+
+    constructor({
+        url = getEnv('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT') ||
+            `${getEnv('OTEL_EXPORTER_OTLP_ENDPOINT') || 'http://localhost:4318'}/v1/traces`,
+        headers = {},
+        serviceName = getEnv('OTEL_SERVICE_NAME') || 'deep-research-workflow',
+        maxBatchSize = 100,
+    }: OtlpTracerOptions = {}) {
+        this.url = url;
+        this.headers = headers;
+        this.serviceName = serviceName;
+        this.maxBatchSize = maxBatchSize;
+    }
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        return new OtlpSpanImpl(this, name, options);
+    }
+
+    record(span: OtlpSpan, isRoot: boolean) {
+        this.buffer.push(span);
+        if (isRoot || this.buffer.length >= this.maxBatchSize) {
+            this.export();
+        }
+    }
+
+    async flush() {
+        this.export();
+        await Promise.all(this.pending);
+    }
+
+    private export() {
+        if (this.buffer.length === 0) return;
+        const spans = this.buffer.splice(0, this.buffer.length);
+
+        const request = fetch(this.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...this.headers },
+            body: JSON.stringify({
+                resourceSpans: [
+                    {
+                        resource: {
+                            attributes: toOtlpAttributes({ 'service.name': this.serviceName }),
+                        },
+                        scopeSpans: [{ scope: { name: '@repo/orchestrator' }, spans }],
+                    },
+                ],
+            }),
+        })
+            .then(response => {
+                if (!response.ok) {
+                    console.warn(`⚠️ OTLP export failed with status ${response.status}`);
+                }
+            })
+            .catch(error => {
+                console.warn(`⚠️ OTLP export failed: ${getErrorMessage(error)}`);
+            })
+            .finally(() => {
+                this.pending.delete(request);
+            });
+
+        this.pending.add(request);
+    }
+}
@@ -1,15 +1,74 @@
-import { LangfuseTraceClient } from 'langfuse';
+import { WorkflowBudget } from './budget';
+import { CheckpointOptions } from './checkpoints';
 import { Context, ContextSchemaDefinition } from './context';
 import { EventSchemaDefinition, TypedEventEmitter } from './events';
 import { ExecutionContext } from './execution-context';
+import { Span } from './tracer';
 
 export type WorkflowConfig = {
-    maxIterations?: number;
     maxRetries?: number;
+    // Deadline for the whole run, after which running tasks are aborted through their signal
     timeoutMs?: number;
     retryDelayMs?: number;
     retryDelayMultiplier?: number;
+    retryMaxDelayMs?: number;
+    // Fraction of the delay randomly added or removed, e.g. 0.2 for ±20%
+    retryJitter?: number;
+    isRetryableError?: (error: Error, attempt: number) => boolean;
+    // Aborts the run together with the engine's own signal
     signal?: AbortSignal;
+    // Snapshots of the run taken after every task once enabled, see WorkflowEngine.forkFrom
+    checkpoints?: CheckpointOptions;
+    budget?: WorkflowBudget;
+};
+
+// Per-task overrides of the retry settings in WorkflowConfig
+export type RetryPolicy = {
+    maxRetries?: number;
+    delayMs?: number;
+    multiplier?: number;
+    maxDelayMs?: number;
+    jitter?: number;
+    isRetryable?: (error: Error, attempt: number) => boolean;
+};
+
+export type TaskRetryEvent = {
+    taskName: string;
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    error: string;
+};
+
+// One LLM call as reported by a task through `recordUsage`
+export type LLMUsage = {
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    // Part of completionTokens spent on reasoning, where it is known
+    reasoningTokens?: number;
+    // In USD, priced by the caller since the engine doesn't know about models
+    cost?: number;
+};
+
+export type UsageRecord = LLMUsage & {
+    taskName: string;
+    timestamp: number;
+};
+
+export type UsageTotals = {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    reasoningTokens: number;
+    totalTokens: number;
+    cost: number;
+};
+
+export type UsageSummary = {
+    total: UsageTotals;
+    tasks: Record<string, UsageTotals>;
+    models: Record<string, UsageTotals>;
 };
 
 export type TaskParams<
@@ -19,7 +78,8 @@ export type TaskParams<
     data?: any;
     executionContext: ExecutionContext;
     abort: (graceful: boolean) => void;
-    trace?: LangfuseTraceClient;
+    // Span of the current task, child spans started from it nest under the task
+    trace?: Span;
     events?: TypedEventEmitter<TEvent>;
     context?: Context<TContext>;
     config?: WorkflowConfig;
@@ -27,6 +87,16 @@ export type TaskParams<
     signal?: AbortSignal;
 };
 
+// Only task execution can suspend on input, routers and error handlers can't
+export type TaskExecuteParams<
+    TEvent extends EventSchemaDefinition = any,
+    TContext extends ContextSchemaDefinition = any,
+> = TaskParams<TEvent, TContext> & {
+    awaitInput: AwaitInput;
+    // Attributes the tokens and cost of an LLM call to this task
+    recordUsage: (usage: LLMUsage) => void;
+};
+
 export type TaskRouterParams<
     TEvent extends EventSchemaDefinition = any,
     TContext extends ContextSchemaDefinition = any,
@@ -44,7 +114,13 @@ export type TaskExecutionFunction<
     TEvent extends EventSchemaDefinition = any,
     TContext extends ContextSchemaDefinition = any,
     TWorkflow extends WorkflowDefinition<TEvent, TContext> = WorkflowDefinition<TEvent, TContext>,
-> = (params: Omit<TaskParams<TEvent, TContext>, 'signal'> & { signal?: AbortSignal }) => Promise<
+> = (
+    params: Omit<TaskParams<TEvent, TContext>, 'signal'> & {
+        signal?: AbortSignal;
+        awaitInput: AwaitInput;
+        recordUsage: (usage: LLMUsage) => void;
+    }
+) => Promise<
     | {
           result: any;
           next?:
@@ -77,24 +153,61 @@ export type TaskConfig<
 > = {
     execute: TaskExecutionFunction<TEvent, TContext>;
     route: TaskRouterFunction<TEvent, TContext>;
+    next?: string[];
     dependencies?: string[];
     retryCount?: number;
+    retry?: RetryPolicy;
     timeoutMs?: number;
     onError?: TaskErrorHandler<TEvent, TContext>;
 };
 
+export type PendingTask = {
+    id: string;
+    task: string;
+    data?: any;
+    from?: string;
+};
+
 export type WorkflowState = {
     completedTasks: Set<string>;
     runningTasks: Set<string>;
     taskData: Map<string, any>;
+    // Routes that have been decided but whose task has not completed yet
+    pendingTasks: Map<string, PendingTask>;
+    // Answers to `awaitInput` requests, kept so a re-run task gets them immediately
+    inputs: Map<string, any>;
+    awaitedInputs: Map<string, AwaitedInput>;
+};
+
+export type AwaitedInput = {
+    key: string;
+    task: string;
+    // The pending route re-run once the input arrives
+    routeId?: string;
+    // Whatever the task wants to show the person answering, e.g. a question or a plan
+    request?: any;
+    requestedAt: string;
 };
 
+// Structural so that Zod or any schema with a `parse` method can validate the input
+export type InputSchema<T = any> = {
+    parse: (value: unknown) => T;
+};
+
+export type AwaitInput = <T = any>(
+    key: string,
+    schema?: InputSchema<T>,
+    request?: any
+) => Promise<T>;
+
 export type TaskOptions = {
     name: string;
     execute: TaskExecutionFunction<any, any>;
     route?: TaskRouterFunction<any, any>;
+    next?: string[];
     dependencies?: string[];
     retryCount?: number;
+    retry?: RetryPolicy;
     timeoutMs?: number;
     onError?: TaskErrorHandler<any, any>;
     signal?: AbortSignal;
@@ -132,12 +245,16 @@ export type TaskDefinition<
     TWorkflow extends WorkflowDefinition<TEvent, TContext> = WorkflowDefinition<TEvent, TContext>,
 > = {
     name: string;
-    execute: (params: TaskParams<TEvent, TContext>) => Promise<any>;
+    execute: (params: TaskExecuteParams<TEvent, TContext>) => Promise<any>;
     route?: (
         params: TaskRouterParams<TEvent, TContext>
     ) => TaskRouteDestination<TWorkflow> | Array<TaskRouteDestination<TWorkflow>> | undefined;
+    // Every task this one can route to (including 'end'), used to validate the graph at build time.
+    // An empty array marks a task that always ends the workflow.
+    next?: string[];
     dependencies?: string[];
     retryCount?: number;
+    retry?: RetryPolicy;
     timeoutMs?: number;
     onError?: TaskErrorHandler<TEvent, TContext>;
 };
@@ -149,4 +266,6 @@ export type WorkflowDefinition<
     tasks: Record<string, TaskDefinition<TEvent, TContext>>;
     initialTask: keyof WorkflowDefinition<TEvent, TContext>['tasks'];
     config?: WorkflowConfig;
+    // Bumped whenever persisted runs need a migration, see WorkflowMigration
+    version?: number;
 };
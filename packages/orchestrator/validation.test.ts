@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkflowBuilder } from './builder';
+import { createTask } from './task';
+import { TaskDefinition } from './types';
+import { validateWorkflow, WorkflowValidationError } from './validation';
+
+const task = (name: string, options: Partial<TaskDefinition> = {}) =>
+    createTask({ name, execute: async () => name, ...options });
+
+const buildError = (builder: WorkflowBuilder): WorkflowValidationError => {
+    try {
+        builder.build();
+    } catch (error) {
+        if (error instanceof WorkflowValidationError) return error;
+        throw error;
+    }
+    throw new Error('Expected build() to throw a WorkflowValidationError');
+};
+
+describe('validateWorkflow', () => {
+    test('accepts a graph whose every task is declared, reachable and ends', () => {
+        const report = validateWorkflow(
+            [task('plan', { next: ['search'] }), task('search', { next: ['end'] })],
+            'plan'
+        );
+
+        expect(report.valid).toBe(true);
+        expect(report.errors).toEqual([]);
+        expect(report.warnings).toEqual([]);
+        expect(report.reachableTasks).toEqual(['plan', 'search']);
+    });
+
+    test('reports a route to an undeclared task and suggests the closest name', () => {
+        const report = validateWorkflow(
+            [task('plan', { next: ['web_search', 'end'] }), task('webSearch', { next: ['end'] })],
+            'plan'
+        );
+
+        expect(report.valid).toBe(false);
+        expect(report.errors).toEqual([
+            expect.objectContaining({ type: 'unknown-destination', task: 'plan' }),
+        ]);
+        expect(report.errors[0].message).toContain('Did you mean "webSearch"?');
+    });
+
+    test('warns about tasks no declared route reaches', () => {
+        const report = validateWorkflow(
+            [task('plan', { next: ['end'] }), task('reflect', { next: ['end'] })],
+            'plan'
+        );
+
+        expect(report.valid).toBe(true);
+        expect(report.warnings).toEqual([
+            expect.objectContaining({ type: 'unreachable-task', task: 'reflect' }),
+        ]);
+    });
+
+    test("doesn't call tasks unreachable while a reachable task leaves its routes undeclared", () => {
+        const report = validateWorkflow([task('plan'), task('reflect', { next: ['end'] })], 'plan');
+
+        expect(report.warnings).toEqual([]);
+        expect(report.undeclaredTasks).toEqual(['plan']);
+    });
+});
+
+describe('WorkflowBuilder.build', () => {
+    test('throws a WorkflowValidationError listing every problem', () => {
+        const builder = new WorkflowBuilder('run-1', { initialTask: 'plan' }).addTasks([
+            task('plan', { next: ['serach', 'end'] }),
+            task('search', { next: ['writer'], dependencies: ['plan', 'analyze'] }),
+            task('writer', { next: ['end'] }),
+            task('reflect', { next: ['end'] }),
+        ]);
+
+        const error = buildError(builder);
+
+        expect(error.report.errors.map(issue => [issue.type, issue.task])).toEqual([
+            ['unknown-destination', 'plan'],
+            ['unknown-dependency', 'search'],
+        ]);
+        expect(error.report.warnings.map(issue => [issue.type, issue.task])).toEqual([
+            ['unreachable-task', 'search'],
+            ['unreachable-task', 'writer'],
+            ['unreachable-task', 'reflect'],
+        ]);
+        expect(error.message).toContain('Task "plan" routes to unknown task "serach"');
+        expect(error.message).toContain('Task "search" depends on unknown task "analyze"');
+    });
+
+    test('reports the same problems through validate() without throwing', () => {
+        const builder = new WorkflowBuilder('run-1', { initialTask: 'plan' }).addTasks([
+            task('plan', { next: ['search'] }),
+            task('search', { next: ['search'] }),
+        ]);
+
+        const report = builder.validate();
+
+        expect(report.valid).toBe(false);
+        expect(report.errors.map(issue => issue.type)).toEqual(['end-unreachable']);
+        expect(() => builder.build()).toThrow(WorkflowValidationError);
+    });
+});
@@ -0,0 +1,204 @@
+import { TaskDefinition } from './types';
+
+export type WorkflowValidationIssueType =
+    | 'duplicate-task'
+    | 'unknown-initial-task'
+    | 'unknown-destination'
+    | 'unknown-dependency'
+    | 'dependency-cycle'
+    | 'unreachable-task'
+    | 'end-unreachable';
+
+export type WorkflowValidationIssue = {
+    type: WorkflowValidationIssueType;
+    severity: 'error' | 'warning';
+    message: string;
+    task?: string;
+    path?: string[];
+};
+
+export type WorkflowValidationReport = {
+    valid: boolean;
+    errors: WorkflowValidationIssue[];
+    warnings: WorkflowValidationIssue[];
+    // Tasks reachable from the initial task through declared `next` destinations
+    reachableTasks: string[];
+    // Tasks without a `next` declaration, whose routing can't be checked statically
+    undeclaredTasks: string[];
+};
+
+export class WorkflowValidationError extends Error {
+    report: WorkflowValidationReport;
+
+    constructor(report: WorkflowValidationReport) {
+        super(
+            `Invalid workflow:\n${report.errors.map(issue => `  - ${issue.message}`).join('\n')}`
+        );
+        this.name = 'WorkflowValidationError';
+        this.report = report;
+    }
+}
+
+const END = 'end';
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[-_\s]/g, '');
+
+const suggestTask = (name: string, taskNames: string[]): string => {
+    const match = taskNames.find(taskName => normalizeName(taskName) === normalizeName(name));
+    return match ? ` Did you mean "${match}"?` : '';
+};
+
+const findDependencyCycles = (tasks: Map<string, TaskDefinition>): string[][] => {
+    const cycles: string[][] = [];
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (name: string) => {
+        const stackIndex = stack.indexOf(name);
+        if (stackIndex !== -1) {
+            cycles.push([...stack.slice(stackIndex), name]);
+            return;
+        }
+        if (visited.has(name)) return;
+
+        visited.add(name);
+        stack.push(name);
+        for (const dependency of tasks.get(name)?.dependencies || []) {
+            if (tasks.has(dependency)) {
+                visit(dependency);
+            }
+        }
+        stack.pop();
+    };
+
+    Array.from(tasks.keys()).forEach(visit);
+    return cycles;
+};
+
+/**
+ * Statically check a set of task definitions: declared destinations and dependencies
+ * must exist, dependencies must not form cycles, and when an initial task is given,
+ * every task and `end` must be reachable from it.
+ */
+export const validateWorkflow = (
+    taskDefinitions: TaskDefinition[],
+    initialTask?: string
+): WorkflowValidationReport => {
+    const issues: WorkflowValidationIssue[] = [];
+    const tasks = new Map<string, TaskDefinition>();
+
+    for (const task of taskDefinitions) {
+        if (tasks.has(task.name)) {
+            issues.push({
+                type: 'duplicate-task',
+                severity: 'error',
+                task: task.name,
+                message: `Task "${task.name}" is defined more than once.`,
+            });
+        }
+        tasks.set(task.name, task);
+    }
+
+    const taskNames = Array.from(tasks.keys());
+
+    tasks.forEach(task => {
+        for (const destination of task.next || []) {
+            if (destination !== END && !tasks.has(destination)) {
+                issues.push({
+                    type: 'unknown-destination',
+                    severity: 'error',
+                    task: task.name,
+                    message: `Task "${task.name}" routes to unknown task "${destination}".${suggestTask(destination, taskNames)}`,
+                });
+            }
+        }
+
+        for (const dependency of task.dependencies || []) {
+            if (!tasks.has(dependency)) {
+                issues.push({
+                    type: 'unknown-dependency',
+                    severity: 'error',
+                    task: task.name,
+                    message: `Task "${task.name}" depends on unknown task "${dependency}".${suggestTask(dependency, taskNames)}`,
+                });
+            }
+        }
+    });
+
+    for (const cycle of findDependencyCycles(tasks)) {
+        issues.push({
+            type: 'dependency-cycle',
+            severity: 'error',
+            task: cycle[0],
+            path: cycle,
+            message: `Dependencies form a cycle that can never be satisfied: ${cycle.join(' → ')}.`,
+        });
+    }
+
+    const undeclaredTasks = taskNames.filter(name => !tasks.get(name)?.next);
+    const reachable = new Set<string>();
+
+    if (initialTask !== undefined) {
+        if (!tasks.has(initialTask)) {
+            issues.push({
+                type: 'unknown-initial-task',
+                severity: 'error',
+                task: initialTask,
+                message: `Initial task "${initialTask}" is not defined.${suggestTask(initialTask, taskNames)}`,
+            });
+        } else {
+            const queue = [initialTask];
+            while (queue.length > 0) {
+                const name = queue.shift()!;
+                if (reachable.has(name)) continue;
+                reachable.add(name);
+                for (const destination of tasks.get(name)?.next || []) {
+                    if (tasks.has(destination)) {
+                        queue.push(destination);
+                    }
+                }
+            }
+
+            const reachableList = Array.from(reachable);
+            // A reachable task without declarations could route anywhere, so only a fully
+            // declared graph can prove a task unreachable
+            const fullyDeclared = reachableList.every(name => !!tasks.get(name)?.next);
+
+            if (fullyDeclared) {
+                taskNames
+                    .filter(name => !reachable.has(name))
+                    .forEach(name =>
+                        issues.push({
+                            type: 'unreachable-task',
+                            severity: 'warning',
+                            task: name,
+                            message: `Task "${name}" is not reachable from "${initialTask}".`,
+                        })
+                    );
+
+                const endReachable = reachableList.some(name => {
+                    const next = tasks.get(name)?.next || [];
+                    return next.length === 0 || next.includes(END);
+                });
+
+                if (!endReachable) {
+                    issues.push({
+                        type: 'end-unreachable',
+                        severity: 'error',
+                        message: `No path from "${initialTask}" ever reaches "end".`,
+                    });
+                }
+            }
+        }
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        warnings: issues.filter(issue => issue.severity === 'warning'),
+        reachableTasks: Array.from(reachable),
+        undeclaredTasks,
+    };
+};
@@ -1,3 +1,18 @@
+import {
+    MODEL_CATALOG,
+    ModelDefinition,
+    ModelEnum,
+    ModelProvider,
+    PROVIDER_API_KEY_NAMES,
+    ProviderApiKeyName,
+} from './models';
+import {
+    CustomChatMode,
+    getCustomChatModeConfig,
+    isCustomChatMode,
+    parseCustomChatMode,
+} from './providers';
+
 export enum ChatMode {
     Pro = 'pro',
     Deep = 'deep',
@@ -13,135 +28,217 @@ export enum ChatMode {
     CLAUDE_3_7_SONNET = 'claude-3-7-sonnet',
 }
 
-export const ChatModeConfig: Record<
-    ChatMode,
-    {
-        webSearch: boolean;
-        imageUpload: boolean;
-        retry: boolean;
-        isNew?: boolean;
-        isAuthRequired?: boolean;
-    }
-> = {
+// A built-in chat mode or a model of a registered provider, see `./providers`
+export type ChatModeId = ChatMode | CustomChatMode;
+
+export type ChatModeDefinition = {
+    name: string;
+    // The model answering in this mode, research modes pick a model per task
+    model?: ModelEnum;
+    // Tried in order when the model's provider errors or times out, see `@repo/ai/fallbacks`
+    fallbacks?: ModelEnum[];
+    webSearch: boolean;
+    // Defaults to whether the model has vision, false while the mode doesn't take images yet
+    imageUpload?: boolean;
+    retry: boolean;
+    creditCost: number;
+    // Tokens of message history sent with a request, older turns are compacted. Kept
+    // well below the context window, a long history costs as much as the window allows
+    maxHistoryTokens: number;
+    isAuthRequired: boolean;
+    isNew?: boolean;
+};
+
+// Every built-in chat mode, in the order the chat mode menu lists them
+export const CHAT_MODE_CATALOG: Record<ChatMode, ChatModeDefinition> = {
     [ChatMode.Deep]: {
+        name: 'Deep Research',
         webSearch: false,
-        imageUpload: false,
         retry: false,
+        creditCost: 10,
+        maxHistoryTokens: 100000,
         isAuthRequired: true,
     },
     [ChatMode.Pro]: {
+        name: 'Pro Search',
         webSearch: false,
-        imageUpload: false,
         retry: false,
+        creditCost: 5,
+        maxHistoryTokens: 100000,
         isAuthRequired: true,
     },
-    [ChatMode.GPT_4_1]: {
+    [ChatMode.LLAMA_4_SCOUT]: {
+        name: 'Llama 4 Scout',
+        model: ModelEnum.LLAMA_4_SCOUT,
+        fallbacks: [ModelEnum.GEMINI_2_FLASH, ModelEnum.GPT_4o_Mini],
         webSearch: true,
-        imageUpload: true,
         retry: true,
+        creditCost: 1,
+        maxHistoryTokens: 100000,
+        isAuthRequired: false,
         isNew: true,
-        isAuthRequired: true,
     },
-    [ChatMode.GPT_4_1_Mini]: {
+    [ChatMode.GPT_4_1]: {
+        name: 'GPT 4.1',
+        model: ModelEnum.GPT_4_1,
+        fallbacks: [ModelEnum.Claude_3_5_Sonnet, ModelEnum.GEMINI_2_FLASH],
         webSearch: true,
-        imageUpload: true,
         retry: true,
-        isNew: true,
+        creditCost: 5,
+        maxHistoryTokens: 100000,
         isAuthRequired: true,
+        isNew: true,
     },
-    [ChatMode.GPT_4_1_Nano]: {
+    [ChatMode.GPT_4_1_Mini]: {
+        name: 'GPT 4.1 Mini',
+        model: ModelEnum.GPT_4_1_Mini,
+        fallbacks: [ModelEnum.GPT_4o_Mini, ModelEnum.GEMINI_2_FLASH],
         webSearch: true,
-        imageUpload: true,
         retry: true,
+        creditCost: 2,
+        maxHistoryTokens: 100000,
+        isAuthRequired: true,
         isNew: true,
-        isAuthRequired: false,
     },
-    [ChatMode.LLAMA_4_SCOUT]: {
+    [ChatMode.GPT_4_1_Nano]: {
+        name: 'GPT 4.1 Nano',
+        model: ModelEnum.GPT_4_1_Nano,
+        fallbacks: [ModelEnum.GPT_4o_Mini, ModelEnum.GEMINI_2_FLASH],
         webSearch: true,
-        imageUpload: true,
         retry: true,
-        isNew: true,
+        creditCost: 1,
+        maxHistoryTokens: 100000,
         isAuthRequired: false,
+        isNew: true,
     },
-    [ChatMode.O4_Mini]: {
+    [ChatMode.GEMINI_2_FLASH]: {
+        name: 'Gemini 2 Flash',
+        model: ModelEnum.GEMINI_2_FLASH,
+        fallbacks: [ModelEnum.GPT_4o_Mini],
         webSearch: true,
-        imageUpload: false,
         retry: true,
-        isNew: true,
-        isAuthRequired: true,
+        creditCost: 1,
+        maxHistoryTokens: 500000,
+        isAuthRequired: false,
     },
     [ChatMode.GPT_4o_Mini]: {
+        name: 'GPT 4o Mini',
+        model: ModelEnum.GPT_4o_Mini,
+        fallbacks: [ModelEnum.GEMINI_2_FLASH],
         webSearch: true,
-        imageUpload: true,
         retry: true,
+        creditCost: 1,
+        maxHistoryTokens: 100000,
         isAuthRequired: false,
     },
-    [ChatMode.CLAUDE_3_5_SONNET]: {
+    [ChatMode.O4_Mini]: {
+        name: 'O4 Mini',
+        model: ModelEnum.O4_Mini,
+        fallbacks: [ModelEnum.Deepseek_R1, ModelEnum.GPT_4_1],
         webSearch: true,
-        imageUpload: true,
+        imageUpload: false,
         retry: true,
+        creditCost: 5,
+        maxHistoryTokens: 100000,
         isAuthRequired: true,
+        isNew: true,
     },
-    [ChatMode.CLAUDE_3_7_SONNET]: {
+    [ChatMode.CLAUDE_3_5_SONNET]: {
+        name: 'Claude 3.5 Sonnet',
+        model: ModelEnum.Claude_3_5_Sonnet,
+        fallbacks: [ModelEnum.GPT_4_1, ModelEnum.GEMINI_2_FLASH],
         webSearch: true,
-        imageUpload: true,
         retry: true,
+        creditCost: 5,
+        maxHistoryTokens: 100000,
         isAuthRequired: true,
     },
-    [ChatMode.GEMINI_2_FLASH]: {
+    [ChatMode.DEEPSEEK_R1]: {
+        name: 'DeepSeek R1',
+        model: ModelEnum.Deepseek_R1,
+        fallbacks: [ModelEnum.O4_Mini, ModelEnum.Deepseek_R1_Distill_Qwen_14B],
         webSearch: true,
-        imageUpload: true,
         retry: true,
-        isAuthRequired: false,
+        creditCost: 5,
+        maxHistoryTokens: 100000,
+        isAuthRequired: true,
     },
-    [ChatMode.DEEPSEEK_R1]: {
+    [ChatMode.CLAUDE_3_7_SONNET]: {
+        name: 'Claude 3.7 Sonnet',
+        model: ModelEnum.Claude_3_7_Sonnet,
+        fallbacks: [ModelEnum.GPT_4_1, ModelEnum.GEMINI_2_FLASH],
         webSearch: true,
-        imageUpload: false,
         retry: true,
+        creditCost: 5,
+        maxHistoryTokens: 100000,
         isAuthRequired: true,
     },
 };
 
-export const CHAT_MODE_CREDIT_COSTS = {
-    [ChatMode.Deep]: 10,
-    [ChatMode.Pro]: 5,
-    [ChatMode.LLAMA_4_SCOUT]: 1,
-    [ChatMode.GPT_4o_Mini]: 1,
-    [ChatMode.GPT_4_1]: 5,
-    [ChatMode.GPT_4_1_Mini]: 2,
-    [ChatMode.GPT_4_1_Nano]: 1,
-    [ChatMode.O4_Mini]: 5,
-    [ChatMode.CLAUDE_3_5_SONNET]: 5,
-    [ChatMode.CLAUDE_3_7_SONNET]: 5,
-    [ChatMode.GEMINI_2_FLASH]: 1,
-    [ChatMode.DEEPSEEK_R1]: 5,
+export type ChatModeFlags = {
+    webSearch: boolean;
+    imageUpload: boolean;
+    retry: boolean;
+    isNew?: boolean;
+    isAuthRequired?: boolean;
 };
 
-export const getChatModeName = (mode: ChatMode) => {
-    switch (mode) {
-        case ChatMode.Deep:
-            return 'Deep Research';
-        case ChatMode.Pro:
-            return 'Pro Search';
-        case ChatMode.GPT_4_1:
-            return 'GPT 4.1';
-        case ChatMode.GPT_4_1_Mini:
-            return 'GPT 4.1 Mini';
-        case ChatMode.GPT_4_1_Nano:
-            return 'GPT 4.1 Nano';
-        case ChatMode.LLAMA_4_SCOUT:
-            return 'Llama 4 Scout';
-        case ChatMode.GPT_4o_Mini:
-            return 'GPT 4o Mini';
-        case ChatMode.CLAUDE_3_5_SONNET:
-            return 'Claude 3.5 Sonnet';
-        case ChatMode.CLAUDE_3_7_SONNET:
-            return 'Claude 3.7 Sonnet';
-        case ChatMode.O4_Mini:
-            return 'O4 Mini';
-        case ChatMode.DEEPSEEK_R1:
-            return 'DeepSeek R1';
-        case ChatMode.GEMINI_2_FLASH:
-            return 'Gemini 2 Flash';
+const chatModes = Object.keys(CHAT_MODE_CATALOG) as ChatMode[];
+
+// Built-in chat modes that answer with a single model, in menu order
+export const MODEL_CHAT_MODES = chatModes.filter(mode => !!CHAT_MODE_CATALOG[mode].model);
+
+export const getChatModeModel = (mode: ChatMode): ModelDefinition | undefined => {
+    const model = CHAT_MODE_CATALOG[mode]?.model;
+    return model ? MODEL_CATALOG[model] : undefined;
+};
+
+export const ChatModeConfig = chatModes.reduce(
+    (config, mode) => {
+        const { webSearch, imageUpload, retry, isNew, isAuthRequired } = CHAT_MODE_CATALOG[mode];
+        config[mode] = {
+            webSearch,
+            imageUpload: imageUpload ?? !!getChatModeModel(mode)?.capabilities.vision,
+            retry,
+            isNew,
+            isAuthRequired,
+        };
+        return config;
+    },
+    {} as Record<ChatMode, ChatModeFlags>
+);
+
+export const CHAT_MODE_CREDIT_COSTS = chatModes.reduce(
+    (costs, mode) => {
+        costs[mode] = CHAT_MODE_CATALOG[mode].creditCost;
+        return costs;
+    },
+    {} as Record<ChatMode, number>
+);
+
+// Flags of a chat mode, undefined for models of providers that aren't registered here
+export const getChatModeConfig = (mode: ChatModeId): ChatModeFlags | undefined =>
+    isCustomChatMode(mode) ? getCustomChatModeConfig(mode) : ChatModeConfig[mode];
+
+export const getChatModeCreditCost = (mode: ChatModeId): number =>
+    isCustomChatMode(mode)
+        ? (getCustomChatModeConfig(mode)?.creditCost ?? 1)
+        : CHAT_MODE_CREDIT_COSTS[mode];
+
+export const getChatModeName = (mode: ChatModeId) =>
+    isCustomChatMode(mode)
+        ? (getCustomChatModeConfig(mode)?.name ?? mode)
+        : CHAT_MODE_CATALOG[mode]?.name;
+
+/**
+ * The key in the user's settings that runs this mode in their browser. Research modes and
+ * models of endpoints added in settings have none.
+ */
+export const getChatModeApiKeyName = (mode: ChatModeId): ProviderApiKeyName | undefined => {
+    if (isCustomChatMode(mode)) {
+        const { providerId } = parseCustomChatMode(mode);
+        return PROVIDER_API_KEY_NAMES[providerId as ModelProvider];
     }
+    const model = getChatModeModel(mode);
+    return model && PROVIDER_API_KEY_NAMES[model.provider];
 };
@@ -1,3 +1,5 @@
 export * from './chat-mode';
+export * from './models';
 export * from './privacy';
+export * from './providers';
 export * from './terms';
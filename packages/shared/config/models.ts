@@ -0,0 +1,182 @@
+export enum ModelEnum {
+    GPT_4o_Mini = 'gpt-4o-mini',
+    GPT_4o = 'gpt-4o',
+    GPT_4_1_Mini = 'gpt-4.1-mini',
+    GPT_4_1_Nano = 'gpt-4.1-nano',
+    GPT_4_1 = 'gpt-4.1',
+    LLAMA_4_SCOUT = 'accounts/fireworks/models/llama4-scout-instruct-basic',
+    Deepseek_R1_Distill_Qwen_14B = 'deepseek-r1-distill-qwen-14b',
+    Claude_3_5_Sonnet = 'claude-3-5-sonnet-20240620',
+    O4_Mini = 'o4-mini',
+    GEMINI_2_FLASH = 'gemini-2.0-flash',
+    QWQ_32B = 'accounts/fireworks/models/qwq-32b',
+    Deepseek_R1 = 'accounts/fireworks/models/deepseek-r1',
+    Claude_3_7_Sonnet = 'claude-3-7-sonnet-20250219',
+}
+
+export type ModelProvider = 'openai' | 'anthropic' | 'together' | 'google' | 'fireworks';
+
+export type ProviderApiKeyName =
+    | 'OPENAI_API_KEY'
+    | 'ANTHROPIC_API_KEY'
+    | 'TOGETHER_API_KEY'
+    | 'GEMINI_API_KEY'
+    | 'FIREWORKS_API_KEY';
+
+// The key a user saves in settings to run a provider's models in their browser
+export const PROVIDER_API_KEY_NAMES: Record<ModelProvider, ProviderApiKeyName> = {
+    openai: 'OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+    together: 'TOGETHER_API_KEY',
+    google: 'GEMINI_API_KEY',
+    fireworks: 'FIREWORKS_API_KEY',
+};
+
+export type ModelCapabilities = {
+    // Accepts image parts, gates image upload
+    vision: boolean;
+    toolCalling: boolean;
+    // Streams reasoning before the answer, natively or in <think> tags
+    reasoning: boolean;
+    // Native JSON output for generateObject
+    jsonMode: boolean;
+};
+
+export type ModelDefinition = {
+    id: ModelEnum;
+    name: string;
+    provider: ModelProvider;
+    contextWindow: number;
+    maxOutputTokens: number;
+    capabilities: ModelCapabilities;
+    // USD per million tokens, calls of models without it are priced at 0
+    pricing?: {
+        input: number;
+        output: number;
+    };
+};
+
+/**
+ * Every built-in model, the single place to add one. Chat modes, credit costs, history
+ * limits, image upload gating and the key that unlocks a model are derived from it and
+ * from CHAT_MODE_CATALOG in `./chat-mode`.
+ */
+export const MODEL_CATALOG: Record<ModelEnum, ModelDefinition> = {
+    [ModelEnum.GPT_4o_Mini]: {
+        id: ModelEnum.GPT_4o_Mini,
+        name: 'GPT 4o Mini',
+        provider: 'openai',
+        contextWindow: 128000,
+        maxOutputTokens: 16384,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: true },
+        pricing: { input: 0.15, output: 0.6 },
+    },
+    [ModelEnum.GPT_4o]: {
+        id: ModelEnum.GPT_4o,
+        name: 'GPT 4o',
+        provider: 'openai',
+        contextWindow: 128000,
+        maxOutputTokens: 16384,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: true },
+        pricing: { input: 2.5, output: 10 },
+    },
+    [ModelEnum.GPT_4_1]: {
+        id: ModelEnum.GPT_4_1,
+        name: 'GPT 4.1',
+        provider: 'openai',
+        contextWindow: 1047576,
+        maxOutputTokens: 32768,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: true },
+        pricing: { input: 2, output: 8 },
+    },
+    [ModelEnum.GPT_4_1_Mini]: {
+        id: ModelEnum.GPT_4_1_Mini,
+        name: 'GPT 4.1 Mini',
+        provider: 'openai',
+        contextWindow: 1047576,
+        maxOutputTokens: 32768,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: true },
+        pricing: { input: 0.4, output: 1.6 },
+    },
+    [ModelEnum.GPT_4_1_Nano]: {
+        id: ModelEnum.GPT_4_1_Nano,
+        name: 'GPT 4.1 Nano',
+        provider: 'openai',
+        contextWindow: 1047576,
+        maxOutputTokens: 32768,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: true },
+        pricing: { input: 0.1, output: 0.4 },
+    },
+    [ModelEnum.O4_Mini]: {
+        id: ModelEnum.O4_Mini,
+        name: 'O4 Mini',
+        provider: 'openai',
+        contextWindow: 200000,
+        maxOutputTokens: 100000,
+        capabilities: { vision: true, toolCalling: true, reasoning: true, jsonMode: true },
+        pricing: { input: 1.1, output: 4.4 },
+    },
+    [ModelEnum.Deepseek_R1_Distill_Qwen_14B]: {
+        id: ModelEnum.Deepseek_R1_Distill_Qwen_14B,
+        name: 'DeepSeek R1 Distill Qwen 14B',
+        provider: 'together',
+        contextWindow: 131072,
+        maxOutputTokens: 16384,
+        capabilities: { vision: false, toolCalling: false, reasoning: true, jsonMode: false },
+        pricing: { input: 1.6, output: 1.6 },
+    },
+    [ModelEnum.Deepseek_R1]: {
+        id: ModelEnum.Deepseek_R1,
+        name: 'DeepSeek R1',
+        provider: 'fireworks',
+        contextWindow: 163840,
+        maxOutputTokens: 16384,
+        capabilities: { vision: false, toolCalling: false, reasoning: true, jsonMode: false },
+        pricing: { input: 3, output: 8 },
+    },
+    [ModelEnum.Claude_3_5_Sonnet]: {
+        id: ModelEnum.Claude_3_5_Sonnet,
+        name: 'Claude 3.5 Sonnet',
+        provider: 'anthropic',
+        contextWindow: 200000,
+        maxOutputTokens: 8192,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: false },
+        pricing: { input: 3, output: 15 },
+    },
+    [ModelEnum.Claude_3_7_Sonnet]: {
+        id: ModelEnum.Claude_3_7_Sonnet,
+        name: 'Claude 3.7 Sonnet',
+        provider: 'anthropic',
+        contextWindow: 200000,
+        maxOutputTokens: 64000,
+        capabilities: { vision: true, toolCalling: true, reasoning: true, jsonMode: false },
+        pricing: { input: 3, output: 15 },
+    },
+    [ModelEnum.GEMINI_2_FLASH]: {
+        id: ModelEnum.GEMINI_2_FLASH,
+        name: 'Gemini 2 Flash',
+        provider: 'google',
+        contextWindow: 1048576,
+        maxOutputTokens: 8192,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: true },
+        pricing: { input: 0.1, output: 0.4 },
+    },
+    [ModelEnum.QWQ_32B]: {
+        id: ModelEnum.QWQ_32B,
+        name: 'QWQ 32B',
+        provider: 'fireworks',
+        contextWindow: 131072,
+        maxOutputTokens: 16384,
+        capabilities: { vision: false, toolCalling: false, reasoning: true, jsonMode: false },
+        pricing: { input: 0.9, output: 0.9 },
+    },
+    [ModelEnum.LLAMA_4_SCOUT]: {
+        id: ModelEnum.LLAMA_4_SCOUT,
+        name: 'Llama 4 Scout',
+        provider: 'fireworks',
+        contextWindow: 131072,
+        maxOutputTokens: 16384,
+        capabilities: { vision: true, toolCalling: true, reasoning: false, jsonMode: true },
+        pricing: { input: 0.15, output: 0.6 },
+    },
+};
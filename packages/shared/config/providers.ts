@@ -0,0 +1,135 @@
+import { ModelCapabilities } from './models';
+
+// Models of providers registered at runtime, `<provider id>/<model id>`, e.g. 'ollama/llama3.1:8b'
+export type CustomChatMode = `${string}/${string}`;
+
+export type ProviderModelConfig = {
+    // The id the endpoint expects, e.g. 'llama3.1:8b'
+    id: string;
+    name?: string;
+    contextWindow?: number;
+    maxOutputTokens?: number;
+    // Unset capabilities are assumed missing, vision gates image upload
+    capabilities?: Partial<ModelCapabilities>;
+    // USD per million tokens
+    pricing?: {
+        input: number;
+        output: number;
+    };
+    webSearch?: boolean;
+    // Credits charged per request when the server runs the model, 1 by default
+    creditCost?: number;
+    isAuthRequired?: boolean;
+};
+
+/**
+ * A provider added from config. Any OpenAI-compatible endpoint works, e.g. Ollama at
+ * `http://localhost:11434/v1`, LM Studio, vLLM or llama.cpp. A config with the id of a
+ * built-in provider only adds models to it.
+ */
+export type ProviderConfig = {
+    id: string;
+    name?: string;
+    baseURL?: string;
+    apiKey?: string;
+    headers?: Record<string, string>;
+    rateLimit?: {
+        rpm?: number;
+        tpm?: number;
+        concurrency?: number;
+    };
+    models: ProviderModelConfig[];
+};
+
+// What the client may see of a provider configured on the server
+export type PublicProviderConfig = Pick<ProviderConfig, 'id' | 'name' | 'models'>;
+
+export type CustomChatModeConfig = {
+    mode: CustomChatMode;
+    providerId: string;
+    modelId: string;
+    name: string;
+    webSearch: boolean;
+    imageUpload: boolean;
+    retry: boolean;
+    creditCost: number;
+    isNew?: boolean;
+    isAuthRequired?: boolean;
+};
+
+export class ProviderConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderConfigError';
+    }
+}
+
+export const toPublicProviderConfig = ({
+    id,
+    name,
+    models,
+}: ProviderConfig): PublicProviderConfig => ({ id, name, models });
+
+export const getCustomChatMode = (providerId: string, modelId: string): CustomChatMode =>
+    `${providerId}/${modelId}`;
+
+// None of the built-in chat modes contain a slash
+export const isCustomChatMode = (mode?: string): mode is CustomChatMode =>
+    !!mode && mode.indexOf('/') > 0;
+
+// Splits on the first slash only, model ids may contain slashes and colons
+export const parseCustomChatMode = (mode: CustomChatMode) => {
+    const index = mode.indexOf('/');
+    return { providerId: mode.slice(0, index), modelId: mode.slice(index + 1) };
+};
+
+export const validateProviderConfig = (config: ProviderConfig, builtInIds: string[] = []) => {
+    if (!config?.id || config.id.includes('/')) {
+        throw new ProviderConfigError(`Provider id "${config?.id}" must be set without a "/".`);
+    }
+    if (!builtInIds.includes(config.id) && !config.baseURL) {
+        throw new ProviderConfigError(`Provider "${config.id}" needs a baseURL.`);
+    }
+    if (!Array.isArray(config.models) || config.models.some(model => !model?.id)) {
+        throw new ProviderConfigError(`Provider "${config.id}" needs a list of models with ids.`);
+    }
+};
+
+const customChatModes = new Map<CustomChatMode, CustomChatModeConfig>();
+
+/**
+ * Make the models of `providers` selectable as chat modes in this process. Called by
+ * `registerProvider` on the server and in the worker, and by the client when it loads
+ * the providers.
+ */
+export const registerProviderChatModes = (providers: PublicProviderConfig[]) => {
+    providers.forEach(provider => {
+        provider.models.forEach(model => {
+            const mode = getCustomChatMode(provider.id, model.id);
+            customChatModes.set(mode, {
+                mode,
+                providerId: provider.id,
+                modelId: model.id,
+                name: model.name || model.id,
+                webSearch: model.webSearch ?? true,
+                imageUpload: model.capabilities?.vision ?? false,
+                retry: true,
+                creditCost: model.creditCost ?? 1,
+                isAuthRequired: model.isAuthRequired,
+            });
+        });
+    });
+};
+
+export const removeProviderChatModes = (providerId: string) => {
+    Array.from(customChatModes.keys()).forEach(mode => {
+        if (customChatModes.get(mode)?.providerId === providerId) {
+            customChatModes.delete(mode);
+        }
+    });
+};
+
+export const getCustomChatModeConfig = (mode: CustomChatMode) => customChatModes.get(mode);
+
+export const getCustomChatModes = (): CustomChatModeConfig[] =>
+    Array.from(customChatModes.values());
@@ -1,4 +1,4 @@
-import { ChatMode } from './config';
+import { ChatModeId } from './config';
 
 export type Project = {
     id: string;
@@ -16,6 +16,15 @@ export type Thread = {
     pinned: boolean;
     pinnedAt: Date;
     projectId?: string;
+    // Earlier turns compacted out of the history sent to the model
+    summary?: ThreadSummary;
+};
+
+// Rolling summary of the turns evicted from a thread's history, extended on each compaction
+export type ThreadSummary = {
+    text: string;
+    // Items whose turns it covers, in thread order, they are no longer sent unless pinned
+    threadItemIds: string[];
 };
 
 export type SubStep = {
@@ -23,6 +32,16 @@ export type SubStep = {
     status: ItemStatus;
 };
 
+// A model that failed and the one that answered in its place, listed in the step it ran in
+export type ModelFallback = {
+    task?: string;
+    from: string;
+    fromName: string;
+    to: string;
+    toName: string;
+    reason: string;
+};
+
 export type ItemStatus = 'QUEUED' | 'PENDING' | 'COMPLETED' | 'ERROR' | 'ABORTED' | 'HUMAN_REVIEW';
 
 export type Step = {
@@ -59,6 +78,22 @@ export type ToolResult = {
     result: any;
 };
 
+export type UsageTotals = {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    reasoningTokens: number;
+    totalTokens: number;
+    // In USD
+    cost: number;
+};
+
+export type ThreadItemUsage = {
+    total: UsageTotals;
+    tasks: Record<string, UsageTotals>;
+    models: Record<string, UsageTotals>;
+};
+
 export type ThreadItem = {
     query: string;
     toolCalls?: Record<string, ToolCall>;
@@ -72,13 +107,30 @@ export type ThreadItem = {
     parentId?: string;
     threadId: string;
     metadata?: Record<string, any>;
-    mode: ChatMode;
+    mode: ChatModeId;
     error?: string;
     suggestions?: string[];
+    retry?: {
+        task: string;
+        attempt: number;
+        maxRetries: number;
+        status: ItemStatus;
+    };
+    // Input a suspended workflow is waiting for, e.g. a clarification or a plan approval
+    input?: {
+        key: string;
+        task: string;
+        request?: any;
+        status: ItemStatus;
+    };
+    // Tokens and cost of the run that produced this item
+    usage?: ThreadItemUsage;
     persistToDB?: boolean;
     sources?: Source[];
     object?: Record<string, any>;
     imageAttachment?: string;
+    // Pinned items are always sent verbatim, compaction never summarizes them
+    pinned?: boolean;
 };
 
 export type MessageGroup = {
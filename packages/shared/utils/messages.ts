@@ -1,30 +1,43 @@
-import { ThreadItem } from '@repo/shared/types';
+import { ThreadItem, ThreadSummary } from '@repo/shared/types';
 
+/**
+ * The thread as chat messages, the previous turns followed by the query. Turns covered by
+ * the thread's summary are left out unless pinned, the summary stands in for them. Each
+ * turn's messages carry its item's id and pin, so compaction can tell turns apart.
+ */
 export const buildCoreMessagesFromThreadItems = ({
     messages,
     query,
     imageAttachment,
+    summary,
 }: {
     messages: ThreadItem[];
     query: string;
     imageAttachment?: string;
+    summary?: ThreadSummary;
 }) => {
     const coreMessages = [
-        ...(messages || []).flatMap(item => [
-            {
-                role: 'user' as const,
-                content: item.imageAttachment
-                    ? [
-                          { type: 'text' as const, text: item.query || '' },
-                          { type: 'image' as const, image: item.imageAttachment },
-                      ]
-                    : item.query || '',
-            },
-            {
-                role: 'assistant' as const,
-                content: item.answer?.text || '',
-            },
-        ]),
+        ...(messages || [])
+            .filter(item => item.pinned || !summary?.threadItemIds.includes(item.id))
+            .flatMap(item => [
+                {
+                    role: 'user' as const,
+                    content: item.imageAttachment
+                        ? [
+                              { type: 'text' as const, text: item.query || '' },
+                              { type: 'image' as const, image: item.imageAttachment },
+                          ]
+                        : item.query || '',
+                    threadItemId: item.id,
+                    pinned: !!item.pinned,
+                },
+                {
+                    role: 'assistant' as const,
+                    content: item.answer?.text || '',
+                    threadItemId: item.id,
+                    pinned: !!item.pinned,
+                },
+            ]),
         {
             role: 'user' as const,
             content: imageAttachment